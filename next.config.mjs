@@ -1,3 +1,6 @@
+// GitHub Pages 部署时的基础路径（如果仓库名不是用户名.github.io）
+const basePath = process.env.NODE_ENV === 'production' ? '/insuralytics' : '';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'export',
@@ -9,9 +12,12 @@ const nextConfig = {
     // 在构建时忽略ESLint错误
     ignoreDuringBuilds: true,
   },
-  // GitHub Pages 部署时的基础路径（如果仓库名不是用户名.github.io）
-  basePath: process.env.NODE_ENV === 'production' ? '/insuralytics' : '',
-  assetPrefix: process.env.NODE_ENV === 'production' ? '/insuralytics/' : '',
+  basePath,
+  assetPrefix: basePath ? `${basePath}/` : '',
+  // 客户端注册 Service Worker、引用 manifest 时使用
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
 };
 
 export default nextConfig;
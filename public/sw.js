@@ -0,0 +1,108 @@
+/**
+ * 离线 Service Worker
+ * 构建后由 scripts/generate-service-worker.js 注入构建版本与预缓存列表：
+ * 安装时预缓存应用外壳与静态资源，页面请求网络优先、离线时回退缓存，
+ * 带哈希的静态资源缓存优先；新版本安装后等待页面确认再接管
+ */
+
+const BUILD_VERSION = '__BUILD_VERSION__'
+const PRECACHE_URLS = [] // __PRECACHE_URLS__
+
+const CACHE_PREFIX = 'insuralytics-'
+const PRECACHE_NAME = `${CACHE_PREFIX}precache-${BUILD_VERSION}`
+const RUNTIME_NAME = `${CACHE_PREFIX}runtime-${BUILD_VERSION}`
+
+// 以 Service Worker 所在目录为基准（部署在子路径下时为 basePath）
+const BASE_URL = new URL('./', self.location.href)
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(PRECACHE_NAME)
+      .then(cache =>
+        cache.addAll(
+          PRECACHE_URLS.map(
+            url => new Request(new URL(url, BASE_URL), { cache: 'reload' })
+          )
+        )
+      )
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(
+          keys
+            .filter(
+              key =>
+                key.startsWith(CACHE_PREFIX) &&
+                key !== PRECACHE_NAME &&
+                key !== RUNTIME_NAME
+            )
+            .map(key => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+// 页面确认更新后立即激活新版本
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  }
+})
+
+/**
+ * 网络优先：成功时更新运行时缓存，失败时回退缓存（页面请求最终回退首页）
+ */
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME_NAME)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true })
+    if (cached) return cached
+    if (request.mode === 'navigate') {
+      const shell = await caches.match(new URL('./', BASE_URL).href)
+      if (shell) return shell
+    }
+    throw error
+  }
+}
+
+/**
+ * 缓存优先：带内容哈希的静态资源不会变化
+ */
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_NAME)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+  if (!url.pathname.startsWith(BASE_URL.pathname)) return
+
+  if (url.pathname.includes('/_next/static/')) {
+    event.respondWith(cacheFirst(request))
+    return
+  }
+  event.respondWith(networkFirst(request))
+})
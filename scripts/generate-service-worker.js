@@ -0,0 +1,76 @@
+/**
+ * 生成离线 Service Worker
+ * 在 next build 静态导出之后运行：遍历 out/ 生成预缓存列表，
+ * 按全部文件内容计算构建版本并注入 out/sw.js。
+ * 每次构建内容变化时 sw.js 随之变化，浏览器据此发现新版本并提示更新
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const OUT_DIR = path.join(__dirname, '../out');
+const SW_FILE = path.join(OUT_DIR, 'sw.js');
+
+// 不预缓存的文件：Service Worker 自身、部署标记和 source map
+const EXCLUDED = [/^sw\.js$/, /^\.nojekyll$/, /\.map$/];
+
+function walk(dir, files = []) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      walk(fullPath, files);
+    } else {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * 文件路径 → 相对 Service Worker 的 URL（trailingSlash 导出的 index.html 以目录地址缓存）
+ */
+function toPrecacheUrl(relativePath) {
+  if (relativePath === 'index.html') return './';
+  if (relativePath.endsWith('/index.html')) {
+    return `./${relativePath.slice(0, -'index.html'.length)}`;
+  }
+  return `./${relativePath}`;
+}
+
+if (!fs.existsSync(SW_FILE)) {
+  console.error('❌ 未找到 out/sw.js，请先运行 next build');
+  process.exit(1);
+}
+
+const hash = crypto.createHash('sha256');
+const urls = [];
+
+walk(OUT_DIR)
+  .map(file => path.relative(OUT_DIR, file).split(path.sep).join('/'))
+  .filter(relativePath => !EXCLUDED.some(pattern => pattern.test(relativePath)))
+  .sort()
+  .forEach(relativePath => {
+    hash.update(relativePath);
+    hash.update(fs.readFileSync(path.join(OUT_DIR, relativePath)));
+    urls.push(toPrecacheUrl(relativePath));
+  });
+
+const buildVersion = hash.digest('hex').slice(0, 12);
+const template = fs.readFileSync(SW_FILE, 'utf-8');
+const VERSION_PLACEHOLDER = "'__BUILD_VERSION__'";
+const URLS_PLACEHOLDER = '[] // __PRECACHE_URLS__';
+
+if (!template.includes(VERSION_PLACEHOLDER) || !template.includes(URLS_PLACEHOLDER)) {
+  console.error('❌ out/sw.js 中缺少构建占位符，可能已处理过');
+  process.exit(1);
+}
+
+fs.writeFileSync(
+  SW_FILE,
+  template
+    .replace(VERSION_PLACEHOLDER, JSON.stringify(buildVersion))
+    .replace(URLS_PLACEHOLDER, JSON.stringify(urls, null, 2))
+);
+
+console.log(`✅ Service Worker 已生成：版本 ${buildVersion}，预缓存 ${urls.length} 个文件`);
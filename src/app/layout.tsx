@@ -1,7 +1,10 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import localFont from 'next/font/local'
 import './globals.css'
 import { ErrorBoundary } from '@/components/error-boundary'
+import { OfflineStatus } from '@/components/features/offline-status'
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? ''
 
 const geistSans = localFont({
   src: './fonts/GeistVF.woff',
@@ -17,6 +20,19 @@ const geistMono = localFont({
 export const metadata: Metadata = {
   title: '车险多维数据分析平台',
   description: '车险业务数据可视化分析与智能决策支持系统',
+  manifest: `${BASE_PATH}/manifest.webmanifest`,
+  icons: {
+    icon: `${BASE_PATH}/icons/icon-192.png`,
+    apple: `${BASE_PATH}/icons/apple-touch-icon.png`,
+  },
+  appleWebApp: {
+    capable: true,
+    title: '车险分析',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#2563eb',
 }
 
 export default function RootLayout({
@@ -30,6 +46,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 antialiased`}
       >
         <ErrorBoundary>{children}</ErrorBoundary>
+        <OfflineStatus />
       </body>
     </html>
   )
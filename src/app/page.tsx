@@ -2,6 +2,18 @@
 
 import { Database } from 'lucide-react'
 import { FileUpload } from '@/components/features/file-upload'
+import { PasteImport } from '@/components/features/paste-import'
+import { DatasetSwitcher } from '@/components/features/dataset-switcher'
+import { SnapshotHistory } from '@/components/features/snapshot-history'
+import { WorkspaceBundle } from '@/components/features/workspace-bundle'
+import { PersistProgress } from '@/components/features/persist-progress'
+import { TabSyncPrompt } from '@/components/features/tab-sync-prompt'
+import { EncryptionSettings } from '@/components/features/encryption-settings'
+import { EncryptionLock } from '@/components/features/encryption-lock'
+import {
+  StorageManager,
+  StorageQuotaWarning,
+} from '@/components/features/storage-manager'
 import { FullKPIDashboard } from '@/components/features/full-kpi-dashboard'
 import { TimeProgressIndicator } from '@/components/features/time-progress-indicator'
 import { TrendChart } from '@/components/features/trend-chart'
@@ -62,8 +74,9 @@ export default function HomePage() {
     }),
     [premiumTargetsOverall]
   )
-  const { currentKpi, compareKpi, previousWeekNumber } =
-    useSmartComparison(smartComparisonOptions)
+  const { currentKpi, compareKpi, previousWeekNumber } = useSmartComparison(
+    smartComparisonOptions
+  )
 
   const [showFilters, setShowFilters] = useState(false)
   const [mounted, setMounted] = useState(false)
@@ -96,6 +109,7 @@ export default function HomePage() {
 
   // 判断是否有数据
   const hasData = rawData.length > 0
+  const hasSavedDatasets = useAppStore(state => state.datasets.length > 0)
 
   // 计算时间进度（当前年度已过天数占365天的百分比）
   const timeProgress = useMemo(() => {
@@ -198,6 +212,14 @@ export default function HomePage() {
               <h2 className="text-xl font-semibold text-slate-800">
                 上传数据文件以开始分析
               </h2>
+              <div className="ml-auto flex items-center gap-3">
+                {hasSavedDatasets && <DatasetSwitcher />}
+                <SnapshotHistory />
+                <WorkspaceBundle />
+                <StorageManager />
+                <EncryptionSettings />
+                <PasteImport />
+              </div>
             </div>
             <div className="mt-6">
               <FileUpload />
@@ -283,6 +305,10 @@ export default function HomePage() {
         </Dialog>
       )}
 
+      <PersistProgress />
+      <TabSyncPrompt />
+      <StorageQuotaWarning />
+      <EncryptionLock />
       <Toaster />
     </div>
   )
@@ -0,0 +1,480 @@
+/**
+ * 业务规则设置
+ * 编辑导入时执行的业务规则（启用状态、严重程度、字段表达式与提示信息），保存在本地
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { ListChecks, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import {
+  describeExpression,
+  loadBusinessRules,
+  resetBusinessRules,
+  saveBusinessRules,
+  RULE_OPERATOR_LABELS,
+  type BusinessRule,
+  type RuleExpression,
+  type RuleOperator,
+} from '@/lib/validations/business-rules'
+import { REQUIRED_FIELDS, FIELD_LABELS } from '@/lib/parsers/column-mapping'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+const SEVERITY_LABELS: Record<BusinessRule['severity'], string> = {
+  error: '错误（拒绝记录）',
+  warning: '警告',
+  info: '提示',
+}
+
+const inputClass =
+  'rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+/**
+ * 解析常量输入：数值、布尔或文本
+ */
+function parseLiteral(text: string): string | number | boolean {
+  const trimmed = text.trim()
+  if (trimmed === 'true') return true
+  if (trimmed === 'false') return false
+  if (trimmed !== '' && Number.isFinite(Number(trimmed))) return Number(trimmed)
+  return trimmed
+}
+
+function FieldSelect({
+  value,
+  onChange,
+}: {
+  value: string
+  onChange: (field: string) => void
+}) {
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className={inputClass}
+    >
+      {REQUIRED_FIELDS.map(field => (
+        <option key={field} value={field}>
+          {FIELD_LABELS[field] ?? field}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+/**
+ * 字段表达式编辑器
+ */
+function ExpressionEditor({
+  expression,
+  onChange,
+}: {
+  expression: RuleExpression
+  onChange: (expression: RuleExpression) => void
+}) {
+  const { operand } = expression
+  const isListOperator =
+    expression.operator === 'in' || expression.operator === 'not_in'
+
+  const setOperator = (operator: RuleOperator) => {
+    const listOperator = operator === 'in' || operator === 'not_in'
+    if (listOperator && operand.type !== 'values') {
+      onChange({
+        ...expression,
+        operator,
+        operand: { type: 'values', values: [] },
+      })
+    } else if (!listOperator && operand.type === 'values') {
+      onChange({
+        ...expression,
+        operator,
+        operand: { type: 'value', value: 0 },
+      })
+    } else {
+      onChange({ ...expression, operator })
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FieldSelect
+        value={expression.field}
+        onChange={field => onChange({ ...expression, field })}
+      />
+      <select
+        value={expression.operator}
+        onChange={e => setOperator(e.target.value as RuleOperator)}
+        className={inputClass}
+      >
+        {(Object.keys(RULE_OPERATOR_LABELS) as RuleOperator[]).map(op => (
+          <option key={op} value={op}>
+            {RULE_OPERATOR_LABELS[op]}
+          </option>
+        ))}
+      </select>
+
+      {isListOperator ? (
+        <input
+          type="text"
+          value={operand.type === 'values' ? operand.values.join(',') : ''}
+          onChange={e =>
+            onChange({
+              ...expression,
+              operand: {
+                type: 'values',
+                values: e.target.value
+                  .split(/[,，]/)
+                  .map(v => v.trim())
+                  .filter(Boolean)
+                  .map(parseLiteral),
+              },
+            })
+          }
+          placeholder="取值，逗号分隔"
+          className={cn(inputClass, 'w-40')}
+        />
+      ) : (
+        <>
+          <select
+            value={operand.type}
+            onChange={e =>
+              onChange({
+                ...expression,
+                operand:
+                  e.target.value === 'field'
+                    ? { type: 'field', field: expression.field }
+                    : { type: 'value', value: 0 },
+              })
+            }
+            className={inputClass}
+          >
+            <option value="field">字段</option>
+            <option value="value">常量</option>
+          </select>
+          {operand.type === 'field' && (
+            <>
+              <FieldSelect
+                value={operand.field}
+                onChange={field =>
+                  onChange({ ...expression, operand: { ...operand, field } })
+                }
+              />
+              <span className="text-sm text-slate-500">×</span>
+              <input
+                type="number"
+                step="any"
+                value={operand.multiplier ?? 1}
+                onChange={e => {
+                  const multiplier = Number(e.target.value)
+                  onChange({
+                    ...expression,
+                    operand: {
+                      ...operand,
+                      multiplier:
+                        Number.isFinite(multiplier) && multiplier !== 1
+                          ? multiplier
+                          : undefined,
+                    },
+                  })
+                }}
+                className={cn(inputClass, 'w-20')}
+              />
+            </>
+          )}
+          {operand.type === 'value' && (
+            <input
+              type="text"
+              value={String(operand.value)}
+              onChange={e =>
+                onChange({
+                  ...expression,
+                  operand: {
+                    type: 'value',
+                    value: parseLiteral(e.target.value),
+                  },
+                })
+              }
+              className={cn(inputClass, 'w-32')}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export function BusinessRulesSettings() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [rules, setRules] = useState<BusinessRule[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setRules(loadBusinessRules())
+      setExpandedId(null)
+    }
+    setIsOpen(open)
+  }
+
+  const updateRule = (id: string, patch: Partial<BusinessRule>) => {
+    setRules(prev =>
+      prev.map(rule => (rule.id === id ? { ...rule, ...patch } : rule))
+    )
+  }
+
+  const addRule = () => {
+    const rule: BusinessRule = {
+      id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      name: '新规则',
+      enabled: true,
+      severity: 'warning',
+      message: '不满足业务规则',
+      check: {
+        field: 'signed_premium_yuan',
+        operator: '>=',
+        operand: { type: 'value', value: 0 },
+      },
+    }
+    setRules(prev => [...prev, rule])
+    setExpandedId(rule.id)
+  }
+
+  const handleSave = () => {
+    const result = saveBusinessRules(rules)
+    if (result.success) {
+      toast({
+        title: '业务规则已保存',
+        description: `${rules.filter(r => r.enabled).length} 条规则将在下次导入时生效`,
+      })
+      setIsOpen(false)
+    } else {
+      toast({
+        title: '保存失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <ListChecks className="w-4 h-4" />
+          业务校验规则
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>业务校验规则</DialogTitle>
+          <DialogDescription>
+            导入时在字段格式校验之后执行；错误级别的违规记录不会导入，警告和提示仅在结果中列出
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={cn(
+                'rounded-lg border p-3',
+                rule.enabled
+                  ? 'border-slate-200 bg-white'
+                  : 'border-slate-100 bg-slate-50 opacity-70'
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e =>
+                    updateRule(rule.id, { enabled: e.target.checked })
+                  }
+                  className="h-4 w-4 rounded text-blue-600"
+                />
+                <button
+                  onClick={() =>
+                    setExpandedId(expandedId === rule.id ? null : rule.id)
+                  }
+                  className="flex-1 text-left"
+                >
+                  <div className="text-sm font-medium text-slate-800">
+                    {rule.name}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {rule.when && rule.when.length > 0
+                      ? `当 ${rule.when.map(describeExpression).join(' 且 ')} 时，`
+                      : ''}
+                    {describeExpression(rule.check)}
+                  </div>
+                </button>
+                <select
+                  value={rule.severity}
+                  onChange={e =>
+                    updateRule(rule.id, {
+                      severity: e.target.value as BusinessRule['severity'],
+                    })
+                  }
+                  className={inputClass}
+                >
+                  {(
+                    Object.keys(SEVERITY_LABELS) as BusinessRule['severity'][]
+                  ).map(severity => (
+                    <option key={severity} value={severity}>
+                      {SEVERITY_LABELS[severity]}
+                    </option>
+                  ))}
+                </select>
+                {!rule.builtIn && (
+                  <button
+                    onClick={() =>
+                      setRules(prev => prev.filter(r => r.id !== rule.id))
+                    }
+                    className="rounded-md p-1.5 text-slate-500 hover:bg-red-50 hover:text-red-600"
+                    title="删除规则"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+
+              {expandedId === rule.id && (
+                <div className="mt-3 space-y-3 border-t border-slate-100 pt-3 text-sm">
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="space-y-1">
+                      <span className="text-xs text-slate-600">规则名称</span>
+                      <input
+                        type="text"
+                        value={rule.name}
+                        onChange={e =>
+                          updateRule(rule.id, { name: e.target.value })
+                        }
+                        className={cn(inputClass, 'w-full')}
+                        maxLength={50}
+                      />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-xs text-slate-600">提示信息</span>
+                      <input
+                        type="text"
+                        value={rule.message}
+                        onChange={e =>
+                          updateRule(rule.id, { message: e.target.value })
+                        }
+                        className={cn(inputClass, 'w-full')}
+                        maxLength={100}
+                      />
+                    </label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-slate-600">
+                        适用条件（全部满足时才校验）
+                      </span>
+                      <button
+                        onClick={() =>
+                          updateRule(rule.id, {
+                            when: [
+                              ...(rule.when ?? []),
+                              {
+                                field: 'insurance_type',
+                                operator: '==',
+                                operand: { type: 'value', value: '商业险' },
+                              },
+                            ],
+                          })
+                        }
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        + 添加条件
+                      </button>
+                    </div>
+                    {(rule.when ?? []).map((condition, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <ExpressionEditor
+                          expression={condition}
+                          onChange={next =>
+                            updateRule(rule.id, {
+                              when: (rule.when ?? []).map((c, i) =>
+                                i === index ? next : c
+                              ),
+                            })
+                          }
+                        />
+                        <button
+                          onClick={() =>
+                            updateRule(rule.id, {
+                              when: (rule.when ?? []).filter(
+                                (_, i) => i !== index
+                              ),
+                            })
+                          }
+                          className="text-slate-400 hover:text-red-600"
+                          title="删除条件"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <span className="text-xs text-slate-600">校验表达式</span>
+                    <ExpressionEditor
+                      expression={rule.check}
+                      onChange={check => updateRule(rule.id, { check })}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <div className="flex gap-2">
+            <button
+              onClick={addRule}
+              className="flex items-center gap-1 rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+            >
+              <Plus className="h-4 w-4" />
+              新增规则
+            </button>
+            <button
+              onClick={() => setRules(resetBusinessRules())}
+              className="flex items-center gap-1 rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+            >
+              <RotateCcw className="h-4 w-4" />
+              恢复默认
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSave}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              保存规则
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,430 @@
+/**
+ * 列映射向导
+ * 导入前预览文件前几行，自动推荐「源列 → 标准字段」映射，
+ * 支持逐项确认/修改，并可保存为命名方案供同来源文件自动套用
+ */
+
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { Save, Trash2, Wand2 } from 'lucide-react'
+import {
+  previewDataFile,
+  type FileParseOptions,
+} from '@/lib/parsers/file-parser'
+import type { DataFilePreview } from '@/lib/parsers/csv-parser'
+import {
+  REQUIRED_FIELDS,
+  DERIVABLE_FIELDS,
+  FIELD_LABELS,
+  getMissingFields,
+  suggestColumnMapping,
+  suggestionsToMapping,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  markMappingProfileUsed,
+  findMatchingProfile,
+  type ColumnMapping,
+  type ColumnMappingProfile,
+  type ColumnMappingSuggestion,
+} from '@/lib/parsers/column-mapping'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+
+interface ColumnMappingWizardProps {
+  file: File | null
+  parseOptions?: FileParseOptions
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: (mapping: ColumnMapping) => void
+}
+
+type MappingMethod = ColumnMappingSuggestion['method'] | 'manual'
+
+const METHOD_LABELS: Record<MappingMethod, string> = {
+  manual: '手动指定',
+  exact: '完全匹配',
+  alias: '名称匹配',
+  fuzzy: '模糊匹配',
+  profile: '方案',
+  none: '未匹配',
+}
+
+export function ColumnMappingWizard({
+  file,
+  parseOptions,
+  open,
+  onOpenChange,
+  onConfirm,
+}: ColumnMappingWizardProps) {
+  const [preview, setPreview] = useState<DataFilePreview | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [methods, setMethods] = useState<Record<string, MappingMethod>>({})
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [profileName, setProfileName] = useState('')
+
+  const applyProfile = (profile: ColumnMappingProfile) => {
+    setMapping({ ...profile.mapping })
+    setMethods(
+      Object.fromEntries(
+        Object.keys(profile.mapping).map(field => [field, 'profile' as const])
+      )
+    )
+    setActiveProfileId(profile.id)
+    setProfileName(profile.name)
+  }
+
+  // 打开时加载预览：优先沿用已确认的映射，其次套用匹配的方案，最后自动推荐
+  useEffect(() => {
+    if (!open || !file) return
+    let cancelled = false
+
+    setPreview(null)
+    setLoadError(null)
+    setProfiles(loadMappingProfiles())
+
+    previewDataFile(file, parseOptions)
+      .then(result => {
+        if (cancelled) return
+        setPreview(result)
+
+        const suggestions = suggestColumnMapping(result.headers)
+        const matched = findMatchingProfile(result.headers)
+        if (matched && !parseOptions?.columnMapping) {
+          applyProfile(matched)
+          return
+        }
+
+        setMapping(
+          parseOptions?.columnMapping ?? suggestionsToMapping(suggestions)
+        )
+        setMethods(
+          Object.fromEntries(suggestions.map(s => [s.field, s.method]))
+        )
+        setActiveProfileId(null)
+      })
+      .catch(error => {
+        if (cancelled) return
+        setLoadError(error instanceof Error ? error.message : '文件预览失败')
+      })
+
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, file, parseOptions?.sheetName, parseOptions?.headerRowIndex])
+
+  const headers = useMemo(() => preview?.headers ?? [], [preview])
+
+  const updateField = (field: string, source: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (source) {
+        next[field] = source
+      } else {
+        delete next[field]
+      }
+      return next
+    })
+    setMethods(prev => ({ ...prev, [field]: source ? 'manual' : 'none' }))
+  }
+
+  // 同一源列被多个字段使用时提示
+  const duplicateSources = useMemo(() => {
+    const counts = new Map<string, number>()
+    Object.values(mapping).forEach(source => {
+      counts.set(source, (counts.get(source) ?? 0) + 1)
+    })
+    return new Set(
+      Array.from(counts.entries())
+        .filter(([, count]) => count > 1)
+        .map(([source]) => source)
+    )
+  }, [mapping])
+
+  const unmappedFields = getMissingFields(
+    new Set(
+      REQUIRED_FIELDS.filter(
+        field => mapping[field] && headers.includes(mapping[field])
+      )
+    )
+  )
+  const canConfirm = preview !== null && unmappedFields.length === 0
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim()
+    if (!name) return
+    const profile = saveMappingProfile(name, headers, mapping)
+    setProfiles(loadMappingProfiles())
+    setActiveProfileId(profile.id)
+  }
+
+  const handleDeleteProfile = (id: string) => {
+    deleteMappingProfile(id)
+    setProfiles(loadMappingProfiles())
+    if (activeProfileId === id) setActiveProfileId(null)
+  }
+
+  const handleConfirm = () => {
+    if (!canConfirm) return
+    if (activeProfileId) markMappingProfileUsed(activeProfileId)
+    onConfirm(mapping)
+    onOpenChange(false)
+  }
+
+  const sampleValues = (source: string | undefined): string => {
+    if (!source || !preview) return ''
+    return preview.rows
+      .slice(0, 3)
+      .map(row => String(row[source] ?? ''))
+      .filter(Boolean)
+      .join(' / ')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>列映射配置</DialogTitle>
+          <DialogDescription>
+            {file?.name}
+            {parseOptions?.sheetName ? ` · ${parseOptions.sheetName}` : ''}
+            ：确认每个标准字段对应的源文件列，确认后按此映射导入
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {loadError}
+          </div>
+        )}
+
+        {!preview && !loadError && (
+          <div className="py-8 text-center text-sm text-slate-500">
+            正在读取文件预览...
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            {/* 映射方案 */}
+            <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={activeProfileId ?? ''}
+                  onChange={e => {
+                    const profile = profiles.find(p => p.id === e.target.value)
+                    if (profile) applyProfile(profile)
+                  }}
+                  className="flex-1 rounded-md border border-slate-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">
+                    {profiles.length > 0
+                      ? '选择已保存的映射方案...'
+                      : '暂无已保存的映射方案'}
+                  </option>
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}（已使用 {profile.useCount} 次）
+                    </option>
+                  ))}
+                </select>
+                {activeProfileId && (
+                  <button
+                    onClick={() => handleDeleteProfile(activeProfileId)}
+                    className="rounded-md p-1.5 text-slate-500 hover:bg-red-50 hover:text-red-600"
+                    title="删除方案"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    const suggestions = suggestColumnMapping(headers)
+                    setMapping(suggestionsToMapping(suggestions))
+                    setMethods(
+                      Object.fromEntries(
+                        suggestions.map(s => [s.field, s.method])
+                      )
+                    )
+                    setActiveProfileId(null)
+                  }}
+                  className="flex items-center gap-1 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+                >
+                  <Wand2 className="h-4 w-4" />
+                  重新推荐
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={profileName}
+                  onChange={e => setProfileName(e.target.value)}
+                  placeholder="方案名称，例如：核心系统周报导出"
+                  className="flex-1 rounded-md border border-slate-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  maxLength={50}
+                />
+                <button
+                  onClick={handleSaveProfile}
+                  disabled={!profileName.trim()}
+                  className="flex items-center gap-1 rounded-md bg-slate-700 px-3 py-1.5 text-sm text-white hover:bg-slate-800 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  保存为方案
+                </button>
+              </div>
+            </div>
+
+            {/* 字段映射表 */}
+            <div className="overflow-x-auto rounded-lg border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-xs text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">标准字段</th>
+                    <th className="px-3 py-2">源文件列</th>
+                    <th className="px-3 py-2">样例值</th>
+                    <th className="px-3 py-2">匹配方式</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {REQUIRED_FIELDS.map(field => {
+                    const source = mapping[field]
+                    const isMissing = !source || !headers.includes(source)
+                    const isDerived =
+                      isMissing && !unmappedFields.includes(field)
+                    const method = methods[field] ?? 'none'
+                    return (
+                      <tr key={field} className="border-t border-slate-100">
+                        <td className="px-3 py-1.5">
+                          <div className="font-medium text-slate-800">
+                            {FIELD_LABELS[field]}
+                          </div>
+                          <div className="text-xs text-slate-400">{field}</div>
+                        </td>
+                        <td className="px-3 py-1.5">
+                          <select
+                            value={isMissing ? '' : source}
+                            onChange={e => updateField(field, e.target.value)}
+                            className={cn(
+                              'w-full rounded-md border px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500',
+                              isMissing && !isDerived
+                                ? 'border-red-300 bg-red-50'
+                                : duplicateSources.has(source)
+                                  ? 'border-amber-300 bg-amber-50'
+                                  : 'border-slate-300'
+                            )}
+                          >
+                            <option value="">
+                              {isDerived
+                                ? `— 由${FIELD_LABELS[DERIVABLE_FIELDS[field]]}推导 —`
+                                : '— 未映射 —'}
+                            </option>
+                            {headers.map(header => (
+                              <option key={header} value={header}>
+                                {header}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="max-w-[200px] truncate px-3 py-1.5 text-xs text-slate-500">
+                          {sampleValues(isMissing ? undefined : source)}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          <span
+                            className={cn(
+                              'rounded px-1.5 py-0.5 text-xs',
+                              isMissing
+                                ? 'bg-red-100 text-red-700'
+                                : method === 'fuzzy'
+                                  ? 'bg-amber-100 text-amber-700'
+                                  : 'bg-green-100 text-green-700'
+                            )}
+                          >
+                            {isMissing
+                              ? METHOD_LABELS.none
+                              : METHOD_LABELS[method]}
+                          </span>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* 原始数据预览 */}
+            <div>
+              <p className="mb-2 text-xs font-semibold text-slate-700">
+                文件前 {preview.rows.length} 行预览（编码：{preview.encoding}）
+              </p>
+              <div className="overflow-x-auto rounded-lg border border-slate-200">
+                <table className="text-xs">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      {headers.map(header => (
+                        <th
+                          key={header}
+                          className="whitespace-nowrap px-2 py-1 text-left font-medium text-slate-600"
+                        >
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row, index) => (
+                      <tr key={index} className="border-t border-slate-100">
+                        {headers.map(header => (
+                          <td
+                            key={header}
+                            className="whitespace-nowrap px-2 py-1 text-slate-600"
+                          >
+                            {String(row[header] ?? '')}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <span className="text-xs text-slate-500">
+            {unmappedFields.length > 0
+              ? `还有 ${unmappedFields.length} 个字段未映射`
+              : duplicateSources.size > 0
+                ? '存在多个字段使用同一源列，请确认'
+                : '全部字段已映射'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onOpenChange(false)}
+              className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!canConfirm}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              确认映射
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,43 @@
+/**
+ * 数据契约下载
+ * 上传界面中提供导入模板、字段字典和 JSON Schema，内容均由校验 Schema 实时生成
+ */
+
+'use client'
+
+import React from 'react'
+import { BookOpen, Braces, FileSpreadsheet } from 'lucide-react'
+import {
+  downloadFieldDictionary,
+  downloadJSONSchema,
+  downloadTemplateCSV,
+} from '@/lib/export/data-contract'
+
+const DOWNLOADS = [
+  {
+    label: '导入模板 CSV',
+    icon: FileSpreadsheet,
+    onClick: downloadTemplateCSV,
+  },
+  { label: '字段字典', icon: BookOpen, onClick: downloadFieldDictionary },
+  { label: 'JSON Schema', icon: Braces, onClick: downloadJSONSchema },
+]
+
+export function DataContractDownloads() {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-xs text-slate-500">
+      <span>数据格式不确定？下载</span>
+      {DOWNLOADS.map(({ label, icon: Icon, onClick }) => (
+        <button
+          key={label}
+          type="button"
+          onClick={onClick}
+          className="flex items-center gap-1 text-blue-600 hover:text-blue-800 hover:underline"
+        >
+          <Icon className="w-3.5 h-3.5" />
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import {
+  Braces,
   Download,
   FileSpreadsheet,
   FileText,
@@ -23,6 +24,7 @@ import {
   exportKPISummary,
   exportFilteredData,
 } from '@/lib/export/csv-exporter'
+import { exportToJSONL } from '@/lib/export/jsonl-exporter'
 import { exportChartAsImage } from '@/lib/export/chart-exporter'
 import { useState } from 'react'
 
@@ -51,6 +53,16 @@ export function DataExport() {
     setOpen(false)
   }
 
+  /**
+   * 导出全部原始数据为 JSON Lines（保留字段类型，可无损重新导入）
+   */
+  const handleExportJSONL = () => {
+    exportToJSONL(rawData, {
+      filename: `保险数据_全部_${new Date().toISOString().split('T')[0]}`,
+    })
+    setOpen(false)
+  }
+
   /**
    * 导出过滤后的明细数据
    */
@@ -112,7 +124,8 @@ export function DataExport() {
             导出数据
           </DialogTitle>
           <DialogDescription>
-            选择要导出的数据类型。支持导出为CSV格式,可用Excel打开。
+            选择要导出的数据类型。支持导出为CSV格式,可用Excel打开；数据集存档为JSON
+            Lines格式。
           </DialogDescription>
         </DialogHeader>
 
@@ -136,6 +149,24 @@ export function DataExport() {
             </div>
           </div>
 
+          {/* 导出数据集（JSON Lines） */}
+          <div
+            onClick={handleExportJSONL}
+            className="flex items-start gap-3 p-4 border border-slate-200 rounded-lg hover:border-blue-300 hover:bg-blue-50/50 cursor-pointer transition-all group"
+          >
+            <div className="mt-1">
+              <Braces className="w-5 h-5 text-slate-600 group-hover:text-blue-600" />
+            </div>
+            <div className="flex-1">
+              <h4 className="font-medium text-slate-800 group-hover:text-blue-600 transition-colors">
+                导出数据集存档 (JSON Lines)
+              </h4>
+              <p className="text-sm text-slate-600 mt-1">
+                保留布尔值、空值等字段类型，可在数据导入中原样还原，适合存档和团队间交换
+              </p>
+            </div>
+          </div>
+
           {/* 导出过滤后的数据 */}
           <div
             onClick={hasFilteredData ? handleExportFiltered : undefined}
@@ -10,8 +10,14 @@ import {
   Download,
   Target,
   Zap,
+  TrendingDown,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import {
+  CUMULATIVE_METRIC_LABELS,
+  type CumulativeConsistencyReport,
+  type CumulativeRepairMode,
+} from '@/lib/validations/cumulative-consistency'
 
 interface DataQualityReportProps {
   totalRecords: number
@@ -28,8 +34,17 @@ interface DataQualityReportProps {
     }
   }
   fileName?: string
+  cumulativeReport?: CumulativeConsistencyReport // 跨周累计一致性校验结果
+  cumulativeRepair?: { mode: CumulativeRepairMode; changedRecords: number }
+  onRepairCumulative?: (mode: CumulativeRepairMode) => void
 }
 
+/**
+ * 金额格式化（万元）
+ */
+const formatWan = (yuan: number): string =>
+  `${(yuan / 10000).toLocaleString('zh-CN', { maximumFractionDigits: 2 })} 万元`
+
 interface QualityMetric {
   name: string
   value: number
@@ -48,6 +63,9 @@ export function DataQualityReport({
   invalidRecords,
   errorStats,
   fileName,
+  cumulativeReport,
+  cumulativeRepair,
+  onRepairCumulative,
 }: DataQualityReportProps) {
   /**
    * 计算数据质量指标
@@ -86,6 +104,21 @@ export function DataQualityReport({
       return 'poor'
     }
 
+    // 跨周一致性评分（基于相邻周次累计值回退比例）
+    const cumulativeMetrics: QualityMetric[] = []
+    if (cumulativeReport && cumulativeReport.checkedPairs > 0) {
+      const cumulativeScore =
+        100 -
+        (cumulativeReport.affectedRecords / cumulativeReport.checkedPairs) * 100
+      cumulativeMetrics.push({
+        name: '跨周一致性',
+        value: cumulativeScore,
+        percentage: cumulativeScore,
+        status: getStatus(cumulativeScore),
+        description: '相邻周次累计值未出现回退的比例',
+      })
+    }
+
     return [
       {
         name: '数据完整性',
@@ -115,8 +148,9 @@ export function DataQualityReport({
         status: getStatus(consistencyScore),
         description: '数据格式和规范的一致性',
       },
+      ...cumulativeMetrics,
     ]
-  }, [totalRecords, validRecords, errorStats])
+  }, [totalRecords, validRecords, errorStats, cumulativeReport])
 
   /**
    * 计算总体质量评分
@@ -187,6 +221,34 @@ export function DataQualityReport({
         field,
         count,
       ]),
+      ...(cumulativeReport && cumulativeReport.regressions.length > 0
+        ? [
+            [''],
+            ['累计值回退明细'],
+            [
+              '年度',
+              '周次',
+              '前一周次',
+              '三级机构',
+              '业务类型',
+              '指标',
+              '前值',
+              '当前值',
+              '差额',
+            ],
+            ...cumulativeReport.regressions.map(r => [
+              r.policy_start_year,
+              r.week_number,
+              r.previous_week_number,
+              r.third_level_organization,
+              r.business_type_category,
+              CUMULATIVE_METRIC_LABELS[r.metric],
+              r.previousValue,
+              r.currentValue,
+              r.delta,
+            ]),
+          ]
+        : []),
     ]
 
     const csvContent = reportData
@@ -381,6 +443,136 @@ export function DataQualityReport({
           </div>
         </div>
 
+        {/* 跨周累计一致性 */}
+        {cumulativeReport && cumulativeReport.regressions.length > 0 && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <TrendingDown className="w-5 h-5 text-red-600 mt-0.5" />
+                <div>
+                  <h5 className="font-medium text-red-800">
+                    累计值回退：{cumulativeReport.regressions.length} 处
+                  </h5>
+                  <p className="text-sm text-red-700">
+                    数据为累计口径，以下维度组合在相邻周次间出现下降，将导致周增量为负
+                  </p>
+                </div>
+              </div>
+              {onRepairCumulative && (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => onRepairCumulative('clamp')}
+                    className="px-3 py-1.5 text-sm bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-100"
+                    title="将回退指标截断为前一周的累计值，周增量记为 0"
+                  >
+                    截断为零增量
+                  </button>
+                  <button
+                    onClick={() => onRepairCumulative('exclude')}
+                    className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+                    title="剔除出现回退的维度组合周次记录"
+                  >
+                    剔除异常周次
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+              {(
+                [
+                  ['按机构', cumulativeReport.byOrganization],
+                  ['按业务类型', cumulativeReport.byBusinessType],
+                  ['按周次', cumulativeReport.byWeek],
+                ] as const
+              ).map(([title, groups]) => (
+                <div key={title} className="bg-white/80 rounded-lg p-3">
+                  <div className="font-medium text-slate-700 mb-2">{title}</div>
+                  <div className="space-y-1">
+                    {groups.slice(0, 6).map(group => (
+                      <div
+                        key={group.label}
+                        className="flex justify-between gap-2"
+                      >
+                        <span className="text-slate-600 truncate">
+                          {group.label}
+                        </span>
+                        <span className="text-slate-800 whitespace-nowrap">
+                          {group.count} 处
+                          {group.premiumDelta < 0 &&
+                            ` · ${formatWan(group.premiumDelta)}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="max-h-60 overflow-y-auto bg-white/80 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="text-left text-slate-600">
+                  <tr>
+                    <th className="px-2 py-1">周次</th>
+                    <th className="px-2 py-1">三级机构</th>
+                    <th className="px-2 py-1">业务类型</th>
+                    <th className="px-2 py-1">指标</th>
+                    <th className="px-2 py-1 text-right">前一周</th>
+                    <th className="px-2 py-1 text-right">本周</th>
+                    <th className="px-2 py-1 text-right">差额</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...cumulativeReport.regressions]
+                    .sort((a, b) => a.delta - b.delta)
+                    .slice(0, 50)
+                    .map((r, index) => (
+                      <tr key={index} className="border-t border-slate-100">
+                        <td className="px-2 py-1">
+                          {r.policy_start_year}年 第{r.previous_week_number}→
+                          {r.week_number}周
+                        </td>
+                        <td className="px-2 py-1">
+                          {r.third_level_organization}
+                        </td>
+                        <td className="px-2 py-1">
+                          {r.business_type_category}
+                        </td>
+                        <td className="px-2 py-1">
+                          {CUMULATIVE_METRIC_LABELS[r.metric]}
+                        </td>
+                        <td className="px-2 py-1 text-right">
+                          {r.previousValue.toLocaleString()}
+                        </td>
+                        <td className="px-2 py-1 text-right">
+                          {r.currentValue.toLocaleString()}
+                        </td>
+                        <td className="px-2 py-1 text-right text-red-600">
+                          {r.delta.toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+              {cumulativeReport.regressions.length > 50 && (
+                <p className="px-2 py-1 text-xs text-slate-500">
+                  仅显示差额最大的 50 处，完整明细请导出报告
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {cumulativeRepair && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            已{cumulativeRepair.mode === 'exclude' ? '剔除' : '截断'}
+            累计值回退，影响 {cumulativeRepair.changedRecords} 条记录
+            {cumulativeReport && cumulativeReport.regressions.length > 0
+              ? `，仍有 ${cumulativeReport.regressions.length} 处回退`
+              : ''}
+          </div>
+        )}
+
         {/* 改进建议 */}
         {overallScore < 90 && (
           <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useMemo } from 'react'
+import React, { useMemo, useState } from 'react'
 import {
   Wrench,
   Lightbulb,
@@ -10,8 +10,29 @@ import {
   BookOpen,
   Target,
   Zap,
+  Download,
+  Wand2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import {
+  getResultSourceName,
+  type FileUploadResult,
+} from '@/hooks/use-file-upload'
+import {
+  buildChangeLogCSV,
+  buildCorrectedCSV,
+  repairAndRevalidate,
+  REPAIR_ACTION_LABELS,
+  type RepairAction,
+  type RepairResult,
+  type RepairRow,
+} from '@/lib/dataset/data-repair'
+import { downloadCSV } from '@/lib/export/csv-exporter'
+import {
+  collectCorrections,
+  type EnumCorrection,
+} from '@/lib/parsers/enum-aliases'
+import { EnumAliasSuggestions } from './enum-alias-suggestions'
 
 interface DataRepairSuggestionsProps {
   errorStats: {
@@ -25,6 +46,7 @@ interface DataRepairSuggestionsProps {
     }
   }
   totalRecords: number
+  results?: FileUploadResult[] // 各文件解析结果（用于自动修复被拒绝的行）
 }
 
 interface RepairSuggestion {
@@ -39,13 +61,185 @@ interface RepairSuggestion {
   relatedFields?: string[]
 }
 
+/**
+ * 自动修复面板
+ * 对被拒绝的行批量执行修复并重新校验，下载修正后的完整数据与修改日志
+ */
+function AutoRepairPanel({ results }: { results: FileUploadResult[] }) {
+  const [actions, setActions] = useState<RepairAction[]>(
+    Object.keys(REPAIR_ACTION_LABELS) as RepairAction[]
+  )
+  const [repairResult, setRepairResult] = useState<RepairResult | null>(null)
+
+  const rejectedRows = useMemo(
+    () =>
+      results.flatMap(result =>
+        (result.result?.rejectedRows ?? []).map(
+          (rejected): RepairRow => ({
+            sourceFile: getResultSourceName(result),
+            row: rejected.row,
+            data: rejected.source ?? rejected.data,
+          })
+        )
+      ),
+    [results]
+  )
+
+  if (rejectedRows.length === 0) return null
+
+  const toggleAction = (action: RepairAction) => {
+    setActions(prev =>
+      prev.includes(action) ? prev.filter(a => a !== action) : [...prev, action]
+    )
+    setRepairResult(null)
+  }
+
+  const handleRepair = () => {
+    setRepairResult(repairAndRevalidate(rejectedRows, actions))
+  }
+
+  // 枚举纠正的修改可收录为别名
+  const enumCorrections = new Map<string, EnumCorrection>()
+  collectCorrections(
+    enumCorrections,
+    (repairResult?.changes ?? []).flatMap(change =>
+      change.action === 'enum' &&
+      typeof change.before === 'string' &&
+      typeof change.after === 'string'
+        ? [
+            {
+              field: change.field,
+              from: change.before.trim(),
+              to: change.after,
+            },
+          ]
+        : []
+    )
+  )
+
+  const date = new Date().toISOString().split('T')[0]
+
+  const downloadCorrected = () => {
+    if (!repairResult) return
+    const validData = results.flatMap(result => result.result?.data ?? [])
+    downloadCSV(
+      buildCorrectedCSV(validData.concat(repairResult.recovered)),
+      `修正数据_${date}.csv`
+    )
+  }
+
+  const downloadChangeLog = () => {
+    if (!repairResult) return
+    downloadCSV(buildChangeLogCSV(repairResult.changes), `修改日志_${date}.csv`)
+  }
+
+  return (
+    <div className="border border-blue-200 bg-blue-50/50 rounded-lg p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        <Wand2 className="w-5 h-5 text-blue-600 mt-0.5" />
+        <div>
+          <h4 className="font-semibold text-slate-800">自动修复</h4>
+          <p className="text-sm text-slate-600">
+            对 {rejectedRows.length}{' '}
+            行未通过校验的数据批量执行以下修复，并按导入规则重新校验
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {(Object.keys(REPAIR_ACTION_LABELS) as RepairAction[]).map(action => (
+          <label
+            key={action}
+            className="flex items-center gap-2 text-sm text-slate-700"
+          >
+            <input
+              type="checkbox"
+              checked={actions.includes(action)}
+              onChange={() => toggleAction(action)}
+              className="h-4 w-4 rounded text-blue-600"
+            />
+            {REPAIR_ACTION_LABELS[action]}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleRepair}
+        disabled={actions.length === 0}
+        className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+      >
+        <Wrench className="w-4 h-4" />
+        执行修复并重新校验
+      </button>
+
+      {repairResult && (
+        <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-3">
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <span className="text-slate-600">修改单元格：</span>
+              <span className="font-medium text-blue-600">
+                {repairResult.changes.length}
+              </span>
+            </div>
+            <div>
+              <span className="text-slate-600">修复成功：</span>
+              <span className="font-medium text-green-600">
+                {repairResult.recovered.length} 行
+              </span>
+            </div>
+            <div>
+              <span className="text-slate-600">仍未通过：</span>
+              <span className="font-medium text-orange-600">
+                {repairResult.remaining.length} 行
+              </span>
+            </div>
+          </div>
+          {repairResult.remaining.length > 0 && (
+            <p className="text-xs text-slate-500">
+              仍未通过的行不包含在修正文件中，可在隔离区中手动修改，例如：
+              {repairResult.remaining
+                .slice(0, 3)
+                .map(
+                  row =>
+                    `${row.sourceFile} 第 ${row.row} 行（${row.errors[0]?.message ?? '校验失败'}）`
+                )
+                .join('；')}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={downloadCorrected}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm border border-slate-300 rounded-md text-slate-700 hover:bg-slate-100"
+            >
+              <Download className="w-4 h-4" />
+              下载修正后的 CSV
+            </button>
+            <button
+              onClick={downloadChangeLog}
+              disabled={repairResult.changes.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm border border-slate-300 rounded-md text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              下载修改日志
+            </button>
+          </div>
+          <EnumAliasSuggestions
+            corrections={Array.from(enumCorrections.values())}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
 /**
  * 数据修复建议组件
- * 基于错误分析提供具体的修复建议和操作指导
+ * 基于错误分析提供具体的修复建议和操作指导，被拒绝的行可一键自动修复
  */
 export function DataRepairSuggestions({
   errorStats,
   totalRecords,
+  results,
 }: DataRepairSuggestionsProps) {
   /**
    * 生成修复建议
@@ -314,6 +508,8 @@ export function DataRepairSuggestions({
       </div>
 
       <div className="p-6 space-y-6">
+        {results && <AutoRepairPanel results={results} />}
+
         {repairSuggestions.map(suggestion => (
           <div
             key={suggestion.id}
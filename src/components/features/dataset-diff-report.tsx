@@ -0,0 +1,179 @@
+/**
+ * 上传差异报告
+ * 展示新上传数据相对现有数据集的变化：新增/缺失周次、机构增减、重叠周次的合计重述
+ */
+
+'use client'
+
+import React from 'react'
+import { Building2, CalendarMinus, CalendarPlus, FileDiff } from 'lucide-react'
+import {
+  DIFF_METRIC_LABELS,
+  type DatasetDiff,
+  type MetricChange,
+} from '@/lib/dataset/dataset-diff'
+import { formatNumber, formatPercent } from '@/utils/format'
+import { cn } from '@/lib/utils'
+
+interface DatasetDiffReportProps {
+  diff: DatasetDiff
+  className?: string
+}
+
+/**
+ * 指标值显示：金额按万元，件数按整数
+ */
+function formatMetricValue(change: MetricChange, value: number): string {
+  return change.metric === 'claim_case_count'
+    ? formatNumber(value)
+    : `${formatNumber(value / 10000, 2)} 万元`
+}
+
+function formatDelta(change: MetricChange): string {
+  const sign = change.delta > 0 ? '+' : '-'
+  const amount = formatMetricValue(change, Math.abs(change.delta))
+  const rate =
+    change.changeRate === null
+      ? ''
+      : `（${sign}${formatPercent(Math.abs(change.changeRate))}）`
+  return `${sign}${amount}${rate}`
+}
+
+function WeekList({ weeks }: { weeks: Array<{ key: string }> }) {
+  return <span>{weeks.map(w => w.key).join('、')}</span>
+}
+
+export function DatasetDiffReport({ diff, className }: DatasetDiffReportProps) {
+  const hasChanges =
+    diff.addedWeeks.length > 0 ||
+    diff.appendedWeeks.length > 0 ||
+    diff.missingWeeks.length > 0 ||
+    diff.addedOrganizations.length > 0 ||
+    diff.missingOrganizations.length > 0 ||
+    diff.restatements.length > 0
+
+  return (
+    <div className={cn('space-y-3 text-sm', className)}>
+      <div className="flex items-center gap-2 font-medium text-slate-800">
+        <FileDiff className="h-4 w-4 text-slate-600" />
+        与现有数据集的差异
+      </div>
+
+      {!hasChanges && (
+        <div className="rounded-lg bg-slate-50 p-3 text-slate-600">
+          新数据与现有数据集的周次、机构和合计完全一致
+        </div>
+      )}
+
+      {(diff.addedWeeks.length > 0 || diff.appendedWeeks.length > 0) && (
+        <div className="flex items-start gap-2 rounded-lg bg-green-50 p-3 text-green-800">
+          <CalendarPlus className="mt-0.5 h-4 w-4 shrink-0" />
+          <div>
+            {diff.addedWeeks.length > 0 && (
+              <div>
+                新增 {diff.addedWeeks.length} 个周次：
+                <WeekList weeks={diff.addedWeeks} />
+              </div>
+            )}
+            {diff.appendedWeeks.length > 0 && (
+              <div>
+                补充 {diff.appendedWeeks.length} 个已有周次的新维度组合：
+                <WeekList weeks={diff.appendedWeeks} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {diff.missingWeeks.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg bg-slate-50 p-3 text-slate-700">
+          <CalendarMinus className="mt-0.5 h-4 w-4 shrink-0" />
+          <div>
+            新文件未包含 {diff.missingWeeks.length}{' '}
+            个现有周次（合并时保留不变）：
+            <WeekList weeks={diff.missingWeeks} />
+          </div>
+        </div>
+      )}
+
+      {(diff.addedOrganizations.length > 0 ||
+        diff.missingOrganizations.length > 0) && (
+        <div className="flex items-start gap-2 rounded-lg bg-amber-50 p-3 text-amber-800">
+          <Building2 className="mt-0.5 h-4 w-4 shrink-0" />
+          <div>
+            {diff.addedOrganizations.length > 0 && (
+              <div>新出现的机构：{diff.addedOrganizations.join('、')}</div>
+            )}
+            {diff.missingOrganizations.length > 0 && (
+              <div className="font-medium">
+                合并后将不再有记录的机构：
+                {diff.missingOrganizations.join('、')}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {diff.restatements.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-slate-700">
+            {diff.restatements.length}{' '}
+            个重叠周次的合计发生变化（数据重述），请确认是否为预期的更正：
+          </div>
+          <div className="max-h-64 overflow-y-auto rounded-lg border border-red-200">
+            <table className="w-full text-xs">
+              <thead className="bg-red-50 text-left text-slate-600">
+                <tr>
+                  <th className="px-3 py-2">周次</th>
+                  <th className="px-3 py-2">指标</th>
+                  <th className="px-3 py-2 text-right">现有</th>
+                  <th className="px-3 py-2 text-right">新数据</th>
+                  <th className="px-3 py-2 text-right">变化</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.restatements.flatMap(week =>
+                  week.changes.map((change, index) => (
+                    <tr
+                      key={`${week.key}-${change.metric}`}
+                      className="border-t border-slate-100"
+                    >
+                      <td className="px-3 py-1.5 font-medium text-slate-800">
+                        {index === 0 &&
+                          `${week.policy_start_year} 年第 ${week.week_number} 周`}
+                      </td>
+                      <td className="px-3 py-1.5 text-slate-700">
+                        {DIFF_METRIC_LABELS[change.metric]}
+                      </td>
+                      <td className="px-3 py-1.5 text-right">
+                        {formatMetricValue(change, change.existing)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right">
+                        {formatMetricValue(change, change.incoming)}
+                      </td>
+                      <td
+                        className={cn(
+                          'px-3 py-1.5 text-right font-medium',
+                          change.delta < 0 ? 'text-red-600' : 'text-green-600'
+                        )}
+                      >
+                        {formatDelta(change)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {diff.unchangedWeeks.length > 0 && (
+        <div className="text-xs text-slate-500">
+          {diff.unchangedWeeks.length} 个重叠周次合计未变化：
+          {diff.unchangedWeeks.join('、')}
+        </div>
+      )}
+    </div>
+  )
+}
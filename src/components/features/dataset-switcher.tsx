@@ -0,0 +1,246 @@
+/**
+ * 数据集切换器
+ * 在多个命名数据集之间切换，显示行数、覆盖周次、更新时间、来源文件和压缩后的存储占用，
+ * 支持重命名、删除和新建空数据集；底部显示浏览器统计的实际存储用量
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Check,
+  ChevronDown,
+  Database,
+  FolderPlus,
+  Pencil,
+  Trash2,
+} from 'lucide-react'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { useDatasetWorkspace } from '@/hooks/use-persist-data'
+import { getStorageEstimate } from '@/lib/storage/indexed-db'
+import { useToast } from '@/hooks/use-toast'
+import { formatCoveredWeeks, type DatasetMeta } from '@/lib/dataset/workspace'
+import { cn } from '@/lib/utils'
+
+/**
+ * 格式化存储大小
+ */
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1
+  )
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export function DatasetSwitcher() {
+  const {
+    datasets,
+    activeDatasetId,
+    switchDataset,
+    createDataset,
+    renameDataset,
+    removeDataset,
+  } = useDatasetWorkspace()
+  const [isOpen, setIsOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [switchingId, setSwitchingId] = useState<string | null>(null)
+  const [storage, setStorage] = useState<{
+    usage: number
+    quota: number
+  } | null>(null)
+  const { toast } = useToast()
+
+  const active = datasets.find(d => d.id === activeDatasetId)
+
+  const handleSwitch = async (meta: DatasetMeta) => {
+    if (meta.id === activeDatasetId || switchingId) return
+    setSwitchingId(meta.id)
+    const result = await switchDataset(meta.id)
+    setSwitchingId(null)
+    if (result.success) {
+      setIsOpen(false)
+    } else {
+      toast({
+        title: '切换失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const startRename = (meta: DatasetMeta, event: React.MouseEvent) => {
+    event.stopPropagation()
+    setEditingId(meta.id)
+    setDraftName(meta.name)
+  }
+
+  const commitRename = async () => {
+    if (!editingId) return
+    const result = await renameDataset(editingId, draftName)
+    if (!result.success) {
+      toast({
+        title: '重命名失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = async (meta: DatasetMeta, event: React.MouseEvent) => {
+    event.stopPropagation()
+    if (
+      confirm(
+        `确定要删除数据集「${meta.name}」吗？其中 ${meta.rowCount.toLocaleString()} 条数据将被永久删除。`
+      )
+    ) {
+      await removeDataset(meta.id)
+      toast({ title: '已删除数据集', description: meta.name })
+    }
+  }
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={open => {
+        setIsOpen(open)
+        if (open) getStorageEstimate().then(setStorage)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors max-w-[16rem]">
+          <Database className="w-4 h-4 shrink-0 text-slate-500" />
+          <span className="truncate">{active?.name ?? '未保存的数据集'}</span>
+          <ChevronDown className="w-4 h-4 shrink-0 text-slate-400" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <div className="px-4 py-3 border-b border-slate-200 text-xs font-semibold text-slate-600">
+          数据集（{datasets.length}）
+        </div>
+
+        <div className="max-h-80 overflow-y-auto py-1">
+          {datasets.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-slate-500">
+              暂无已保存的数据集，导入数据后自动保存
+            </p>
+          )}
+          {datasets.map(meta => {
+            const isActive = meta.id === activeDatasetId
+            return (
+              <div
+                key={meta.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => handleSwitch(meta)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') handleSwitch(meta)
+                }}
+                className={cn(
+                  'group flex items-start gap-2 px-4 py-2 cursor-pointer hover:bg-slate-50',
+                  isActive && 'bg-blue-50/60'
+                )}
+              >
+                <Check
+                  className={cn(
+                    'w-4 h-4 mt-0.5 shrink-0 text-blue-600',
+                    !isActive && 'invisible'
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  {editingId === meta.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      maxLength={50}
+                      onClick={event => event.stopPropagation()}
+                      onChange={event => setDraftName(event.target.value)}
+                      onKeyDown={event => {
+                        event.stopPropagation()
+                        if (event.key === 'Enter') commitRename()
+                        if (event.key === 'Escape') setEditingId(null)
+                      }}
+                      onBlur={commitRename}
+                      className="w-full px-2 py-0.5 text-sm border border-blue-400 rounded focus:outline-none"
+                    />
+                  ) : (
+                    <p className="text-sm font-medium text-slate-800 truncate">
+                      {switchingId === meta.id ? '正在载入…' : meta.name}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    {meta.rowCount.toLocaleString()} 条 ·{' '}
+                    {formatCoveredWeeks(meta)}
+                    {meta.storedBytes > 0 &&
+                      ` · 占用 ${formatFileSize(meta.storedBytes)}`}
+                  </p>
+                  <p
+                    className="text-xs text-slate-400 truncate"
+                    title={meta.sourceFiles.join('\n')}
+                  >
+                    更新于 {formatTime(meta.updatedAt)} · 创建于{' '}
+                    {formatTime(meta.createdAt)}
+                    {meta.sourceFiles.length > 0 &&
+                      ` · ${meta.sourceFiles.length} 个来源文件`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                  <button
+                    onClick={event => startRename(meta, event)}
+                    className="p-1 text-slate-400 hover:text-slate-700"
+                    title="重命名"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={event => handleDelete(meta, event)}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    title="删除"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <button
+          onClick={() => {
+            createDataset()
+            setIsOpen(false)
+          }}
+          className="flex w-full items-center gap-2 px-4 py-3 text-sm text-blue-600 border-t border-slate-200 hover:bg-slate-50"
+        >
+          <FolderPlus className="w-4 h-4" />
+          新建空数据集
+        </button>
+        {storage && (
+          <div className="px-4 py-2 border-t border-slate-200 text-xs text-slate-500">
+            本站点存储用量 {formatFileSize(storage.usage)} /{' '}
+            {formatFileSize(storage.quota)}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,74 @@
+/**
+ * 解锁界面
+ * 启用数据加密后，页面载入或自动锁定时遮挡看板，输入口令解锁后才恢复数据
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Lock } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { useAutoLock, useEncryption } from '@/hooks/use-encryption'
+
+export function EncryptionLock() {
+  const { isLocked, unlock } = useEncryption()
+  const [mounted, setMounted] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  useAutoLock()
+
+  // 锁定状态来自 localStorage，仅在客户端渲染，避免与服务端输出不一致
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  if (!mounted || !isLocked) return null
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsUnlocking(true)
+    setError(null)
+    const result = await unlock(passphrase)
+    setIsUnlocking(false)
+    if (result.success) {
+      setPassphrase('')
+    } else {
+      setError(result.error ?? '解锁失败')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-100">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 p-8 bg-white rounded-2xl border border-slate-200 shadow-lg"
+      >
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="p-3 bg-blue-50 rounded-full">
+            <Lock className="w-6 h-6 text-blue-600" />
+          </div>
+          <h2 className="text-lg font-semibold text-slate-800">数据已加密</h2>
+          <p className="text-sm text-slate-500">
+            本机保存的业务数据已加密，请输入口令解锁
+          </p>
+        </div>
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="口令"
+          autoFocus
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="w-full px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isUnlocking ? '正在解锁...' : '解锁'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * 数据加密设置
+ * 启用或关闭本机数据加密，设置自动锁定时间，或立即锁定
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { Lock, ShieldCheck } from 'lucide-react'
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  MIN_PASSPHRASE_LENGTH,
+} from '@/lib/storage/encryption'
+import { useEncryption } from '@/hooks/use-encryption'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { useToast } from '@/hooks/use-toast'
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 5, label: '5 分钟' },
+  { value: 15, label: '15 分钟' },
+  { value: 30, label: '30 分钟' },
+  { value: 60, label: '1 小时' },
+  { value: 0, label: '不自动锁定' },
+]
+
+interface EncryptionSettingsProps {
+  triggerLabel?: string
+}
+
+export function EncryptionSettings({
+  triggerLabel = '数据加密',
+}: EncryptionSettingsProps) {
+  const {
+    config,
+    lock,
+    enableEncryption,
+    disableEncryption,
+    updateAutoLockMinutes,
+  } = useEncryption()
+  const [isOpen, setIsOpen] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [autoLockMinutes, setAutoLockMinutes] = useState(
+    DEFAULT_AUTO_LOCK_MINUTES
+  )
+  const [progress, setProgress] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const reportProgress = (done: number, total: number) =>
+    setProgress(`正在重写本地数据 ${done} / ${total}`)
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: '口令太短',
+        description: `口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`,
+        variant: 'destructive',
+      })
+      return
+    }
+    if (passphrase !== confirmation) {
+      toast({
+        title: '两次输入的口令不一致',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setProgress('正在生成密钥...')
+    const result = await enableEncryption(
+      passphrase,
+      autoLockMinutes,
+      reportProgress
+    )
+    setProgress(null)
+    if (result.success) {
+      setPassphrase('')
+      setConfirmation('')
+      toast({
+        title: '已启用数据加密',
+        description:
+          '刷新页面或自动锁定后需输入口令解锁，口令遗忘后数据无法恢复',
+      })
+    } else {
+      toast({
+        title: '启用加密未完成',
+        description: `${result.error}。已写入的数据可用该口令读取，可重新启用以完成剩余部分`,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm('确定要关闭数据加密吗？本机数据将以明文重新保存。')) return
+
+    setProgress('正在解密...')
+    const result = await disableEncryption(reportProgress)
+    setProgress(null)
+    if (result.success) {
+      toast({ title: '已关闭数据加密' })
+    } else {
+      toast({
+        title: '关闭加密失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleLock = () => {
+    setIsOpen(false)
+    lock()
+  }
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={open => {
+        if (progress === null) setIsOpen(open)
+      }}
+    >
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <ShieldCheck className="w-4 h-4" />
+          {triggerLabel}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>数据加密</DialogTitle>
+          <DialogDescription>
+            用口令加密保存在本机的数据集、历史快照、保费目标和筛选预设；口令不会被保存，遗忘后数据无法恢复
+          </DialogDescription>
+        </DialogHeader>
+
+        {config ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg">
+              <ShieldCheck className="w-4 h-4" />
+              已启用加密
+            </div>
+            <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+              无操作自动锁定
+              <select
+                value={config.autoLockMinutes}
+                onChange={e => updateAutoLockMinutes(Number(e.target.value))}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {AUTO_LOCK_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {progress && <p className="text-sm text-slate-500">{progress}</p>}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={handleDisable}
+                disabled={progress !== null}
+                className="px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                关闭加密
+              </button>
+              <button
+                onClick={handleLock}
+                disabled={progress !== null}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Lock className="w-4 h-4" />
+                立即锁定
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              placeholder={`口令（至少 ${MIN_PASSPHRASE_LENGTH} 个字符）`}
+            />
+            <Input
+              type="password"
+              value={confirmation}
+              onChange={e => setConfirmation(e.target.value)}
+              placeholder="再次输入口令"
+            />
+            <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+              无操作自动锁定
+              <select
+                value={autoLockMinutes}
+                onChange={e => setAutoLockMinutes(Number(e.target.value))}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {AUTO_LOCK_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {progress && <p className="text-sm text-slate-500">{progress}</p>}
+            <div className="flex justify-end">
+              <button
+                onClick={handleEnable}
+                disabled={progress !== null || !passphrase}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                启用加密
+              </button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,307 @@
+/**
+ * 枚举别名词典设置
+ * 按字段维护 "别名 → 标准值"，保存在本地；支持导出为 JSON 以及从 JSON 合并导入
+ */
+
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { BookA, Download, Plus, Trash2, Upload } from 'lucide-react'
+import {
+  ALIAS_FIELDS,
+  ALIAS_FIELD_VALUES,
+  exportEnumAliases,
+  importEnumAliases,
+  loadEnumAliases,
+  saveEnumAliases,
+  type EnumAliasDictionary,
+  type EnumAliasField,
+} from '@/lib/parsers/enum-aliases'
+import { ENUM_MAPPINGS } from '@/lib/parsers/fuzzy-matcher'
+import { FIELD_LABELS } from '@/lib/parsers/column-mapping'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+const inputClass =
+  'rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function EnumAliasSettings() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [aliases, setAliases] = useState<EnumAliasDictionary>({})
+  const [field, setField] = useState<EnumAliasField>(ALIAS_FIELDS[0])
+  const [newAlias, setNewAlias] = useState('')
+  const [newTarget, setNewTarget] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setAliases(loadEnumAliases())
+      setNewAlias('')
+      setNewTarget('')
+    }
+    setIsOpen(open)
+  }
+
+  const targets = ALIAS_FIELD_VALUES[field]
+  const fieldAliases = Object.entries(aliases[field] ?? {})
+  const builtInCount = Object.keys(ENUM_MAPPINGS[field] ?? {}).length
+  const totalCount = ALIAS_FIELDS.reduce(
+    (sum, f) => sum + Object.keys(aliases[f] ?? {}).length,
+    0
+  )
+
+  const setFieldAliases = (next: Record<string, string>) => {
+    setAliases(prev => ({ ...prev, [field]: next }))
+  }
+
+  const handleAdd = () => {
+    const alias = newAlias.trim()
+    const target = newTarget || targets[0]
+    if (!alias || alias === target) return
+    setFieldAliases({ ...aliases[field], [alias]: target })
+    setNewAlias('')
+  }
+
+  const handleRemove = (alias: string) => {
+    const next = { ...aliases[field] }
+    delete next[alias]
+    setFieldAliases(next)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportEnumAliases(aliases)], {
+      type: 'application/json',
+    })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `enum-aliases-${new Date().toISOString().split('T')[0]}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const result = importEnumAliases(await file.text(), aliases)
+    if (result.success && result.aliases) {
+      setAliases(result.aliases)
+      toast({
+        title: '已导入别名词典',
+        description: '已与当前词典合并，保存后生效',
+      })
+    } else {
+      toast({
+        title: '导入失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleSave = () => {
+    const result = saveEnumAliases(aliases)
+    if (result.success) {
+      toast({
+        title: '别名词典已保存',
+        description: `共 ${totalCount} 个别名，将在下次导入时生效`,
+      })
+      setIsOpen(false)
+    } else {
+      toast({
+        title: '保存失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <BookA className="w-4 h-4" />
+          枚举别名词典
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>枚举别名词典</DialogTitle>
+          <DialogDescription>
+            导入时先将别名转换为标准值，再做模糊匹配；同名别名以词典为准，优先于内置映射
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {ALIAS_FIELDS.map(f => (
+              <button
+                key={f}
+                onClick={() => {
+                  setField(f)
+                  setNewTarget('')
+                }}
+                className={cn(
+                  'rounded-full border px-3 py-1 text-xs',
+                  f === field
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                )}
+              >
+                {FIELD_LABELS[f] ?? f}
+                {aliases[f] && Object.keys(aliases[f]!).length > 0
+                  ? ` (${Object.keys(aliases[f]!).length})`
+                  : ''}
+              </button>
+            ))}
+          </div>
+
+          <div className="rounded-lg border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs text-slate-600">
+                <tr>
+                  <th className="px-3 py-2">别名</th>
+                  <th className="px-3 py-2">标准值</th>
+                  <th className="w-10 px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {fieldAliases.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={3}
+                      className="px-3 py-4 text-center text-xs text-slate-500"
+                    >
+                      暂无自定义别名
+                      {builtInCount > 0 && `（内置映射 ${builtInCount} 个）`}
+                    </td>
+                  </tr>
+                )}
+                {fieldAliases.map(([alias, target]) => (
+                  <tr key={alias} className="border-t border-slate-100">
+                    <td className="px-3 py-1.5 text-slate-800">{alias}</td>
+                    <td className="px-3 py-1.5">
+                      <select
+                        value={target}
+                        onChange={e =>
+                          setFieldAliases({
+                            ...aliases[field],
+                            [alias]: e.target.value,
+                          })
+                        }
+                        className={inputClass}
+                      >
+                        {targets.map(value => (
+                          <option key={value} value={value}>
+                            {value}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <button
+                        onClick={() => handleRemove(alias)}
+                        className="rounded-md p-1 text-slate-500 hover:bg-red-50 hover:text-red-600"
+                        title="删除别名"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-100 bg-slate-50/50">
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="text"
+                      value={newAlias}
+                      onChange={e => setNewAlias(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                      placeholder="输入别名"
+                      className={cn(inputClass, 'w-full')}
+                      maxLength={50}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={newTarget || targets[0]}
+                      onChange={e => setNewTarget(e.target.value)}
+                      className={inputClass}
+                    >
+                      {targets.map(value => (
+                        <option key={value} value={value}>
+                          {value}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <button
+                      onClick={handleAdd}
+                      disabled={!newAlias.trim()}
+                      className="rounded-md p-1 text-blue-600 hover:bg-blue-50 disabled:opacity-40"
+                      title="添加别名"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={totalCount === 0}
+              className="flex items-center gap-1 rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              导出 JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+            >
+              <Upload className="h-4 w-4" />
+              导入 JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSave}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              保存词典
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
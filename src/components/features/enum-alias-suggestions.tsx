@@ -0,0 +1,107 @@
+/**
+ * 别名收录建议
+ * 列出导入或修正过程中被采纳、但尚未收录到别名词典的纠错，可逐条或一次性加入词典
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { BookPlus } from 'lucide-react'
+import {
+  addEnumAliases,
+  getNewAliasCandidates,
+  type EnumCorrection,
+} from '@/lib/parsers/enum-aliases'
+import { FIELD_LABELS } from '@/lib/parsers/column-mapping'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+const MAX_VISIBLE = 10
+
+interface EnumAliasSuggestionsProps {
+  corrections: EnumCorrection[]
+  className?: string
+}
+
+export function EnumAliasSuggestions({
+  corrections,
+  className,
+}: EnumAliasSuggestionsProps) {
+  const { toast } = useToast()
+
+  // 每次渲染重新读取词典，加入后 refresh 触发重渲染以排除已收录的别名
+  const [, refresh] = useState(0)
+  const candidates = getNewAliasCandidates(corrections).sort(
+    (a, b) => b.count - a.count
+  )
+
+  if (candidates.length === 0) return null
+
+  const handleAdd = (items: EnumCorrection[]) => {
+    const result = addEnumAliases(items)
+    if (result.success) {
+      toast({
+        title: '已加入别名词典',
+        description: `新增 ${result.added} 个别名，下次导入时直接转换`,
+      })
+    } else {
+      toast({
+        title: '加入失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+    refresh(v => v + 1)
+  }
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border border-blue-200 bg-blue-50/60 p-4 text-sm',
+        className
+      )}
+    >
+      <div className="mb-2 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 font-medium text-slate-800">
+          <BookPlus className="h-4 w-4 text-blue-600" />
+          可加入别名词典的纠错（{candidates.length}）
+        </div>
+        <button
+          onClick={() => handleAdd(candidates)}
+          className="rounded-md bg-blue-600 px-3 py-1 text-xs text-white hover:bg-blue-700"
+        >
+          全部加入
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {candidates.slice(0, MAX_VISIBLE).map(c => (
+          <li
+            key={`${c.field}|${c.from}|${c.to}`}
+            className="flex items-center justify-between gap-3 text-slate-700"
+          >
+            <span>
+              <span className="text-slate-500">
+                {FIELD_LABELS[c.field] ?? c.field}：
+              </span>
+              {c.from} → {c.to}
+              {c.count > 1 && (
+                <span className="ml-1 text-xs text-slate-500">×{c.count}</span>
+              )}
+            </span>
+            <button
+              onClick={() => handleAdd([c])}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              加入别名
+            </button>
+          </li>
+        ))}
+      </ul>
+      {candidates.length > MAX_VISIBLE && (
+        <div className="mt-1 text-xs text-slate-500">
+          另有 {candidates.length - MAX_VISIBLE} 条，可通过“全部加入”一并收录
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,59 @@
 /**
  * 文件上传组件 - 优化版
  * 支持拖拽上传、批量处理、实时进度显示和错误恢复
+ * 支持 CSV 与 Excel 工作簿（含工作表选择），表头不标准时通过列映射向导确认
  */
 
 'use client'
 
 import React, { useState, useCallback } from 'react'
-import { Upload, FileText, X, RefreshCw } from 'lucide-react'
+import {
+  Upload,
+  FileText,
+  FileSpreadsheet,
+  FileArchive,
+  X,
+  RefreshCw,
+  Columns,
+} from 'lucide-react'
 import { useFileUpload } from '@/hooks/use-file-upload'
+import {
+  isSupportedDataFile,
+  previewDataFile,
+  SUPPORTED_EXTENSIONS,
+  type FileParseOptions,
+} from '@/lib/parsers/file-parser'
+import {
+  findMatchingProfile,
+  markMappingProfileUsed,
+  needsColumnMapping,
+  type ColumnMapping,
+} from '@/lib/parsers/column-mapping'
+import {
+  inspectWorkbook,
+  isExcelFile,
+  type WorkbookSheetInfo,
+} from '@/lib/parsers/excel-parser'
+import { PARSE_CANCELLED_MESSAGE } from '@/lib/parsers/csv-worker-client'
+import { isZipFile } from '@/lib/parsers/zip-archive'
 import { Progress } from '@/components/ui/progress'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
 import { UploadResultsDetail } from './upload-results-detail'
+import { ColumnMappingWizard } from './column-mapping-wizard'
+import { MergeConflictResolver } from './merge-conflict-resolver'
+import { BusinessRulesSettings } from './business-rules-settings'
+import { EnumAliasSettings } from './enum-alias-settings'
+import { DataContractDownloads } from './data-contract-downloads'
+
+/**
+ * 文件表头的列映射状态
+ */
+interface ColumnMappingStatus {
+  needsMapping: boolean // 表头与标准字段不一致
+  profileName?: string // 自动套用的映射方案
+  confirmed: boolean // 已有可用映射（标准表头、套用方案或用户确认）
+}
 
 /**
  * 格式化文件大小
@@ -37,11 +79,26 @@ export function FileUpload() {
   const [isDragging, setIsDragging] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
   const [parallelMode, setParallelMode] = useState(true) // 默认启用并行模式
+  // Excel 工作簿的工作表列表与当前选择（按文件名索引）
+  const [workbookSheets, setWorkbookSheets] = useState<
+    Record<string, WorkbookSheetInfo[]>
+  >({})
+  const [fileOptions, setFileOptions] = useState<
+    Record<string, FileParseOptions>
+  >({})
+  const [mappingStatus, setMappingStatus] = useState<
+    Record<string, ColumnMappingStatus>
+  >({})
+  const [mappingFile, setMappingFile] = useState<File | null>(null)
 
   const {
     progress,
     batchResult,
+    pendingMerge,
     uploadFiles,
+    cancelUpload,
+    resolveMerge,
+    repairCumulativeRegressions,
     validateFiles,
     resetUpload,
     updateValidationOptions,
@@ -60,6 +117,118 @@ export function FileUpload() {
     })
   }, [updateValidationOptions])
 
+  /**
+   * 检查文件表头，非标准表头时尝试自动套用已保存的映射方案
+   */
+  const inspectColumns = useCallback(
+    async (file: File, options: FileParseOptions = {}) => {
+      try {
+        const { headers } = await previewDataFile(file, options, 1)
+        if (!needsColumnMapping(headers)) {
+          setMappingStatus(prev => ({
+            ...prev,
+            [file.name]: { needsMapping: false, confirmed: true },
+          }))
+          return
+        }
+
+        const profile = findMatchingProfile(headers)
+        if (profile) {
+          markMappingProfileUsed(profile.id)
+          setFileOptions(prev => ({
+            ...prev,
+            [file.name]: { ...prev[file.name], columnMapping: profile.mapping },
+          }))
+        }
+        setMappingStatus(prev => ({
+          ...prev,
+          [file.name]: {
+            needsMapping: true,
+            profileName: profile?.name,
+            confirmed: profile !== null,
+          },
+        }))
+      } catch (error) {
+        console.warn(`[File Upload] 表头预览失败: ${file.name}`, error)
+      }
+    },
+    []
+  )
+
+  /**
+   * 准备已选择的文件：读取 Excel 工作表列表（默认选中表头匹配度最高的工作表）并检查列映射
+   */
+  const prepareFiles = useCallback(
+    async (files: File[]) => {
+      await Promise.all(
+        files.map(async file => {
+          // 压缩包条目在解压后按已保存的映射方案自动匹配
+          if (isZipFile(file)) return
+          if (!isExcelFile(file)) {
+            await inspectColumns(file)
+            return
+          }
+          try {
+            const sheets = await inspectWorkbook(file)
+            if (sheets.length === 0) return
+            const best = sheets.reduce((a, b) =>
+              b.matchedFields > a.matchedFields ? b : a
+            )
+            const options = {
+              sheetName: best.name,
+              headerRowIndex: best.headerRowIndex,
+            }
+            setWorkbookSheets(prev => ({ ...prev, [file.name]: sheets }))
+            setFileOptions(prev => ({ ...prev, [file.name]: options }))
+            await inspectColumns(file, options)
+          } catch (error) {
+            toast({
+              title: '工作簿读取失败',
+              description: `${file.name}: ${error instanceof Error ? error.message : '未知错误'}`,
+              variant: 'destructive',
+            })
+          }
+        })
+      )
+    },
+    [toast, inspectColumns]
+  )
+
+  /**
+   * 切换 Excel 工作表（表头随之变化，重新检查列映射）
+   */
+  const selectSheet = useCallback(
+    (file: File, sheetName: string) => {
+      const sheet = workbookSheets[file.name]?.find(s => s.name === sheetName)
+      if (!sheet) return
+      const options = { sheetName, headerRowIndex: sheet.headerRowIndex }
+      setFileOptions(prev => ({ ...prev, [file.name]: options }))
+      inspectColumns(file, options)
+    },
+    [workbookSheets, inspectColumns]
+  )
+
+  /**
+   * 确认列映射
+   */
+  const confirmMapping = useCallback(
+    (fileName: string, columnMapping: ColumnMapping) => {
+      setFileOptions(prev => ({
+        ...prev,
+        [fileName]: { ...prev[fileName], columnMapping },
+      }))
+      setMappingStatus(prev => ({
+        ...prev,
+        [fileName]: { needsMapping: true, confirmed: true },
+      }))
+    },
+    []
+  )
+
+  const pendingMappingCount = selectedFiles.filter(
+    file => mappingStatus[file.name]?.confirmed === false
+  ).length
+
   /**
    * 处理拖拽进入
    */
@@ -94,14 +263,12 @@ export function FileUpload() {
 
       if (isUploading) return
 
-      const files = Array.from(e.dataTransfer.files).filter(file =>
-        file.name.endsWith('.csv')
-      )
+      const files = Array.from(e.dataTransfer.files).filter(isSupportedDataFile)
 
       if (files.length === 0) {
         toast({
           title: '文件格式错误',
-          description: '请上传 CSV 格式的文件',
+          description: '请上传 CSV 或 Excel (.xlsx/.xls) 格式的文件',
           variant: 'destructive',
         })
         return
@@ -119,8 +286,9 @@ export function FileUpload() {
       }
 
       setSelectedFiles(files)
+      prepareFiles(files)
     },
-    [isUploading, validateFiles, toast]
+    [isUploading, validateFiles, toast, prepareFiles]
   )
 
   /**
@@ -144,11 +312,12 @@ export function FileUpload() {
       }
 
       setSelectedFiles(files)
+      prepareFiles(files)
 
       // 重置 input
       e.target.value = ''
     },
-    [validateFiles, toast]
+    [validateFiles, toast, prepareFiles]
   )
 
   /**
@@ -158,10 +327,19 @@ export function FileUpload() {
     if (selectedFiles.length === 0) return
 
     try {
-      const results = await uploadFiles(selectedFiles, parallelMode)
+      const results = await uploadFiles(
+        selectedFiles,
+        parallelMode,
+        fileOptions
+      )
 
       // 显示结果通知
-      if (results.failureCount === 0) {
+      if (results.mergeStatus === 'pending') {
+        toast({
+          title: '请确认导入',
+          description: '新数据与现有数据存在重叠周次或合计变化，请核对后确认',
+        })
+      } else if (results.failureCount === 0) {
         toast({
           title: '上传成功',
           description: `成功上传 ${results.successCount} 个文件，共 ${results.validRecords} 条有效记录`,
@@ -181,19 +359,26 @@ export function FileUpload() {
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '上传失败'
+      if (errorMessage === PARSE_CANCELLED_MESSAGE) {
+        toast({ title: '已取消导入', description: '现有数据保持不变' })
+        return
+      }
       toast({
         title: '上传错误',
         description: errorMessage,
         variant: 'destructive',
       })
     }
-  }, [selectedFiles, uploadFiles, toast, parallelMode])
+  }, [selectedFiles, uploadFiles, toast, parallelMode, fileOptions])
 
   /**
    * 重置状态
    */
   const handleReset = useCallback(() => {
     setSelectedFiles([])
+    setWorkbookSheets({})
+    setFileOptions({})
+    setMappingStatus({})
     resetUpload()
   }, [resetUpload])
 
@@ -236,6 +421,13 @@ export function FileUpload() {
               {phaseLabels[progress.currentPhase]}
             </p>
           </div>
+          <button
+            onClick={cancelUpload}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-100"
+          >
+            <X className="w-4 h-4" />
+            取消
+          </button>
         </div>
 
         <div className="space-y-3">
@@ -256,10 +448,38 @@ export function FileUpload() {
     )
   }
 
+  // 存在冲突周次或需核对的差异，等待用户确认后写入
+  if (pendingMerge) {
+    return (
+      <MergeConflictResolver
+        plan={pendingMerge}
+        diff={batchResult?.datasetDiff}
+        onResolve={resolutions => {
+          const summary = resolveMerge(resolutions)
+          toast(
+            summary
+              ? {
+                  title: '合并完成',
+                  description: `新增 ${summary.addedRecords} 条，替换 ${summary.replacedRecords} 条现有记录`,
+                }
+              : {
+                  title: '已放弃导入',
+                  description: '现有数据保持不变',
+                }
+          )
+        }}
+      />
+    )
+  }
+
   // 如果已完成，显示详细结果
   if (hasResults && batchResult) {
     return (
-      <UploadResultsDetail batchResult={batchResult} onReset={handleReset} />
+      <UploadResultsDetail
+        batchResult={batchResult}
+        onReset={handleReset}
+        onRepairCumulative={repairCumulativeRegressions}
+      />
     )
   }
 
@@ -279,13 +499,76 @@ export function FileUpload() {
                 key={index}
                 className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg"
               >
-                <FileText className="h-5 w-5 text-slate-400" />
+                {isExcelFile(file) ? (
+                  <FileSpreadsheet className="h-5 w-5 text-green-600" />
+                ) : isZipFile(file) ? (
+                  <FileArchive className="h-5 w-5 text-amber-600" />
+                ) : (
+                  <FileText className="h-5 w-5 text-slate-400" />
+                )}
                 <div className="flex-1 min-w-0">
                   <div className="font-medium truncate">{file.name}</div>
                   <div className="text-sm text-slate-500">
                     {formatFileSize(file.size)}
                   </div>
                 </div>
+                {/* Excel 工作表选择 */}
+                {workbookSheets[file.name] && (
+                  <div className="flex flex-col items-end gap-1">
+                    <select
+                      value={fileOptions[file.name]?.sheetName ?? ''}
+                      onChange={e => selectSheet(file, e.target.value)}
+                      disabled={isUploading}
+                      className="px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {workbookSheets[file.name].map(sheet => (
+                        <option key={sheet.name} value={sheet.name}>
+                          {sheet.name}（{sheet.rowCount} 行）
+                        </option>
+                      ))}
+                    </select>
+                    {(() => {
+                      const sheet = workbookSheets[file.name].find(
+                        s => s.name === fileOptions[file.name]?.sheetName
+                      )
+                      if (!sheet) return null
+                      return (
+                        <span className="text-xs text-slate-500">
+                          {sheet.matchedFields > 0
+                            ? `表头位于第 ${sheet.headerRowIndex + 1} 行，匹配 ${sheet.matchedFields} 个字段`
+                            : '未识别到标准表头'}
+                        </span>
+                      )
+                    })()}
+                  </div>
+                )}
+                {/* 列映射状态 */}
+                {mappingStatus[file.name]?.needsMapping && (
+                  <div className="flex flex-col items-end gap-1">
+                    <button
+                      onClick={() => setMappingFile(file)}
+                      disabled={isUploading}
+                      className={cn(
+                        'flex items-center gap-1 px-2 py-1 rounded-md text-sm transition-colors',
+                        mappingStatus[file.name].confirmed
+                          ? 'border border-slate-300 text-slate-700 hover:bg-slate-100'
+                          : 'bg-amber-500 text-white hover:bg-amber-600'
+                      )}
+                    >
+                      <Columns className="h-4 w-4" />
+                      {mappingStatus[file.name].confirmed
+                        ? '调整列映射'
+                        : '配置列映射'}
+                    </button>
+                    <span className="text-xs text-slate-500">
+                      {mappingStatus[file.name].profileName
+                        ? `已套用方案「${mappingStatus[file.name].profileName}」`
+                        : mappingStatus[file.name].confirmed
+                          ? '列映射已确认'
+                          : '表头与标准字段不一致'}
+                    </span>
+                  </div>
+                )}
                 <button
                   onClick={() => removeFile(index)}
                   className="p-1 hover:bg-slate-200 rounded transition-colors"
@@ -323,14 +606,21 @@ export function FileUpload() {
             </div>
           )}
 
+          <div className="mt-4 flex justify-end gap-2">
+            <EnumAliasSettings />
+            <BusinessRulesSettings />
+          </div>
+
           <div className="flex gap-3 mt-6">
             <button
               onClick={handleUpload}
-              disabled={isUploading}
+              disabled={isUploading || pendingMappingCount > 0}
               className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
             >
               <Upload className="w-5 h-5 mr-2 inline" />
-              开始上传 ({selectedFiles.length} 个文件)
+              {pendingMappingCount > 0
+                ? `请先配置列映射 (${pendingMappingCount} 个文件)`
+                : `开始上传 (${selectedFiles.length} 个文件)`}
             </button>
             <button
               onClick={handleReset}
@@ -341,6 +631,18 @@ export function FileUpload() {
             </button>
           </div>
         </div>
+
+        <ColumnMappingWizard
+          file={mappingFile}
+          parseOptions={mappingFile ? fileOptions[mappingFile.name] : undefined}
+          open={mappingFile !== null}
+          onOpenChange={open => {
+            if (!open) setMappingFile(null)
+          }}
+          onConfirm={mapping => {
+            if (mappingFile) confirmMapping(mappingFile.name, mapping)
+          }}
+        />
       </div>
     )
   }
@@ -377,7 +679,7 @@ export function FileUpload() {
         </div>
 
         <h2 className="text-2xl font-semibold text-slate-800 mb-2">
-          {isDragging ? '松开以上传文件' : '上传 CSV 数据文件'}
+          {isDragging ? '松开以上传文件' : '上传 CSV / Excel 数据文件'}
         </h2>
 
         <p className="text-slate-600 mb-8 max-w-md">
@@ -391,7 +693,7 @@ export function FileUpload() {
         <label className="cursor-pointer">
           <input
             type="file"
-            accept=".csv"
+            accept={SUPPORTED_EXTENSIONS.join(',')}
             multiple
             className="hidden"
             onChange={handleFileSelect}
@@ -404,9 +706,14 @@ export function FileUpload() {
         </label>
 
         <p className="text-xs text-slate-500 mt-6">
-          最大文件大小：200MB | 支持多文件上传 | 仅支持 CSV 格式 |
-          支持百万行数据导入
+          最大文件大小：200MB | 支持多文件上传 | 支持 CSV、Excel
+          (.xlsx/.xls)、JSON Lines (.jsonl/.json)、Parquet、Arrow 格式及其 ZIP
+          压缩包 | 支持百万行数据导入
         </p>
+
+        <div className="mt-4">
+          <DataContractDownloads />
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,184 @@
+/**
+ * 合并冲突处理组件
+ * 新上传数据与现有数据集存在重叠周次时，逐周选择「替换重叠记录」「保留现有」或「放弃导入」；
+ * 写入前同时展示差异报告，便于发现错误文件
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { AlertTriangle, CalendarPlus, GitMerge } from 'lucide-react'
+import type { MergePlan, MergeResolution } from '@/lib/dataset/dataset-merge'
+import type { DatasetDiff } from '@/lib/dataset/dataset-diff'
+import { cn } from '@/lib/utils'
+import { DatasetDiffReport } from './dataset-diff-report'
+
+interface MergeConflictResolverProps {
+  plan: MergePlan
+  diff?: DatasetDiff
+  onResolve: (resolutions: Record<string, MergeResolution> | null) => void
+}
+
+const RESOLUTION_OPTIONS: Array<{ value: MergeResolution; label: string }> = [
+  { value: 'replace', label: '替换重叠记录' },
+  { value: 'keep', label: '保留现有' },
+  { value: 'abort', label: '放弃导入' },
+]
+
+export function MergeConflictResolver({
+  plan,
+  diff,
+  onResolve,
+}: MergeConflictResolverProps) {
+  const [resolutions, setResolutions] = useState<
+    Record<string, MergeResolution>
+  >(() =>
+    Object.fromEntries(plan.conflicts.map(c => [c.key, 'replace' as const]))
+  )
+
+  const setAll = (resolution: MergeResolution) => {
+    setResolutions(
+      Object.fromEntries(plan.conflicts.map(c => [c.key, resolution]))
+    )
+  }
+
+  const willAbort = Object.values(resolutions).includes('abort')
+  const addedWeekCount = plan.newWeeks.length + plan.appendedWeeks.length
+  const hasConflicts = plan.conflicts.length > 0
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-6 bg-white/80 backdrop-blur-sm rounded-2xl border border-amber-200 space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center shrink-0">
+          <AlertTriangle className="w-5 h-5 text-amber-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">
+            {hasConflicts
+              ? `发现 ${plan.conflicts.length} 个重叠周次`
+              : '导入前请核对数据差异'}
+          </h3>
+          <p className="text-sm text-slate-600">
+            {hasConflicts
+              ? '新数据中以下周次与现有数据的维度组合重叠，请选择每周的处理方式'
+              : '新数据与现有数据集相比存在合计重述或机构缺失，确认无误后再写入'}
+          </p>
+        </div>
+      </div>
+
+      {diff && <DatasetDiffReport diff={diff} />}
+
+      {hasConflicts && addedWeekCount > 0 && (
+        <div className="flex items-center gap-2 p-3 bg-green-50 rounded-lg text-sm text-green-800">
+          <CalendarPlus className="w-4 h-4" />
+          另有 {addedWeekCount} 个周次无冲突，将直接追加：
+          <span className="truncate">
+            {[...plan.newWeeks, ...plan.appendedWeeks]
+              .map(w => w.key)
+              .join('、')}
+          </span>
+        </div>
+      )}
+
+      {hasConflicts && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-slate-600">批量设置：</span>
+            {RESOLUTION_OPTIONS.slice(0, 2).map(option => (
+              <button
+                key={option.value}
+                onClick={() => setAll(option.value)}
+                className="px-3 py-1 border border-slate-300 rounded-md text-slate-700 hover:bg-slate-100"
+              >
+                全部{option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto rounded-lg border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs text-slate-600">
+                <tr>
+                  <th className="px-3 py-2">周次</th>
+                  <th className="px-3 py-2 text-right">现有记录</th>
+                  <th className="px-3 py-2 text-right">新记录</th>
+                  <th className="px-3 py-2 text-right">重叠记录</th>
+                  <th className="px-3 py-2">处理方式</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.conflicts.map(conflict => (
+                  <tr key={conflict.key} className="border-t border-slate-100">
+                    <td className="px-3 py-2 font-medium text-slate-800">
+                      {conflict.policy_start_year} 年第 {conflict.week_number}{' '}
+                      周
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {conflict.existingCount.toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {conflict.incomingCount.toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 text-right text-amber-700">
+                      {conflict.overlappingCount.toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={resolutions[conflict.key]}
+                        onChange={e =>
+                          setResolutions(prev => ({
+                            ...prev,
+                            [conflict.key]: e.target.value as MergeResolution,
+                          }))
+                        }
+                        className={cn(
+                          'px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500',
+                          resolutions[conflict.key] === 'abort'
+                            ? 'border-red-300 bg-red-50'
+                            : 'border-slate-300'
+                        )}
+                      >
+                        {RESOLUTION_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            替换重叠记录：用新文件中的记录覆盖维度组合相同的现有记录；保留现有：忽略新文件中与现有记录重叠的记录；
+            两种方式下不重叠的新记录都会追加。
+            任一周次选择放弃导入时，本次导入的数据都不会写入。
+          </p>
+        </>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onResolve(resolutions)}
+          className={cn(
+            'flex-1 flex items-center justify-center gap-2 px-6 py-3 font-medium rounded-lg transition-colors text-white',
+            willAbort
+              ? 'bg-red-600 hover:bg-red-700'
+              : 'bg-blue-600 hover:bg-blue-700'
+          )}
+        >
+          <GitMerge className="w-5 h-5" />
+          {willAbort ? '放弃本次导入' : hasConflicts ? '确认合并' : '确认导入'}
+        </button>
+        <button
+          onClick={() => onResolve(null)}
+          className="px-6 py-3 bg-slate-200 hover:bg-slate-300 text-slate-700 font-medium rounded-lg transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+/**
+ * 离线状态
+ * 新版本部署后提示更新，断网时提示当前处于离线模式
+ */
+
+'use client'
+
+import React from 'react'
+import { Download, WifiOff, X } from 'lucide-react'
+import { useOnlineStatus, useServiceWorker } from '@/hooks/use-service-worker'
+
+export function OfflineStatus() {
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorker()
+  const isOnline = useOnlineStatus()
+
+  return (
+    <>
+      {!isOnline && (
+        <div className="fixed bottom-4 left-4 z-50 flex items-center gap-2 px-3 py-2 text-xs text-slate-700 bg-white rounded-full border border-slate-300 shadow-lg">
+          <WifiOff className="w-4 h-4 text-slate-500" />
+          离线模式：可继续查看和分析本机数据
+        </div>
+      )}
+
+      {updateAvailable && (
+        <div className="fixed bottom-4 right-4 z-50 flex items-center gap-3 px-4 py-3 text-sm text-slate-700 bg-white rounded-xl border border-blue-300 shadow-lg">
+          <Download className="w-4 h-4 text-blue-600" />
+          <span>新版本已可用</span>
+          <button
+            onClick={applyUpdate}
+            className="px-3 py-1 text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+          >
+            立即更新
+          </button>
+          <button
+            onClick={dismissUpdate}
+            className="p-1 text-slate-400 hover:text-slate-700"
+            title="稍后"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,356 @@
+/**
+ * 粘贴导入
+ * 从 Excel / WPS 复制单元格区域后直接粘贴，经列映射与导入校验后
+ * 作为临时数据集查看（不持久化），或按周次合并到当前数据集
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  AlertCircle,
+  ClipboardPaste,
+  FlaskConical,
+  GitMerge,
+  Wand2,
+  X,
+} from 'lucide-react'
+import {
+  parsePastedTable,
+  pastedTableToFile,
+  suggestPastedMapping,
+  validatePastedTable,
+  type PastedTable,
+} from '@/lib/parsers/clipboard-parser'
+import {
+  getMappedFields,
+  getMissingFields,
+  type ColumnMapping,
+} from '@/lib/parsers/column-mapping'
+import type { CSVParseResult } from '@/lib/parsers/csv-parser'
+import {
+  planDatasetMerge,
+  applyDatasetMerge,
+  type MergePlan,
+} from '@/lib/dataset/dataset-merge'
+import {
+  diffDatasets,
+  hasSignificantChanges,
+  type DatasetDiff,
+} from '@/lib/dataset/dataset-diff'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { selectCommittedData, useAppStore } from '@/store/use-app-store'
+import { useToast } from '@/hooks/use-toast'
+import { ColumnMappingWizard } from './column-mapping-wizard'
+import { MergeConflictResolver } from './merge-conflict-resolver'
+
+const ERROR_PREVIEW_LIMIT = 5
+const PASTE_SOURCE_NAME = '剪贴板粘贴'
+
+interface PasteImportProps {
+  triggerLabel?: string
+}
+
+export function PasteImport({ triggerLabel = '粘贴导入' }: PasteImportProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [table, setTable] = useState<PastedTable | null>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [result, setResult] = useState<CSVParseResult | null>(null)
+  const [isMappingOpen, setIsMappingOpen] = useState(false)
+  const [pendingMerge, setPendingMerge] = useState<{
+    plan: MergePlan
+    diff?: DatasetDiff
+  } | null>(null)
+  const hasData = useAppStore(state => selectCommittedData(state).length > 0)
+  const isScratch = useAppStore(state => state.scratchDataset !== null)
+  const setRawData = useAppStore(state => state.setRawData)
+  const loadScratchData = useAppStore(state => state.loadScratchData)
+  const addDatasetSourceFiles = useAppStore(
+    state => state.addDatasetSourceFiles
+  )
+  const { toast } = useToast()
+
+  // 向导依赖 file 引用判断是否重新预览，同一份粘贴内容只生成一次
+  const mappingFile = useMemo(
+    () => (table ? pastedTableToFile(table) : null),
+    [table]
+  )
+
+  const missingFields = table
+    ? getMissingFields(getMappedFields(table.headers, mapping))
+    : []
+
+  const reset = () => {
+    setTable(null)
+    setParseError(null)
+    setMapping({})
+    setResult(null)
+    setPendingMerge(null)
+  }
+
+  const applyMapping = (pasted: PastedTable, nextMapping: ColumnMapping) => {
+    setMapping(nextMapping)
+    const missing = getMissingFields(
+      getMappedFields(pasted.headers, nextMapping)
+    )
+    setResult(
+      missing.length === 0 ? validatePastedTable(pasted, nextMapping) : null
+    )
+  }
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    event.preventDefault()
+    const text = event.clipboardData.getData('text/plain')
+    reset()
+    try {
+      const pasted = parsePastedTable(text)
+      setTable(pasted)
+      applyMapping(pasted, suggestPastedMapping(pasted.headers))
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : '粘贴内容解析失败')
+    }
+  }
+
+  const close = () => {
+    setIsOpen(false)
+    reset()
+  }
+
+  const handleLoadScratch = () => {
+    if (!result) return
+    const label = `粘贴数据（${result.data.length} 条）`
+    loadScratchData(result.data, label)
+    console.log(`[Paste Import] 已载入临时数据集: ${label}`)
+    toast({
+      title: '已载入临时数据集',
+      description: '临时数据不会保存，退出后恢复原数据集',
+    })
+    close()
+  }
+
+  const finishMerge = (merged: ReturnType<typeof applyDatasetMerge>) => {
+    if (!merged) {
+      console.log('[Paste Import] 用户放弃合并，现有数据保持不变')
+      toast({ title: '已放弃导入', description: '现有数据保持不变' })
+      setPendingMerge(null)
+      return
+    }
+    addDatasetSourceFiles([PASTE_SOURCE_NAME])
+    setRawData(merged.data)
+    console.log('[Paste Import] 合并完成:', merged.summary)
+    toast({
+      title: '合并完成',
+      description: `新增 ${merged.summary.addedRecords} 条，替换 ${merged.summary.replacedRecords} 条现有记录`,
+    })
+    close()
+  }
+
+  const handleMerge = () => {
+    if (!result) return
+    const existingData = selectCommittedData(useAppStore.getState())
+    const plan = planDatasetMerge(existingData, result.data)
+    const diff =
+      existingData.length > 0
+        ? diffDatasets(existingData, result.data)
+        : undefined
+
+    // 与文件导入一致：有冲突周次或显著差异时先由用户核对
+    if (plan.conflicts.length > 0 || (diff && hasSignificantChanges(diff))) {
+      setPendingMerge({ plan, diff })
+      return
+    }
+    finishMerge(applyDatasetMerge(plan))
+  }
+
+  const previewErrors = result?.errors
+    .filter(error => error.severity === 'error')
+    .slice(0, ERROR_PREVIEW_LIMIT)
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={open => {
+        if (open) {
+          setIsOpen(true)
+        } else {
+          close()
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <ClipboardPaste className="w-4 h-4" />
+          {triggerLabel}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>粘贴导入</DialogTitle>
+          <DialogDescription>
+            在 Excel 中选中含表头的单元格区域并复制，然后粘贴到下方
+          </DialogDescription>
+        </DialogHeader>
+
+        {pendingMerge ? (
+          <MergeConflictResolver
+            plan={pendingMerge.plan}
+            diff={pendingMerge.diff}
+            onResolve={resolutions =>
+              finishMerge(
+                resolutions
+                  ? applyDatasetMerge(pendingMerge.plan, resolutions)
+                  : null
+              )
+            }
+          />
+        ) : (
+          <div className="space-y-4">
+            <textarea
+              value={table?.text ?? ''}
+              onPaste={handlePaste}
+              onChange={() => undefined}
+              placeholder="在此处按 Ctrl+V / ⌘V 粘贴"
+              rows={table ? 4 : 8}
+              className="w-full px-3 py-2 font-mono text-xs border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 whitespace-pre"
+            />
+
+            {parseError && (
+              <div className="flex items-start gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                {parseError}
+              </div>
+            )}
+
+            {table && (
+              <div className="p-4 space-y-3 bg-slate-50 rounded-lg">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-600">
+                    识别到 {table.headers.length} 列，
+                    {table.rows.length.toLocaleString()} 行
+                  </span>
+                  <button
+                    onClick={() => setIsMappingOpen(true)}
+                    className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    配置列映射
+                  </button>
+                </div>
+
+                {missingFields.length > 0 ? (
+                  <p className="text-sm text-amber-700">
+                    缺少必需字段 ({missingFields.length}个):{' '}
+                    {missingFields.join(', ')}，请通过列映射指定对应列
+                  </p>
+                ) : (
+                  result && (
+                    <div className="space-y-2 text-sm">
+                      <p>
+                        有效{' '}
+                        <span className="font-semibold text-green-600">
+                          {result.stats.validRows.toLocaleString()}
+                        </span>{' '}
+                        行，无效{' '}
+                        <span className="font-semibold text-red-600">
+                          {result.stats.invalidRows.toLocaleString()}
+                        </span>{' '}
+                        行
+                        {result.stats.invalidRows > 0 && (
+                          <span className="text-slate-500">
+                            （无效行不会导入）
+                          </span>
+                        )}
+                      </p>
+                      {previewErrors && previewErrors.length > 0 && (
+                        <ul className="space-y-1 text-xs text-red-700">
+                          {previewErrors.map((error, index) => (
+                            <li key={index}>
+                              第 {error.row} 行
+                              {error.field ? ` [${error.field}]` : ''}:{' '}
+                              {error.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={reset}
+                disabled={!table && !parseError}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                清空
+              </button>
+              <button
+                onClick={handleLoadScratch}
+                disabled={!result || result.data.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-slate-700 bg-slate-200 hover:bg-slate-300 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <FlaskConical className="w-4 h-4" />
+                作为临时数据集查看
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={!result || result.data.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <GitMerge className="w-4 h-4" />
+                {!hasData
+                  ? '导入为数据集'
+                  : isScratch
+                    ? '合并到原数据集（退出临时数据）'
+                    : '合并到当前数据'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <ColumnMappingWizard
+          file={isMappingOpen ? mappingFile : null}
+          open={isMappingOpen}
+          onOpenChange={setIsMappingOpen}
+          onConfirm={nextMapping => {
+            if (table) applyMapping(table, nextMapping)
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * 临时数据集提示条：显示当前查看的临时数据，并可退出恢复原数据集
+ */
+export function ScratchDatasetBanner() {
+  const scratchDataset = useAppStore(state => state.scratchDataset)
+  const exitScratchData = useAppStore(state => state.exitScratchData)
+
+  if (!scratchDataset) return null
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+      <FlaskConical className="w-4 h-4" />
+      <span>临时数据集：{scratchDataset.label}，不会保存</span>
+      <button
+        onClick={exitScratchData}
+        className="font-medium text-amber-900 underline hover:no-underline"
+      >
+        退出
+      </button>
+    </div>
+  )
+}
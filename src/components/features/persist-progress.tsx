@@ -0,0 +1,35 @@
+/**
+ * 数据集读写进度
+ * 分块载入或保存数据集时在页面右下角显示进度
+ */
+
+'use client'
+
+import React from 'react'
+import { HardDrive } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
+import { useAppStore } from '@/store/use-app-store'
+
+export function PersistProgress() {
+  const progress = useAppStore(state => state.persistProgress)
+  if (!progress || progress.total === 0) return null
+
+  const percentage = Math.round((progress.done / progress.total) * 100)
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-72 p-4 bg-white rounded-xl border border-slate-200 shadow-lg">
+      <div className="flex items-center gap-2 text-sm text-slate-700">
+        <HardDrive className="w-4 h-4 text-blue-600" />
+        <span className="flex-1 truncate">
+          {progress.phase === 'loading' ? '正在载入' : '正在保存'}「
+          {progress.datasetName}」
+        </span>
+        <span className="text-xs text-slate-500">{percentage}%</span>
+      </div>
+      <Progress value={percentage} className="mt-3 h-1.5" />
+      <p className="mt-2 text-xs text-slate-500">
+        {progress.done} / {progress.total} 个数据块（按周次）
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+/**
+ * 持久化诊断
+ * 列出各持久化切片的存储版本与当前版本、已执行的迁移和回退记录，
+ * 并可下载或删除读取失败时备份的原始数据
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { Download, History, Trash2 } from 'lucide-react'
+import { usePersistenceDiagnostics } from '@/hooks/use-persistence-diagnostics'
+import type {
+  PersistenceBackup,
+  SliceDiagnostics,
+} from '@/lib/storage/versioned-storage'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+
+function describeStoredVersion(slice: SliceDiagnostics): string {
+  switch (slice.storedVersion) {
+    case null:
+      return '未保存'
+    case 'encrypted':
+      return '已加密'
+    case 'unreadable':
+      return '无法解析'
+    case 0:
+      return '旧格式（无版本）'
+    default:
+      return `v${slice.storedVersion}`
+  }
+}
+
+export function PersistenceDiagnostics() {
+  const { slices, log, backups, refresh, clearLog, removeBackup } =
+    usePersistenceDiagnostics()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (open) refresh()
+  }
+
+  const handleDownloadBackup = (backup: PersistenceBackup) => {
+    const blob = new Blob([backup.raw], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `backup-${backup.sliceId}-${backup.backedUpAt.split('T')[0]}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleDeleteBackup = (backup: PersistenceBackup) => {
+    if (!confirm(`确定要删除「${backup.label}」的备份吗？删除后无法找回。`)) {
+      return
+    }
+    removeBackup(backup.sliceId)
+  }
+
+  const backupList = Object.values(backups)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700">
+          <History className="w-3 h-3" />
+          持久化诊断
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>持久化诊断</DialogTitle>
+          <DialogDescription>
+            本机保存的设置与状态的结构版本、已执行的迁移，以及读取失败时备份的原始数据
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <section className="space-y-2">
+            <h4 className="text-sm font-medium text-slate-800">状态切片</h4>
+            <table className="w-full text-xs">
+              <thead className="text-slate-500">
+                <tr className="border-b border-slate-200">
+                  <th className="py-1.5 text-left font-normal">名称</th>
+                  <th className="py-1.5 text-left font-normal">存储版本</th>
+                  <th className="py-1.5 text-left font-normal">当前版本</th>
+                  <th className="py-1.5 text-left font-normal">备份</th>
+                </tr>
+              </thead>
+              <tbody>
+                {slices.map(slice => {
+                  const outdated =
+                    typeof slice.storedVersion === 'number' &&
+                    slice.storedVersion < slice.currentVersion
+                  return (
+                    <tr
+                      key={slice.sliceId}
+                      className="border-b border-slate-100"
+                    >
+                      <td className="py-1.5 text-slate-700">
+                        {slice.label}
+                        <span className="ml-2 text-slate-400">{slice.key}</span>
+                      </td>
+                      <td
+                        className={cn(
+                          'py-1.5',
+                          outdated || slice.storedVersion === 'unreadable'
+                            ? 'text-amber-700'
+                            : 'text-slate-600'
+                        )}
+                      >
+                        {describeStoredVersion(slice)}
+                      </td>
+                      <td className="py-1.5 text-slate-600">
+                        v{slice.currentVersion}
+                      </td>
+                      <td className="py-1.5 text-slate-600">
+                        {slice.hasBackup ? '有' : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-400">
+              旧版本的数据在下次读取时自动迁移并按当前版本写回
+            </p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-slate-800">迁移记录</h4>
+              {log.length > 0 && (
+                <button
+                  onClick={clearLog}
+                  className="text-xs text-slate-500 hover:text-slate-700"
+                >
+                  清空记录
+                </button>
+              )}
+            </div>
+            {log.length === 0 ? (
+              <p className="text-xs text-slate-500">暂无迁移记录</p>
+            ) : (
+              <ul className="max-h-60 overflow-y-auto space-y-1">
+                {log.map((entry, index) => (
+                  <li
+                    key={`${entry.sliceId}-${entry.at}-${index}`}
+                    className="flex items-start justify-between gap-4 px-2 py-1 text-xs rounded bg-slate-50"
+                  >
+                    <span className="text-slate-700">
+                      {entry.label}：v{entry.fromVersion} → v{entry.toVersion}
+                      {entry.outcome === 'reset' ? (
+                        <span className="ml-2 text-amber-700">
+                          已备份并回退默认值（{entry.reason}）
+                        </span>
+                      ) : (
+                        <span className="ml-2 text-green-700">已迁移</span>
+                      )}
+                    </span>
+                    <span className="shrink-0 text-slate-400">
+                      {new Date(entry.at).toLocaleString('zh-CN')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-sm font-medium text-slate-800">
+              不可用数据备份
+            </h4>
+            {backupList.length === 0 ? (
+              <p className="text-xs text-slate-500">暂无备份</p>
+            ) : (
+              <ul className="space-y-1">
+                {backupList.map(backup => (
+                  <li
+                    key={backup.sliceId}
+                    className="flex items-center justify-between gap-4 px-2 py-1 text-xs rounded bg-slate-50"
+                  >
+                    <span className="text-slate-700">
+                      {backup.label}
+                      <span className="ml-2 text-slate-400">
+                        {backup.reason} ·{' '}
+                        {new Date(backup.backedUpAt).toLocaleString('zh-CN')}
+                      </span>
+                    </span>
+                    <span className="flex shrink-0 gap-2">
+                      <button
+                        onClick={() => handleDownloadBackup(backup)}
+                        className="p-1 text-slate-500 hover:text-slate-800"
+                        title="下载原始数据"
+                      >
+                        <Download className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteBackup(backup)}
+                        className="p-1 text-red-500 hover:text-red-700"
+                        title="删除备份"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
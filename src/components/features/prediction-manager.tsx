@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useAppStore } from '@/store/use-app-store'
 import { useFilteredData } from '@/hooks/use-filtered-data'
 import { usePremiumDimensionAnalysis } from '@/hooks/use-premium-dimension-analysis'
@@ -16,18 +16,15 @@ import {
 } from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
-
-interface PredictionOverride {
-  signedPremiumYuan?: number
-  premiumAchievementRate?: number
-  averagePremium?: number
-  policyCount?: number
-  claimCaseCount?: number
-  maturedFrequencyRate?: number
-  averageClaim?: number
-  expenseRatio?: number
-  lossRatio?: number
-}
+import {
+  createScenarioId,
+  loadPredictionDraft,
+  loadPredictionScenarios,
+  savePredictionDraft,
+  savePredictionScenarios,
+  type PredictionOverride,
+  type PredictionScenario,
+} from '@/lib/analytics/prediction-scenarios'
 
 const TARGET_OPTIONS = [
   { key: '2025-11-30', label: '2025年11月30日' },
@@ -73,10 +70,47 @@ export function PredictionManagerPanel() {
   )
   const lossItems = useLossDimensionAnalysis('business_type_category')
 
-  const [targetKey, setTargetKey] = useState<string>(TARGET_OPTIONS[0].key)
+  const [targetKey, setTargetKey] = useState<string>(
+    () => loadPredictionDraft()?.targetKey ?? TARGET_OPTIONS[0].key
+  )
   const [overrides, setOverrides] = useState<
     Record<string, PredictionOverride>
-  >({})
+  >(() => loadPredictionDraft()?.overrides ?? {})
+  const [scenarios, setScenarios] = useState<PredictionScenario[]>(
+    loadPredictionScenarios
+  )
+  const [scenarioName, setScenarioName] = useState('')
+
+  // 自动保存当前草稿，刷新后继续编辑
+  useEffect(() => {
+    savePredictionDraft({ targetKey, overrides })
+  }, [targetKey, overrides])
+
+  const updateScenarios = (next: PredictionScenario[]) => {
+    setScenarios(next)
+    savePredictionScenarios(next)
+  }
+
+  const handleSaveScenario = () => {
+    const name = scenarioName.trim()
+    if (!name) return
+    const scenario: PredictionScenario = {
+      id: scenarios.find(s => s.name === name)?.id ?? createScenarioId(),
+      name,
+      targetKey,
+      overrides,
+      savedAt: new Date().toISOString(),
+    }
+    updateScenarios([...scenarios.filter(s => s.id !== scenario.id), scenario])
+    setScenarioName('')
+  }
+
+  const handleLoadScenario = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id)
+    if (!scenario) return
+    setTargetKey(scenario.targetKey)
+    setOverrides(scenario.overrides)
+  }
 
   const policyYear: number = useMemo(() => {
     if (filters.years && filters.years.length > 0) return filters.years[0]
@@ -342,6 +376,52 @@ export function PredictionManagerPanel() {
             满期率预测：日均满期率 × 年内已过天数（按所选年度）
           </div>
         </div>
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <div className="text-sm text-slate-700 font-medium">预测方案</div>
+          <Select value="" onValueChange={handleLoadScenario}>
+            <SelectTrigger className="w-[220px]" disabled={!scenarios.length}>
+              <SelectValue
+                placeholder={
+                  scenarios.length ? '载入已保存的方案' : '暂无已保存的方案'
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {scenarios.map(scenario => (
+                <SelectItem key={scenario.id} value={scenario.id}>
+                  {scenario.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={scenarioName}
+            onChange={e => setScenarioName(e.target.value)}
+            placeholder="方案名称（同名覆盖）"
+            className="w-[200px]"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveScenario}
+            disabled={!scenarioName.trim()}
+          >
+            保存当前方案
+          </Button>
+          {scenarios.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                if (confirm('确定要删除全部已保存的预测方案吗？')) {
+                  updateScenarios([])
+                }
+              }}
+            >
+              清空方案
+            </Button>
+          )}
+        </div>
       </Card>
 
       <div className="grid gap-4">
@@ -0,0 +1,407 @@
+/**
+ * 隔离区管理
+ * 浏览导入时被拒绝的行，逐单元格显示错误并直接编辑（枚举字段提供一键修正建议），
+ * 修正后重新校验并并入现有数据集
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+  Wand2,
+} from 'lucide-react'
+import {
+  getCellErrors,
+  mergeRecoveredRecords,
+  revalidateQuarantinedRows,
+  suggestCellFix,
+  type QuarantinedRow,
+} from '@/lib/dataset/quarantine'
+import {
+  deleteQuarantinedRows,
+  loadQuarantinedRows,
+  saveQuarantinedRows,
+} from '@/lib/storage/indexed-db'
+import { REQUIRED_FIELDS, FIELD_LABELS } from '@/lib/parsers/column-mapping'
+import {
+  collectCorrections,
+  getEnumAliasMappings,
+  type EnumAliasMappings,
+  type EnumCorrection,
+} from '@/lib/parsers/enum-aliases'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { selectCommittedData, useAppStore } from '@/store/use-app-store'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { EnumAliasSuggestions } from './enum-alias-suggestions'
+
+const PAGE_SIZE = 50
+
+/**
+ * 单元格显示值（布尔值按导入规范显示为 True/False）
+ */
+function formatCell(value: unknown): string {
+  if (typeof value === 'boolean') return value ? 'True' : 'False'
+  if (value === null || value === undefined) return ''
+  return String(value)
+}
+
+interface QuarantineManagerProps {
+  triggerLabel?: string
+}
+
+export function QuarantineManager({
+  triggerLabel = '隔离区',
+}: QuarantineManagerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [entries, setEntries] = useState<QuarantinedRow[]>([])
+  const [drafts, setDrafts] = useState<Record<string, Record<string, unknown>>>(
+    {}
+  )
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [page, setPage] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [aliasMappings, setAliasMappings] = useState<EnumAliasMappings>({})
+  // 已采纳的修正建议，可收录为别名
+  const [acceptedFixes, setAcceptedFixes] = useState<EnumCorrection[]>([])
+  const setRawData = useAppStore(state => state.setRawData)
+  const { toast } = useToast()
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open)
+    if (!open) return
+
+    setIsLoading(true)
+    setAliasMappings(getEnumAliasMappings())
+    setAcceptedFixes([])
+    const rows = await loadQuarantinedRows()
+    setEntries(
+      rows.sort(
+        (a, b) =>
+          a.quarantinedAt.localeCompare(b.quarantinedAt) ||
+          a.sourceFile.localeCompare(b.sourceFile) ||
+          a.row - b.row
+      )
+    )
+    setDrafts({})
+    setSelected(new Set())
+    setPage(0)
+    setIsLoading(false)
+  }
+
+  const pageCount = Math.max(1, Math.ceil(entries.length / PAGE_SIZE))
+  const pageEntries = useMemo(
+    () => entries.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE),
+    [entries, page]
+  )
+
+  const getValue = (entry: QuarantinedRow, field: string) =>
+    drafts[entry.id] && field in drafts[entry.id]
+      ? drafts[entry.id][field]
+      : entry.data[field]
+
+  const setCell = (id: string, field: string, value: unknown) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }))
+  }
+
+  const acceptSuggestion = (
+    entry: QuarantinedRow,
+    field: string,
+    suggestion: string
+  ) => {
+    const from = formatCell(getValue(entry, field)).trim()
+    setCell(entry.id, field, suggestion)
+    setAcceptedFixes(prev => {
+      const collected = new Map<string, EnumCorrection>(
+        prev.map(c => [`${c.field}|${c.from}|${c.to}`, { ...c }])
+      )
+      collectCorrections(collected, [{ field, from, to: suggestion }])
+      return Array.from(collected.values())
+    })
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const allPageSelected =
+    pageEntries.length > 0 && pageEntries.every(e => selected.has(e.id))
+
+  const togglePageSelected = () => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      pageEntries.forEach(e => {
+        if (allPageSelected) {
+          next.delete(e.id)
+        } else {
+          next.add(e.id)
+        }
+      })
+      return next
+    })
+  }
+
+  /**
+   * 重新校验所选行，通过的并入数据集，未通过的保存修改并更新错误
+   */
+  const handleResubmit = async () => {
+    const targets = entries
+      .filter(entry => selected.has(entry.id))
+      .map(entry => ({
+        ...entry,
+        data: { ...entry.data, ...drafts[entry.id] },
+      }))
+    if (targets.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      const { recovered, remaining } = revalidateQuarantinedRows(targets)
+
+      let added = 0
+      let duplicates = 0
+      if (recovered.length > 0) {
+        const merged = mergeRecoveredRecords(
+          selectCommittedData(useAppStore.getState()),
+          recovered.map(r => r.record)
+        )
+        setRawData(merged.data)
+        added = merged.added
+        duplicates = merged.duplicates
+        await deleteQuarantinedRows(recovered.map(r => r.id))
+      }
+      await saveQuarantinedRows(remaining)
+
+      const recoveredIds = new Set(recovered.map(r => r.id))
+      const remainingById = new Map(remaining.map(r => [r.id, r]))
+      setEntries(prev =>
+        prev
+          .filter(entry => !recoveredIds.has(entry.id))
+          .map(entry => remainingById.get(entry.id) ?? entry)
+      )
+      setDrafts(prev => {
+        const next = { ...prev }
+        targets.forEach(entry => delete next[entry.id])
+        return next
+      })
+      setSelected(new Set(remaining.map(r => r.id)))
+      setPage(0)
+
+      console.log(
+        `[Quarantine] 重新导入 ${targets.length} 行：通过 ${recovered.length}，新增 ${added}，重复 ${duplicates}，仍未通过 ${remaining.length}`
+      )
+      toast({
+        title: recovered.length > 0 ? '已重新导入' : '仍未通过校验',
+        description: `通过 ${recovered.length} 行（新增 ${added}，重复跳过 ${duplicates}），仍有 ${remaining.length} 行未通过`,
+        variant: remaining.length > 0 ? 'destructive' : undefined,
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    const ids = Array.from(selected)
+    if (ids.length === 0) return
+    if (!confirm(`确定从隔离区删除所选的 ${ids.length} 行吗？`)) return
+
+    await deleteQuarantinedRows(ids)
+    setEntries(prev => prev.filter(entry => !selected.has(entry.id)))
+    setSelected(new Set())
+    setPage(0)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <ShieldAlert className="w-4 h-4" />
+          {triggerLabel}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>隔离区</DialogTitle>
+          <DialogDescription>
+            导入时未通过校验的行保存在此处。修改标红的单元格后重新导入，通过校验的行将并入现有数据集
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-slate-500">
+            正在读取隔离区...
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="py-12 text-center text-sm text-slate-500">
+            隔离区为空
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-600">
+                共 {entries.length} 行，已选 {selected.size} 行
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleDelete}
+                  disabled={selected.size === 0 || isSubmitting}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-md text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  删除所选
+                </button>
+                <button
+                  onClick={handleResubmit}
+                  disabled={selected.size === 0 || isSubmitting}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+                >
+                  <RefreshCw
+                    className={cn('w-4 h-4', isSubmitting && 'animate-spin')}
+                  />
+                  重新校验并导入所选
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-slate-200">
+              <table className="text-xs">
+                <thead className="bg-slate-50 text-left text-slate-600">
+                  <tr>
+                    <th className="sticky left-0 bg-slate-50 px-2 py-2">
+                      <input
+                        type="checkbox"
+                        checked={allPageSelected}
+                        onChange={togglePageSelected}
+                        className="h-4 w-4 rounded text-blue-600"
+                      />
+                    </th>
+                    <th className="px-2 py-2 whitespace-nowrap">来源</th>
+                    {REQUIRED_FIELDS.map(field => (
+                      <th
+                        key={field}
+                        className="px-2 py-2 whitespace-nowrap"
+                        title={field}
+                      >
+                        {FIELD_LABELS[field] ?? field}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {pageEntries.map(entry => {
+                    const cellErrors = getCellErrors(entry)
+                    return (
+                      <tr key={entry.id} className="border-t border-slate-100">
+                        <td className="sticky left-0 bg-white px-2 py-1">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(entry.id)}
+                            onChange={() => toggleSelected(entry.id)}
+                            className="h-4 w-4 rounded text-blue-600"
+                          />
+                        </td>
+                        <td
+                          className={cn(
+                            'px-2 py-1 whitespace-nowrap text-slate-600',
+                            cellErrors._row && 'text-red-600'
+                          )}
+                          title={cellErrors._row?.join('\n')}
+                        >
+                          {entry.sourceFile} 第 {entry.row} 行
+                        </td>
+                        {REQUIRED_FIELDS.map(field => {
+                          const errors = cellErrors[field]
+                          const value = getValue(entry, field)
+                          const suggestions = errors
+                            ? suggestCellFix(field, value, aliasMappings)
+                            : []
+                          return (
+                            <td key={field} className="px-1 py-1 align-top">
+                              <input
+                                type="text"
+                                value={formatCell(value)}
+                                onChange={e =>
+                                  setCell(entry.id, field, e.target.value)
+                                }
+                                title={errors?.join('\n')}
+                                className={cn(
+                                  'w-28 rounded border px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500',
+                                  errors
+                                    ? 'border-red-300 bg-red-50 text-red-800'
+                                    : 'border-slate-200'
+                                )}
+                              />
+                              {errors && (
+                                <div className="mt-0.5 w-28 text-[10px] leading-tight text-red-600">
+                                  {errors[0]}
+                                </div>
+                              )}
+                              {suggestions.map(suggestion => (
+                                <button
+                                  key={suggestion}
+                                  onClick={() =>
+                                    acceptSuggestion(entry, field, suggestion)
+                                  }
+                                  className="mt-0.5 flex items-center gap-1 rounded bg-blue-50 px-1.5 py-0.5 text-[10px] text-blue-700 hover:bg-blue-100"
+                                >
+                                  <Wand2 className="w-3 h-3" />
+                                  改为 {suggestion}
+                                </button>
+                              ))}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <EnumAliasSuggestions corrections={acceptedFixes} />
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-center gap-3 text-sm text-slate-600">
+                <button
+                  onClick={() => setPage(p => Math.max(0, p - 1))}
+                  disabled={page === 0}
+                  className="p-1 rounded hover:bg-slate-100 disabled:opacity-40"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                第 {page + 1} / {pageCount} 页
+                <button
+                  onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                  disabled={page >= pageCount - 1}
+                  className="p-1 rounded hover:bg-slate-100 disabled:opacity-40"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
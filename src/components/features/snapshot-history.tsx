@@ -0,0 +1,336 @@
+/**
+ * 历史版本
+ * 列出覆盖或删除数据前自动保存的快照，显示每次操作带来的周次变化，
+ * 可一键回滚（可选同时恢复保费目标），并设置保留数量与存储预算
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { History, RotateCcw, Settings2, Trash2 } from 'lucide-react'
+import {
+  describeSnapshotChanges,
+  SNAPSHOT_REASON_LABELS,
+  type SnapshotMeta,
+} from '@/lib/dataset/snapshots'
+import { formatCoveredWeeks } from '@/lib/dataset/workspace'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useDatasetSnapshots } from '@/hooks/use-persist-data'
+import { useAppStore } from '@/store/use-app-store'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+// 变化明细中最多列出的周次
+const WEEK_PREVIEW_LIMIT = 6
+
+/**
+ * 格式化存储大小
+ */
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1
+  )
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+function formatWeekList(weeks: string[]): string {
+  const shown = weeks.slice(0, WEEK_PREVIEW_LIMIT).join('、')
+  return weeks.length > WEEK_PREVIEW_LIMIT
+    ? `${shown} 等 ${weeks.length} 周`
+    : shown
+}
+
+function SnapshotChangeDetails({ snapshot }: { snapshot: SnapshotMeta }) {
+  const { addedWeeks, removedWeeks, changedWeeks } = snapshot.changes
+  return (
+    <ul className="space-y-0.5 text-xs text-slate-500">
+      {addedWeeks.length > 0 && (
+        <li>
+          <span className="text-green-700">新增</span>{' '}
+          {formatWeekList(addedWeeks)}
+        </li>
+      )}
+      {removedWeeks.length > 0 && (
+        <li>
+          <span className="text-red-700">移除</span>{' '}
+          {formatWeekList(removedWeeks)}
+        </li>
+      )}
+      {changedWeeks.length > 0 && (
+        <li>
+          <span className="text-amber-700">变更</span>{' '}
+          {formatWeekList(changedWeeks)}
+        </li>
+      )}
+    </ul>
+  )
+}
+
+interface SnapshotHistoryProps {
+  triggerLabel?: string
+}
+
+export function SnapshotHistory({
+  triggerLabel = '历史版本',
+}: SnapshotHistoryProps) {
+  const {
+    snapshots,
+    settings,
+    refresh,
+    rollbackSnapshot,
+    deleteSnapshot,
+    updateSettings,
+  } = useDatasetSnapshots()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [restoreTargets, setRestoreTargets] = useState(false)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [draftSettings, setDraftSettings] = useState(settings)
+  const targetsUpdatedAt = useAppStore(state => state.premiumTargets.updatedAt)
+  const { toast } = useToast()
+
+  const totalBytes = snapshots.reduce(
+    (sum, snapshot) => sum + snapshot.storedBytes,
+    0
+  )
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open)
+    if (!open) return
+
+    setIsLoading(true)
+    setIsSettingsOpen(false)
+    setDraftSettings(settings)
+    await refresh()
+    setIsLoading(false)
+  }
+
+  const handleRollback = async (snapshot: SnapshotMeta) => {
+    if (
+      !confirm(
+        `确定要将数据集「${snapshot.datasetName}」回滚到 ${new Date(snapshot.createdAt).toLocaleString('zh-CN')} 的版本吗？当前内容会先保存为快照。`
+      )
+    ) {
+      return
+    }
+
+    setRestoringId(snapshot.id)
+    const result = await rollbackSnapshot(snapshot, { restoreTargets })
+    setRestoringId(null)
+    if (result.success) {
+      toast({
+        title: '已回滚',
+        description: `数据集「${snapshot.datasetName}」已恢复为 ${snapshot.rowCount.toLocaleString()} 条数据${restoreTargets ? '，保费目标已同时恢复' : ''}`,
+      })
+      setIsOpen(false)
+    } else {
+      toast({
+        title: '回滚失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDelete = async (snapshot: SnapshotMeta) => {
+    if (confirm('确定要删除这个快照吗？删除后无法再回滚到该版本。')) {
+      await deleteSnapshot(snapshot.id)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    const maxSnapshots = Math.max(1, Math.floor(draftSettings.maxSnapshots))
+    const budgetMB = Math.max(1, draftSettings.budgetMB)
+    if (!Number.isFinite(maxSnapshots) || !Number.isFinite(budgetMB)) {
+      toast({
+        title: '设置无效',
+        description: '请输入有效的数量和存储预算',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    const result = await updateSettings({ maxSnapshots, budgetMB })
+    if (result.success) {
+      setDraftSettings({ maxSnapshots, budgetMB })
+      setIsSettingsOpen(false)
+      toast({
+        title: '已保存保留设置',
+        description: `最多保留 ${maxSnapshots} 个快照，占用不超过 ${budgetMB} MB`,
+      })
+    } else {
+      toast({
+        title: '保存失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <History className="w-4 h-4" />
+          {triggerLabel}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>历史版本</DialogTitle>
+          <DialogDescription>
+            合并、重新上传、删除数据集和回滚之前会自动保存快照（含当时的保费目标），可回滚到任一版本
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-slate-600">
+            共 {snapshots.length} 个快照，占用 {formatFileSize(totalBytes)}
+          </span>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-slate-600">
+              <input
+                type="checkbox"
+                checked={restoreTargets}
+                onChange={e => setRestoreTargets(e.target.checked)}
+                className="h-4 w-4 rounded text-blue-600"
+              />
+              回滚时同时恢复保费目标
+            </label>
+            <button
+              onClick={() => setIsSettingsOpen(open => !open)}
+              className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+            >
+              <Settings2 className="w-4 h-4" />
+              保留设置
+            </button>
+          </div>
+        </div>
+
+        {isSettingsOpen && (
+          <div className="flex flex-wrap items-end gap-4 p-4 text-sm bg-slate-50 rounded-lg">
+            <label className="space-y-1">
+              <span className="block text-xs text-slate-600">
+                最多保留快照数
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={draftSettings.maxSnapshots}
+                onChange={e =>
+                  setDraftSettings(prev => ({
+                    ...prev,
+                    maxSnapshots: Number(e.target.value),
+                  }))
+                }
+                className="w-28 rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-slate-600">
+                存储预算（MB）
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={draftSettings.budgetMB}
+                onChange={e =>
+                  setDraftSettings(prev => ({
+                    ...prev,
+                    budgetMB: Number(e.target.value),
+                  }))
+                }
+                className="w-28 rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <button
+              onClick={handleSaveSettings}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md"
+            >
+              保存
+            </button>
+            <p className="w-full text-xs text-slate-500">
+              超出数量或预算时从最旧的快照开始删除，最新的快照始终保留
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-slate-500">
+            正在读取历史版本...
+          </div>
+        ) : snapshots.length === 0 ? (
+          <div className="py-12 text-center text-sm text-slate-500">
+            暂无快照，覆盖或删除数据时将自动保存
+          </div>
+        ) : (
+          <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200">
+            {snapshots.map(snapshot => (
+              <li key={snapshot.id} className="flex items-start gap-4 p-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm">
+                    <span className="font-medium text-slate-800">
+                      {snapshot.datasetName}
+                    </span>
+                    <span className="ml-2 rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-600">
+                      {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                    </span>
+                    <span className="ml-2 text-xs text-slate-400">
+                      {new Date(snapshot.createdAt).toLocaleString('zh-CN')}
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {snapshot.rowCount.toLocaleString()} 条 ·{' '}
+                    {formatCoveredWeeks(snapshot)} · 占用{' '}
+                    {formatFileSize(snapshot.storedBytes)}
+                    {snapshot.targets.updatedAt !== targetsUpdatedAt &&
+                      ' · 保费目标与当前不同'}
+                  </p>
+                  <p className="text-xs text-slate-600">
+                    此后：{describeSnapshotChanges(snapshot.changes)}
+                  </p>
+                  <SnapshotChangeDetails snapshot={snapshot} />
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleRollback(snapshot)}
+                    disabled={restoringId !== null}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm border border-slate-300 rounded-md text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+                  >
+                    <RotateCcw
+                      className={cn(
+                        'w-4 h-4',
+                        restoringId === snapshot.id && 'animate-spin'
+                      )}
+                    />
+                    回滚
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    disabled={restoringId !== null}
+                    className="p-1.5 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                    title="删除快照"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,381 @@
+/**
+ * 存储管理
+ * 按类别显示 IndexedDB 与 localStorage 的占用和浏览器配额，
+ * 空间不足时由用户选择删除哪些数据集、快照或其他内容
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { AlertTriangle, HardDrive, Trash2, X } from 'lucide-react'
+import {
+  BULK_PURGE_CATEGORIES,
+  LOCAL_STORAGE_QUOTA,
+  STORAGE_CATEGORY_LABELS,
+  getQuotaWarnings,
+  type BulkPurgeCategory,
+  type StorageCategory,
+} from '@/lib/storage/storage-manager'
+import {
+  checkStorageQuota,
+  useStorageManager,
+} from '@/hooks/use-storage-manager'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { PersistenceDiagnostics } from '@/components/features/persistence-diagnostics'
+import { useAppStore } from '@/store/use-app-store'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+/**
+ * 格式化存储大小
+ */
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1
+  )
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+const PURGE_CONFIRM_TEXT: Record<BulkPurgeCategory, string> = {
+  quarantine: '确定要清空隔离区吗？被隔离的行将无法再修正导入。',
+  targets:
+    '确定要清除保费目标吗？目标及其历史版本将被删除，清除前会随当前数据集保存快照。',
+  presets: '确定要清除全部筛选预设吗？',
+  caches: '确定要清除缓存吗？筛选条件和 localStorage 数据副本将被删除。',
+}
+
+function UsageBar({
+  label,
+  used,
+  quota,
+}: {
+  label: string
+  used: number
+  quota: number
+}) {
+  const ratio = quota > 0 ? Math.min(used / quota, 1) : 0
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-slate-600">
+        <span>{label}</span>
+        <span>
+          {formatFileSize(used)} / {formatFileSize(quota)}
+        </span>
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={cn(
+            'h-full rounded-full',
+            ratio >= 0.8 ? 'bg-red-500' : 'bg-blue-500'
+          )}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+interface StorageManagerProps {
+  triggerLabel?: string
+}
+
+export function StorageManager({
+  triggerLabel = '存储管理',
+}: StorageManagerProps) {
+  const {
+    overview,
+    isLoading,
+    refresh,
+    purgeDatasets,
+    purgeSnapshots,
+    purgeCategory,
+  } = useStorageManager()
+  const [isOpen, setIsOpen] = useState(false)
+  const [expanded, setExpanded] = useState<StorageCategory | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [isPurging, setIsPurging] = useState(false)
+  const [snapshotBeforePurge, setSnapshotBeforePurge] = useState(true)
+  const { toast } = useToast()
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    setExpanded(null)
+    setSelected([])
+    setSnapshotBeforePurge(true)
+    if (open) refresh()
+  }
+
+  const toggleExpanded = (category: StorageCategory) => {
+    setExpanded(prev => (prev === category ? null : category))
+    setSelected([])
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev =>
+      prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]
+    )
+  }
+
+  const handlePurgeSelected = async () => {
+    if (selected.length === 0) return
+    const isDatasets = expanded === 'datasets'
+    if (
+      !confirm(
+        isDatasets
+          ? snapshotBeforePurge
+            ? `确定要删除所选 ${selected.length} 个数据集吗？删除前会保存快照，可在历史版本中回滚。`
+            : `确定要删除所选 ${selected.length} 个数据集吗？删除时不会保存快照，数据将无法恢复。`
+          : `确定要删除所选 ${selected.length} 个快照吗？`
+      )
+    ) {
+      return
+    }
+
+    setIsPurging(true)
+    if (isDatasets) {
+      await purgeDatasets(selected, { snapshot: snapshotBeforePurge })
+    } else {
+      await purgeSnapshots(selected)
+    }
+    setIsPurging(false)
+    toast({
+      title: '已清理',
+      description: `删除了 ${selected.length} 个${isDatasets ? '数据集' : '快照'}`,
+    })
+    setSelected([])
+  }
+
+  const handlePurgeCategory = async (category: BulkPurgeCategory) => {
+    if (!confirm(PURGE_CONFIRM_TEXT[category])) return
+    setIsPurging(true)
+    await purgeCategory(category)
+    setIsPurging(false)
+    toast({ title: '已清理', description: STORAGE_CATEGORY_LABELS[category] })
+  }
+
+  const report = overview?.report
+  const warnings = report ? getQuotaWarnings(report) : []
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <HardDrive className="w-4 h-4" />
+          {triggerLabel}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>存储管理</DialogTitle>
+          <DialogDescription>
+            查看本机各类数据的占用，接近配额时选择要清理的内容
+          </DialogDescription>
+        </DialogHeader>
+
+        {!report ? (
+          <div className="py-8 text-center text-sm text-slate-500">
+            正在统计存储用量...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-3 p-4 bg-slate-50 rounded-lg">
+              {report.estimate && (
+                <UsageBar
+                  label="浏览器存储（IndexedDB 等）"
+                  used={report.estimate.usage}
+                  quota={report.estimate.quota}
+                />
+              )}
+              <UsageBar
+                label="localStorage（约）"
+                used={report.localStorageBytes}
+                quota={LOCAL_STORAGE_QUOTA}
+              />
+            </div>
+
+            {warnings.map(warning => (
+              <div
+                key={warning}
+                className="flex items-start gap-2 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg"
+              >
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                {warning}
+              </div>
+            ))}
+
+            <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200">
+              {report.categories.map(usage => {
+                const { category } = usage
+                const itemized =
+                  category === 'datasets' || category === 'snapshots'
+                const bulk = (BULK_PURGE_CATEGORIES as string[]).includes(
+                  category
+                )
+                return (
+                  <li key={category} className="p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <span className="font-medium text-slate-800">
+                          {STORAGE_CATEGORY_LABELS[category]}
+                        </span>
+                        <span className="ml-2 text-xs text-slate-500">
+                          {usage.location === 'indexeddb'
+                            ? 'IndexedDB'
+                            : 'localStorage'}{' '}
+                          · {usage.itemCount} 项 · {formatFileSize(usage.bytes)}
+                        </span>
+                      </div>
+                      {itemized && usage.itemCount > 0 && (
+                        <button
+                          onClick={() => toggleExpanded(category)}
+                          className="px-3 py-1 text-xs text-slate-600 border border-slate-300 rounded-md hover:border-slate-400"
+                        >
+                          {expanded === category ? '收起' : '选择清理'}
+                        </button>
+                      )}
+                      {bulk && usage.itemCount > 0 && (
+                        <button
+                          onClick={() =>
+                            handlePurgeCategory(category as BulkPurgeCategory)
+                          }
+                          disabled={isPurging}
+                          className="flex items-center gap-1 px-3 py-1 text-xs text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          清除
+                        </button>
+                      )}
+                      {category === 'settings' && (
+                        <span className="text-xs text-slate-400">不可清除</span>
+                      )}
+                    </div>
+
+                    {expanded === category && (
+                      <div className="space-y-2">
+                        <ul className="max-h-60 overflow-y-auto space-y-1">
+                          {(category === 'datasets'
+                            ? overview.datasets.map(meta => ({
+                                id: meta.id,
+                                title: meta.name,
+                                detail: `${meta.rowCount.toLocaleString()} 条 · 更新于 ${new Date(meta.updatedAt).toLocaleString('zh-CN')}`,
+                                bytes: meta.storedBytes,
+                              }))
+                            : overview.snapshots.map(meta => ({
+                                id: meta.id,
+                                title: meta.datasetName,
+                                detail: `${meta.rowCount.toLocaleString()} 条 · ${new Date(meta.createdAt).toLocaleString('zh-CN')}`,
+                                bytes: meta.storedBytes,
+                              }))
+                          ).map(item => (
+                            <li key={item.id}>
+                              <label className="flex items-center gap-2 px-2 py-1 text-xs rounded hover:bg-slate-50">
+                                <input
+                                  type="checkbox"
+                                  checked={selected.includes(item.id)}
+                                  onChange={() => toggleSelected(item.id)}
+                                  className="h-4 w-4 rounded text-blue-600"
+                                />
+                                <span className="flex-1 truncate text-slate-700">
+                                  {item.title}
+                                  <span className="ml-2 text-slate-400">
+                                    {item.detail}
+                                  </span>
+                                </span>
+                                <span className="text-slate-500">
+                                  {formatFileSize(item.bytes)}
+                                </span>
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="flex items-center justify-end gap-4">
+                          {category === 'datasets' && (
+                            <label className="flex items-center gap-2 text-xs text-slate-600">
+                              <input
+                                type="checkbox"
+                                checked={snapshotBeforePurge}
+                                onChange={e =>
+                                  setSnapshotBeforePurge(e.target.checked)
+                                }
+                                className="h-4 w-4 rounded text-blue-600"
+                              />
+                              删除前保存快照（可回滚，但暂不释放空间）
+                            </label>
+                          )}
+                          <button
+                            onClick={handlePurgeSelected}
+                            disabled={isPurging || selected.length === 0}
+                            className="flex items-center gap-1 px-3 py-1.5 text-xs text-white bg-red-600 hover:bg-red-700 rounded-md disabled:opacity-50"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                            删除所选（{selected.length}）
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-400">
+                {isLoading
+                  ? '正在刷新...'
+                  : `统计于 ${new Date(report.checkedAt).toLocaleString('zh-CN')}`}
+              </p>
+              <PersistenceDiagnostics />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * 存储空间预警
+ * 数据集列表变化（保存或删除）后检查配额，接近上限或保存失败时在页面底部提示
+ */
+export function StorageQuotaWarning() {
+  const datasets = useAppStore(state => state.datasets)
+  const saveWarning = useAppStore(state => state.storageWarning)
+  const quotaWarning = useAppStore(state => state.quotaWarning)
+  const setStorageWarning = useAppStore(state => state.setStorageWarning)
+  const setQuotaWarning = useAppStore(state => state.setQuotaWarning)
+
+  useEffect(() => {
+    checkStorageQuota()
+  }, [datasets])
+
+  const warning = [saveWarning, quotaWarning].filter(Boolean).join('；')
+  if (!warning) return null
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 flex items-center gap-3 max-w-2xl px-4 py-3 text-sm text-amber-800 bg-amber-50 rounded-xl border border-amber-300 shadow-lg">
+      <AlertTriangle className="w-4 h-4 shrink-0" />
+      <span>{warning}。可在「存储管理」中选择要清理的内容。</span>
+      <button
+        onClick={() => {
+          setStorageWarning(null)
+          setQuotaWarning(null)
+        }}
+        className="p-1 text-amber-500 hover:text-amber-800"
+        title="忽略"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * 跨标签页更新提示
+ * 当前数据集或设置在其他标签页发生变化时，在页面顶部提示重新载入
+ */
+
+'use client'
+
+import React from 'react'
+import { RefreshCw, X } from 'lucide-react'
+import { useTabSync } from '@/hooks/use-tab-sync'
+
+export function TabSyncPrompt() {
+  const { prompt, reload, dismiss } = useTabSync()
+  if (!prompt) return null
+
+  return (
+    <div className="fixed top-4 left-1/2 z-50 -translate-x-1/2 flex items-center gap-3 px-4 py-3 text-sm text-slate-700 bg-white rounded-xl border border-amber-300 shadow-lg">
+      <RefreshCw className="w-4 h-4 text-amber-600" />
+      <span>{prompt.message}，当前页面显示的可能不是最新内容。</span>
+      <button
+        onClick={reload}
+        className="px-3 py-1 text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+      >
+        重新载入
+      </button>
+      <button
+        onClick={dismiss}
+        className="p-1 text-slate-400 hover:text-slate-700"
+        title="忽略"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
@@ -15,15 +15,30 @@ import {
   Download,
   Search,
   BarChart3,
+  GitMerge,
+  FileArchive,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { BatchUploadResult } from '@/hooks/use-file-upload'
+import {
+  getResultSourceName,
+  type BatchUploadResult,
+} from '@/hooks/use-file-upload'
+import type { CumulativeRepairMode } from '@/lib/validations/cumulative-consistency'
+import {
+  collectCorrections,
+  type EnumCorrection,
+} from '@/lib/parsers/enum-aliases'
 import { DataQualityReport } from './data-quality-report'
 import { DataRepairSuggestions } from './data-repair-suggestions'
+import { QuarantineManager } from './quarantine-manager'
+import { DatasetDiffReport } from './dataset-diff-report'
+import { WeekCalendarCheck } from './week-calendar-check'
+import { EnumAliasSuggestions } from './enum-alias-suggestions'
 
 interface UploadResultsDetailProps {
   batchResult: BatchUploadResult
   onReset: () => void
+  onRepairCumulative?: (mode: CumulativeRepairMode) => void
 }
 
 /**
@@ -54,6 +69,7 @@ interface ErrorDetail {
 export function UploadResultsDetail({
   batchResult,
   onReset,
+  onRepairCumulative,
 }: UploadResultsDetailProps) {
   const [expandedFiles, setExpandedFiles] = useState<Set<number>>(new Set())
   const [searchTerm, setSearchTerm] = useState('')
@@ -85,9 +101,11 @@ export function UploadResultsDetail({
       // 处理成功解析但有错误的文件
       if (result.result?.errors) {
         result.result.errors.forEach(error => {
-          // 从错误消息中提取字段名（如果可能）
-          let field: string | undefined = undefined
-          const fieldMatch = error.message.match(/^([^:：]+)[：:]/)
+          // 优先使用错误自带的字段，否则从错误消息中提取字段名（如果可能）
+          let field: string | undefined = error.field
+          const fieldMatch = field
+            ? null
+            : error.message.match(/^([^:：]+)[：:]/)
           if (fieldMatch) {
             field = fieldMatch[1].trim()
           }
@@ -97,7 +115,7 @@ export function UploadResultsDetail({
             field: field,
             message: error.message,
             severity: error.severity,
-            fileName: result.file.name,
+            fileName: getResultSourceName(result),
           })
         })
       }
@@ -109,7 +127,7 @@ export function UploadResultsDetail({
           field: undefined,
           message: result.error,
           severity: 'error',
-          fileName: result.file.name,
+          fileName: getResultSourceName(result),
         })
       }
     })
@@ -195,6 +213,17 @@ export function UploadResultsDetail({
     }
   }, [allErrorDetails])
 
+  /**
+   * 汇总各文件导入时的枚举纠错
+   */
+  const corrections = useMemo(() => {
+    const collected = new Map<string, EnumCorrection>()
+    batchResult.results.forEach(result =>
+      collectCorrections(collected, result.result?.corrections ?? [])
+    )
+    return Array.from(collected.values())
+  }, [batchResult.results])
+
   /**
    * 过滤后的错误详情
    */
@@ -304,6 +333,100 @@ export function UploadResultsDetail({
           </button>
         </div>
 
+        {/* 合并结果 */}
+        {batchResult.mergeStatus === 'aborted' && (
+          <div className="mt-4 p-4 bg-white/60 rounded-lg text-sm text-slate-700">
+            已放弃本次导入，现有数据保持不变。
+          </div>
+        )}
+        {batchResult.mergeSummary && (
+          <div className="mt-4 p-4 bg-white/60 rounded-lg text-sm">
+            <div className="flex items-center gap-2 mb-3">
+              <GitMerge className="w-5 h-5 text-slate-600" />
+              <h4 className="font-medium text-slate-800">合并结果</h4>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-2">
+              <div>
+                <span className="text-slate-600">新增记录：</span>
+                <span className="font-medium text-green-600">
+                  {batchResult.mergeSummary.addedRecords}
+                </span>
+              </div>
+              <div>
+                <span className="text-slate-600">替换记录：</span>
+                <span className="font-medium text-orange-600">
+                  {batchResult.mergeSummary.replacedRecords}
+                </span>
+              </div>
+              <div>
+                <span className="text-slate-600">跳过记录：</span>
+                <span className="font-medium text-slate-600">
+                  {batchResult.mergeSummary.skippedRecords}
+                </span>
+              </div>
+              <div>
+                <span className="text-slate-600">数据集总计：</span>
+                <span className="font-medium text-blue-600">
+                  {batchResult.mergeSummary.totalRecords}
+                </span>
+              </div>
+            </div>
+            <div className="space-y-1 text-xs text-slate-600">
+              {batchResult.mergeSummary.addedWeeks.length > 0 && (
+                <div>
+                  追加周次：{batchResult.mergeSummary.addedWeeks.join('、')}
+                </div>
+              )}
+              {batchResult.mergeSummary.replacedWeeks.length > 0 && (
+                <div>
+                  替换周次：{batchResult.mergeSummary.replacedWeeks.join('、')}
+                </div>
+              )}
+              {batchResult.mergeSummary.keptWeeks.length > 0 && (
+                <div>
+                  保留现有周次：{batchResult.mergeSummary.keptWeeks.join('、')}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 差异报告 */}
+        {batchResult.datasetDiff && (
+          <DatasetDiffReport
+            diff={batchResult.datasetDiff}
+            className="mt-4 p-4 bg-white/60 rounded-lg"
+          />
+        )}
+
+        {/* 隔离区 */}
+        {!!batchResult.quarantinedRows && (
+          <div className="mt-4 p-4 bg-white/60 rounded-lg flex items-center justify-between gap-4 text-sm">
+            <span className="text-slate-700">
+              {batchResult.quarantinedRows}{' '}
+              行未通过校验，已移入隔离区，可在隔离区中修正后重新导入。
+            </span>
+            <QuarantineManager triggerLabel="打开隔离区" />
+          </div>
+        )}
+
+        {/* 压缩包中未导入的条目 */}
+        {batchResult.skippedArchiveEntries && (
+          <div className="mt-4 p-4 bg-white/60 rounded-lg text-sm text-slate-600">
+            <div className="flex items-center gap-2 font-medium text-slate-700">
+              <FileArchive className="w-4 h-4" />
+              压缩包中 {batchResult.skippedArchiveEntries.length}{' '}
+              个条目不是可导入的数据文件，已跳过
+            </div>
+            <div className="mt-1 text-xs text-slate-500 break-all">
+              {batchResult.skippedArchiveEntries.join('、')}
+            </div>
+          </div>
+        )}
+
+        {/* 别名收录建议 */}
+        <EnumAliasSuggestions corrections={corrections} className="mt-4" />
+
         {/* 错误统计概览 */}
         {errorStats.totalErrors > 0 && (
           <div className="mt-4 p-4 bg-white/60 rounded-lg">
@@ -499,7 +622,13 @@ export function UploadResultsDetail({
           validRecords={batchResult.validRecords}
           invalidRecords={batchResult.invalidRecords}
           errorStats={errorStats}
-          fileName={batchResult.results[0]?.file.name}
+          fileName={
+            batchResult.results[0] &&
+            getResultSourceName(batchResult.results[0])
+          }
+          cumulativeReport={batchResult.consistencyReport}
+          cumulativeRepair={batchResult.consistencyRepair}
+          onRepairCumulative={onRepairCumulative}
         />
       )}
 
@@ -508,6 +637,7 @@ export function UploadResultsDetail({
         <DataRepairSuggestions
           errorStats={errorStats}
           totalRecords={batchResult.totalRecords}
+          results={batchResult.results}
         />
       )}
 
@@ -540,6 +670,15 @@ export function UploadResultsDetail({
                     <span className="font-medium text-slate-800">
                       {result.file.name}
                     </span>
+                    {result.archivePath && (
+                      <span
+                        className="flex items-center gap-1 text-xs text-slate-500"
+                        title={result.archivePath}
+                      >
+                        <FileArchive className="w-3.5 h-3.5" />
+                        {result.archivePath}
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -548,6 +687,12 @@ export function UploadResultsDetail({
                     <>
                       <span>{result.result.stats.validRows} 条有效</span>
                       <span>{result.result.stats.invalidRows} 条无效</span>
+                      {!!result.result.calendarCheck?.mismatchedRows && (
+                        <span className="text-orange-600">
+                          周历不符 {result.result.calendarCheck.mismatchedRows}{' '}
+                          条
+                        </span>
+                      )}
                     </>
                   )}
                   <span>{Math.round(result.file.size / 1024)} KB</span>
@@ -589,8 +734,30 @@ export function UploadResultsDetail({
                             {result.result.stats.encoding || 'UTF-8'}
                           </span>
                         </div>
+                        {!!result.result.stats.ruleViolations && (
+                          <div>
+                            <span className="text-slate-600">规则违规：</span>
+                            <span className="font-medium text-orange-600">
+                              {result.result.stats.ruleViolations}
+                            </span>
+                          </div>
+                        )}
+                        {result.result.stats.sheetName && (
+                          <div>
+                            <span className="text-slate-600">工作表：</span>
+                            <span className="font-medium">
+                              {result.result.stats.sheetName}
+                            </span>
+                          </div>
+                        )}
                       </div>
 
+                      {result.result.calendarCheck && (
+                        <WeekCalendarCheck
+                          report={result.result.calendarCheck}
+                        />
+                      )}
+
                       {result.result.errors &&
                         result.result.errors.length > 0 && (
                           <div className="mt-3">
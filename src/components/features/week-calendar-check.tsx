@@ -0,0 +1,93 @@
+/**
+ * 周历核对结果
+ * 展示单个文件中周序号与快照日期的核对情况，列出标注不符的周次分组
+ */
+
+'use client'
+
+import React from 'react'
+import { CalendarCheck, CalendarX } from 'lucide-react'
+import {
+  describeWeekMismatch,
+  type WeekCalendarReport,
+} from '@/lib/validations/week-calendar'
+
+const MAX_GROUPS = 10
+const MAX_SAMPLE_ROWS = 5
+
+export function WeekCalendarCheck({ report }: { report: WeekCalendarReport }) {
+  const passed = report.mismatchedRows === 0
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-3 text-sm">
+      <div className="flex items-center gap-2">
+        {passed ? (
+          <CalendarCheck className="h-4 w-4 text-green-600" />
+        ) : (
+          <CalendarX className="h-4 w-4 text-orange-600" />
+        )}
+        <span className="font-medium text-slate-800">周历核对</span>
+        <span className="text-slate-600">
+          核对 {report.checkedRows} 行
+          {report.derivedRows > 0 &&
+            `，${report.derivedRows} 行周序号由快照日期推导`}
+          {passed
+            ? '，周序号与快照日期一致'
+            : `，${report.mismatchedRows} 行周序号与快照日期不符`}
+        </span>
+      </div>
+
+      {!passed && (
+        <>
+          <table className="mt-2 w-full text-xs">
+            <thead className="text-left text-slate-500">
+              <tr>
+                <th className="py-1 pr-3">快照日期</th>
+                <th className="py-1 pr-3">保单年度</th>
+                <th className="py-1 pr-3">标注周次</th>
+                <th className="py-1 pr-3">周历周次</th>
+                <th className="py-1 pr-3 text-right">行数</th>
+                <th className="py-1">示例行号</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.mismatches.slice(0, MAX_GROUPS).map(mismatch => (
+                <tr
+                  key={`${mismatch.snapshot_date}-${mismatch.policy_start_year}-${mismatch.week_number}`}
+                  className="border-t border-slate-100"
+                  title={describeWeekMismatch(mismatch)}
+                >
+                  <td className="py-1 pr-3">{mismatch.snapshot_date}</td>
+                  <td className="py-1 pr-3">{mismatch.policy_start_year}</td>
+                  <td className="py-1 pr-3 text-orange-700">
+                    第 {mismatch.week_number} 周
+                  </td>
+                  <td className="py-1 pr-3">
+                    {mismatch.expectedWeek === null
+                      ? '无法推算'
+                      : `第 ${mismatch.expectedWeek} 周`}
+                  </td>
+                  <td className="py-1 pr-3 text-right">{mismatch.count}</td>
+                  <td className="py-1 text-slate-500">
+                    {mismatch.rows.slice(0, MAX_SAMPLE_ROWS).join('、')}
+                    {mismatch.rows.length > MAX_SAMPLE_ROWS && ' …'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.mismatches.length > MAX_GROUPS && (
+            <div className="mt-1 text-xs text-slate-500">
+              另有 {report.mismatches.length - MAX_GROUPS} 组不符未列出
+            </div>
+          )}
+          <p className="mt-2 text-xs text-slate-500">
+            周历规则：第 1 周自 1 月 1
+            日起至第一个周六，快照日期归属截至当日最近结束的一周。
+            不符的记录已按文件中的周次导入，请核对源文件后重新导入。
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+/**
+ * 工作区迁移
+ * 导出包含数据集、保费目标、筛选预设、预测方案和设置的工作区文件；
+ * 导入时校验清单与校验和，按分区选择导入内容并处理与本机的冲突
+ */
+
+'use client'
+
+import React, { useRef, useState } from 'react'
+import {
+  AlertCircle,
+  Download,
+  FolderSync,
+  RefreshCw,
+  Upload,
+} from 'lucide-react'
+import {
+  BUNDLE_SECTIONS,
+  BUNDLE_SECTION_LABELS,
+  BUNDLE_SETTING_LABELS,
+  CONFLICT_STRATEGY_LABELS,
+  WORKSPACE_BUNDLE_EXTENSION,
+  detectBundleConflicts,
+  readWorkspaceBundle,
+  type BundleConflicts,
+  type BundleSection,
+  type ConflictStrategy,
+  type ParsedWorkspaceBundle,
+} from '@/lib/export/workspace-bundle'
+import {
+  collectLocalWorkspace,
+  useWorkspaceBundle,
+  type WorkspaceImportOptions,
+} from '@/hooks/use-workspace-bundle'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+
+// 保费目标与设置只能整体覆盖或保留，不支持两者都保留
+const SINGLE_VALUE_SECTIONS: BundleSection[] = ['targets', 'settings']
+
+function getStrategies(section: BundleSection): ConflictStrategy[] {
+  return SINGLE_VALUE_SECTIONS.includes(section)
+    ? ['replace', 'skip']
+    : ['replace', 'keep-both', 'skip']
+}
+
+/**
+ * 分区内容摘要
+ */
+function describeSection(
+  bundle: ParsedWorkspaceBundle,
+  section: BundleSection
+): string {
+  const { summary } = bundle.manifest
+  switch (section) {
+    case 'datasets':
+      return summary.datasets.length > 0
+        ? summary.datasets
+            .map(d => `${d.name}（${d.rowCount.toLocaleString()} 条）`)
+            .join('、')
+        : '无'
+    case 'targets':
+      return summary.targetsYear ? `${summary.targetsYear} 年目标` : '无'
+    case 'filterPresets':
+      return `${summary.filterPresets} 个预设`
+    case 'scenarios':
+      return `${summary.scenarios} 个方案`
+    case 'settings':
+      return summary.settings.length > 0
+        ? summary.settings.map(name => BUNDLE_SETTING_LABELS[name]).join('、')
+        : '无'
+  }
+}
+
+function hasSectionContent(
+  bundle: ParsedWorkspaceBundle,
+  section: BundleSection
+): boolean {
+  const { summary } = bundle.manifest
+  switch (section) {
+    case 'datasets':
+      return summary.datasets.length > 0
+    case 'targets':
+      return summary.targetsYear !== null
+    case 'filterPresets':
+      return summary.filterPresets > 0
+    case 'scenarios':
+      return summary.scenarios > 0
+    case 'settings':
+      return summary.settings.length > 0
+  }
+}
+
+interface WorkspaceBundleProps {
+  triggerLabel?: string
+}
+
+export function WorkspaceBundle({
+  triggerLabel = '工作区迁移',
+}: WorkspaceBundleProps) {
+  const { exportWorkspace, importWorkspace } = useWorkspaceBundle()
+  const [isOpen, setIsOpen] = useState(false)
+  const [exportProgress, setExportProgress] = useState<string | null>(null)
+  const [bundle, setBundle] = useState<ParsedWorkspaceBundle | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [readError, setReadError] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<BundleConflicts | null>(null)
+  const [options, setOptions] = useState<WorkspaceImportOptions | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importedSummary, setImportedSummary] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const reset = () => {
+    setBundle(null)
+    setFileName('')
+    setReadError(null)
+    setConflicts(null)
+    setOptions(null)
+    setImportedSummary(null)
+  }
+
+  const handleExport = async () => {
+    setExportProgress('正在收集数据集...')
+    const result = await exportWorkspace((done, total) =>
+      setExportProgress(`正在读取数据集 ${done} / ${total}`)
+    )
+    setExportProgress(null)
+    if (result.success && result.manifest) {
+      toast({
+        title: '工作区已导出',
+        description: `包含 ${result.manifest.summary.datasets.length} 个数据集、${result.manifest.summary.filterPresets} 个筛选预设、${result.manifest.summary.scenarios} 个预测方案`,
+      })
+    } else {
+      toast({
+        title: '导出失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    reset()
+    setFileName(file.name)
+    try {
+      const parsed = await readWorkspaceBundle(
+        new Uint8Array(await file.arrayBuffer())
+      )
+      const local = await collectLocalWorkspace(false)
+      const detected = detectBundleConflicts(parsed.contents, local)
+      setBundle(parsed)
+      setConflicts(detected)
+      setOptions(
+        BUNDLE_SECTIONS.reduce((acc, section) => {
+          acc[section] = {
+            enabled:
+              hasSectionContent(parsed, section) &&
+              !parsed.corruptSections.includes(section) &&
+              !parsed.invalidSections[section],
+            strategy: 'skip',
+          }
+          return acc
+        }, {} as WorkspaceImportOptions)
+      )
+    } catch (error) {
+      setReadError(
+        error instanceof Error ? error.message : '工作区文件读取失败'
+      )
+    }
+  }
+
+  const updateOption = (
+    section: BundleSection,
+    patch: Partial<WorkspaceImportOptions[BundleSection]>
+  ) => {
+    setOptions(prev =>
+      prev ? { ...prev, [section]: { ...prev[section], ...patch } } : prev
+    )
+  }
+
+  const handleImport = async () => {
+    if (!bundle || !options) return
+    setIsImporting(true)
+    const result = await importWorkspace(bundle.contents, options)
+    setIsImporting(false)
+    if (!result.success) {
+      toast({
+        title: '导入失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    const written =
+      (Object.entries(result.imported) as Array<[BundleSection, number]>)
+        .map(([section, count]) => `${BUNDLE_SECTION_LABELS[section]} ${count}`)
+        .join('，') || '没有写入任何内容'
+    const rejected = result.rejected
+      .map(
+        ({ datasetName, count, firstError }) =>
+          `数据集「${datasetName}」${count} 条记录未通过校验${firstError ? `（${firstError}）` : ''}`
+      )
+      .join('；')
+    setImportedSummary(rejected ? `${written}；${rejected}，已跳过` : written)
+  }
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={open => {
+        setIsOpen(open)
+        if (!open) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+          <FolderSync className="w-4 h-4" />
+          {triggerLabel}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>工作区迁移</DialogTitle>
+          <DialogDescription>
+            将数据集、保费目标（含版本）、筛选预设、预测方案和设置打包为一个文件，在另一台电脑上导入
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-lg">
+          <div className="text-sm text-slate-600">
+            {exportProgress ??
+              '导出本机的完整工作区（含清单与 SHA-256 校验和）'}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exportProgress !== null}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            导出工作区
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-slate-600">
+              {fileName || `选择 ${WORKSPACE_BUNDLE_EXTENSION} 工作区文件导入`}
+            </span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-slate-700 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              选择文件
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={WORKSPACE_BUNDLE_EXTENSION}
+              onChange={handleFile}
+              className="hidden"
+            />
+          </div>
+
+          {readError && (
+            <div className="flex items-start gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {readError}
+            </div>
+          )}
+
+          {bundle && options && conflicts && !importedSummary && (
+            <div className="space-y-3">
+              <p className="text-xs text-slate-500">
+                导出于{' '}
+                {new Date(bundle.manifest.createdAt).toLocaleString('zh-CN')}
+                ，校验和 {bundle.manifest.checksum.slice(0, 12)}…
+              </p>
+
+              <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200">
+                {BUNDLE_SECTIONS.map(section => {
+                  const corrupt = bundle.corruptSections.includes(section)
+                  const invalidReason = bundle.invalidSections[section]
+                  const sectionConflicts = conflicts[section]
+                  const disabled =
+                    corrupt ||
+                    Boolean(invalidReason) ||
+                    !hasSectionContent(bundle, section)
+                  return (
+                    <li key={section} className="p-3 space-y-2">
+                      <label className="flex items-start gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={options[section].enabled}
+                          disabled={disabled}
+                          onChange={e =>
+                            updateOption(section, {
+                              enabled: e.target.checked,
+                            })
+                          }
+                          className="mt-0.5 h-4 w-4 rounded text-blue-600"
+                        />
+                        <span>
+                          <span className="font-medium text-slate-800">
+                            {BUNDLE_SECTION_LABELS[section]}
+                          </span>
+                          <span className="ml-2 text-xs text-slate-500">
+                            {describeSection(bundle, section)}
+                          </span>
+                        </span>
+                      </label>
+                      {corrupt && (
+                        <p className="ml-6 text-xs text-red-700">
+                          校验失败，该分区内容已损坏，无法导入
+                        </p>
+                      )}
+                      {!corrupt && invalidReason && (
+                        <p className="ml-6 text-xs text-red-700">
+                          内容校验失败，无法导入：{invalidReason}
+                        </p>
+                      )}
+                      {!disabled && sectionConflicts.length > 0 && (
+                        <div className="ml-6 flex flex-wrap items-center gap-2 text-xs">
+                          <span className="text-amber-700">
+                            与本机冲突：{sectionConflicts.join('、')}
+                          </span>
+                          <select
+                            value={options[section].strategy}
+                            disabled={!options[section].enabled}
+                            onChange={e =>
+                              updateOption(section, {
+                                strategy: e.target.value as ConflictStrategy,
+                              })
+                            }
+                            className="rounded-md border border-slate-300 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {getStrategies(section).map(strategy => (
+                              <option key={strategy} value={strategy}>
+                                {CONFLICT_STRATEGY_LABELS[strategy]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleImport}
+                  disabled={
+                    isImporting ||
+                    !BUNDLE_SECTIONS.some(section => options[section].enabled)
+                  }
+                  className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Upload className="w-4 h-4" />
+                  {isImporting ? '正在导入...' : '导入所选分区'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {importedSummary && (
+            <div className="flex items-center justify-between gap-4 p-4 text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg">
+              <span>导入完成：{importedSummary}。刷新页面后生效。</span>
+              <button
+                onClick={() => window.location.reload()}
+                className="flex items-center gap-2 px-3 py-1.5 text-white bg-green-600 hover:bg-green-700 rounded-md"
+              >
+                <RefreshCw className="w-4 h-4" />
+                立即刷新
+              </button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,11 +1,31 @@
 'use client'
 
-import { SlidersHorizontal } from 'lucide-react'
+import { useState } from 'react'
+import { SlidersHorizontal, FilePlus } from 'lucide-react'
 import { DataViewSelector } from '@/components/filters/data-view-selector'
 import { CompactTimeFilter } from '@/components/filters/compact-time-filter'
 import { CompactOrganizationFilter } from '@/components/filters/compact-organization-filter'
 import { DataExport } from '@/components/features/data-export'
 import { PDFReportExport } from '@/components/features/pdf-report-export'
+import { FileUpload } from '@/components/features/file-upload'
+import { QuarantineManager } from '@/components/features/quarantine-manager'
+import { DatasetSwitcher } from '@/components/features/dataset-switcher'
+import { SnapshotHistory } from '@/components/features/snapshot-history'
+import { WorkspaceBundle } from '@/components/features/workspace-bundle'
+import { EncryptionSettings } from '@/components/features/encryption-settings'
+import { StorageManager } from '@/components/features/storage-manager'
+import {
+  PasteImport,
+  ScratchDatasetBanner,
+} from '@/components/features/paste-import'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
 import { useAppStore } from '@/store/use-app-store'
 import { usePersistData } from '@/hooks/use-persist-data'
 
@@ -21,10 +41,11 @@ export function TopToolbar({
   rawCount,
 }: TopToolbarProps) {
   const { clearPersistedData } = usePersistData()
+  const [isAppendOpen, setIsAppendOpen] = useState(false)
 
   return (
     <div className="flex items-center justify-between gap-4 py-2">
-      {/* 左侧：筛选器切换 + 数据统计 */}
+      {/* 左侧：筛选器切换 + 数据集 + 数据统计 */}
       <div className="flex items-center gap-4">
         <button
           onClick={onToggleFilters}
@@ -33,6 +54,7 @@ export function TopToolbar({
           <SlidersHorizontal className="w-4 h-4" />
           {showFilters ? '隐藏筛选' : '显示筛选'}
         </button>
+        <DatasetSwitcher />
         <p className="text-sm text-slate-600">
           已加载{' '}
           <span className="font-semibold text-blue-600">
@@ -40,6 +62,7 @@ export function TopToolbar({
           </span>{' '}
           条数据记录
         </p>
+        <ScratchDatasetBanner />
       </div>
 
       {/* 中间：全局筛选器区域 */}
@@ -53,13 +76,38 @@ export function TopToolbar({
       <div className="flex items-center gap-3">
         <DataExport />
         <PDFReportExport />
+        <Dialog open={isAppendOpen} onOpenChange={setIsAppendOpen}>
+          <DialogTrigger asChild>
+            <button className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors">
+              <FilePlus className="w-4 h-4" />
+              追加数据
+            </button>
+          </DialogTrigger>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>追加数据</DialogTitle>
+              <DialogDescription>
+                新周次将追加到现有数据集，重叠周次可选择替换或保留
+              </DialogDescription>
+            </DialogHeader>
+            <FileUpload />
+          </DialogContent>
+        </Dialog>
+        <PasteImport />
+        <QuarantineManager />
+        <SnapshotHistory />
+        <WorkspaceBundle />
+        <StorageManager />
+        <EncryptionSettings />
         <button
           onClick={() => {
             if (
-              confirm('确定要清除当前数据并重新上传吗？这将清除所有缓存数据。')
+              confirm(
+                '确定要删除当前数据集并重新上传吗？删除前会保存快照，可在历史版本中回滚；其他已保存的数据集不受影响。'
+              )
             ) {
-              useAppStore.getState().clearData()
               clearPersistedData()
+              useAppStore.getState().clearData()
             }
           }}
           className="px-4 py-2 text-sm text-slate-600 hover:text-slate-800 border border-slate-300 rounded-lg hover:border-slate-400 transition-colors"
@@ -0,0 +1,247 @@
+/**
+ * 数据加密 Hook
+ * 解锁 / 锁定会话，启用或关闭加密时把已保存的数据集、快照、隔离区、保费目标和筛选预设
+ * 逐项读出后按新的设置重新写入
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore, PREMIUM_TARGET_STORAGE_KEY } from '@/store/use-app-store'
+import {
+  listDatasets,
+  listSnapshots,
+  loadDatasetRecords,
+  loadQuarantinedRows,
+  loadSnapshotRecords,
+  saveDataset,
+  saveQuarantinedRows,
+  saveSnapshot,
+} from '@/lib/storage/indexed-db'
+import { removeStorageItem, StorageKeys } from '@/lib/storage/local-storage'
+import {
+  createEncryptionConfig,
+  getEncryptionConfig,
+  isEncryptionEnabled,
+  lockEncryption,
+  readSecureItem,
+  removeEncryptionConfig,
+  saveEncryptionConfig,
+  unlockEncryption,
+  writeSecureItem,
+  type EncryptionConfig,
+} from '@/lib/storage/encryption'
+import {
+  loadFilterPresets,
+  saveFilterPresets,
+} from '@/hooks/use-filter-presets'
+
+/**
+ * 重写进度回调
+ * @param done 已重写的数据集与快照数
+ * @param total 数据集与快照总数
+ */
+export type RewriteProgressCallback = (done: number, total: number) => void
+
+/**
+ * 按当前加密设置重写本地保存的全部业务数据
+ */
+async function rewriteStoredData(
+  onProgress?: RewriteProgressCallback
+): Promise<void> {
+  // 启用加密后数据只以密文保存在 IndexedDB，立即删除 localStorage 中的明文副本
+  if (isEncryptionEnabled()) {
+    removeStorageItem(StorageKeys.RAW_DATA)
+  }
+
+  const datasets = await listDatasets()
+  const snapshots = await listSnapshots()
+  const total = datasets.length + snapshots.length
+  let done = 0
+  onProgress?.(done, total)
+
+  for (const meta of datasets) {
+    const records = await loadDatasetRecords(meta.id)
+    if (!records) throw new Error(`数据集「${meta.name}」读取失败`)
+    const result = await saveDataset(meta, records)
+    if (!result.success) {
+      throw new Error(`数据集「${meta.name}」写入失败: ${result.error}`)
+    }
+    onProgress?.(++done, total)
+  }
+
+  for (const meta of snapshots) {
+    const records = await loadSnapshotRecords(meta)
+    if (!records) throw new Error(`快照「${meta.datasetName}」读取失败`)
+    const result = await saveSnapshot(meta, records)
+    if (!result.success) {
+      throw new Error(`快照「${meta.datasetName}」写入失败: ${result.error}`)
+    }
+    onProgress?.(++done, total)
+  }
+
+  const quarantined = await loadQuarantinedRows()
+  const quarantineResult = await saveQuarantinedRows(quarantined)
+  if (!quarantineResult.success) {
+    throw new Error(`隔离区写入失败: ${quarantineResult.error}`)
+  }
+
+  const targets = await readSecureItem<unknown>(PREMIUM_TARGET_STORAGE_KEY)
+  if (targets !== null) {
+    await writeSecureItem(PREMIUM_TARGET_STORAGE_KEY, targets)
+  }
+  await saveFilterPresets(await loadFilterPresets())
+}
+
+export function useEncryption() {
+  const encryptionLocked = useAppStore(state => state.encryptionLocked)
+  const setEncryptionLocked = useAppStore(state => state.setEncryptionLocked)
+  const [config, setConfig] = useState<EncryptionConfig | null>(null)
+
+  useEffect(() => {
+    setConfig(getEncryptionConfig())
+  }, [encryptionLocked])
+
+  /**
+   * 输入口令解锁，解锁后重新载入数据集和保费目标
+   */
+  const unlock = useCallback(
+    async (passphrase: string) => {
+      const result = await unlockEncryption(passphrase)
+      if (result.success) {
+        setEncryptionLocked(false)
+        useAppStore.getState().loadPremiumTargets()
+      }
+      return result
+    },
+    [setEncryptionLocked]
+  )
+
+  /**
+   * 立即锁定：丢弃密钥并清空内存中的业务数据
+   */
+  const lock = useCallback(() => {
+    lockEncryption()
+    setEncryptionLocked(true)
+  }, [setEncryptionLocked])
+
+  /**
+   * 启用加密：先保存配置，再用新密钥重写已保存的数据
+   * 重写中断时已写入的数据均可用该口令读取，可再次启用以完成剩余部分
+   */
+  const enableEncryption = useCallback(
+    async (
+      passphrase: string,
+      autoLockMinutes: number,
+      onProgress?: RewriteProgressCallback
+    ): Promise<{ success: boolean; error?: string }> => {
+      try {
+        const created = await createEncryptionConfig(
+          passphrase,
+          autoLockMinutes
+        )
+        const saved = saveEncryptionConfig(created)
+        if (!saved.success) throw new Error(saved.error)
+        setConfig(created)
+        await rewriteStoredData(onProgress)
+        console.log('[Encryption] 已启用加密并重写本地数据')
+        return { success: true }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : '未知错误'
+        console.error('[Encryption] 启用加密失败:', msg)
+        return { success: false, error: msg }
+      }
+    },
+    []
+  )
+
+  /**
+   * 关闭加密：删除配置后以明文重写数据，失败时恢复配置，避免密文失去对应的口令
+   */
+  const disableEncryption = useCallback(
+    async (
+      onProgress?: RewriteProgressCallback
+    ): Promise<{ success: boolean; error?: string }> => {
+      const current = getEncryptionConfig()
+      if (!current) return { success: true }
+
+      try {
+        removeEncryptionConfig()
+        await rewriteStoredData(onProgress)
+        lockEncryption()
+        setConfig(null)
+        console.log('[Encryption] 已关闭加密并以明文重写本地数据')
+        return { success: true }
+      } catch (error) {
+        saveEncryptionConfig(current)
+        const msg = error instanceof Error ? error.message : '未知错误'
+        console.error('[Encryption] 关闭加密失败:', msg)
+        return { success: false, error: msg }
+      }
+    },
+    []
+  )
+
+  /**
+   * 修改自动锁定时间（0 表示不自动锁定）
+   */
+  const updateAutoLockMinutes = useCallback((minutes: number) => {
+    const current = getEncryptionConfig()
+    if (!current) return
+    const next = { ...current, autoLockMinutes: minutes }
+    saveEncryptionConfig(next)
+    setConfig(next)
+  }, [])
+
+  return {
+    config,
+    isLocked: encryptionLocked,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
+    updateAutoLockMinutes,
+  }
+}
+
+const ACTIVITY_EVENTS = [
+  'mousemove',
+  'keydown',
+  'mousedown',
+  'wheel',
+  'touchstart',
+]
+
+/**
+ * 无操作超过设定时间后自动锁定
+ * 每次检查时读取最新配置，设置对话框中的修改无需重新挂载即可生效
+ */
+export function useAutoLock() {
+  const isLocked = useAppStore(state => state.encryptionLocked)
+  const setEncryptionLocked = useAppStore(state => state.setEncryptionLocked)
+
+  useEffect(() => {
+    if (isLocked) return
+
+    let lastActivity = Date.now()
+    const markActivity = () => {
+      lastActivity = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach(event =>
+      window.addEventListener(event, markActivity, { passive: true })
+    )
+    const timer = window.setInterval(() => {
+      const minutes = getEncryptionConfig()?.autoLockMinutes ?? 0
+      if (minutes > 0 && Date.now() - lastActivity >= minutes * 60 * 1000) {
+        console.log(`[Encryption] ${minutes} 分钟无操作，自动锁定`)
+        lockEncryption()
+        setEncryptionLocked(true)
+      }
+    }, 15 * 1000)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event =>
+        window.removeEventListener(event, markActivity)
+      )
+      window.clearInterval(timer)
+    }
+  }, [isLocked, setEncryptionLocked])
+}
@@ -6,15 +6,52 @@
  *
  * 文件上传钩子 - 优化版
  * 支持批量上传、错误恢复、进度跟踪和性能优化
+ * 上传数据按周次增量合并到现有数据集，冲突周次需用户确认处理方式；
+ * 未通过校验的行写入隔离区，修正后可重新导入；
+ * ZIP 压缩包在浏览器中解压，其中每个数据文件作为独立条目解析并分别记录结果
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
+import type { CSVParseResult, ProgressCallback } from '@/lib/parsers/csv-parser'
+import { PARSE_CANCELLED_MESSAGE } from '@/lib/parsers/csv-worker-client'
+import type { InsuranceRecord } from '@/types/insurance'
 import {
-  parseCSVFile,
-  type CSVParseResult,
-  type ProgressCallback,
-} from '@/lib/parsers/csv-parser'
-import { useAppStore } from '@/store/use-app-store'
+  parseDataFile,
+  previewDataFile,
+  DATA_FILE_EXTENSIONS,
+  SUPPORTED_EXTENSIONS,
+  type FileParseOptions,
+} from '@/lib/parsers/file-parser'
+import { extractArchive, isZipFile } from '@/lib/parsers/zip-archive'
+import {
+  findMatchingProfile,
+  markMappingProfileUsed,
+  needsColumnMapping,
+} from '@/lib/parsers/column-mapping'
+import {
+  planDatasetMerge,
+  applyDatasetMerge,
+  type MergePlan,
+  type MergeResolution,
+  type MergeSummary,
+} from '@/lib/dataset/dataset-merge'
+import {
+  checkCumulativeConsistency,
+  applyCumulativeRepair,
+  type CumulativeConsistencyReport,
+  type CumulativeRepairMode,
+} from '@/lib/validations/cumulative-consistency'
+import {
+  createQuarantineEntries,
+  type QuarantinedRow,
+} from '@/lib/dataset/quarantine'
+import {
+  diffDatasets,
+  hasSignificantChanges,
+  type DatasetDiff,
+} from '@/lib/dataset/dataset-diff'
+import { saveQuarantinedRows } from '@/lib/storage/indexed-db'
+import { selectCommittedData, useAppStore } from '@/store/use-app-store'
 
 /**
  * 上传状态
@@ -36,6 +73,7 @@ export interface FileUploadResult {
   result?: CSVParseResult
   error?: string
   uploadTime: number
+  archivePath?: string // 来自 ZIP 压缩包时：压缩包名/包内路径
 }
 
 /**
@@ -50,6 +88,13 @@ export interface BatchUploadResult {
   totalRecords: number
   validRecords: number
   invalidRecords: number
+  mergeStatus?: 'applied' | 'pending' | 'aborted' // 合并状态（有有效数据时）
+  mergeSummary?: MergeSummary
+  consistencyReport?: CumulativeConsistencyReport // 合并后数据集的跨周累计校验
+  consistencyRepair?: { mode: CumulativeRepairMode; changedRecords: number }
+  quarantinedRows?: number // 写入隔离区的行数
+  datasetDiff?: DatasetDiff // 与导入前数据集的差异（已有数据时）
+  skippedArchiveEntries?: string[] // 压缩包中未导入的非数据文件
 }
 
 /**
@@ -85,11 +130,109 @@ export interface FileValidationOptions {
  */
 const DEFAULT_VALIDATION_OPTIONS: FileValidationOptions = {
   maxFileSize: 50 * 1024 * 1024, // 50MB
-  allowedExtensions: ['.csv'],
+  allowedExtensions: SUPPORTED_EXTENSIONS,
   maxFiles: 10,
   validateFileName: false, // 文件名不再是强制要求
 }
 
+/**
+ * 待解析的上传条目（普通文件或压缩包中的数据文件）
+ */
+interface UploadItem {
+  file: File
+  archivePath?: string
+  options?: FileParseOptions
+}
+
+/**
+ * 结果对应的来源名称（压缩包条目显示包内路径）
+ */
+export function getResultSourceName(result: FileUploadResult): string {
+  return result.archivePath ?? result.file.name
+}
+
+/**
+ * 向当前数据集贡献了记录的来源文件
+ */
+function getContributingSources(results: FileUploadResult[]): string[] {
+  return results
+    .filter(result => result.success && result.result?.data.length)
+    .map(getResultSourceName)
+}
+
+/**
+ * 压缩包条目无法逐个确认列映射，表头不标准时自动套用匹配的映射方案
+ */
+async function resolveArchiveEntryOptions(
+  file: File
+): Promise<FileParseOptions> {
+  try {
+    const { headers } = await previewDataFile(file, {}, 1)
+    if (!needsColumnMapping(headers)) return {}
+    const profile = findMatchingProfile(headers)
+    if (!profile) return {}
+    markMappingProfileUsed(profile.id)
+    return { columnMapping: profile.mapping }
+  } catch (error) {
+    console.warn(`[File Upload] 表头预览失败: ${file.name}`, error)
+    return {}
+  }
+}
+
+/**
+ * 展开上传文件：ZIP 压缩包解压为其中的数据文件，其余文件原样保留
+ * 解压失败或不含数据文件的压缩包直接记为失败结果
+ */
+async function expandUploadFiles(
+  files: File[],
+  fileOptions: Record<string, FileParseOptions>
+): Promise<{
+  items: UploadItem[]
+  failures: FileUploadResult[]
+  skippedEntries: string[]
+}> {
+  const items: UploadItem[] = []
+  const failures: FileUploadResult[] = []
+  const skippedEntries: string[] = []
+
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      items.push({ file, options: fileOptions[file.name] })
+      continue
+    }
+
+    const startTime = performance.now()
+    try {
+      const { entries, skipped } = await extractArchive(
+        file,
+        DATA_FILE_EXTENSIONS
+      )
+      skippedEntries.push(...skipped.map(path => `${file.name}/${path}`))
+      if (entries.length === 0) {
+        throw new Error(
+          `压缩包中没有可导入的数据文件（支持 ${DATA_FILE_EXTENSIONS.join(', ')}）`
+        )
+      }
+      for (const entry of entries) {
+        items.push({
+          file: entry.file,
+          archivePath: `${file.name}/${entry.path}`,
+          options: await resolveArchiveEntryOptions(entry.file),
+        })
+      }
+    } catch (error) {
+      failures.push({
+        file,
+        success: false,
+        error: error instanceof Error ? error.message : '解压失败',
+        uploadTime: Math.round(performance.now() - startTime),
+      })
+    }
+  }
+
+  return { items, failures, skippedEntries }
+}
+
 /**
  * 显示通知的辅助函数
  */
@@ -108,10 +251,13 @@ export function useFileUpload() {
   const [status, setStatus] = useState<UploadStatus>('idle')
   const [progress, setProgress] = useState<UploadProgress | null>(null)
   const [batchResult, setBatchResult] = useState<BatchUploadResult | null>(null)
+  const [pendingMerge, setPendingMerge] = useState<MergePlan | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [validationOptions, setValidationOptions] =
     useState<FileValidationOptions>(DEFAULT_VALIDATION_OPTIONS)
 
-  const { setRawData, setError, setLoading } = useAppStore()
+  const { setRawData, setError, setLoading, addDatasetSourceFiles } =
+    useAppStore()
 
   /**
    * 验证单个文件
@@ -137,7 +283,7 @@ export function useFileUpload() {
 
       // 可选的文件名验证（不再强制）
       if (validationOptions.validateFileName) {
-        const namePattern = /^保险数据_\d{4}年\d{1,2}月.*\.csv$/i
+        const namePattern = /^保险数据_\d{4}年\d{1,2}月.*\.(csv|xlsx|xls)$/i
         if (!namePattern.test(file.name)) {
           // 仅显示警告，不阻止上传
           console.warn(
@@ -197,7 +343,8 @@ export function useFileUpload() {
     async (
       file: File,
       fileIndex: number,
-      totalFiles: number
+      totalFiles: number,
+      options?: FileParseOptions
     ): Promise<FileUploadResult> => {
       const startTime = performance.now()
 
@@ -240,8 +387,8 @@ export function useFileUpload() {
           })
         }
 
-        // 解析文件
-        const result = await parseCSVFile(file, onProgress)
+        // 解析文件（按扩展名分派 CSV / Excel 解析器）
+        const result = await parseDataFile(file, onProgress, options)
         const uploadTime = performance.now() - startTime
 
         return {
@@ -267,9 +414,14 @@ export function useFileUpload() {
 
   /**
    * 批量上传文件 - 支持并行处理
+   * @param fileOptions 按文件名指定的解析选项（如 Excel 工作表）
    */
   const uploadFiles = useCallback(
-    async (files: File[], parallel = true): Promise<BatchUploadResult> => {
+    async (
+      files: File[],
+      parallel = true,
+      fileOptions: Record<string, FileParseOptions> = {}
+    ): Promise<BatchUploadResult> => {
       console.log(
         `[File Upload] 开始上传 ${files.length} 个文件（${parallel ? '并行' : '顺序'}模式）:`,
         files.map(f => f.name)
@@ -281,6 +433,10 @@ export function useFileUpload() {
         setError(null)
         setLoading(true)
         setBatchResult(null)
+        setPendingMerge(null)
+        const abortController = new AbortController()
+        abortControllerRef.current = abortController
+        const { signal } = abortController
 
         // 验证文件
         console.log(`[File Upload] 开始文件验证`)
@@ -291,38 +447,77 @@ export function useFileUpload() {
         }
         console.log(`[File Upload] 文件验证通过`)
 
+        // 展开 ZIP 压缩包，其中每个数据文件作为独立条目解析
+        const { items, failures, skippedEntries } = await expandUploadFiles(
+          files,
+          fileOptions
+        )
+        if (signal.aborted) {
+          throw new Error(PARSE_CANCELLED_MESSAGE)
+        }
+
         let results: FileUploadResult[] = []
         let totalRecords = 0
         let validRecords = 0
         let invalidRecords = 0
+        let incomingData: InsuranceRecord[] = []
+
+        const parseItem = async (
+          item: UploadItem,
+          index: number
+        ): Promise<FileUploadResult> => {
+          // 压缩包条目解压后才知道实际大小，这里补做文件校验
+          const entryValidation = item.archivePath
+            ? validateFile(item.file)
+            : { valid: true }
+          if (!entryValidation.valid) {
+            return {
+              file: item.file,
+              success: false,
+              error: entryValidation.error,
+              uploadTime: 0,
+              archivePath: item.archivePath,
+            }
+          }
+          const result = await uploadSingleFile(
+            item.file,
+            index,
+            items.length,
+            {
+              ...item.options,
+              signal,
+            }
+          )
+          return { ...result, archivePath: item.archivePath }
+        }
 
         // 并行处理模式
-        if (parallel && files.length > 1) {
+        if (parallel && items.length > 1) {
           console.log(`[File Upload] 使用并行处理模式`)
           setStatus('parsing')
 
           // 使用Promise.all并行处理所有文件
-          const uploadPromises = files.map((file, index) =>
-            uploadSingleFile(file, index, files.length)
-          )
-
-          results = await Promise.all(uploadPromises)
+          results = await Promise.all(items.map(parseItem))
           console.log(`[File Upload] 所有文件并行处理完成`)
         } else {
           // 顺序处理模式（向后兼容）
           console.log(`[File Upload] 使用顺序处理模式`)
-          for (let i = 0; i < files.length; i++) {
-            const file = files[i]
+          for (let i = 0; i < items.length; i++) {
             console.log(
-              `[File Upload] 处理文件 ${i + 1}/${files.length}: ${file.name}`
+              `[File Upload] 处理文件 ${i + 1}/${items.length}: ${items[i].archivePath ?? items[i].file.name}`
             )
 
             setStatus('parsing')
-            const result = await uploadSingleFile(file, i, files.length)
-            results.push(result)
+            results.push(await parseItem(items[i], i))
+            if (signal.aborted) break
           }
         }
 
+        if (signal.aborted) {
+          throw new Error(PARSE_CANCELLED_MESSAGE)
+        }
+        results = [...failures, ...results]
+
         // 统计结果
         for (const result of results) {
           console.log(`[File Upload] 文件 ${result.file.name} 处理完成:`, {
@@ -344,14 +539,12 @@ export function useFileUpload() {
             })
           }
 
-          // 如果有成功的文件，合并数据
+          // 如果有成功的文件，收集数据待合并
           if (result.success && result.result) {
             console.log(
-              `[File Upload] 添加 ${result.result.data.length} 条有效记录到存储`
+              `[File Upload] 收集 ${result.result.data.length} 条有效记录待合并`
             )
-            const existingData = useAppStore.getState().rawData
-            const newData = [...existingData, ...result.result.data]
-            setRawData(newData)
+            incomingData = incomingData.concat(result.result.data)
           } else {
             console.warn(
               `[File Upload] 文件 ${result.file.name} 没有有效数据可添加`
@@ -359,12 +552,69 @@ export function useFileUpload() {
           }
         }
 
+        // 未通过校验的行写入隔离区
+        let quarantine: QuarantinedRow[] = []
+        results.forEach(result => {
+          if (result.result?.rejectedRows?.length) {
+            quarantine = quarantine.concat(
+              createQuarantineEntries(
+                getResultSourceName(result),
+                result.result.rejectedRows
+              )
+            )
+          }
+        })
+        if (quarantine.length > 0) {
+          const saved = await saveQuarantinedRows(quarantine)
+          if (saved.success) {
+            console.log(`[File Upload] ${quarantine.length} 行已写入隔离区`)
+          } else {
+            console.warn(`[File Upload] 写入隔离区失败: ${saved.error}`)
+            quarantine = []
+          }
+        }
+
+        // 按周次增量合并到现有数据集
+        let mergeStatus: BatchUploadResult['mergeStatus']
+        let mergeSummary: MergeSummary | undefined
+        let consistencyReport: CumulativeConsistencyReport | undefined
+        let datasetDiff: DatasetDiff | undefined
+        if (incomingData.length > 0) {
+          const existingData = selectCommittedData(useAppStore.getState())
+          const plan = planDatasetMerge(existingData, incomingData)
+          if (existingData.length > 0) {
+            datasetDiff = diffDatasets(existingData, incomingData)
+          }
+          // 有冲突周次、合计重述或机构消失时，先由用户核对差异再写入
+          if (
+            plan.conflicts.length > 0 ||
+            (datasetDiff && hasSignificantChanges(datasetDiff))
+          ) {
+            console.warn(
+              `[File Upload] 发现 ${plan.conflicts.length} 个冲突周次，等待用户确认:`,
+              plan.conflicts.map(c => c.key)
+            )
+            setPendingMerge(plan)
+            mergeStatus = 'pending'
+          } else {
+            const merged = applyDatasetMerge(plan)
+            if (merged) {
+              addDatasetSourceFiles(getContributingSources(results))
+              setRawData(merged.data)
+              mergeSummary = merged.summary
+              mergeStatus = 'applied'
+              consistencyReport = checkCumulativeConsistency(merged.data)
+              console.log(`[File Upload] 合并完成:`, merged.summary)
+            }
+          }
+        }
+
         const totalTime = performance.now() - batchStartTime
         const successCount = results.filter(r => r.success).length
         const failureCount = results.length - successCount
 
         const batchResult: BatchUploadResult = {
-          totalFiles: files.length,
+          totalFiles: results.length,
           successCount,
           failureCount,
           results,
@@ -372,14 +622,21 @@ export function useFileUpload() {
           totalRecords,
           validRecords,
           invalidRecords,
+          mergeStatus,
+          mergeSummary,
+          consistencyReport,
+          quarantinedRows: quarantine.length,
+          datasetDiff,
+          skippedArchiveEntries:
+            skippedEntries.length > 0 ? skippedEntries : undefined,
         }
 
         setBatchResult(batchResult)
 
         // 更新最终进度
         setProgress({
-          currentFile: files.length,
-          totalFiles: files.length,
+          currentFile: results.length,
+          totalFiles: results.length,
           fileName: '完成',
           fileProgress: 100,
           overallProgress: 100,
@@ -390,7 +647,7 @@ export function useFileUpload() {
         })
 
         console.log(`[File Upload] 批量上传完成统计:`, {
-          总文件数: files.length,
+          总文件数: results.length,
           成功文件数: successCount,
           失败文件数: failureCount,
           总记录数: totalRecords,
@@ -400,7 +657,7 @@ export function useFileUpload() {
         })
 
         // 显示结果通知
-        if (successCount === files.length) {
+        if (successCount === results.length) {
           setStatus('success')
           if (invalidRecords > 0) {
             showNotification(
@@ -417,7 +674,7 @@ export function useFileUpload() {
           setStatus('success')
           showNotification(
             'warning',
-            `部分成功：${successCount}/${files.length} 个文件上传成功，${invalidRecords} 条无效记录`
+            `部分成功：${successCount}/${results.length} 个文件上传成功，${invalidRecords} 条无效记录`
           )
         } else {
           setStatus('error')
@@ -427,6 +684,12 @@ export function useFileUpload() {
 
         return batchResult
       } catch (error) {
+        if (abortControllerRef.current?.signal.aborted) {
+          console.log('[File Upload] 用户已取消导入，现有数据保持不变')
+          setStatus('idle')
+          throw error
+        }
+
         const errorMessage =
           error instanceof Error ? error.message : '批量上传失败'
         console.error('[File Upload] 批量上传过程中发生错误:', error)
@@ -436,6 +699,7 @@ export function useFileUpload() {
 
         throw error
       } finally {
+        abortControllerRef.current = null
         setLoading(false)
         console.log('[File Upload] 上传流程结束')
         // 3秒后清除进度信息
@@ -444,9 +708,92 @@ export function useFileUpload() {
         }, 3000)
       }
     },
-    [uploadSingleFile, validateFiles, setRawData, setError, setLoading]
+    [
+      uploadSingleFile,
+      validateFile,
+      validateFiles,
+      setRawData,
+      setError,
+      setLoading,
+      addDatasetSourceFiles,
+    ]
+  )
+
+  /**
+   * 处理冲突周次并完成合并
+   * @param resolutions 按周次键指定处理方式，任一为 abort 或传入 null 时放弃本次导入
+   */
+  const resolveMerge = useCallback(
+    (resolutions: Record<string, MergeResolution> | null) => {
+      if (!pendingMerge) return null
+
+      const merged = resolutions
+        ? applyDatasetMerge(pendingMerge, resolutions)
+        : null
+      setPendingMerge(null)
+
+      if (!merged) {
+        console.log('[File Upload] 用户放弃导入，现有数据保持不变')
+        setBatchResult(prev =>
+          prev ? { ...prev, mergeStatus: 'aborted' } : prev
+        )
+        return null
+      }
+
+      if (batchResult) {
+        addDatasetSourceFiles(getContributingSources(batchResult.results))
+      }
+      setRawData(merged.data)
+      const consistencyReport = checkCumulativeConsistency(merged.data)
+      setBatchResult(prev =>
+        prev
+          ? {
+              ...prev,
+              mergeStatus: 'applied',
+              mergeSummary: merged.summary,
+              consistencyReport,
+            }
+          : prev
+      )
+      console.log(`[File Upload] 合并完成:`, merged.summary)
+      return merged.summary
+    },
+    [pendingMerge, batchResult, setRawData, addDatasetSourceFiles]
   )
 
+  /**
+   * 处理跨周累计值回退（剔除或截断），并重新校验
+   */
+  const repairCumulativeRegressions = useCallback(
+    (mode: CumulativeRepairMode) => {
+      const { data, changedRecords } = applyCumulativeRepair(
+        selectCommittedData(useAppStore.getState()),
+        mode
+      )
+      setRawData(data)
+      setBatchResult(prev =>
+        prev
+          ? {
+              ...prev,
+              consistencyReport: checkCumulativeConsistency(data),
+              consistencyRepair: { mode, changedRecords },
+            }
+          : prev
+      )
+      console.log(
+        `[File Upload] 累计值回退已${mode === 'exclude' ? '剔除' : '截断'}，影响 ${changedRecords} 条记录`
+      )
+    },
+    [setRawData]
+  )
+
+  /**
+   * 取消正在进行的上传（终止解析 Worker，不写入任何数据）
+   */
+  const cancelUpload = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
   /**
    * 重置上传状态
    */
@@ -454,6 +801,7 @@ export function useFileUpload() {
     setStatus('idle')
     setProgress(null)
     setBatchResult(null)
+    setPendingMerge(null)
     setError(null)
   }, [setError])
 
@@ -472,10 +820,14 @@ export function useFileUpload() {
     status,
     progress,
     batchResult,
+    pendingMerge,
     validationOptions,
 
     // 方法
     uploadFiles,
+    cancelUpload,
+    resolveMerge,
+    repairCumulativeRegressions,
     validateFile,
     validateFiles,
     resetUpload,
@@ -4,7 +4,16 @@
  */
 
 import { useState, useEffect, useCallback } from 'react'
+import { z } from 'zod'
 import type { FilterState } from '@/types/insurance'
+import { subscribeStorageChanges } from '@/lib/storage/tab-sync'
+import {
+  defineSlice,
+  loadSecureSlice,
+  saveSecureSlice,
+} from '@/lib/storage/versioned-storage'
+import { FilterPresetSchema } from '@/lib/validations/persisted-state-schema'
+import { useAppStore, defaultFilters } from '@/store/use-app-store'
 
 export interface FilterPreset {
   /**
@@ -43,7 +52,55 @@ export interface FilterPreset {
   useCount: number
 }
 
-const STORAGE_KEY = 'insurance-analytics-filter-presets'
+export const FILTER_PRESET_STORAGE_KEY = 'insurance-analytics-filter-presets'
+
+/**
+ * 筛选预设持久化切片
+ * v1：补齐旧预设中缺失的筛选字段（旧版本保存时尚无单周/多周、新续转等字段）
+ */
+export const filterPresetsSlice = defineSlice<FilterPreset[]>({
+  id: 'filterPresets',
+  label: '筛选预设',
+  key: FILTER_PRESET_STORAGE_KEY,
+  version: 1,
+  legacyFormat: 'raw',
+  migrations: {
+    1: value =>
+      (value as Array<Partial<FilterPreset>>).map(preset => ({
+        ...preset,
+        filters: { ...defaultFilters, ...preset.filters },
+        useCount: preset.useCount ?? 0,
+      })),
+  },
+  schema: z.array(FilterPresetSchema),
+  fallback: () => [],
+  secure: true,
+})
+
+/**
+ * 读取已保存的预设（供工作区导出等 Hook 之外的场景使用）
+ * 启用加密后需解锁才能读取，锁定时返回空列表
+ */
+export async function loadFilterPresets(): Promise<FilterPreset[]> {
+  try {
+    return await loadSecureSlice(filterPresetsSlice)
+  } catch (error) {
+    console.error('加载筛选预设失败:', error)
+    return []
+  }
+}
+
+/**
+ * 覆盖保存全部预设
+ */
+export async function saveFilterPresets(
+  presets: FilterPreset[]
+): Promise<void> {
+  const result = await saveSecureSlice(filterPresetsSlice, presets)
+  if (!result.success) {
+    console.error('保存筛选预设失败:', result.error)
+  }
+}
 
 /**
  * 筛选预设管理 Hook
@@ -51,29 +108,29 @@ const STORAGE_KEY = 'insurance-analytics-filter-presets'
 export function useFilterPresets() {
   const [presets, setPresets] = useState<FilterPreset[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const encryptionLocked = useAppStore(state => state.encryptionLocked)
 
-  // 从 localStorage 加载预设
+  // 从 localStorage 加载预设（解锁后重新读取）
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        setPresets(parsed)
-      }
-    } catch (error) {
-      console.error('加载筛选预设失败:', error)
-    } finally {
+    if (encryptionLocked) return
+    loadFilterPresets().then(loaded => {
+      setPresets(loaded)
       setIsLoading(false)
-    }
-  }, [])
+    })
+  }, [encryptionLocked])
+
+  // 其他标签页修改预设后同步（以最后一次写入为准）
+  useEffect(
+    () =>
+      subscribeStorageChanges([FILTER_PRESET_STORAGE_KEY], () => {
+        loadFilterPresets().then(setPresets)
+      }),
+    []
+  )
 
   // 保存预设到 localStorage
   const saveToStorage = useCallback((newPresets: FilterPreset[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(newPresets))
-    } catch (error) {
-      console.error('保存筛选预设失败:', error)
-    }
+    saveFilterPresets(newPresets)
   }, [])
 
   /**
@@ -1,5 +1,9 @@
-import { useEffect } from 'react'
-import { useAppStore } from '@/store/use-app-store'
+import { useCallback, useEffect, useState } from 'react'
+import {
+  useAppStore,
+  defaultFilters,
+  type PersistProgress,
+} from '@/store/use-app-store'
 import {
   setStorageItem,
   getStorageItem,
@@ -7,68 +11,342 @@ import {
   StorageKeys,
 } from '@/lib/storage/local-storage'
 import {
-  loadRawData,
-  saveRawData,
-  clearRawData,
+  listDatasets,
+  loadDatasetRecords,
+  saveDataset,
+  updateDatasetMeta,
+  deleteDataset,
+  clearQuarantine,
   isIndexedDBAvailable,
+  listSnapshots,
+  saveSnapshot,
+  loadSnapshotRecords,
+  deleteSnapshots,
+  type ChunkProgressCallback,
 } from '@/lib/storage/indexed-db'
+import {
+  buildDatasetMeta,
+  createDatasetId,
+  type DatasetMeta,
+} from '@/lib/dataset/workspace'
+import {
+  buildSnapshotMeta,
+  loadSnapshotSettings,
+  saveSnapshotSettings,
+  selectSnapshotsToPrune,
+  SNAPSHOT_REASON_LABELS,
+  type SnapshotMeta,
+  type SnapshotReason,
+  type SnapshotSettings,
+} from '@/lib/dataset/snapshots'
+import { broadcastDatasetChange } from '@/lib/storage/tab-sync'
+import { isEncryptionEnabled } from '@/lib/storage/encryption'
+import {
+  defineSlice,
+  hasStoredSlice,
+  loadSlice,
+  saveSlice,
+} from '@/lib/storage/versioned-storage'
+import { FilterStateSchema } from '@/lib/validations/persisted-state-schema'
 import type { InsuranceRecord, FilterState } from '@/types/insurance'
 
+/**
+ * 最近一次从存储读取或写入存储的数据引用
+ * 多个组件同时使用本 Hook 时共享，避免切换数据集或重复挂载时把刚读出的数据再写回
+ */
+let lastPersistedData: InsuranceRecord[] | null = null
+let lastPersistedDatasetId: string | null = null
+
+/**
+ * 保存队列：分块编码是异步的，按提交顺序依次写入，避免较早的保存覆盖较新的数据
+ */
+let saveQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * 筛选条件持久化切片（7 天过期）
+ * v1：补齐旧版本缺失的筛选字段
+ */
+export const filtersSlice = defineSlice<FilterState>({
+  id: 'filters',
+  label: '筛选条件',
+  key: StorageKeys.FILTERS,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: {
+    1: value => ({ ...defaultFilters, ...(value as Partial<FilterState>) }),
+  },
+  schema: FilterStateSchema,
+  fallback: () => defaultFilters,
+  expiryMs: 7 * 24 * 60 * 60 * 1000,
+})
+
+/**
+ * 载入数据集并记为已持久化
+ */
+function activateDataset(meta: DatasetMeta, data: InsuranceRecord[]) {
+  useAppStore.getState().loadDataset(meta, data)
+  lastPersistedData = useAppStore.getState().rawData
+  lastPersistedDatasetId = meta.id
+}
+
+/**
+ * 数据集当前已持久化的记录：刚读写过的直接取内存中的引用，否则从 IndexedDB 读取
+ */
+async function getPersistedRecords(
+  meta: DatasetMeta
+): Promise<InsuranceRecord[]> {
+  if (lastPersistedDatasetId === meta.id && lastPersistedData) {
+    return lastPersistedData
+  }
+  return (await loadDatasetRecords(meta.id)) ?? []
+}
+
+/**
+ * 按保留设置淘汰超出数量或存储预算的旧快照
+ */
+async function pruneSnapshots(
+  settings: SnapshotSettings = loadSnapshotSettings()
+): Promise<void> {
+  const pruned = selectSnapshotsToPrune(await listSnapshots(), settings)
+  if (pruned.length === 0) return
+  await deleteSnapshots(pruned.map(snapshot => snapshot.id))
+  console.log(`[Persist] 已淘汰 ${pruned.length} 个旧快照`)
+}
+
+/**
+ * 覆盖或删除数据集之前保存快照（含当时的保费目标）
+ * @param before 操作前已持久化的数据
+ * @param after 操作后的数据，用于记录本次变化
+ */
+async function takeSnapshot(
+  reason: SnapshotReason,
+  dataset: DatasetMeta,
+  before: InsuranceRecord[],
+  after: InsuranceRecord[]
+): Promise<void> {
+  if (before.length === 0) return
+
+  const snapshot = buildSnapshotMeta(
+    reason,
+    dataset,
+    before,
+    after,
+    useAppStore.getState().premiumTargets
+  )
+  const result = await saveSnapshot(snapshot, before)
+  if (!result.success) {
+    console.warn(`[Persist] 快照保存失败: ${result.error}`)
+    return
+  }
+  console.log(
+    `[Persist] 已保存快照（${SNAPSHOT_REASON_LABELS[reason]}）: 数据集「${dataset.name}」${before.length} 条数据`
+  )
+  await pruneSnapshots()
+}
+
+/**
+ * 在保存队列中为数据集保存快照，供本 Hook 之外覆盖数据的操作（工作区导入、存储清理）使用
+ * @param after 操作后的数据；省略时表示记录不变（如仅覆盖保费目标）
+ */
+export function queueDatasetSnapshot(
+  reason: SnapshotReason,
+  dataset: DatasetMeta,
+  after?: InsuranceRecord[]
+): Promise<void> {
+  const task = saveQueue.then(async () => {
+    const before = await getPersistedRecords(dataset)
+    await takeSnapshot(reason, dataset, before, after ?? before)
+  })
+  saveQueue = task
+  return task
+}
+
+/**
+ * 覆盖或删除保费目标之前为当前数据集保存快照（快照中含当时的保费目标，可回滚恢复）
+ */
+export function queueTargetsSnapshot(): Promise<void> {
+  const { activeDatasetId, datasets } = useAppStore.getState()
+  const active = datasets.find(d => d.id === activeDatasetId)
+  return active ? queueDatasetSnapshot('update', active) : Promise.resolve()
+}
+
+/**
+ * 将分块读写进度写入 Store，供进度条展示
+ */
+function reportProgress(
+  phase: PersistProgress['phase'],
+  datasetName: string
+): ChunkProgressCallback {
+  return (done, total) =>
+    useAppStore.getState().setPersistProgress({
+      phase,
+      datasetName,
+      done,
+      total,
+    })
+}
+
+/**
+ * 逐块载入数据集（进度显示在进度条中）
+ */
+async function loadDatasetWithProgress(
+  meta: DatasetMeta
+): Promise<InsuranceRecord[] | null> {
+  try {
+    return await loadDatasetRecords(
+      meta.id,
+      reportProgress('loading', meta.name)
+    )
+  } finally {
+    useAppStore.getState().setPersistProgress(null)
+  }
+}
+
 /**
  * 数据持久化 Hook
- * 自动保存和恢复数据到 localStorage / IndexedDB
+ * 自动保存和恢复数据到 localStorage / IndexedDB；
+ * 数据写入当前数据集，首次保存时自动创建
  */
 export function usePersistData() {
   const rawData = useAppStore(state => state.rawData)
+  const isScratch = useAppStore(state => state.scratchDataset !== null)
+  const activeDatasetId = useAppStore(state => state.activeDatasetId)
+  const encryptionLocked = useAppStore(state => state.encryptionLocked)
   const filters = useAppStore(state => state.filters)
   const setRawData = useAppStore(state => state.setRawData)
+  const setDatasets = useAppStore(state => state.setDatasets)
   const updateFilters = useAppStore(state => state.updateFilters)
 
-  // 从 localStorage / IndexedDB 恢复数据 (仅在组件挂载时执行一次)
+  // 从 IndexedDB / localStorage 恢复数据 (挂载时执行；启用加密时在解锁后执行)
   useEffect(() => {
+    if (encryptionLocked) return
     let cancelled = false
 
     async function restore() {
-      const savedData = getStorageItem<InsuranceRecord[]>(StorageKeys.RAW_DATA)
-      const savedFilters = getStorageItem<FilterState>(StorageKeys.FILTERS)
+      const savedFilters = hasStoredSlice(filtersSlice)
+        ? loadSlice(filtersSlice)
+        : null
+      let restored = false
 
-      if (savedData && savedData.length > 0) {
-        console.log(
-          `[Persist] 恢复了 ${savedData.length} 条数据 (localStorage)`
+      if (isIndexedDBAvailable()) {
+        const datasets = await listDatasets()
+        if (cancelled) return
+        setDatasets(datasets)
+
+        // 优先恢复上次使用的数据集，否则取最近更新的
+        const activeId = getStorageItem<string>(StorageKeys.ACTIVE_DATASET_ID)
+        const meta = datasets.find(d => d.id === activeId) ?? datasets[0]
+        if (meta) {
+          const data = await loadDatasetWithProgress(meta)
+          if (!cancelled && data && data.length > 0) {
+            console.log(
+              `[Persist] 从 IndexedDB 恢复数据集「${meta.name}」: ${data.length} 条数据`
+            )
+            activateDataset(meta, data)
+            restored = true
+          }
+        }
+      }
+
+      // 启用加密后不再保留 localStorage 明文副本
+      if (!restored && !cancelled && !isEncryptionEnabled()) {
+        const savedData = getStorageItem<InsuranceRecord[]>(
+          StorageKeys.RAW_DATA
         )
-        setRawData(savedData)
-      } else if (isIndexedDBAvailable()) {
-        const idbData = await loadRawData()
-        if (!cancelled && idbData && idbData.length > 0) {
-          console.log(`[Persist] 从 IndexedDB 恢复了 ${idbData.length} 条数据`)
-          setRawData(idbData)
+        if (savedData && savedData.length > 0) {
+          console.log(
+            `[Persist] 恢复了 ${savedData.length} 条数据 (localStorage)`
+          )
+          setRawData(savedData)
         }
       }
 
-      if (savedFilters) {
+      if (savedFilters && !cancelled) {
         console.log(`[Persist] 恢复筛选条件`)
         updateFilters(savedFilters)
       }
     }
 
-    restore()
+    // 已有数据（其他组件已完成恢复）时不再重复读取
+    if (useAppStore.getState().rawData.length === 0) {
+      restore()
+    }
     return () => {
       cancelled = true
     }
-  }, [setRawData, updateFilters]) // 空依赖数组,仅在挂载时执行
+  }, [encryptionLocked, setRawData, setDatasets, updateFilters])
+
+  // 记住当前数据集，刷新后继续使用
+  useEffect(() => {
+    if (activeDatasetId) {
+      setStorageItem(StorageKeys.ACTIVE_DATASET_ID, activeDatasetId)
+    }
+  }, [activeDatasetId])
 
   // 保存数据到 IndexedDB / localStorage (当数据变化时)
+  // 临时数据集不写入，保留原数据集的持久化副本
   useEffect(() => {
+    if (isScratch) {
+      console.log('[Persist] 当前为临时数据集，跳过保存')
+      return
+    }
+    if (rawData === lastPersistedData) return
+
+    const previousData = lastPersistedData
+    const previousDatasetId = lastPersistedDatasetId
     if (rawData.length > 0) {
-      // 优先保存到 IndexedDB（支持大数据）
+      lastPersistedData = rawData
+
+      // 优先保存到 IndexedDB（支持大数据），写入当前数据集
       if (isIndexedDBAvailable()) {
-        saveRawData(rawData).then(res => {
-          if (res.success) {
-            console.log(`[Persist] IndexedDB 已保存 ${rawData.length} 条数据`)
-          } else {
-            console.warn(`[Persist] IndexedDB 保存失败: ${res.error}`)
-          }
+        const state = useAppStore.getState()
+        const id = state.activeDatasetId ?? createDatasetId()
+        if (!state.activeDatasetId) state.setActiveDatasetId(id)
+        lastPersistedDatasetId = id
+        const existing = state.datasets.find(d => d.id === id)
+        const meta = buildDatasetMeta(rawData, {
+          ...existing,
+          id,
+          sourceFiles: state.datasetSourceFiles,
         })
+
+        const data = rawData
+        saveQueue = saveQueue
+          .then(() => {
+            // 覆盖同一数据集之前先保存上一版本
+            if (existing && previousData && previousDatasetId === id) {
+              return takeSnapshot('update', existing, previousData, data)
+            }
+          })
+          .then(() =>
+            saveDataset(meta, data, reportProgress('saving', meta.name))
+          )
+          .then(res => {
+            const { datasets, setDatasets, setPersistProgress } =
+              useAppStore.getState()
+            setPersistProgress(null)
+            if (res.success && res.meta) {
+              const saved = res.meta
+              setDatasets([saved, ...datasets.filter(d => d.id !== saved.id)])
+              broadcastDatasetChange('saved', saved)
+              console.log(
+                `[Persist] IndexedDB 已保存数据集「${saved.name}」: ${data.length} 条数据，${saved.chunkCount} 个数据块，${saved.storedBytes} bytes`
+              )
+            } else {
+              console.warn(`[Persist] IndexedDB 保存失败: ${res.error}`)
+              useAppStore
+                .getState()
+                .setStorageWarning(
+                  `数据集「${meta.name}」保存失败：${res.error}`
+                )
+            }
+          })
+      }
+
+      // 启用加密时不写入 localStorage 明文副本，数据仅以密文保存在 IndexedDB
+      if (isEncryptionEnabled()) {
+        removeStorageItem(StorageKeys.RAW_DATA)
+        return
       }
 
       // 小数据仍尝试写入 localStorage（兼容原逻辑）
@@ -87,22 +365,24 @@ export function usePersistData() {
         console.log(`[Persist] localStorage 已保存 ${rawData.length} 条数据`)
       }
     } else {
-      // 如果数据被清空,也清空缓存
+      // 数据被清空（或新建空数据集）时只清除 localStorage 副本，
+      // IndexedDB 中的数据集需显式删除
+      lastPersistedData = rawData
+      lastPersistedDatasetId = null
       removeStorageItem(StorageKeys.RAW_DATA)
-      clearRawData()
       console.log('[Persist] 已清空缓存数据')
     }
-  }, [rawData])
+  }, [rawData, isScratch])
 
   // 保存筛选条件到 localStorage (当筛选条件变化时)
   useEffect(() => {
     if (filters) {
-      setStorageItem(
-        StorageKeys.FILTERS,
-        filters,
-        7 * 24 * 60 * 60 * 1000 // 7天过期
-      )
-      console.log('[Persist] 已保存筛选条件')
+      const result = saveSlice(filtersSlice, filters)
+      if (result.success) {
+        console.log('[Persist] 已保存筛选条件')
+      } else {
+        console.warn('[Persist] 保存筛选条件失败:', result.error)
+      }
     }
   }, [filters])
 
@@ -113,11 +393,254 @@ export function usePersistData() {
 
   return {
     saveUploadTime,
+    /**
+     * 删除当前数据集及隔离区（其他数据集保留），需在 clearData 之前调用；
+     * 删除前保存快照，可在历史版本中回滚
+     */
     clearPersistedData: () => {
+      const { activeDatasetId, datasets, setDatasets } = useAppStore.getState()
+      if (activeDatasetId) {
+        const meta = datasets.find(d => d.id === activeDatasetId)
+        saveQueue = saveQueue.then(async () => {
+          if (meta) {
+            await takeSnapshot(
+              'clear',
+              meta,
+              await getPersistedRecords(meta),
+              []
+            )
+          }
+          await deleteDataset(activeDatasetId)
+          broadcastDatasetChange('deleted', {
+            id: activeDatasetId,
+            name: meta?.name ?? '',
+          })
+        })
+        setDatasets(datasets.filter(d => d.id !== activeDatasetId))
+      }
       removeStorageItem(StorageKeys.RAW_DATA)
       removeStorageItem(StorageKeys.FILTERS)
-      clearRawData()
-      console.log('[Persist] 已清除所有持久化数据')
+      removeStorageItem(StorageKeys.ACTIVE_DATASET_ID)
+      clearQuarantine()
+      console.log('[Persist] 已清除当前数据集的持久化数据')
+    },
+  }
+}
+
+/**
+ * 命名数据集管理：切换、新建、重命名、删除
+ * 数据内容的保存由 usePersistData 自动完成
+ */
+export function useDatasetWorkspace() {
+  const datasets = useAppStore(state => state.datasets)
+  const activeDatasetId = useAppStore(state => state.activeDatasetId)
+
+  const switchDataset = useCallback(
+    async (id: string): Promise<{ success: boolean; error?: string }> => {
+      const meta = useAppStore.getState().datasets.find(d => d.id === id)
+      if (!meta) return { success: false, error: '数据集不存在' }
+
+      const data = await loadDatasetWithProgress(meta)
+      if (!data) return { success: false, error: '数据集读取失败' }
+
+      activateDataset(meta, data)
+      console.log(`[Persist] 已切换到数据集「${meta.name}」`)
+      return { success: true }
+    },
+    []
+  )
+
+  /**
+   * 新建空数据集：清空当前视图，下一次导入的数据保存为新数据集
+   */
+  const createDataset = useCallback(() => {
+    useAppStore.getState().clearData()
+    removeStorageItem(StorageKeys.ACTIVE_DATASET_ID)
+    console.log('[Persist] 已新建空数据集')
+  }, [])
+
+  const renameDataset = useCallback(
+    async (
+      id: string,
+      name: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      const trimmed = name.trim()
+      if (!trimmed) return { success: false, error: '名称不能为空' }
+
+      const { datasets, setDatasets } = useAppStore.getState()
+      const meta = datasets.find(d => d.id === id)
+      if (!meta) return { success: false, error: '数据集不存在' }
+
+      const renamed = { ...meta, name: trimmed }
+      const result = await updateDatasetMeta(renamed)
+      if (result.success) {
+        setDatasets(
+          useAppStore.getState().datasets.map(d => (d.id === id ? renamed : d))
+        )
+        broadcastDatasetChange('renamed', renamed)
+      }
+      return result
+    },
+    []
+  )
+
+  /**
+   * 删除数据集（默认删除前保存快照）；删除当前数据集时切换到最近更新的其他数据集
+   * @param options.snapshot 为释放空间而删除时可不保存快照
+   */
+  const removeDataset = useCallback(
+    async (id: string, options: { snapshot: boolean } = { snapshot: true }) => {
+      const meta = useAppStore.getState().datasets.find(d => d.id === id)
+      saveQueue = saveQueue.then(async () => {
+        if (meta && options.snapshot) {
+          await takeSnapshot(
+            'delete',
+            meta,
+            await getPersistedRecords(meta),
+            []
+          )
+        }
+        await deleteDataset(id)
+        broadcastDatasetChange('deleted', { id, name: meta?.name ?? '' })
+      })
+      await saveQueue
+      const { datasets, setDatasets, activeDatasetId, clearData } =
+        useAppStore.getState()
+      const remaining = datasets.filter(d => d.id !== id)
+      setDatasets(remaining)
+      console.log(`[Persist] 已删除数据集 ${id}`)
+
+      if (id !== activeDatasetId) return
+      if (remaining.length > 0) {
+        await switchDataset(remaining[0].id)
+      } else {
+        clearData()
+        removeStorageItem(StorageKeys.ACTIVE_DATASET_ID)
+      }
+    },
+    [switchDataset]
+  )
+
+  return {
+    datasets,
+    activeDatasetId,
+    switchDataset,
+    createDataset,
+    renameDataset,
+    removeDataset,
+  }
+}
+
+/**
+ * 数据集快照：列出历史版本、回滚、删除与保留设置
+ * 快照由覆盖或删除数据的操作自动创建
+ */
+export function useDatasetSnapshots() {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([])
+  const [settings, setSettings] =
+    useState<SnapshotSettings>(loadSnapshotSettings)
+
+  const refresh = useCallback(async () => {
+    await saveQueue
+    setSnapshots(await listSnapshots())
+  }, [])
+
+  /**
+   * 回滚到快照：快照所属数据集的当前内容先另存为快照，再写回快照数据并切换到该数据集；
+   * 数据集已被删除时按原 id 和名称重建
+   */
+  const rollbackSnapshot = useCallback(
+    async (
+      snapshot: SnapshotMeta,
+      options: { restoreTargets: boolean }
+    ): Promise<{ success: boolean; error?: string }> => {
+      let data: InsuranceRecord[] | null
+      try {
+        data = await loadSnapshotRecords(
+          snapshot,
+          reportProgress('loading', snapshot.datasetName)
+        )
+      } finally {
+        useAppStore.getState().setPersistProgress(null)
+      }
+      if (!data) return { success: false, error: '快照读取失败' }
+
+      const restored = data
+      const task = saveQueue.then(async () => {
+        const current = useAppStore
+          .getState()
+          .datasets.find(d => d.id === snapshot.datasetId)
+        if (current) {
+          await takeSnapshot(
+            'rollback',
+            current,
+            await getPersistedRecords(current),
+            restored
+          )
+        }
+        const meta = buildDatasetMeta(restored, {
+          ...current,
+          id: snapshot.datasetId,
+          name: current?.name ?? snapshot.datasetName,
+          sourceFiles: snapshot.sourceFiles,
+        })
+        return saveDataset(meta, restored, reportProgress('saving', meta.name))
+      })
+      saveQueue = task
+      const result = await task
+
+      const { datasets, setDatasets, setPersistProgress, setPremiumTargets } =
+        useAppStore.getState()
+      setPersistProgress(null)
+      if (!result.success || !result.meta) {
+        return { success: false, error: result.error ?? '快照写回失败' }
+      }
+
+      const saved = result.meta
+      setDatasets([saved, ...datasets.filter(d => d.id !== saved.id)])
+      activateDataset(saved, restored)
+      broadcastDatasetChange('saved', saved)
+      if (options.restoreTargets) setPremiumTargets(snapshot.targets)
+      console.log(
+        `[Persist] 已回滚数据集「${saved.name}」到 ${snapshot.createdAt} 的快照`
+      )
+      await refresh()
+      return { success: true }
+    },
+    [refresh]
+  )
+
+  const deleteSnapshot = useCallback(
+    async (id: string) => {
+      await deleteSnapshots([id])
+      await refresh()
     },
+    [refresh]
+  )
+
+  /**
+   * 保存保留设置并立即按新设置淘汰旧快照
+   */
+  const updateSettings = useCallback(
+    async (
+      next: SnapshotSettings
+    ): Promise<{ success: boolean; error?: string }> => {
+      const result = saveSnapshotSettings(next)
+      if (!result.success) return result
+      setSettings(next)
+      await pruneSnapshots(next)
+      await refresh()
+      return result
+    },
+    [refresh]
+  )
+
+  return {
+    snapshots,
+    settings,
+    refresh,
+    rollbackSnapshot,
+    deleteSnapshot,
+    updateSettings,
   }
 }
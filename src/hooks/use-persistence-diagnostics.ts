@@ -0,0 +1,70 @@
+/**
+ * 持久化诊断 Hook
+ * 汇总各持久化切片的存储版本、迁移日志与不可用数据的备份
+ */
+
+import { useCallback, useState } from 'react'
+import {
+  clearPersistenceLog,
+  deletePersistenceBackup,
+  getSliceDiagnostics,
+  loadPersistenceBackups,
+  loadPersistenceLog,
+  type PersistedSlice,
+  type PersistenceBackup,
+  type PersistenceLogEntry,
+  type SliceDiagnostics,
+} from '@/lib/storage/versioned-storage'
+import { premiumTargetsSlice } from '@/store/use-app-store'
+import { filterPresetsSlice } from '@/hooks/use-filter-presets'
+import { filtersSlice } from '@/hooks/use-persist-data'
+import { mappingProfilesSlice } from '@/lib/parsers/column-mapping'
+import { enumAliasesSlice } from '@/lib/parsers/enum-aliases'
+import { businessRulesSlice } from '@/lib/validations/business-rules'
+import { snapshotSettingsSlice } from '@/lib/dataset/snapshots'
+import {
+  predictionDraftSlice,
+  predictionScenariosSlice,
+} from '@/lib/analytics/prediction-scenarios'
+
+/**
+ * 全部持久化切片（新增切片需在此登记才会出现在诊断中）
+ */
+export const PERSISTED_SLICES: PersistedSlice<unknown>[] = [
+  premiumTargetsSlice,
+  filterPresetsSlice,
+  filtersSlice,
+  mappingProfilesSlice,
+  businessRulesSlice,
+  enumAliasesSlice,
+  snapshotSettingsSlice,
+  predictionDraftSlice,
+  predictionScenariosSlice,
+]
+
+export function usePersistenceDiagnostics() {
+  const [slices, setSlices] = useState<SliceDiagnostics[]>([])
+  const [log, setLog] = useState<PersistenceLogEntry[]>([])
+  const [backups, setBackups] = useState<Record<string, PersistenceBackup>>({})
+
+  const refresh = useCallback(() => {
+    setSlices(getSliceDiagnostics(PERSISTED_SLICES))
+    setLog(loadPersistenceLog())
+    setBackups(loadPersistenceBackups())
+  }, [])
+
+  const clearLog = useCallback(() => {
+    clearPersistenceLog()
+    refresh()
+  }, [refresh])
+
+  const removeBackup = useCallback(
+    (sliceId: string) => {
+      deletePersistenceBackup(sliceId)
+      refresh()
+    },
+    [refresh]
+  )
+
+  return { slices, log, backups, refresh, clearLog, removeBackup }
+}
@@ -0,0 +1,117 @@
+/**
+ * 离线支持 Hook
+ * 生产构建中注册 Service Worker，新版本部署并安装完成后提示更新；
+ * 跟踪浏览器在线状态
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? ''
+
+// 页面长时间打开时定期检查是否有新版本
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000
+
+/**
+ * 本页是否已确认更新；首次安装时新 Service Worker 接管页面不需要刷新
+ */
+let updateRequested = false
+
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== 'production' ||
+      !('serviceWorker' in navigator)
+    ) {
+      return
+    }
+
+    let registration: ServiceWorkerRegistration | null = null
+
+    // 已有 Service Worker 控制页面时，新安装的版本才是更新
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        if (
+          worker.state === 'installed' &&
+          navigator.serviceWorker.controller
+        ) {
+          console.log('[Service Worker] 新版本已就绪')
+          setWaitingWorker(worker)
+        }
+      })
+    }
+
+    navigator.serviceWorker
+      .register(`${BASE_PATH}/sw.js`)
+      .then(reg => {
+        registration = reg
+        if (reg.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(reg.waiting)
+        }
+        reg.addEventListener('updatefound', () => {
+          if (reg.installing) trackInstalling(reg.installing)
+        })
+      })
+      .catch(error => console.warn('[Service Worker] 注册失败:', error))
+
+    const handleControllerChange = () => {
+      if (!updateRequested) return
+      updateRequested = false
+      window.location.reload()
+    }
+    navigator.serviceWorker.addEventListener(
+      'controllerchange',
+      handleControllerChange
+    )
+
+    const timer = setInterval(() => {
+      registration?.update().catch(() => undefined)
+    }, UPDATE_CHECK_INTERVAL)
+
+    return () => {
+      clearInterval(timer)
+      navigator.serviceWorker.removeEventListener(
+        'controllerchange',
+        handleControllerChange
+      )
+    }
+  }, [])
+
+  /**
+   * 激活新版本，接管后刷新页面
+   */
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return
+    updateRequested = true
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' })
+  }, [waitingWorker])
+
+  const dismissUpdate = useCallback(() => setWaitingWorker(null), [])
+
+  return {
+    updateAvailable: waitingWorker !== null,
+    applyUpdate,
+    dismissUpdate,
+  }
+}
+
+/**
+ * 浏览器在线状态
+ */
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  return isOnline
+}
@@ -0,0 +1,209 @@
+/**
+ * 存储管理 Hook
+ * 汇总各类数据在 IndexedDB / localStorage 中的占用，检查配额并按用户选择清理
+ */
+
+import { useCallback, useState } from 'react'
+import { useAppStore, PREMIUM_TARGET_STORAGE_KEY } from '@/store/use-app-store'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import {
+  clearQuarantine,
+  deleteSnapshots,
+  getStorageEstimate,
+  listDatasets,
+  listSnapshots,
+  loadQuarantinedRows,
+} from '@/lib/storage/indexed-db'
+import {
+  CACHE_STORAGE_KEYS,
+  getQuotaWarnings,
+  measureLocalStorageKeys,
+  type BulkPurgeCategory,
+  type StorageCategory,
+  type StorageCategoryUsage,
+  type StorageUsageReport,
+} from '@/lib/storage/storage-manager'
+import { notifyLocalStorageChange } from '@/lib/storage/tab-sync'
+import { FILTER_PRESET_STORAGE_KEY } from '@/hooks/use-filter-presets'
+import {
+  queueTargetsSnapshot,
+  useDatasetWorkspace,
+} from '@/hooks/use-persist-data'
+import type { DatasetMeta } from '@/lib/dataset/workspace'
+import type { SnapshotMeta } from '@/lib/dataset/snapshots'
+
+// 其余应用键（映射方案、业务规则、预测方案、加密配置等）计入设置
+const SETTING_STORAGE_KEYS = Object.values(StorageKeys).filter(
+  key => !(CACHE_STORAGE_KEYS as string[]).includes(key)
+)
+
+/**
+ * 存储用量报告及可逐项清理的数据集与快照列表
+ */
+export interface StorageOverview {
+  report: StorageUsageReport
+  datasets: DatasetMeta[]
+  snapshots: SnapshotMeta[]
+}
+
+/**
+ * 收集各类别的存储占用
+ */
+export async function collectStorageUsage(): Promise<StorageOverview> {
+  const [datasets, snapshots, quarantine, estimate] = await Promise.all([
+    listDatasets(),
+    listSnapshots(),
+    loadQuarantinedRows(),
+    getStorageEstimate(),
+  ])
+
+  const localCategory = (
+    category: StorageCategory,
+    keys: string[]
+  ): StorageCategoryUsage => ({
+    category,
+    location: 'localstorage',
+    ...measureLocalStorageKeys(keys),
+  })
+
+  const categories: StorageCategoryUsage[] = [
+    {
+      category: 'datasets',
+      location: 'indexeddb',
+      bytes: datasets.reduce((sum, meta) => sum + meta.storedBytes, 0),
+      itemCount: datasets.length,
+    },
+    {
+      category: 'snapshots',
+      location: 'indexeddb',
+      bytes: snapshots.reduce((sum, meta) => sum + meta.storedBytes, 0),
+      itemCount: snapshots.length,
+    },
+    {
+      category: 'quarantine',
+      location: 'indexeddb',
+      // 隔离区逐行序列化（可能加密）保存，按解码后的 JSON 长度估算
+      bytes: quarantine.length > 0 ? JSON.stringify(quarantine).length * 2 : 0,
+      itemCount: quarantine.length,
+    },
+    localCategory('targets', [PREMIUM_TARGET_STORAGE_KEY]),
+    localCategory('presets', [FILTER_PRESET_STORAGE_KEY]),
+    localCategory('caches', CACHE_STORAGE_KEYS),
+    localCategory('settings', SETTING_STORAGE_KEYS),
+  ]
+
+  return {
+    report: {
+      categories,
+      localStorageBytes: categories
+        .filter(usage => usage.location === 'localstorage')
+        .reduce((sum, usage) => sum + usage.bytes, 0),
+      estimate,
+      checkedAt: new Date().toISOString(),
+    },
+    datasets,
+    snapshots,
+  }
+}
+
+/**
+ * 接近配额时在页面上预警，未超过时清除已有的配额预警（保存失败提示单独保留）
+ */
+function applyQuotaWarnings(report: StorageUsageReport) {
+  const warnings = getQuotaWarnings(report)
+  useAppStore
+    .getState()
+    .setQuotaWarning(warnings.length > 0 ? warnings.join('；') : null)
+}
+
+/**
+ * 检查配额（保存或删除数据集后调用）
+ */
+export async function checkStorageQuota(): Promise<void> {
+  try {
+    const { report } = await collectStorageUsage()
+    applyQuotaWarnings(report)
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[Storage] 检查存储配额失败:', msg)
+  }
+}
+
+export function useStorageManager() {
+  const [overview, setOverview] = useState<StorageOverview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { removeDataset } = useDatasetWorkspace()
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const next = await collectStorageUsage()
+      setOverview(next)
+      applyQuotaWarnings(next.report)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  /**
+   * 删除所选数据集
+   * @param options.snapshot 是否先保存快照；由用户在清理时明确选择，不保存可立即释放空间但无法回滚
+   */
+  const purgeDatasets = useCallback(
+    async (ids: string[], options: { snapshot: boolean }) => {
+      for (const id of ids) {
+        await removeDataset(id, options)
+      }
+      console.log(`[Storage] 已清理 ${ids.length} 个数据集`)
+      await refresh()
+    },
+    [removeDataset, refresh]
+  )
+
+  const purgeSnapshots = useCallback(
+    async (ids: string[]) => {
+      await deleteSnapshots(ids)
+      console.log(`[Storage] 已清理 ${ids.length} 个快照`)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  /**
+   * 清除整个类别（数据集与快照请使用逐项清理）
+   */
+  const purgeCategory = useCallback(
+    async (category: BulkPurgeCategory) => {
+      switch (category) {
+        case 'quarantine':
+          await clearQuarantine()
+          break
+        case 'targets':
+          // 快照中含当时的保费目标，清除后可在历史版本中回滚恢复
+          await queueTargetsSnapshot()
+          localStorage.removeItem(PREMIUM_TARGET_STORAGE_KEY)
+          useAppStore.getState().loadPremiumTargets()
+          break
+        case 'presets':
+          localStorage.removeItem(FILTER_PRESET_STORAGE_KEY)
+          notifyLocalStorageChange(FILTER_PRESET_STORAGE_KEY)
+          break
+        case 'caches':
+          CACHE_STORAGE_KEYS.forEach(key => localStorage.removeItem(key))
+          break
+      }
+      console.log(`[Storage] 已清理类别: ${category}`)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return {
+    overview,
+    isLoading,
+    refresh,
+    purgeDatasets,
+    purgeSnapshots,
+    purgeCategory,
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * 跨标签页同步 Hook
+ * 保费目标和筛选预设直接同步为其他标签页最后写入的值；
+ * 当前数据集或设置在其他标签页变化时给出提示，由用户决定是否重新载入
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore, PREMIUM_TARGET_STORAGE_KEY } from '@/store/use-app-store'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import { listDatasets } from '@/lib/storage/indexed-db'
+import {
+  subscribeDatasetChanges,
+  subscribeStorageChanges,
+  type DatasetChangeMessage,
+} from '@/lib/storage/tab-sync'
+import { useDatasetWorkspace } from '@/hooks/use-persist-data'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * 变化后需刷新页面才能生效的设置（由各功能在使用时读取或保存在组件状态中）
+ */
+const SYNCED_SETTING_KEYS = [
+  StorageKeys.COLUMN_MAPPING_PROFILES,
+  StorageKeys.BUSINESS_RULES,
+  StorageKeys.ENUM_ALIASES,
+  StorageKeys.SNAPSHOT_SETTINGS,
+  StorageKeys.PREDICTION_SCENARIOS,
+  StorageKeys.ENCRYPTION_CONFIG,
+]
+
+const CHANGE_LABELS: Record<DatasetChangeMessage['change'], string> = {
+  saved: '保存了',
+  renamed: '重命名了',
+  deleted: '删除了',
+}
+
+/**
+ * 重新载入提示：reload-dataset 仅重新读取当前数据集，reload-page 刷新整个页面
+ */
+export interface TabSyncPrompt {
+  message: string
+  action: 'reload-dataset' | 'reload-page'
+}
+
+/**
+ * 刷新页面的提示覆盖范围更大，已有时不被重新读取数据集的提示替换
+ */
+function mergePrompt(
+  prev: TabSyncPrompt | null,
+  next: TabSyncPrompt
+): TabSyncPrompt {
+  return prev?.action === 'reload-page' && next.action === 'reload-dataset'
+    ? prev
+    : next
+}
+
+export function useTabSync() {
+  const [prompt, setPrompt] = useState<TabSyncPrompt | null>(null)
+  const { switchDataset } = useDatasetWorkspace()
+  const { toast } = useToast()
+
+  // 数据集变化：刷新数据集列表，当前数据集被修改或删除时提示
+  useEffect(
+    () =>
+      subscribeDatasetChanges(async message => {
+        console.log(
+          `[Tab Sync] 其他标签页${CHANGE_LABELS[message.change]}数据集「${message.datasetName}」`
+        )
+        useAppStore.getState().setDatasets(await listDatasets())
+        if (message.datasetId !== useAppStore.getState().activeDatasetId) {
+          return
+        }
+
+        if (message.change === 'saved') {
+          setPrompt(prev =>
+            mergePrompt(prev, {
+              message: `数据集「${message.datasetName}」已在其他标签页更新`,
+              action: 'reload-dataset',
+            })
+          )
+        } else if (message.change === 'deleted') {
+          setPrompt(prev =>
+            mergePrompt(prev, {
+              message: `当前数据集「${message.datasetName}」已在其他标签页删除`,
+              action: 'reload-page',
+            })
+          )
+        }
+      }),
+    []
+  )
+
+  // 保费目标：直接采用其他标签页写入的值，避免本页用旧值覆盖
+  useEffect(
+    () =>
+      subscribeStorageChanges([PREMIUM_TARGET_STORAGE_KEY], () => {
+        useAppStore.getState().loadPremiumTargets()
+        console.log('[Tab Sync] 已同步其他标签页更新的保费目标')
+        toast({
+          title: '保费目标已同步',
+          description: '其他标签页更新了保费目标，已自动载入最新值',
+        })
+      }),
+    [toast]
+  )
+
+  // 设置：提示刷新页面
+  useEffect(
+    () =>
+      subscribeStorageChanges(SYNCED_SETTING_KEYS, key => {
+        console.log(`[Tab Sync] 其他标签页更新了设置: ${key}`)
+        setPrompt(prev =>
+          mergePrompt(prev, {
+            message: '导入设置或预测方案已在其他标签页更新',
+            action: 'reload-page',
+          })
+        )
+      }),
+    []
+  )
+
+  const reload = useCallback(async () => {
+    if (!prompt) return
+    if (prompt.action === 'reload-page') {
+      window.location.reload()
+      return
+    }
+
+    setPrompt(null)
+    const id = useAppStore.getState().activeDatasetId
+    if (!id) return
+    const result = await switchDataset(id)
+    if (!result.success) {
+      toast({
+        title: '重新载入失败',
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }, [prompt, switchDataset, toast])
+
+  const dismiss = useCallback(() => setPrompt(null), [])
+
+  return { prompt, reload, dismiss }
+}
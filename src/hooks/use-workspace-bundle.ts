@@ -0,0 +1,310 @@
+/**
+ * 工作区导出 / 导入 Hook
+ * 导出时收集本机全部数据集与设置打包下载；导入时按所选分区和冲突处理方式写入本机，
+ * 数据集记录与文件导入走同一条校验管线，覆盖本机数据集或保费目标前先保存快照；
+ * 写入完成后需刷新页面以载入新的工作区
+ */
+
+import { useCallback } from 'react'
+import { useAppStore } from '@/store/use-app-store'
+import { getStorageItem, setStorageItem } from '@/lib/storage/local-storage'
+import {
+  listDatasets,
+  loadDatasetRecords,
+  saveDataset,
+} from '@/lib/storage/indexed-db'
+import { broadcastDatasetChange } from '@/lib/storage/tab-sync'
+import { validateRawRows } from '@/lib/parsers/csv-parser'
+import { buildDatasetMeta } from '@/lib/dataset/workspace'
+import {
+  hasStoredSlice,
+  loadSlice,
+  saveSlice,
+  type PersistedSlice,
+} from '@/lib/storage/versioned-storage'
+import {
+  loadFilterPresets,
+  saveFilterPresets,
+} from '@/hooks/use-filter-presets'
+import {
+  filtersSlice,
+  queueDatasetSnapshot,
+  queueTargetsSnapshot,
+} from '@/hooks/use-persist-data'
+import { mappingProfilesSlice } from '@/lib/parsers/column-mapping'
+import { enumAliasesSlice } from '@/lib/parsers/enum-aliases'
+import { businessRulesSlice } from '@/lib/validations/business-rules'
+import { snapshotSettingsSlice } from '@/lib/dataset/snapshots'
+import {
+  createScenarioId,
+  loadPredictionDraft,
+  loadPredictionScenarios,
+  savePredictionDraft,
+  savePredictionScenarios,
+} from '@/lib/analytics/prediction-scenarios'
+import {
+  buildWorkspaceBundle,
+  countImportedItems,
+  downloadWorkspaceBundle,
+  mergeNamedItems,
+  resolveDatasetImports,
+  BUNDLE_SETTING_KEYS,
+  type BundleManifest,
+  type BundleSection,
+  type BundleSettingName,
+  type ConflictStrategy,
+  type WorkspaceContents,
+} from '@/lib/export/workspace-bundle'
+
+/**
+ * 已版本化的设置项：导出时按当前版本读取，导入时校验后写入
+ */
+const SETTING_SLICES: Partial<
+  Record<BundleSettingName, PersistedSlice<unknown>>
+> = {
+  columnMappingProfiles: mappingProfilesSlice,
+  businessRules: businessRulesSlice,
+  enumAliases: enumAliasesSlice,
+  snapshotSettings: snapshotSettingsSlice,
+  filters: filtersSlice,
+}
+
+/**
+ * 导入选项：每个分区是否导入及冲突处理方式
+ */
+export type WorkspaceImportOptions = Record<
+  BundleSection,
+  { enabled: boolean; strategy: ConflictStrategy }
+>
+
+/**
+ * 导入数据集时未通过校验的记录
+ */
+export interface RejectedDatasetRows {
+  datasetName: string
+  count: number
+  firstError?: string
+}
+
+/**
+ * 收集本机工作区内容
+ * @param withRecords 是否读取数据集记录（仅检测冲突时无需读取）
+ * @param onProgress 读取数据集的进度
+ */
+export async function collectLocalWorkspace(
+  withRecords: boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<WorkspaceContents> {
+  const metas = await listDatasets()
+  const datasets: WorkspaceContents['datasets'] = []
+  for (let i = 0; i < metas.length; i++) {
+    const records = withRecords
+      ? ((await loadDatasetRecords(metas[i].id)) ?? [])
+      : []
+    datasets.push({ meta: metas[i], records })
+    onProgress?.(i + 1, metas.length)
+  }
+
+  const settings: WorkspaceContents['settings'] = {}
+  ;(Object.keys(BUNDLE_SETTING_KEYS) as BundleSettingName[]).forEach(name => {
+    const slice = SETTING_SLICES[name]
+    if (slice) {
+      if (hasStoredSlice(slice)) settings[name] = loadSlice(slice)
+      return
+    }
+    const value = getStorageItem<unknown>(BUNDLE_SETTING_KEYS[name])
+    if (value !== null) settings[name] = value
+  })
+
+  const { premiumTargets } = useAppStore.getState()
+  return {
+    datasets,
+    targets: premiumTargets.updatedAt ? premiumTargets : null,
+    filterPresets: await loadFilterPresets(),
+    scenarios: {
+      draft: loadPredictionDraft(),
+      scenarios: loadPredictionScenarios(),
+    },
+    settings,
+  }
+}
+
+function createPresetId(): string {
+  return `preset_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+}
+
+export function useWorkspaceBundle() {
+  /**
+   * 打包并下载当前工作区
+   */
+  const exportWorkspace = useCallback(
+    async (
+      onProgress?: (done: number, total: number) => void
+    ): Promise<{
+      success: boolean
+      manifest?: BundleManifest
+      error?: string
+    }> => {
+      try {
+        const contents = await collectLocalWorkspace(true, onProgress)
+        const { bytes, manifest } = await buildWorkspaceBundle(contents)
+        downloadWorkspaceBundle(bytes)
+        return { success: true, manifest }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : '未知错误'
+        console.error('[Workspace Bundle] 导出失败:', msg)
+        return { success: false, error: msg }
+      }
+    },
+    []
+  )
+
+  /**
+   * 按分区写入导入内容
+   * @returns 各分区实际写入的项目数
+   */
+  const importWorkspace = useCallback(
+    async (
+      incoming: Partial<WorkspaceContents>,
+      options: WorkspaceImportOptions
+    ): Promise<{
+      success: boolean
+      imported: Partial<Record<BundleSection, number>>
+      rejected: RejectedDatasetRows[]
+      error?: string
+    }> => {
+      const imported: Partial<Record<BundleSection, number>> = {}
+      const rejected: RejectedDatasetRows[] = []
+      try {
+        const local = await collectLocalWorkspace(false)
+
+        if (options.datasets.enabled && incoming.datasets) {
+          const resolved = resolveDatasetImports(
+            local.datasets.map(d => d.meta),
+            incoming.datasets,
+            options.datasets.strategy
+          )
+          let count = 0
+          for (const dataset of resolved) {
+            // 字段转换 → 结构校验 → 业务规则，只写入通过校验的记录
+            const validation = validateRawRows(
+              dataset.records as unknown as Record<string, unknown>[]
+            )
+            const rejectedCount = validation.rejectedRows?.length ?? 0
+            if (rejectedCount > 0) {
+              rejected.push({
+                datasetName: dataset.meta.name,
+                count: rejectedCount,
+                firstError: validation.errors[0]?.message,
+              })
+            }
+            if (validation.data.length === 0) continue
+
+            const meta = buildDatasetMeta(validation.data, dataset.meta)
+            const overwritten = local.datasets.find(d => d.meta.id === meta.id)
+            if (overwritten) {
+              await queueDatasetSnapshot(
+                'update',
+                overwritten.meta,
+                validation.data
+              )
+            }
+            const result = await saveDataset(meta, validation.data)
+            if (!result.success) {
+              throw new Error(`数据集「${meta.name}」写入失败: ${result.error}`)
+            }
+            broadcastDatasetChange('saved', result.meta ?? meta)
+            count++
+          }
+          useAppStore.getState().setDatasets(await listDatasets())
+          imported.datasets = count
+        }
+
+        if (options.targets.enabled && incoming.targets) {
+          const hasLocal = Boolean(local.targets?.updatedAt)
+          if (!hasLocal || options.targets.strategy === 'replace') {
+            if (hasLocal) await queueTargetsSnapshot()
+            useAppStore.getState().setPremiumTargets(incoming.targets)
+            imported.targets = 1
+          }
+        }
+
+        if (options.filterPresets.enabled && incoming.filterPresets) {
+          const merged = mergeNamedItems(
+            local.filterPresets,
+            incoming.filterPresets,
+            options.filterPresets.strategy,
+            createPresetId
+          )
+          await saveFilterPresets(merged)
+          imported.filterPresets = countImportedItems(
+            local.filterPresets,
+            incoming.filterPresets,
+            options.filterPresets.strategy
+          )
+        }
+
+        if (options.scenarios.enabled && incoming.scenarios) {
+          const merged = mergeNamedItems(
+            local.scenarios.scenarios,
+            incoming.scenarios.scenarios,
+            options.scenarios.strategy,
+            createScenarioId
+          )
+          savePredictionScenarios(merged)
+          const draft = incoming.scenarios.draft
+          if (
+            draft &&
+            (!local.scenarios.draft || options.scenarios.strategy === 'replace')
+          ) {
+            savePredictionDraft(draft)
+          }
+          imported.scenarios = countImportedItems(
+            local.scenarios.scenarios,
+            incoming.scenarios.scenarios,
+            options.scenarios.strategy
+          )
+        }
+
+        if (options.settings.enabled && incoming.settings) {
+          let count = 0
+          ;(
+            Object.entries(incoming.settings) as Array<
+              [BundleSettingName, unknown]
+            >
+          ).forEach(([name, value]) => {
+            if (!(name in BUNDLE_SETTING_KEYS)) return
+            if (
+              local.settings[name] === undefined ||
+              options.settings.strategy === 'replace'
+            ) {
+              const slice = SETTING_SLICES[name]
+              const result = slice
+                ? saveSlice(slice, value)
+                : setStorageItem(BUNDLE_SETTING_KEYS[name], value)
+              if (result.success) {
+                count++
+              } else {
+                console.warn(
+                  `[Workspace Bundle] 设置「${name}」未导入:`,
+                  result.error
+                )
+              }
+            }
+          })
+          imported.settings = count
+        }
+
+        console.log('[Workspace Bundle] 导入完成:', imported, rejected)
+        return { success: true, imported, rejected }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : '未知错误'
+        console.error('[Workspace Bundle] 导入失败:', msg)
+        return { success: false, imported, rejected, error: msg }
+      }
+    },
+    []
+  )
+
+  return { exportWorkspace, importWorkspace }
+}
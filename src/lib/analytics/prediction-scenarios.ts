@@ -0,0 +1,124 @@
+/**
+ * 预测方案
+ * 预测管理中按业务类型填写的假设值（覆盖项）保存在本地：
+ * 当前编辑中的草稿自动保存，也可另存为命名方案以便切换和在工作区之间迁移
+ */
+
+import { z } from 'zod'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import {
+  defineSlice,
+  loadSlice,
+  saveSlice,
+} from '@/lib/storage/versioned-storage'
+
+/**
+ * 单个业务类型的预测覆盖项（未填写的字段使用基线值）
+ */
+export interface PredictionOverride {
+  signedPremiumYuan?: number
+  premiumAchievementRate?: number
+  averagePremium?: number
+  policyCount?: number
+  claimCaseCount?: number
+  maturedFrequencyRate?: number
+  averageClaim?: number
+  expenseRatio?: number
+  lossRatio?: number
+}
+
+/**
+ * 预测草稿：目标时间点 + 各业务类型的覆盖项
+ */
+export interface PredictionDraft {
+  targetKey: string
+  overrides: Record<string, PredictionOverride>
+}
+
+/**
+ * 命名预测方案
+ */
+export interface PredictionScenario extends PredictionDraft {
+  id: string
+  name: string
+  savedAt: string // ISO 时间
+}
+
+export function createScenarioId(): string {
+  return `scenario_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+const PredictionOverrideSchema = z.object({
+  signedPremiumYuan: z.number().optional(),
+  premiumAchievementRate: z.number().optional(),
+  averagePremium: z.number().optional(),
+  policyCount: z.number().optional(),
+  claimCaseCount: z.number().optional(),
+  maturedFrequencyRate: z.number().optional(),
+  averageClaim: z.number().optional(),
+  expenseRatio: z.number().optional(),
+  lossRatio: z.number().optional(),
+})
+
+export const PredictionDraftSchema = z.object({
+  targetKey: z.string(),
+  overrides: z.record(z.string(), PredictionOverrideSchema),
+})
+
+export const PredictionScenarioSchema = PredictionDraftSchema.extend({
+  id: z.string(),
+  name: z.string(),
+  savedAt: z.string(),
+})
+
+/**
+ * 预测草稿持久化切片
+ * v1：引入版本号，结构不变
+ */
+export const predictionDraftSlice = defineSlice<PredictionDraft | null>({
+  id: 'predictionDraft',
+  label: '预测草稿',
+  key: StorageKeys.PREDICTION_DRAFT,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: { 1: value => value },
+  schema: PredictionDraftSchema,
+  fallback: () => null,
+})
+
+/**
+ * 预测方案持久化切片
+ * v1：引入版本号，结构不变
+ */
+export const predictionScenariosSlice = defineSlice<PredictionScenario[]>({
+  id: 'predictionScenarios',
+  label: '预测方案',
+  key: StorageKeys.PREDICTION_SCENARIOS,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: { 1: value => value },
+  schema: z.array(PredictionScenarioSchema),
+  fallback: () => [],
+})
+
+export function loadPredictionDraft(): PredictionDraft | null {
+  return loadSlice(predictionDraftSlice)
+}
+
+export function savePredictionDraft(draft: PredictionDraft): {
+  success: boolean
+  error?: string
+} {
+  return saveSlice(predictionDraftSlice, draft)
+}
+
+export function loadPredictionScenarios(): PredictionScenario[] {
+  return loadSlice(predictionScenariosSlice)
+}
+
+export function savePredictionScenarios(scenarios: PredictionScenario[]): {
+  success: boolean
+  error?: string
+} {
+  return saveSlice(predictionScenariosSlice, scenarios)
+}
@@ -467,6 +467,22 @@ export class KPIEngine {
         previousAgg.marginal_contribution_amount_yuan,
     }
 
+    // 累计口径下增量不应为负，出现时提示（详见跨周累计一致性校验）
+    const negativeFields = (
+      Object.keys(incrementAgg) as Array<keyof BaseAggregation>
+    ).filter(
+      field =>
+        field !== 'marginal_contribution_amount_yuan' &&
+        field !== 'premium_plan_yuan' &&
+        incrementAgg[field] < 0
+    )
+    if (negativeFields.length > 0) {
+      console.warn(
+        `[KPIEngine] 周增量出现负值，请检查累计数据是否回退:`,
+        negativeFields
+      )
+    }
+
     // 计算增量 KPI（传入mode和其他选项）
     const result = computeKPIs(incrementAgg, {
       premiumTargetYuan: annualTargetYuan,
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { makeRecord } from '@/test/fixtures'
+import { diffDatasets, hasSignificantChanges } from '../dataset-diff'
+
+const leshan = makeRecord({ third_level_organization: '乐山' })
+const tianfu = makeRecord({
+  chengdu_branch: '成都',
+  third_level_organization: '天府',
+  signed_premium_yuan: 950,
+})
+
+describe('diffDatasets', () => {
+  it('只重新上传部分机构时不报告重述或机构消失', () => {
+    const diff = diffDatasets([leshan, tianfu], [{ ...leshan }])
+
+    expect(diff.restatements).toEqual([])
+    expect(diff.missingOrganizations).toEqual([])
+    expect(diff.unchangedWeeks).toEqual(['2025-W28'])
+    expect(hasSignificantChanges(diff)).toBe(false)
+  })
+
+  it('只比较被覆盖记录的合计', () => {
+    const corrected = { ...leshan, signed_premium_yuan: 1200 }
+    const diff = diffDatasets([leshan, tianfu], [corrected])
+
+    expect(diff.restatements).toHaveLength(1)
+    const [restatement] = diff.restatements
+    expect(restatement.existingCount).toBe(1)
+    expect(restatement.incomingCount).toBe(1)
+    expect(restatement.changes).toEqual([
+      {
+        metric: 'signed_premium_yuan',
+        existing: 1000,
+        incoming: 1200,
+        delta: 200,
+        changeRate: 20,
+      },
+    ])
+    expect(hasSignificantChanges(diff)).toBe(true)
+  })
+
+  it('区分新增、补充和未包含的周次', () => {
+    const week27 = makeRecord({ week_number: 27 })
+    const week29 = makeRecord({ week_number: 29 })
+    const diff = diffDatasets([week27, leshan], [tianfu, week29])
+
+    expect(diff.addedWeeks.map(w => w.key)).toEqual(['2025-W29'])
+    expect(diff.appendedWeeks.map(w => w.key)).toEqual(['2025-W28'])
+    expect(diff.missingWeeks.map(w => w.key)).toEqual(['2025-W27'])
+    expect(diff.addedOrganizations).toEqual(['天府'])
+    expect(diff.restatements).toEqual([])
+  })
+
+  it('忽略浮点累加误差', () => {
+    const parts = [0.1, 0.2].map(value =>
+      makeRecord({
+        signed_premium_yuan: value,
+        customer_category_3: `${value}`,
+      })
+    )
+    const resummed = parts.map(record => ({
+      ...record,
+      signed_premium_yuan: record.signed_premium_yuan + 1e-9,
+    }))
+
+    expect(diffDatasets(parts, resummed).restatements).toEqual([])
+  })
+})
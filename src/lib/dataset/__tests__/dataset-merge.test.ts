@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { makeRecord } from '@/test/fixtures'
+import {
+  applyDatasetMerge,
+  getRecordKey,
+  planDatasetMerge,
+} from '../dataset-merge'
+
+const leshan = makeRecord({ third_level_organization: '乐山' })
+const tianfu = makeRecord({
+  chengdu_branch: '成都',
+  third_level_organization: '天府',
+  signed_premium_yuan: 950,
+})
+const corrected = { ...leshan, signed_premium_yuan: 1200 }
+
+describe('getRecordKey', () => {
+  it('规范化文本维度后再比较', () => {
+    expect(
+      getRecordKey({ ...leshan, third_level_organization: ' 乐山 ' })
+    ).toBe(getRecordKey(leshan))
+  })
+})
+
+describe('planDatasetMerge', () => {
+  it('识别新增、补充和冲突周次', () => {
+    const week29 = makeRecord({ week_number: 29 })
+    const week27 = makeRecord({ week_number: 27 })
+    const plan = planDatasetMerge(
+      [week27, leshan],
+      [
+        corrected,
+        tianfu,
+        week29,
+        { ...week27, third_level_organization: '天府' },
+      ]
+    )
+
+    expect(plan.newWeeks.map(w => w.key)).toEqual(['2025-W29'])
+    expect(plan.appendedWeeks.map(w => w.key)).toEqual(['2025-W27'])
+    expect(plan.conflicts).toEqual([
+      {
+        key: '2025-W28',
+        policy_start_year: 2025,
+        week_number: 28,
+        existingCount: 1,
+        incomingCount: 2,
+        overlappingCount: 1,
+      },
+    ])
+  })
+})
+
+describe('applyDatasetMerge', () => {
+  const plan = planDatasetMerge([leshan, tianfu], [corrected])
+
+  it('替换只覆盖重叠的维度组合，保留同周其他机构', () => {
+    const merged = applyDatasetMerge(plan, { '2025-W28': 'replace' })
+
+    expect(merged?.data).toEqual([tianfu, corrected])
+  })
+
+  it('未指定处理方式时保留现有数据', () => {
+    const merged = applyDatasetMerge(plan)
+
+    expect(merged?.data).toEqual([leshan, tianfu])
+  })
+
+  it('放弃导入时返回 null', () => {
+    expect(applyDatasetMerge(plan, { '2025-W28': 'abort' })).toBeNull()
+  })
+
+  it('保留冲突周次时仍追加不重叠的新记录', () => {
+    const merged = applyDatasetMerge(
+      planDatasetMerge([leshan], [corrected, tianfu]),
+      { '2025-W28': 'keep' }
+    )
+
+    expect(merged?.data).toEqual([leshan, tianfu])
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * 数据自动修复
+ * 将数据修复建议落地为可批量执行的操作：枚举值纠正、文本规范化、数值清洗、评级默认值；
+ * 修复对象为导入时被拒绝的行（原始值），修复后重新走导入校验管线，
+ * 逐单元格记录修改，生成修正后的 CSV 与修改日志
+ */
+
+import Papa from 'papaparse'
+import type { InsuranceRecord } from '@/types/insurance'
+import {
+  validateRawRows,
+  REQUIRED_FIELDS,
+  type RejectedRow,
+} from '@/lib/parsers/csv-parser'
+import { correctEnumValue, fuzzyMatchAll } from '@/lib/parsers/fuzzy-matcher'
+import {
+  getEnumAliasMappings,
+  type EnumAliasMappings,
+} from '@/lib/parsers/enum-aliases'
+import { ENUMS } from '@/lib/validations/insurance-schema'
+import { normalizeChineseText } from '@/lib/utils'
+
+/**
+ * 修复操作
+ */
+export type RepairAction = 'enum' | 'text' | 'number' | 'grade'
+
+export const REPAIR_ACTION_LABELS: Record<RepairAction, string> = {
+  enum: '纠正枚举值（含别名词典）',
+  text: '去除空白并规范化文本',
+  number: '清洗数值（货币符号、千分位、全角数字）',
+  grade: '无效评级填充默认值',
+}
+
+/**
+ * 枚举字段的有效值
+ */
+export const ENUM_FIELD_VALUES: Record<string, readonly string[]> = {
+  chengdu_branch: ENUMS.chengduBranches,
+  third_level_organization: ENUMS.thirdLevelOrganizations,
+  insurance_type: ENUMS.insuranceTypes,
+  coverage_type: ENUMS.coverageTypes,
+  renewal_status: ENUMS.renewalStatuses,
+}
+
+/**
+ * 可选评级字段的有效值与默认值（X 表示未评级；车险评级不含 X，默认留空）
+ */
+const GRADE_FIELDS: Record<string, { values: string[]; fallback: string }> = {
+  vehicle_insurance_grade: {
+    values: ['A', 'B', 'C', 'D', 'E', 'F', 'G'],
+    fallback: '',
+  },
+  highway_risk_grade: {
+    values: ['A', 'B', 'C', 'D', 'E', 'F', 'X'],
+    fallback: 'X',
+  },
+  large_truck_score: { values: ['A', 'B', 'C', 'D', 'E', 'X'], fallback: 'X' },
+  small_truck_score: { values: ['A', 'B', 'C', 'D', 'E', 'X'], fallback: 'X' },
+}
+
+const BOOLEAN_FIELDS = ['is_new_energy_vehicle', 'is_transferred_vehicle']
+
+const NUMERIC_FIELDS = [
+  'policy_start_year',
+  'week_number',
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'policy_count',
+  'claim_case_count',
+  'reported_claim_payment_yuan',
+  'expense_amount_yuan',
+  'commercial_premium_before_discount_yuan',
+  'premium_plan_yuan',
+  'marginal_contribution_amount_yuan',
+]
+
+// 枚举纠正的最低置信度（与导入时模糊匹配的阈值一致）
+const ENUM_CONFIDENCE = 0.6
+
+/**
+ * 单元格修改记录
+ */
+export interface CellChange {
+  sourceFile: string
+  row: number
+  field: string
+  before: unknown
+  after: unknown
+  action: RepairAction
+}
+
+/**
+ * 待修复的行
+ */
+export interface RepairRow {
+  sourceFile: string
+  row: number
+  data: Record<string, unknown>
+}
+
+/**
+ * 修复结果
+ */
+export interface RepairResult {
+  changes: CellChange[]
+  recovered: InsuranceRecord[] // 修复后通过校验的记录
+  remaining: Array<RepairRow & { errors: RejectedRow['errors'] }> // 仍未通过校验的行
+}
+
+function cleanNumber(value: string): string {
+  let text = value.normalize('NFKC').trim()
+  const negative = /^\(.*\)$/.test(text)
+  text = text.replace(/[()¥$元,\s]/g, '')
+  return negative && text ? `-${text}` : text
+}
+
+function repairBoolean(value: string): string | null {
+  const normalized = value.normalize('NFKC').trim().toLowerCase()
+  if (['true', '1', 'yes', 'y', '是'].includes(normalized)) return 'True'
+  if (['false', '0', 'no', 'n', '否'].includes(normalized)) return 'False'
+  return null
+}
+
+/**
+ * 修复单元格
+ * @returns 修复后的值；无需修改时返回 undefined
+ */
+function repairCell(
+  field: string,
+  value: unknown,
+  action: RepairAction,
+  mappings: EnumAliasMappings
+): unknown {
+  if (typeof value !== 'string') return undefined
+
+  switch (action) {
+    case 'text': {
+      if (NUMERIC_FIELDS.includes(field)) return undefined
+      const text = normalizeChineseText(value.normalize('NFKC'))
+      return text !== value ? text : undefined
+    }
+    case 'number': {
+      if (!NUMERIC_FIELDS.includes(field) || value.trim() === '') {
+        return undefined
+      }
+      const cleaned = cleanNumber(value)
+      if (cleaned === value || !Number.isFinite(Number(cleaned))) {
+        return undefined
+      }
+      return Number(cleaned)
+    }
+    case 'enum': {
+      if (BOOLEAN_FIELDS.includes(field)) {
+        const bool = repairBoolean(value)
+        return bool && bool !== value ? bool : undefined
+      }
+      const text = value.trim()
+      const aliased = mappings[field]?.[text]
+      if (aliased) return aliased
+
+      const validValues = ENUM_FIELD_VALUES[field]
+      if (!validValues || !text || validValues.includes(text)) {
+        return undefined
+      }
+      const result = correctEnumValue(text, field, [...validValues], mappings)
+      if (result && result.confidence >= ENUM_CONFIDENCE) {
+        return result.corrected
+      }
+      // 两字机构名一字之差相似度仅 50%，此时仅在候选唯一时纠正
+      const candidates = fuzzyMatchAll(text, [...validValues], 0.5, 2)
+      return candidates.length === 1 ? candidates[0].value : undefined
+    }
+    case 'grade': {
+      const grade = GRADE_FIELDS[field]
+      if (!grade) return undefined
+      const text = value.trim().toUpperCase()
+      if (!text || grade.values.includes(text)) {
+        return text !== value ? text : undefined
+      }
+      return grade.fallback
+    }
+  }
+}
+
+// 执行顺序：先规范文本和数值，再做枚举与评级纠正
+const ACTION_ORDER: RepairAction[] = ['text', 'number', 'enum', 'grade']
+
+/**
+ * 对行执行修复操作
+ */
+export function repairRows(
+  rows: RepairRow[],
+  actions: RepairAction[]
+): { rows: RepairRow[]; changes: CellChange[] } {
+  const ordered = ACTION_ORDER.filter(action => actions.includes(action))
+  const mappings = getEnumAliasMappings()
+  const changes: CellChange[] = []
+
+  const repaired = rows.map(row => {
+    const data = { ...row.data }
+    ordered.forEach(action => {
+      REQUIRED_FIELDS.forEach(field => {
+        const after = repairCell(field, data[field], action, mappings)
+        if (after === undefined) return
+        changes.push({
+          sourceFile: row.sourceFile,
+          row: row.row,
+          field,
+          before: data[field],
+          after,
+          action,
+        })
+        data[field] = after
+      })
+    })
+    return { ...row, data }
+  })
+
+  return { rows: repaired, changes }
+}
+
+/**
+ * 修复并重新校验
+ */
+export function repairAndRevalidate(
+  rows: RepairRow[],
+  actions: RepairAction[]
+): RepairResult {
+  const { rows: repaired, changes } = repairRows(rows, actions)
+  if (repaired.length === 0) return { changes, recovered: [], remaining: [] }
+
+  const result = validateRawRows(repaired.map(row => row.data))
+  const rejectedByRow = new Map(
+    (result.rejectedRows ?? []).map(rejected => [rejected.row, rejected])
+  )
+  const remaining = repaired.flatMap((row, index) => {
+    const rejected = rejectedByRow.get(index + 1)
+    return rejected ? [{ ...row, errors: rejected.errors }] : []
+  })
+
+  console.log(
+    `[Data Repair] 修改 ${changes.length} 个单元格，通过校验 ${result.data.length} 行，仍未通过 ${remaining.length} 行`
+  )
+
+  return { changes, recovered: result.data, remaining }
+}
+
+function formatCSVValue(value: unknown): string | number {
+  if (typeof value === 'boolean') return value ? 'True' : 'False'
+  if (value === null || value === undefined) return ''
+  return typeof value === 'number' ? value : String(value)
+}
+
+/**
+ * 生成修正后的 CSV（导入规范的字段顺序与布尔值格式）
+ */
+export function buildCorrectedCSV(records: InsuranceRecord[]): string {
+  return Papa.unparse(
+    records.map(record =>
+      Object.fromEntries(
+        REQUIRED_FIELDS.map(field => [
+          field,
+          formatCSVValue(record[field as keyof InsuranceRecord]),
+        ])
+      )
+    ),
+    { columns: [...REQUIRED_FIELDS] }
+  )
+}
+
+/**
+ * 生成修改日志 CSV
+ */
+export function buildChangeLogCSV(changes: CellChange[]): string {
+  return Papa.unparse({
+    fields: ['文件名', '行号', '字段', '修改前', '修改后', '修复操作'],
+    data: changes.map(change => [
+      change.sourceFile,
+      change.row,
+      change.field,
+      formatCSVValue(change.before),
+      formatCSVValue(change.after),
+      REPAIR_ACTION_LABELS[change.action],
+    ]),
+  })
+}
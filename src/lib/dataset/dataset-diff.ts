@@ -0,0 +1,240 @@
+/**
+ * 上传差异报告
+ * 在写入数据集之前，将新上传的数据与现有数据集比较：
+ * 新增/缺失周次、新出现/消失的三级机构，以及重叠记录中保费、赔款合计的变化（数据重述）
+ *
+ * 合并按 (周次, 维度组合) 逐条替换，因此差异也只比较新数据实际会覆盖的记录：
+ * 只上传部分机构的周数据不会被报告为重述或机构消失
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import {
+  CUMULATIVE_METRIC_LABELS,
+  type CumulativeMetric,
+} from '@/lib/validations/cumulative-consistency'
+import { getRecordKey, getWeekKey, type WeekSummary } from './dataset-merge'
+
+/**
+ * 参与周合计比较的指标
+ */
+export const DIFF_METRICS = [
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'reported_claim_payment_yuan',
+  'claim_case_count',
+] as const satisfies readonly CumulativeMetric[]
+
+export type DiffMetric = (typeof DIFF_METRICS)[number]
+
+export const DIFF_METRIC_LABELS: Record<DiffMetric, string> = {
+  signed_premium_yuan: CUMULATIVE_METRIC_LABELS.signed_premium_yuan,
+  matured_premium_yuan: CUMULATIVE_METRIC_LABELS.matured_premium_yuan,
+  reported_claim_payment_yuan:
+    CUMULATIVE_METRIC_LABELS.reported_claim_payment_yuan,
+  claim_case_count: CUMULATIVE_METRIC_LABELS.claim_case_count,
+}
+
+/**
+ * 单个指标的周合计变化
+ */
+export interface MetricChange {
+  metric: DiffMetric
+  existing: number
+  incoming: number
+  delta: number
+  changeRate: number | null // 相对现有值的变化率（%），现有值为 0 时为 null
+}
+
+/**
+ * 重叠周次的合计变化
+ */
+export interface WeekRestatement {
+  key: string
+  policy_start_year: number
+  week_number: number
+  existingCount: number // 将被覆盖的现有记录数
+  incomingCount: number // 覆盖它们的新记录数
+  changes: MetricChange[] // 仅包含发生变化的指标
+}
+
+/**
+ * 差异报告
+ */
+export interface DatasetDiff {
+  addedWeeks: WeekSummary[] // 新数据中有、现有数据中没有的周次
+  appendedWeeks: WeekSummary[] // 周次已存在但维度组合不重叠（补充数据，不做合计比较）
+  missingWeeks: WeekSummary[] // 现有数据中有、新数据中没有的周次
+  addedOrganizations: string[] // 现有数据中从未出现的三级机构
+  missingOrganizations: string[] // 合并后记录被全部移除的三级机构
+  restatements: WeekRestatement[] // 重叠记录合计发生变化的周
+  unchangedWeeks: string[] // 重叠记录合计完全一致的周
+}
+
+// 金额合计的比较容差（元），避免浮点累加误差被误报为重述
+const AMOUNT_TOLERANCE = 0.01
+
+interface WeekRecords {
+  summary: WeekSummary
+  records: InsuranceRecord[]
+}
+
+function summarizeWeeks(records: InsuranceRecord[]): Map<string, WeekRecords> {
+  const weeks = new Map<string, WeekRecords>()
+  records.forEach(record => {
+    const key = getWeekKey(record)
+    let week = weeks.get(key)
+    if (!week) {
+      week = {
+        summary: {
+          key,
+          policy_start_year: record.policy_start_year,
+          week_number: record.week_number,
+          recordCount: 0,
+        },
+        records: [],
+      }
+      weeks.set(key, week)
+    }
+    week.summary.recordCount++
+    week.records.push(record)
+  })
+  return weeks
+}
+
+function sumMetrics(records: InsuranceRecord[]): Record<DiffMetric, number> {
+  const totals = Object.fromEntries(DIFF_METRICS.map(m => [m, 0])) as Record<
+    DiffMetric,
+    number
+  >
+  records.forEach(record => {
+    DIFF_METRICS.forEach(metric => {
+      totals[metric] += Number(record[metric]) || 0
+    })
+  })
+  return totals
+}
+
+function compareWeeks(
+  a: Pick<WeekSummary, 'policy_start_year' | 'week_number'>,
+  b: Pick<WeekSummary, 'policy_start_year' | 'week_number'>
+): number {
+  return (
+    a.policy_start_year - b.policy_start_year || a.week_number - b.week_number
+  )
+}
+
+function collectOrganizations(records: InsuranceRecord[]): Set<string> {
+  return new Set(records.map(r => r.third_level_organization).filter(Boolean))
+}
+
+/**
+ * 生成差异报告
+ */
+export function diffDatasets(
+  existing: InsuranceRecord[],
+  incoming: InsuranceRecord[]
+): DatasetDiff {
+  const existingWeeks = summarizeWeeks(existing)
+  const incomingWeeks = summarizeWeeks(incoming)
+
+  const addedWeeks: WeekSummary[] = []
+  const appendedWeeks: WeekSummary[] = []
+  const restatements: WeekRestatement[] = []
+  const unchangedWeeks: WeekSummary[] = []
+
+  incomingWeeks.forEach((week, key) => {
+    const current = existingWeeks.get(key)
+    if (!current) {
+      addedWeeks.push(week.summary)
+      return
+    }
+
+    // 只比较新数据会覆盖的 (周次, 维度组合)，未覆盖的现有记录合并后保持不变
+    const existingKeys = new Set(current.records.map(getRecordKey))
+    const overlapping = week.records.filter(record =>
+      existingKeys.has(getRecordKey(record))
+    )
+    if (overlapping.length === 0) {
+      appendedWeeks.push(week.summary)
+      return
+    }
+    const incomingKeys = new Set(overlapping.map(getRecordKey))
+    const replaced = current.records.filter(record =>
+      incomingKeys.has(getRecordKey(record))
+    )
+
+    const beforeTotals = sumMetrics(replaced)
+    const afterTotals = sumMetrics(overlapping)
+    const changes = DIFF_METRICS.flatMap((metric): MetricChange[] => {
+      const before = beforeTotals[metric]
+      const after = afterTotals[metric]
+      const delta = after - before
+      if (Math.abs(delta) < AMOUNT_TOLERANCE) return []
+      return [
+        {
+          metric,
+          existing: before,
+          incoming: after,
+          delta,
+          changeRate: before !== 0 ? (delta / Math.abs(before)) * 100 : null,
+        },
+      ]
+    })
+
+    if (changes.length === 0) {
+      unchangedWeeks.push(week.summary)
+    } else {
+      restatements.push({
+        key,
+        policy_start_year: week.summary.policy_start_year,
+        week_number: week.summary.week_number,
+        existingCount: replaced.length,
+        incomingCount: overlapping.length,
+        changes,
+      })
+    }
+  })
+
+  const missingWeeks = Array.from(existingWeeks.values())
+    .filter(week => !incomingWeeks.has(week.summary.key))
+    .map(week => week.summary)
+
+  // 机构比较：新出现的机构与全部现有数据比较；
+  // 消失的机构指合并后不再有任何记录的机构（其现有记录全部被不含该机构的新记录覆盖）
+  const existingOrganizations = collectOrganizations(existing)
+  const incomingOrganizations = collectOrganizations(incoming)
+  const incomingRecordKeys = new Set(incoming.map(getRecordKey))
+  const mergedOrganizations = new Set(incomingOrganizations)
+  existing.forEach(record => {
+    if (!incomingRecordKeys.has(getRecordKey(record))) {
+      mergedOrganizations.add(record.third_level_organization)
+    }
+  })
+
+  const diff: DatasetDiff = {
+    addedWeeks: addedWeeks.sort(compareWeeks),
+    appendedWeeks: appendedWeeks.sort(compareWeeks),
+    missingWeeks: missingWeeks.sort(compareWeeks),
+    addedOrganizations: Array.from(incomingOrganizations)
+      .filter(org => !existingOrganizations.has(org))
+      .sort((a, b) => a.localeCompare(b, 'zh-CN')),
+    missingOrganizations: Array.from(existingOrganizations)
+      .filter(org => !mergedOrganizations.has(org))
+      .sort((a, b) => a.localeCompare(b, 'zh-CN')),
+    restatements: restatements.sort(compareWeeks),
+    unchangedWeeks: unchangedWeeks.sort(compareWeeks).map(week => week.key),
+  }
+
+  console.log(
+    `[Dataset Diff] 新增周次 ${diff.addedWeeks.length}，重述周次 ${diff.restatements.length}，新机构 ${diff.addedOrganizations.length}，消失机构 ${diff.missingOrganizations.length}`
+  )
+
+  return diff
+}
+
+/**
+ * 差异中是否存在需要重点核对的变化（重述或机构消失）
+ */
+export function hasSignificantChanges(diff: DatasetDiff): boolean {
+  return diff.restatements.length > 0 || diff.missingOrganizations.length > 0
+}
@@ -0,0 +1,252 @@
+/**
+ * 数据集增量合并
+ * 新上传的数据按 (保单年度, 周序号) 追加到现有数据集；
+ * 同一周次内维度组合重叠的记录视为冲突，由用户逐周选择「替换重叠记录」「保留现有」或「放弃导入」；
+ * 无论如何选择，不重叠的记录都会追加
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import { normalizeChineseText } from '@/lib/utils'
+
+/**
+ * 冲突处理方式
+ */
+export type MergeResolution = 'replace' | 'keep' | 'abort'
+
+/**
+ * 周次汇总
+ */
+export interface WeekSummary {
+  key: string // `${policy_start_year}-W${week_number}`
+  policy_start_year: number
+  week_number: number
+  recordCount: number
+}
+
+/**
+ * 周次冲突
+ */
+export interface WeekConflict {
+  key: string
+  policy_start_year: number
+  week_number: number
+  existingCount: number // 现有数据中该周记录数
+  incomingCount: number // 新数据中该周记录数
+  overlappingCount: number // 维度组合重叠的记录数
+}
+
+/**
+ * 合并计划（尚未应用）
+ */
+export interface MergePlan {
+  existing: InsuranceRecord[]
+  incoming: InsuranceRecord[]
+  newWeeks: WeekSummary[] // 现有数据中不存在的周次
+  appendedWeeks: WeekSummary[] // 周次已存在但维度组合不重叠，直接追加
+  conflicts: WeekConflict[]
+}
+
+/**
+ * 合并结果汇总
+ */
+export interface MergeSummary {
+  addedRecords: number
+  replacedRecords: number // 被新记录覆盖的现有记录数（按维度组合计）
+  skippedRecords: number // 因保留现有而丢弃的重叠新记录数（按维度组合计）
+  addedWeeks: string[]
+  replacedWeeks: string[]
+  keptWeeks: string[]
+  totalRecords: number
+}
+
+/**
+ * 用于冲突检测的维度字段（与业务指标无关的全部维度）
+ */
+const DIMENSION_FIELDS: Array<keyof InsuranceRecord> = [
+  'chengdu_branch',
+  'third_level_organization',
+  'customer_category_3',
+  'insurance_type',
+  'business_type_category',
+  'coverage_type',
+  'renewal_status',
+  'is_new_energy_vehicle',
+  'is_transferred_vehicle',
+  'vehicle_insurance_grade',
+  'highway_risk_grade',
+  'large_truck_score',
+  'small_truck_score',
+  'terminal_source',
+]
+
+/**
+ * 周次键
+ */
+export function getWeekKey(
+  record: Pick<InsuranceRecord, 'policy_start_year' | 'week_number'>
+): string {
+  return `${record.policy_start_year}-W${record.week_number}`
+}
+
+/**
+ * 维度组合键（文本字段先规范化，与 Store 中的数据保持一致）
+ */
+export function getDimensionKey(record: InsuranceRecord): string {
+  return DIMENSION_FIELDS.map(field => {
+    const value = record[field]
+    return typeof value === 'string'
+      ? normalizeChineseText(value)
+      : String(value ?? '')
+  }).join('|')
+}
+
+/**
+ * 记录键：周次 + 维度组合
+ */
+export function getRecordKey(record: InsuranceRecord): string {
+  return `${getWeekKey(record)}|${getDimensionKey(record)}`
+}
+
+function groupByWeek(
+  records: InsuranceRecord[]
+): Map<string, InsuranceRecord[]> {
+  const groups = new Map<string, InsuranceRecord[]>()
+  records.forEach(record => {
+    const key = getWeekKey(record)
+    const group = groups.get(key)
+    if (group) {
+      group.push(record)
+    } else {
+      groups.set(key, [record])
+    }
+  })
+  return groups
+}
+
+function toWeekSummary(key: string, records: InsuranceRecord[]): WeekSummary {
+  return {
+    key,
+    policy_start_year: records[0].policy_start_year,
+    week_number: records[0].week_number,
+    recordCount: records.length,
+  }
+}
+
+function compareWeeks(
+  a: { policy_start_year: number; week_number: number },
+  b: { policy_start_year: number; week_number: number }
+): number {
+  return (
+    a.policy_start_year - b.policy_start_year || a.week_number - b.week_number
+  )
+}
+
+/**
+ * 生成合并计划：识别新增周次和冲突周次
+ */
+export function planDatasetMerge(
+  existing: InsuranceRecord[],
+  incoming: InsuranceRecord[]
+): MergePlan {
+  const existingByWeek = groupByWeek(existing)
+  const incomingByWeek = groupByWeek(incoming)
+
+  const newWeeks: WeekSummary[] = []
+  const appendedWeeks: WeekSummary[] = []
+  const conflicts: WeekConflict[] = []
+
+  incomingByWeek.forEach((records, key) => {
+    const existingRecords = existingByWeek.get(key)
+    if (!existingRecords) {
+      newWeeks.push(toWeekSummary(key, records))
+      return
+    }
+
+    const existingKeys = new Set(existingRecords.map(getRecordKey))
+    const overlappingCount = records.filter(record =>
+      existingKeys.has(getRecordKey(record))
+    ).length
+
+    if (overlappingCount === 0) {
+      appendedWeeks.push(toWeekSummary(key, records))
+      return
+    }
+
+    conflicts.push({
+      key,
+      policy_start_year: records[0].policy_start_year,
+      week_number: records[0].week_number,
+      existingCount: existingRecords.length,
+      incomingCount: records.length,
+      overlappingCount,
+    })
+  })
+
+  return {
+    existing,
+    incoming,
+    newWeeks: newWeeks.sort(compareWeeks),
+    appendedWeeks: appendedWeeks.sort(compareWeeks),
+    conflicts: conflicts.sort(compareWeeks),
+  }
+}
+
+/**
+ * 按冲突处理方式应用合并计划
+ * @param resolutions 按周次键指定处理方式，未指定的冲突默认保留现有数据
+ * @returns 合并后的数据；任一冲突选择「放弃导入」时返回 null
+ */
+export function applyDatasetMerge(
+  plan: MergePlan,
+  resolutions: Record<string, MergeResolution> = {}
+): { data: InsuranceRecord[]; summary: MergeSummary } | null {
+  if (plan.conflicts.some(c => resolutions[c.key] === 'abort')) {
+    return null
+  }
+
+  const replacedWeeks = new Set(
+    plan.conflicts.filter(c => resolutions[c.key] === 'replace').map(c => c.key)
+  )
+  const keptWeeks = new Set(
+    plan.conflicts.filter(c => !replacedWeeks.has(c.key)).map(c => c.key)
+  )
+
+  // 冲突只针对 (周次, 维度组合)：替换仅删除被新记录覆盖的现有记录，
+  // 保留仅丢弃与现有记录重叠的新记录，不重叠的新记录始终追加
+  const incomingKeys = new Set<string>()
+  plan.incoming.forEach(record => {
+    if (replacedWeeks.has(getWeekKey(record))) {
+      incomingKeys.add(getRecordKey(record))
+    }
+  })
+  const existingKeys = new Set<string>()
+  plan.existing.forEach(record => {
+    if (keptWeeks.has(getWeekKey(record))) {
+      existingKeys.add(getRecordKey(record))
+    }
+  })
+
+  const retained = plan.existing.filter(
+    record => !incomingKeys.has(getRecordKey(record))
+  )
+  const added = plan.incoming.filter(
+    record => !existingKeys.has(getRecordKey(record))
+  )
+
+  const data = [...retained, ...added]
+
+  return {
+    data,
+    summary: {
+      addedRecords: added.length,
+      replacedRecords: plan.existing.length - retained.length,
+      skippedRecords: plan.incoming.length - added.length,
+      addedWeeks: [...plan.newWeeks, ...plan.appendedWeeks]
+        .sort(compareWeeks)
+        .map(w => w.key),
+      replacedWeeks: Array.from(replacedWeeks),
+      keptWeeks: Array.from(keptWeeks),
+      totalRecords: data.length,
+    },
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * 隔离区
+ * 导入时未通过字段转换、结构校验或 error 级业务规则的行不再直接丢弃，
+ * 而是连同逐字段错误保存到 IndexedDB 隔离区；修正后重新走完整校验管线并并入现有数据集
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import { validateRawRows, type RejectedRow } from '@/lib/parsers/csv-parser'
+import { correctEnumValue, fuzzyMatchAll } from '@/lib/parsers/fuzzy-matcher'
+import {
+  getEnumAliasMappings,
+  type EnumAliasMappings,
+} from '@/lib/parsers/enum-aliases'
+import { getRecordKey } from './dataset-merge'
+import { ENUM_FIELD_VALUES } from './data-repair'
+
+/**
+ * 隔离区中的行
+ */
+export interface QuarantinedRow {
+  id: string
+  sourceFile: string
+  row: number // 源文件中的数据行号
+  data: Record<string, unknown> // 原始值（无原始值时为字段转换后的值）
+  errors: Array<{ field?: string; message: string }>
+  quarantinedAt: string // ISO 时间
+}
+
+/**
+ * 将解析结果中的拒绝行转换为隔离区条目
+ */
+export function createQuarantineEntries(
+  sourceFile: string,
+  rejectedRows: RejectedRow[]
+): QuarantinedRow[] {
+  const quarantinedAt = new Date().toISOString()
+  const batch = Date.now().toString(36)
+  return rejectedRows.map(rejected => ({
+    id: `${sourceFile}#${rejected.row}@${batch}`,
+    sourceFile,
+    row: rejected.row,
+    data: rejected.source ?? rejected.data,
+    errors: rejected.errors,
+    quarantinedAt,
+  }))
+}
+
+/**
+ * 按字段汇总错误（无法定位字段的错误归入 '_row'）
+ */
+export function getCellErrors(entry: QuarantinedRow): Record<string, string[]> {
+  const cells: Record<string, string[]> = {}
+  entry.errors.forEach(error => {
+    const key = error.field ?? '_row'
+    cells[key] = [...(cells[key] ?? []), error.message]
+  })
+  return cells
+}
+
+/**
+ * 枚举字段的修正建议（与导入时的智能纠错使用同一套映射与模糊匹配）
+ * 导入时的 60% 阈值对两字机构名过严（一字之差即为 50%），无结果时放宽到 50%
+ * @returns 按可信度排序的建议值；非枚举字段或已是有效值时返回空数组
+ */
+export function suggestCellFix(
+  field: string,
+  value: unknown,
+  mappings: EnumAliasMappings = getEnumAliasMappings()
+): string[] {
+  const validValues = ENUM_FIELD_VALUES[field]
+  if (!validValues) return []
+
+  const text = String(value ?? '').trim()
+  if (!text || validValues.includes(text)) return []
+
+  const result = correctEnumValue(text, field, [...validValues], mappings)
+  if (result) return [result.corrected, ...result.suggestions]
+
+  return fuzzyMatchAll(text, [...validValues], 0.5, 3).map(m => m.value)
+}
+
+/**
+ * 重新校验隔离区中的行
+ * 与文件导入相同：字段转换 → 结构校验 → 业务规则
+ * @returns 通过校验的记录，以及仍未通过的行（错误已更新）
+ */
+export function revalidateQuarantinedRows(entries: QuarantinedRow[]): {
+  recovered: Array<{ id: string; record: InsuranceRecord }>
+  remaining: QuarantinedRow[]
+} {
+  if (entries.length === 0) return { recovered: [], remaining: [] }
+
+  const result = validateRawRows(entries.map(entry => entry.data))
+
+  const rejectedByRow = new Map(
+    (result.rejectedRows ?? []).map(rejected => [rejected.row, rejected])
+  )
+  const recovered: Array<{ id: string; record: InsuranceRecord }> = []
+  const remaining: QuarantinedRow[] = []
+  let dataIndex = 0
+
+  entries.forEach((entry, index) => {
+    const rejected = rejectedByRow.get(index + 1)
+    if (rejected) {
+      remaining.push({ ...entry, errors: rejected.errors })
+    } else {
+      recovered.push({ id: entry.id, record: result.data[dataIndex++] })
+    }
+  })
+
+  return { recovered, remaining }
+}
+
+/**
+ * 将修正后的记录并入现有数据集
+ * 周次与维度组合完全相同的记录视为重复，不再追加
+ */
+export function mergeRecoveredRecords(
+  existing: InsuranceRecord[],
+  records: InsuranceRecord[]
+): { data: InsuranceRecord[]; added: number; duplicates: number } {
+  const keys = new Set(existing.map(getRecordKey))
+  const added = records.filter(record => {
+    const key = getRecordKey(record)
+    if (keys.has(key)) return false
+    keys.add(key)
+    return true
+  })
+
+  return {
+    data: existing.concat(added),
+    added: added.length,
+    duplicates: records.length - added.length,
+  }
+}
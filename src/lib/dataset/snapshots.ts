@@ -0,0 +1,229 @@
+/**
+ * 数据集快照
+ * 在覆盖或删除数据之前自动保存数据集（及当时的保费目标）的历史版本，
+ * 记录本次操作带来的周次变化，可一键回滚；按数量上限和存储预算保留最近的快照
+ */
+
+import type { InsuranceRecord, PremiumTargets } from '@/types/insurance'
+import { z } from 'zod'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import {
+  defineSlice,
+  loadSlice,
+  saveSlice,
+} from '@/lib/storage/versioned-storage'
+import { getWeekKey } from './dataset-merge'
+import { getCoveredWeeks, type DatasetMeta } from './workspace'
+
+/**
+ * 触发快照的操作
+ */
+export type SnapshotReason = 'update' | 'clear' | 'delete' | 'rollback'
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  update: '数据更新前',
+  clear: '重新上传前',
+  delete: '删除数据集前',
+  rollback: '回滚前',
+}
+
+/**
+ * 快照之后的操作对数据造成的变化（周次键，如 2025-W28）
+ */
+export interface SnapshotChanges {
+  addedWeeks: string[] // 操作后新增的周次
+  removedWeeks: string[] // 操作后不再存在的周次
+  changedWeeks: string[] // 两边都有、但行数或签单保费合计不同的周次
+  rowsBefore: number
+  rowsAfter: number
+}
+
+/**
+ * 快照元数据（与快照数据分开存储，列出历史时无需读取记录）
+ */
+export interface SnapshotMeta {
+  id: string
+  datasetId: string
+  datasetName: string
+  reason: SnapshotReason
+  createdAt: string // ISO 时间
+  rowCount: number
+  weeks: string[]
+  sourceFiles: string[]
+  targets: PremiumTargets // 快照时的保费目标
+  changes: SnapshotChanges
+  storedBytes: number // 压缩后的存储字节数（保存完成后更新）
+  encrypted?: boolean // 数据块是否已加密（保存时确定）
+}
+
+/**
+ * 快照保留设置
+ */
+export interface SnapshotSettings {
+  maxSnapshots: number // 最多保留的快照数
+  budgetMB: number // 快照可占用的存储预算（MB）
+}
+
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = {
+  maxSnapshots: 20,
+  budgetMB: 200,
+}
+
+export function createSnapshotId(): string {
+  return `snap_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * 按周次汇总行数与签单保费合计
+ */
+function summarizeByWeek(
+  data: InsuranceRecord[]
+): Map<string, { count: number; premium: number }> {
+  const weeks = new Map<string, { count: number; premium: number }>()
+  data.forEach(record => {
+    const key = getWeekKey(record)
+    const week = weeks.get(key) ?? { count: 0, premium: 0 }
+    week.count += 1
+    week.premium += record.signed_premium_yuan
+    weeks.set(key, week)
+  })
+  return weeks
+}
+
+/**
+ * 比较快照数据与操作后的数据
+ */
+export function summarizeSnapshotChanges(
+  before: InsuranceRecord[],
+  after: InsuranceRecord[]
+): SnapshotChanges {
+  const beforeWeeks = summarizeByWeek(before)
+  const afterWeeks = summarizeByWeek(after)
+  const changes: SnapshotChanges = {
+    addedWeeks: [],
+    removedWeeks: [],
+    changedWeeks: [],
+    rowsBefore: before.length,
+    rowsAfter: after.length,
+  }
+
+  // 按时间顺序输出周次
+  getCoveredWeeks([...before, ...after]).forEach(key => {
+    const existing = beforeWeeks.get(key)
+    const incoming = afterWeeks.get(key)
+    if (!existing) {
+      changes.addedWeeks.push(key)
+    } else if (!incoming) {
+      changes.removedWeeks.push(key)
+    } else if (
+      existing.count !== incoming.count ||
+      Math.abs(existing.premium - incoming.premium) > 0.01
+    ) {
+      changes.changedWeeks.push(key)
+    }
+  })
+  return changes
+}
+
+/**
+ * 生成快照元数据
+ */
+export function buildSnapshotMeta(
+  reason: SnapshotReason,
+  dataset: Pick<DatasetMeta, 'id' | 'name' | 'sourceFiles'>,
+  before: InsuranceRecord[],
+  after: InsuranceRecord[],
+  targets: PremiumTargets
+): SnapshotMeta {
+  return {
+    id: createSnapshotId(),
+    datasetId: dataset.id,
+    datasetName: dataset.name,
+    reason,
+    createdAt: new Date().toISOString(),
+    rowCount: before.length,
+    weeks: getCoveredWeeks(before),
+    sourceFiles: dataset.sourceFiles,
+    targets,
+    changes: summarizeSnapshotChanges(before, after),
+    storedBytes: 0,
+  }
+}
+
+/**
+ * 超出保留数量或存储预算的快照（从最旧的开始淘汰，最新的一个始终保留）
+ */
+export function selectSnapshotsToPrune(
+  snapshots: SnapshotMeta[],
+  settings: SnapshotSettings
+): SnapshotMeta[] {
+  const budgetBytes = settings.budgetMB * 1024 * 1024
+  const sorted = [...snapshots].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  )
+  let usedBytes = 0
+  return sorted.filter((snapshot, index) => {
+    usedBytes += snapshot.storedBytes
+    if (index === 0) return false
+    return index >= settings.maxSnapshots || usedBytes > budgetBytes
+  })
+}
+
+/**
+ * 快照设置持久化切片
+ * v1：补齐旧设置中缺失的字段
+ */
+export const snapshotSettingsSlice = defineSlice<SnapshotSettings>({
+  id: 'snapshotSettings',
+  label: '快照保留设置',
+  key: StorageKeys.SNAPSHOT_SETTINGS,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: {
+    1: value => ({
+      ...DEFAULT_SNAPSHOT_SETTINGS,
+      ...(value as Partial<SnapshotSettings>),
+    }),
+  },
+  schema: z.object({
+    maxSnapshots: z.number().int().positive(),
+    budgetMB: z.number().positive(),
+  }),
+  fallback: () => ({ ...DEFAULT_SNAPSHOT_SETTINGS }),
+})
+
+/**
+ * 读取快照保留设置
+ */
+export function loadSnapshotSettings(): SnapshotSettings {
+  return loadSlice(snapshotSettingsSlice)
+}
+
+/**
+ * 保存快照保留设置
+ */
+export function saveSnapshotSettings(settings: SnapshotSettings): {
+  success: boolean
+  error?: string
+} {
+  return saveSlice(snapshotSettingsSlice, settings)
+}
+
+/**
+ * 操作变化摘要，如「新增 2 周 · 变更 1 周 · 1,000 → 1,200 行」
+ */
+export function describeSnapshotChanges(changes: SnapshotChanges): string {
+  const parts: string[] = []
+  if (changes.addedWeeks.length > 0)
+    parts.push(`新增 ${changes.addedWeeks.length} 周`)
+  if (changes.removedWeeks.length > 0)
+    parts.push(`移除 ${changes.removedWeeks.length} 周`)
+  if (changes.changedWeeks.length > 0)
+    parts.push(`变更 ${changes.changedWeeks.length} 周`)
+  if (parts.length === 0 && changes.rowsBefore === changes.rowsAfter)
+    parts.push('周次合计无变化')
+  parts.push(
+    `${changes.rowsBefore.toLocaleString()} → ${changes.rowsAfter.toLocaleString()} 行`
+  )
+  return parts.join(' · ')
+}
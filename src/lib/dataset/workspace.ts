@@ -0,0 +1,87 @@
+/**
+ * 命名数据集
+ * IndexedDB 中可并存多个数据集（如「2024 全年」「2025 年初至今」），
+ * 每个数据集附带行数、覆盖周次、创建/更新时间、来源文件和存储占用等元数据，供切换器展示
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import { getWeekKey } from './dataset-merge'
+
+/**
+ * 数据集元数据（与记录分开存储，列出数据集时无需读取全部记录）
+ */
+export interface DatasetMeta {
+  id: string
+  name: string
+  rowCount: number
+  weeks: string[] // 覆盖的周次键（2025-W28），按时间排序
+  createdAt: string // ISO 时间
+  updatedAt: string // ISO 时间
+  sourceFiles: string[]
+  chunkCount: number // 按周次拆分的数据块数
+  storedBytes: number // 压缩后的存储字节数（保存完成后更新）
+}
+
+export function createDatasetId(): string {
+  return `ds_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * 数据覆盖的周次键（按保单年度、周序号排序）
+ */
+export function getCoveredWeeks(data: InsuranceRecord[]): string[] {
+  const weeks = new Map<string, [number, number]>()
+  data.forEach(record => {
+    weeks.set(getWeekKey(record), [
+      record.policy_start_year,
+      record.week_number,
+    ])
+  })
+  return Array.from(weeks.entries())
+    .sort(([, a], [, b]) => a[0] - b[0] || a[1] - b[1])
+    .map(([key]) => key)
+}
+
+/**
+ * 默认数据集名称：按覆盖的保单年度命名，如「2025 年数据」「2024-2025 年数据」
+ */
+export function getDefaultDatasetName(data: InsuranceRecord[]): string {
+  const years = Array.from(new Set(data.map(r => r.policy_start_year))).sort()
+  if (years.length === 0) return '未命名数据集'
+  const range =
+    years.length === 1
+      ? `${years[0]}`
+      : `${years[0]}-${years[years.length - 1]}`
+  return `${range} 年数据`
+}
+
+/**
+ * 根据数据内容生成（或更新）数据集元数据
+ */
+export function buildDatasetMeta(
+  data: InsuranceRecord[],
+  base: Pick<DatasetMeta, 'id'> & Partial<DatasetMeta>
+): DatasetMeta {
+  const now = new Date().toISOString()
+  return {
+    id: base.id,
+    name: base.name ?? getDefaultDatasetName(data),
+    rowCount: data.length,
+    weeks: getCoveredWeeks(data),
+    createdAt: base.createdAt ?? now,
+    updatedAt: now,
+    sourceFiles: base.sourceFiles ?? [],
+    chunkCount: base.chunkCount ?? 0,
+    storedBytes: base.storedBytes ?? 0,
+  }
+}
+
+/**
+ * 覆盖周次摘要，如「2025-W1 ~ 2025-W28（28 周）」
+ */
+export function formatCoveredWeeks(meta: Pick<DatasetMeta, 'weeks'>): string {
+  const { weeks } = meta
+  if (weeks.length === 0) return '无周次'
+  if (weeks.length === 1) return weeks[0]
+  return `${weeks[0]} ~ ${weeks[weeks.length - 1]}（${weeks.length} 周）`
+}
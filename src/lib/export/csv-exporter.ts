@@ -25,7 +25,7 @@ export interface ExportOptions {
 /**
  * 默认字段顺序（按照业务逻辑分组）
  */
-const DEFAULT_FIELD_ORDER: ExportField[] = [
+export const DEFAULT_FIELD_ORDER: ExportField[] = [
   // 时间维度
   'snapshot_date',
   'policy_start_year',
@@ -262,7 +262,7 @@ export function exportKPISummary(
 /**
  * 下载 CSV 文件
  */
-function downloadCSV(csvContent: string, filename: string): void {
+export function downloadCSV(csvContent: string, filename: string): void {
   // 添加 UTF-8 BOM，确保 Excel 正确识别中文
   const BOM = '\uFEFF'
   const blob = new Blob([BOM + csvContent], { type: 'text/csv;charset=utf-8;' })
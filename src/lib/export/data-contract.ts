@@ -0,0 +1,314 @@
+/**
+ * 数据契约导出
+ * 由 InsuranceRecordSchema 与 constants/dimensions 中的 CANONICAL_* 列表生成
+ * 导入模板 CSV、字段字典和 JSON Schema，保证下发给数据提供方的契约与校验代码一致
+ */
+
+import { z } from 'zod'
+import Papa from 'papaparse'
+import { InsuranceRecordSchema } from '@/lib/validations/insurance-schema'
+import {
+  REQUIRED_FIELDS,
+  DERIVABLE_FIELDS,
+  FIELD_LABELS,
+} from '@/lib/parsers/column-mapping'
+import {
+  CANONICAL_BUSINESS_TYPES,
+  CANONICAL_CUSTOMER_CATEGORIES,
+  CANONICAL_TERMINAL_SOURCES,
+} from '@/constants/dimensions'
+import { downloadCSV } from './csv-exporter'
+
+/**
+ * 契约中的字段类型
+ */
+export type ContractFieldType =
+  | 'date'
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'boolean'
+
+/**
+ * 字段字典条目
+ */
+export interface FieldContract {
+  name: string
+  label: string
+  type: ContractFieldType
+  unit?: string
+  required: boolean // 必须有值（列本身始终必须存在，可推导字段除外）
+  allowedValues?: string[]
+  minimum?: number
+  maximum?: number
+  notes?: string
+}
+
+type JSONSchemaProperty = {
+  type?: string
+  enum?: unknown[]
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  anyOf?: JSONSchemaProperty[]
+  [key: string]: unknown
+}
+
+/**
+ * Schema 中仅校验非空、实际取值由维度常量约定的字段
+ */
+const CANONICAL_VALUES: Record<string, string[]> = {
+  customer_category_3: CANONICAL_CUSTOMER_CATEGORIES,
+  business_type_category: CANONICAL_BUSINESS_TYPES,
+  terminal_source: CANONICAL_TERMINAL_SOURCES,
+}
+
+const FIELD_UNITS: Record<string, string> = {
+  policy_start_year: '年',
+  week_number: '周',
+  policy_count: '件',
+  claim_case_count: '件',
+}
+
+const FIELD_NOTES: Record<string, string> = {
+  snapshot_date: '格式 YYYY-MM-DD，不晚于导入当天',
+  week_number: '可省略整列，由快照日期按周历推导',
+  is_new_energy_vehicle: 'CSV 中填写 True / False',
+  is_transferred_vehicle: 'CSV 中填写 True / False',
+  vehicle_insurance_grade: '无评级时留空',
+  highway_risk_grade: '无评级时留空',
+  large_truck_score: '无评分时留空',
+  small_truck_score: '无评分时留空',
+  premium_plan_yuan: '无计划时留空',
+  marginal_contribution_amount_yuan: '可为负数',
+}
+
+/**
+ * 模板示例行（CSV 原始文本形式，均可通过导入校验与默认业务规则）
+ */
+const TEMPLATE_EXAMPLE_ROWS: Array<Record<string, string>> = [
+  {
+    snapshot_date: '2025-07-13',
+    policy_start_year: '2025',
+    business_type_category: '10吨以上-普货',
+    chengdu_branch: '中支',
+    third_level_organization: '乐山',
+    customer_category_3: '营业货车',
+    insurance_type: '商业险',
+    is_new_energy_vehicle: 'False',
+    coverage_type: '主全',
+    is_transferred_vehicle: 'False',
+    renewal_status: '续保',
+    vehicle_insurance_grade: 'B',
+    highway_risk_grade: 'C',
+    large_truck_score: 'B',
+    small_truck_score: '',
+    terminal_source: '0106移动展业(App)',
+    signed_premium_yuan: '12580.00',
+    matured_premium_yuan: '6290.00',
+    policy_count: '1',
+    claim_case_count: '0',
+    reported_claim_payment_yuan: '0',
+    expense_amount_yuan: '1006.40',
+    commercial_premium_before_discount_yuan: '14800.00',
+    premium_plan_yuan: '15000',
+    marginal_contribution_amount_yuan: '5283.60',
+    week_number: '28',
+  },
+  {
+    snapshot_date: '2025-07-13',
+    policy_start_year: '2025',
+    business_type_category: '非营业客车新车',
+    chengdu_branch: '成都',
+    third_level_organization: '天府',
+    customer_category_3: '非营业个人客车',
+    insurance_type: '交强险',
+    is_new_energy_vehicle: 'True',
+    coverage_type: '单交',
+    is_transferred_vehicle: 'False',
+    renewal_status: '新保',
+    vehicle_insurance_grade: '',
+    highway_risk_grade: '',
+    large_truck_score: '',
+    small_truck_score: '',
+    terminal_source: '0101柜面',
+    signed_premium_yuan: '950.00',
+    matured_premium_yuan: '950.00',
+    policy_count: '1',
+    claim_case_count: '0',
+    reported_claim_payment_yuan: '0',
+    expense_amount_yuan: '38.00',
+    commercial_premium_before_discount_yuan: '0',
+    premium_plan_yuan: '',
+    marginal_contribution_amount_yuan: '912.00',
+    week_number: '28',
+  },
+]
+
+/**
+ * 由 Zod Schema 生成的原始 JSON Schema
+ */
+function getRecordJSONSchema() {
+  return z.toJSONSchema(InsuranceRecordSchema) as {
+    properties: Record<string, JSONSchemaProperty>
+    required?: string[]
+    [key: string]: unknown
+  }
+}
+
+function toFieldType(name: string, property: JSONSchemaProperty) {
+  if (property.pattern && name === 'snapshot_date') return 'date'
+  return (property.type ?? 'string') as ContractFieldType
+}
+
+/**
+ * 字段字典（按导入模板的列顺序）
+ */
+export function getFieldContracts(): FieldContract[] {
+  const schema = getRecordJSONSchema()
+  const requiredFields = new Set(schema.required ?? [])
+
+  return REQUIRED_FIELDS.map(name => {
+    const raw = schema.properties[name] ?? {}
+    // nullable 字段生成为 anyOf: [实际类型, null]
+    const nullVariant = raw.anyOf?.find(variant => variant.type === 'null')
+    const property = raw.anyOf?.find(variant => variant.type !== 'null') ?? raw
+    const allowedValues = property.enum?.map(String) ?? CANONICAL_VALUES[name]
+
+    return {
+      name,
+      label: FIELD_LABELS[name] ?? name,
+      type: toFieldType(name, property),
+      unit: name.endsWith('_yuan') ? '元' : FIELD_UNITS[name],
+      required: requiredFields.has(name) && !nullVariant,
+      allowedValues: allowedValues
+        ? Array.from(new Set(allowedValues))
+        : undefined,
+      minimum: property.minimum,
+      maximum:
+        property.maximum !== undefined &&
+        property.maximum < Number.MAX_SAFE_INTEGER
+          ? property.maximum
+          : undefined,
+      notes: FIELD_NOTES[name],
+    }
+  })
+}
+
+/**
+ * 生成 JSON Schema 文档
+ * 描述 JSON / JSON Lines 数据集中的单条记录；维度常量约定的取值同时写入 enum
+ */
+export function buildRecordJSONSchema(): Record<string, unknown> {
+  const schema = getRecordJSONSchema()
+  const contracts = new Map(getFieldContracts().map(c => [c.name, c]))
+
+  const properties = Object.fromEntries(
+    Object.entries(schema.properties).map(([name, property]) => {
+      const contract = contracts.get(name)
+      const description = [contract?.unit && `单位：${contract.unit}`]
+        .concat(contract?.notes)
+        .filter(Boolean)
+        .join('；')
+      return [
+        name,
+        {
+          title: contract?.label ?? name,
+          ...(description ? { description } : {}),
+          ...property,
+          ...(CANONICAL_VALUES[name]
+            ? { enum: Array.from(new Set(CANONICAL_VALUES[name])) }
+            : {}),
+        },
+      ]
+    })
+  )
+
+  return {
+    ...schema,
+    title: '车险业务数据记录',
+    description:
+      '周度车险业务数据的单条记录。CSV / Excel 导入使用同名列，布尔值写作 True / False，空单元格对应可选字段缺省',
+    properties,
+  }
+}
+
+/**
+ * 导入模板 CSV 内容（表头 + 示例行）
+ */
+export function buildTemplateCSV(): string {
+  return Papa.unparse(
+    {
+      fields: REQUIRED_FIELDS,
+      data: TEMPLATE_EXAMPLE_ROWS.map(row =>
+        REQUIRED_FIELDS.map(field => row[field] ?? '')
+      ),
+    },
+    { newline: '\n' }
+  )
+}
+
+/**
+ * 字段字典 CSV 内容
+ */
+export function buildFieldDictionaryCSV(): string {
+  return Papa.unparse(
+    getFieldContracts().map(contract => ({
+      字段名: contract.name,
+      中文名称: contract.label,
+      类型: contract.type,
+      单位: contract.unit ?? '',
+      是否必填: DERIVABLE_FIELDS[contract.name]
+        ? '可推导'
+        : contract.required
+          ? '必填'
+          : '可留空',
+      取值范围: [
+        contract.minimum !== undefined ? `≥ ${contract.minimum}` : '',
+        contract.maximum !== undefined ? `≤ ${contract.maximum}` : '',
+      ]
+        .filter(Boolean)
+        .join(' 且 '),
+      允许值: contract.allowedValues?.join(' / ') ?? '',
+      说明: contract.notes ?? '',
+    })),
+    { newline: '\n' }
+  )
+}
+
+/**
+ * 下载导入模板 CSV
+ */
+export function downloadTemplateCSV(): void {
+  downloadCSV(buildTemplateCSV(), '车险数据导入模板.csv')
+  console.log('[Data Contract] 已下载导入模板')
+}
+
+/**
+ * 下载字段字典 CSV
+ */
+export function downloadFieldDictionary(): void {
+  downloadCSV(buildFieldDictionaryCSV(), '车险数据字段字典.csv')
+  console.log('[Data Contract] 已下载字段字典')
+}
+
+/**
+ * 下载 JSON Schema 文档
+ */
+export function downloadJSONSchema(): void {
+  const blob = new Blob([JSON.stringify(buildRecordJSONSchema(), null, 2)], {
+    type: 'application/schema+json;charset=utf-8;',
+  })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', 'insurance-record.schema.json')
+  link.style.visibility = 'hidden'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  setTimeout(() => URL.revokeObjectURL(url), 100)
+  console.log('[Data Contract] 已下载 JSON Schema')
+}
@@ -0,0 +1,77 @@
+/**
+ * JSON Lines 导出工具
+ * 首行写入格式头（格式标识、版本、记录数、字段列表），其后每行一条记录；
+ * 布尔值、null 和缺省的可选字段按原样保留，可经导入管线无损还原
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import {
+  JSONL_FORMAT,
+  JSONL_SCHEMA_VERSION,
+  type JSONLHeader,
+} from '@/lib/parsers/jsonl-parser'
+import { DEFAULT_FIELD_ORDER } from './csv-exporter'
+
+/**
+ * JSONL 导出选项
+ */
+export interface JSONLExportOptions {
+  /** 文件名（不含扩展名） */
+  filename?: string
+}
+
+/**
+ * 将记录序列化为 JSON Lines 文本
+ * 字段按默认顺序输出，未赋值的可选字段不写入
+ */
+export function serializeRecordsToJSONL(data: InsuranceRecord[]): string {
+  const header: JSONLHeader = {
+    format: JSONL_FORMAT,
+    schemaVersion: JSONL_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    recordCount: data.length,
+    fields: DEFAULT_FIELD_ORDER,
+  }
+
+  const lines = [JSON.stringify(header)]
+  data.forEach(record => {
+    const ordered: Record<string, unknown> = {}
+    DEFAULT_FIELD_ORDER.forEach(field => {
+      if (record[field] !== undefined) ordered[field] = record[field]
+    })
+    lines.push(JSON.stringify(ordered))
+  })
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * 将数据导出为 JSON Lines 文件
+ */
+export function exportToJSONL(
+  data: InsuranceRecord[],
+  options: JSONLExportOptions = {}
+): void {
+  const { filename = `保险数据_${new Date().toISOString().split('T')[0]}` } =
+    options
+
+  if (data.length === 0) {
+    alert('没有数据可导出')
+    return
+  }
+
+  const blob = new Blob([serializeRecordsToJSONL(data)], {
+    type: 'application/x-ndjson;charset=utf-8;',
+  })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', `${filename}.jsonl`)
+  link.style.visibility = 'hidden'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  setTimeout(() => URL.revokeObjectURL(url), 100)
+  console.log(`[JSONL Exporter] 已导出 ${data.length} 条记录`)
+}
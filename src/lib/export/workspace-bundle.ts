@@ -0,0 +1,494 @@
+/**
+ * 工作区打包
+ * 将数据集、保费目标（含版本）、筛选预设、预测方案和各项设置打包为一个文件，
+ * 附带清单与 SHA-256 校验和，可在另一台电脑上按分区选择导入并处理冲突；
+ * 校验和只保证文件完整，读取时各分区内容仍按 Schema 校验
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import { z } from 'zod'
+import type { InsuranceRecord, PremiumTargets } from '@/types/insurance'
+import type { FilterPreset } from '@/hooks/use-filter-presets'
+import {
+  PredictionDraftSchema,
+  PredictionScenarioSchema,
+  type PredictionDraft,
+  type PredictionScenario,
+} from '@/lib/analytics/prediction-scenarios'
+import {
+  FilterPresetSchema,
+  PremiumTargetsSchema,
+} from '@/lib/validations/persisted-state-schema'
+import { createDatasetId, type DatasetMeta } from '@/lib/dataset/workspace'
+import { StorageKeys } from '@/lib/storage/local-storage'
+
+export const WORKSPACE_BUNDLE_FORMAT = 'insurance-analytics-workspace'
+export const WORKSPACE_BUNDLE_VERSION = 1
+export const WORKSPACE_BUNDLE_EXTENSION = '.workspace'
+
+const MANIFEST_PATH = 'manifest.json'
+
+export type BundleSection =
+  | 'datasets'
+  | 'targets'
+  | 'filterPresets'
+  | 'scenarios'
+  | 'settings'
+
+export const BUNDLE_SECTIONS: BundleSection[] = [
+  'datasets',
+  'targets',
+  'filterPresets',
+  'scenarios',
+  'settings',
+]
+
+export const BUNDLE_SECTION_LABELS: Record<BundleSection, string> = {
+  datasets: '数据集',
+  targets: '保费目标',
+  filterPresets: '筛选预设',
+  scenarios: '预测方案',
+  settings: '设置',
+}
+
+/**
+ * 随工作区迁移的设置项（localStorage 键）
+ */
+export const BUNDLE_SETTING_KEYS = {
+  columnMappingProfiles: StorageKeys.COLUMN_MAPPING_PROFILES,
+  businessRules: StorageKeys.BUSINESS_RULES,
+  enumAliases: StorageKeys.ENUM_ALIASES,
+  snapshotSettings: StorageKeys.SNAPSHOT_SETTINGS,
+  filters: StorageKeys.FILTERS,
+  userPreferences: StorageKeys.USER_PREFERENCES,
+} as const
+
+export type BundleSettingName = keyof typeof BUNDLE_SETTING_KEYS
+
+export const BUNDLE_SETTING_LABELS: Record<BundleSettingName, string> = {
+  columnMappingProfiles: '列映射方案',
+  businessRules: '业务规则',
+  enumAliases: '枚举别名',
+  snapshotSettings: '快照保留设置',
+  filters: '当前筛选条件',
+  userPreferences: '界面偏好',
+}
+
+/**
+ * 工作区内容（导出时从本机收集，导入时从文件读取）
+ */
+export interface WorkspaceContents {
+  datasets: Array<{ meta: DatasetMeta; records: InsuranceRecord[] }>
+  targets: PremiumTargets | null
+  filterPresets: FilterPreset[]
+  scenarios: { draft: PredictionDraft | null; scenarios: PredictionScenario[] }
+  settings: Partial<Record<BundleSettingName, unknown>>
+}
+
+export interface BundleEntry {
+  path: string
+  section: BundleSection
+  bytes: number
+  sha256: string
+}
+
+/**
+ * 清单：列出每个文件的分区、大小与 SHA-256，checksum 为全部文件摘要的汇总摘要
+ */
+export interface BundleManifest {
+  format: typeof WORKSPACE_BUNDLE_FORMAT
+  version: number
+  createdAt: string
+  checksum: string
+  entries: BundleEntry[]
+  summary: {
+    datasets: Array<Pick<DatasetMeta, 'id' | 'name' | 'rowCount'>>
+    targetsYear: number | null
+    filterPresets: number
+    scenarios: number
+    settings: BundleSettingName[]
+  }
+}
+
+/**
+ * 读取结果：摘要不符或内容校验失败的分区不会出现在 contents 中
+ * 数据集记录只校验为对象，逐条的字段与业务规则校验在写入前进行
+ */
+export interface ParsedWorkspaceBundle {
+  manifest: BundleManifest
+  contents: Partial<WorkspaceContents>
+  corruptSections: BundleSection[]
+  invalidSections: Partial<Record<BundleSection, string>> // 分区 → 校验失败原因
+}
+
+const DatasetMetaSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  rowCount: z.number().int().nonnegative(),
+  weeks: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  sourceFiles: z.array(z.string()),
+  chunkCount: z.number().int().nonnegative(),
+  storedBytes: z.number().nonnegative(),
+})
+
+/**
+ * 各分区文件的结构 Schema
+ */
+const SECTION_SCHEMAS: Record<BundleSection, z.ZodType> = {
+  datasets: z.object({
+    meta: DatasetMetaSchema,
+    records: z.array(z.record(z.string(), z.unknown())),
+  }),
+  targets: PremiumTargetsSchema,
+  filterPresets: z.array(FilterPresetSchema),
+  scenarios: z.object({
+    draft: PredictionDraftSchema.nullable(),
+    scenarios: z.array(PredictionScenarioSchema),
+  }),
+  settings: z.record(z.string(), z.unknown()),
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource)
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * 汇总摘要：按路径排序后对「路径:摘要」逐行计算 SHA-256
+ */
+function computeChecksum(entries: BundleEntry[]): Promise<string> {
+  const lines = [...entries]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(entry => `${entry.path}:${entry.sha256}`)
+    .join('\n')
+  return sha256Hex(strToU8(lines))
+}
+
+/**
+ * 打包工作区
+ */
+export async function buildWorkspaceBundle(
+  contents: WorkspaceContents
+): Promise<{ bytes: Uint8Array; manifest: BundleManifest }> {
+  const files: Record<string, Uint8Array> = {}
+  const entries: BundleEntry[] = []
+
+  const addFile = async (
+    path: string,
+    section: BundleSection,
+    value: unknown
+  ) => {
+    const bytes = strToU8(JSON.stringify(value))
+    files[path] = bytes
+    entries.push({
+      path,
+      section,
+      bytes: bytes.byteLength,
+      sha256: await sha256Hex(bytes),
+    })
+  }
+
+  for (const dataset of contents.datasets) {
+    await addFile(`datasets/${dataset.meta.id}.json`, 'datasets', dataset)
+  }
+  if (contents.targets) {
+    await addFile('targets.json', 'targets', contents.targets)
+  }
+  await addFile('filter-presets.json', 'filterPresets', contents.filterPresets)
+  await addFile('scenarios.json', 'scenarios', contents.scenarios)
+  await addFile('settings.json', 'settings', contents.settings)
+
+  const manifest: BundleManifest = {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await computeChecksum(entries),
+    entries,
+    summary: {
+      datasets: contents.datasets.map(({ meta }) => ({
+        id: meta.id,
+        name: meta.name,
+        rowCount: meta.rowCount,
+      })),
+      targetsYear: contents.targets?.year ?? null,
+      filterPresets: contents.filterPresets.length,
+      scenarios: contents.scenarios.scenarios.length,
+      settings: Object.keys(contents.settings) as BundleSettingName[],
+    },
+  }
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2))
+
+  return { bytes: zipSync(files, { level: 6 }), manifest }
+}
+
+/**
+ * 读取并校验工作区文件
+ * 清单缺失或格式不符时抛出错误；单个文件摘要不符或内容校验失败时仅跳过其所在分区
+ */
+export async function readWorkspaceBundle(
+  bytes: Uint8Array
+): Promise<ParsedWorkspaceBundle> {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(bytes)
+  } catch {
+    throw new Error('无法解压工作区文件，文件可能已损坏')
+  }
+
+  if (!files[MANIFEST_PATH]) {
+    throw new Error('工作区文件缺少清单 (manifest.json)')
+  }
+  const manifest = JSON.parse(strFromU8(files[MANIFEST_PATH])) as BundleManifest
+  if (manifest.format !== WORKSPACE_BUNDLE_FORMAT) {
+    throw new Error('不是有效的工作区文件')
+  }
+  if (manifest.version > WORKSPACE_BUNDLE_VERSION) {
+    throw new Error(
+      `工作区文件版本 (${manifest.version}) 高于当前支持的版本 (${WORKSPACE_BUNDLE_VERSION})，请先升级应用`
+    )
+  }
+
+  if ((await computeChecksum(manifest.entries)) !== manifest.checksum) {
+    throw new Error('工作区清单校验和不匹配，文件可能已被修改')
+  }
+  const corrupt = new Set<BundleSection>()
+  for (const entry of manifest.entries) {
+    const file = files[entry.path]
+    if (!file || (await sha256Hex(file)) !== entry.sha256) {
+      console.warn(`[Workspace Bundle] 文件校验失败: ${entry.path}`)
+      corrupt.add(entry.section)
+    }
+  }
+
+  const invalid: Partial<Record<BundleSection, string>> = {}
+  const read = <T>(entry: BundleEntry): T | undefined => {
+    let value: unknown
+    try {
+      value = JSON.parse(strFromU8(files[entry.path]))
+    } catch {
+      invalid[entry.section] = `${entry.path} 不是有效的 JSON`
+      return undefined
+    }
+    const result = SECTION_SCHEMAS[entry.section].safeParse(value)
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      invalid[entry.section] =
+        `${entry.path} 校验失败: ${issue?.path.join('.') ?? ''} ${issue?.message ?? ''}`
+      return undefined
+    }
+    return result.data as T
+  }
+  const entriesOf = (section: BundleSection) =>
+    corrupt.has(section)
+      ? []
+      : manifest.entries.filter(entry => entry.section === section)
+
+  const contents: Partial<WorkspaceContents> = {}
+  if (!corrupt.has('datasets')) {
+    const datasets = entriesOf('datasets').map(entry =>
+      read<WorkspaceContents['datasets'][number]>(entry)
+    )
+    // 任一数据集文件不合格时整个分区不可导入，与摘要校验失败一致
+    if (!invalid.datasets) {
+      contents.datasets = datasets as WorkspaceContents['datasets']
+    }
+  }
+  entriesOf('targets').forEach(entry => {
+    const targets = read<PremiumTargets>(entry)
+    if (targets) contents.targets = targets
+  })
+  entriesOf('filterPresets').forEach(entry => {
+    const presets = read<FilterPreset[]>(entry)
+    if (presets) contents.filterPresets = presets
+  })
+  entriesOf('scenarios').forEach(entry => {
+    const scenarios = read<WorkspaceContents['scenarios']>(entry)
+    if (scenarios) contents.scenarios = scenarios
+  })
+  entriesOf('settings').forEach(entry => {
+    const settings = read<WorkspaceContents['settings']>(entry)
+    if (settings) contents.settings = settings
+  })
+
+  Object.entries(invalid).forEach(([section, reason]) =>
+    console.warn(`[Workspace Bundle] 分区「${section}」内容无效: ${reason}`)
+  )
+
+  return {
+    manifest,
+    contents,
+    corruptSections: Array.from(corrupt),
+    invalidSections: invalid,
+  }
+}
+
+// ============= 冲突处理 =============
+
+/**
+ * 冲突处理方式：覆盖本机 / 两者都保留（导入项重命名）/ 保留本机
+ */
+export type ConflictStrategy = 'replace' | 'keep-both' | 'skip'
+
+export const CONFLICT_STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  replace: '覆盖本机',
+  'keep-both': '两者都保留',
+  skip: '保留本机',
+}
+
+/**
+ * 各分区中与本机冲突的项目名称
+ */
+export type BundleConflicts = Record<BundleSection, string[]>
+
+const IMPORTED_SUFFIX = '（导入）'
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * 找出导入内容与本机内容的冲突：
+ * 数据集按 id 或名称、预设与预测方案按名称、保费目标与设置按内容是否不同判断
+ */
+export function detectBundleConflicts(
+  incoming: Partial<WorkspaceContents>,
+  local: WorkspaceContents
+): BundleConflicts {
+  const localDatasetIds = new Set(local.datasets.map(d => d.meta.id))
+  const localDatasetNames = new Set(local.datasets.map(d => d.meta.name))
+  const localPresetNames = new Set(local.filterPresets.map(p => p.name))
+  const localScenarioNames = new Set(local.scenarios.scenarios.map(s => s.name))
+
+  return {
+    datasets: (incoming.datasets ?? [])
+      .filter(
+        ({ meta }) =>
+          localDatasetIds.has(meta.id) || localDatasetNames.has(meta.name)
+      )
+      .map(({ meta }) => meta.name),
+    targets:
+      incoming.targets &&
+      local.targets?.updatedAt &&
+      !isSameValue(incoming.targets, local.targets)
+        ? [`${local.targets.year} 年目标`]
+        : [],
+    filterPresets: (incoming.filterPresets ?? [])
+      .filter(preset => localPresetNames.has(preset.name))
+      .map(preset => preset.name),
+    scenarios: (incoming.scenarios?.scenarios ?? [])
+      .filter(scenario => localScenarioNames.has(scenario.name))
+      .map(scenario => scenario.name),
+    settings: (Object.keys(incoming.settings ?? {}) as BundleSettingName[])
+      .filter(
+        name =>
+          local.settings[name] !== undefined &&
+          !isSameValue(incoming.settings?.[name], local.settings[name])
+      )
+      .map(name => BUNDLE_SETTING_LABELS[name]),
+  }
+}
+
+/**
+ * 合并按名称区分的列表（筛选预设、预测方案）
+ */
+export function mergeNamedItems<T extends { id: string; name: string }>(
+  local: T[],
+  incoming: T[],
+  strategy: ConflictStrategy,
+  createId: () => string
+): T[] {
+  const result = [...local]
+  incoming.forEach(item => {
+    const index = result.findIndex(existing => existing.name === item.name)
+    if (index === -1) {
+      // 不同机器上 id 可能重复，名称不同时以新 id 并入
+      const idTaken = result.some(existing => existing.id === item.id)
+      result.push(idTaken ? { ...item, id: createId() } : item)
+    } else if (strategy === 'replace') {
+      result[index] = { ...item, id: result[index].id }
+    } else if (strategy === 'keep-both') {
+      result.push({
+        ...item,
+        id: createId(),
+        name: `${item.name}${IMPORTED_SUFFIX}`,
+      })
+    }
+  })
+  return result
+}
+
+/**
+ * 按冲突处理方式实际并入的项目数（保留本机时同名项目不计）
+ */
+export function countImportedItems(
+  local: Array<{ name: string }>,
+  incoming: Array<{ name: string }>,
+  strategy: ConflictStrategy
+): number {
+  const localNames = new Set(local.map(item => item.name))
+  return incoming.filter(
+    item => strategy !== 'skip' || !localNames.has(item.name)
+  ).length
+}
+
+/**
+ * 确定需要写入的数据集：
+ * 覆盖时沿用本机冲突数据集的 id，两者都保留时以新 id 和「（导入）」后缀写入
+ */
+export function resolveDatasetImports(
+  local: DatasetMeta[],
+  incoming: WorkspaceContents['datasets'],
+  strategy: ConflictStrategy
+): WorkspaceContents['datasets'] {
+  const resolved: WorkspaceContents['datasets'] = []
+  incoming.forEach(dataset => {
+    const conflict = local.find(
+      meta => meta.id === dataset.meta.id || meta.name === dataset.meta.name
+    )
+    if (!conflict) {
+      resolved.push(dataset)
+    } else if (strategy === 'replace') {
+      resolved.push({
+        ...dataset,
+        meta: { ...dataset.meta, id: conflict.id },
+      })
+    } else if (strategy === 'keep-both') {
+      resolved.push({
+        ...dataset,
+        meta: {
+          ...dataset.meta,
+          id: createDatasetId(),
+          name: `${dataset.meta.name}${IMPORTED_SUFFIX}`,
+        },
+      })
+    }
+  })
+  return resolved
+}
+
+/**
+ * 下载工作区文件
+ */
+export function downloadWorkspaceBundle(bytes: Uint8Array): void {
+  const blob = new Blob([bytes as BlobPart], { type: 'application/zip' })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+  link.setAttribute('href', url)
+  link.setAttribute(
+    'download',
+    `车险分析工作区_${date}${WORKSPACE_BUNDLE_EXTENSION}`
+  )
+  link.style.visibility = 'hidden'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  setTimeout(() => URL.revokeObjectURL(url), 100)
+  console.log(`[Workspace Bundle] 已下载工作区文件 (${bytes.byteLength} bytes)`)
+}
@@ -0,0 +1,97 @@
+/**
+ * 剪贴板表格解析
+ * 从 Excel / WPS 复制的单元格区域以制表符分隔、首行为表头，
+ * 解析后经列映射进入与文件导入相同的字段转换 → 结构校验 → 业务规则管线
+ */
+
+import Papa from 'papaparse'
+import { validateRawRows, type CSVParseResult } from './csv-parser'
+import {
+  applyColumnMapping,
+  findMatchingProfile,
+  markMappingProfileUsed,
+  needsColumnMapping,
+  suggestColumnMapping,
+  suggestionsToMapping,
+  type ColumnMapping,
+} from './column-mapping'
+
+/**
+ * 粘贴内容解析出的表格
+ */
+export interface PastedTable {
+  headers: string[]
+  rows: Array<Record<string, string>>
+  text: string // 原始粘贴内容，用于列映射向导预览
+}
+
+/**
+ * 粘贴导入的行数上限（更大的数据请使用文件导入）
+ */
+export const MAX_PASTED_ROWS = 50000
+
+/**
+ * 解析粘贴的制表符分隔文本
+ * 单元格内含换行时 Excel 会加引号，由 Papa Parse 按引号规则还原
+ */
+export function parsePastedTable(text: string): PastedTable {
+  const result = Papa.parse<Record<string, string>>(text.trim(), {
+    delimiter: '\t',
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim(),
+  })
+
+  const headers = (result.meta.fields ?? []).filter(Boolean)
+  if (headers.length < 2) {
+    throw new Error('未识别到表格，请在 Excel 中选中含表头的单元格区域后复制')
+  }
+  if (result.data.length === 0) {
+    throw new Error('粘贴内容只有表头，没有数据行')
+  }
+  if (result.data.length > MAX_PASTED_ROWS) {
+    throw new Error(
+      `粘贴内容共 ${result.data.length} 行，超过 ${MAX_PASTED_ROWS} 行上限，请改用文件导入`
+    )
+  }
+
+  console.log(
+    `[Clipboard Parser] 解析粘贴内容: ${headers.length} 列, ${result.data.length} 行`
+  )
+  return { headers, rows: result.data, text }
+}
+
+/**
+ * 粘贴表格的初始列映射
+ * 表头已是标准字段时无需映射；否则优先套用匹配的映射方案，再退回自动推荐
+ */
+export function suggestPastedMapping(headers: string[]): ColumnMapping {
+  if (!needsColumnMapping(headers)) return {}
+
+  const profile = findMatchingProfile(headers)
+  if (profile) {
+    markMappingProfileUsed(profile.id)
+    return { ...profile.mapping }
+  }
+  return suggestionsToMapping(suggestColumnMapping(headers))
+}
+
+/**
+ * 将粘贴内容包装为文件，供列映射向导预览
+ */
+export function pastedTableToFile(table: PastedTable): File {
+  return new File([table.text], '剪贴板数据.tsv', {
+    type: 'text/tab-separated-values',
+  })
+}
+
+/**
+ * 按列映射校验粘贴的数据行
+ */
+export function validatePastedTable(
+  table: PastedTable,
+  mapping: ColumnMapping
+): CSVParseResult {
+  const sourceRows = table.rows.map(row => applyColumnMapping(row, mapping))
+  return validateRawRows(sourceRows)
+}
@@ -0,0 +1,445 @@
+/**
+ * 列映射工具
+ * 根据源文件表头自动推荐「标准字段 ← 源列」映射（精确 / 别名 / 模糊匹配），
+ * 并支持保存命名的映射方案，同一来源的文件下次可自动套用
+ */
+
+import { z } from 'zod'
+import { fuzzyMatch } from './fuzzy-matcher'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import {
+  defineSlice,
+  loadSlice,
+  saveSlice,
+} from '@/lib/storage/versioned-storage'
+
+// 必需字段列表（26个）- 按实际CSV文件字段顺序排列
+export const REQUIRED_FIELDS = [
+  'snapshot_date',
+  'policy_start_year',
+  'business_type_category',
+  'chengdu_branch',
+  'third_level_organization',
+  'customer_category_3',
+  'insurance_type',
+  'is_new_energy_vehicle',
+  'coverage_type',
+  'is_transferred_vehicle',
+  'renewal_status',
+  'vehicle_insurance_grade',
+  'highway_risk_grade',
+  'large_truck_score',
+  'small_truck_score',
+  'terminal_source',
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'policy_count',
+  'claim_case_count',
+  'reported_claim_payment_yuan',
+  'expense_amount_yuan',
+  'commercial_premium_before_discount_yuan',
+  'premium_plan_yuan',
+  'marginal_contribution_amount_yuan',
+  'week_number',
+]
+
+/**
+ * 可推导字段 → 来源字段：来源字段存在时，源文件可以不提供该列
+ * （周序号由快照日期按周历规则推导，见 getWeekNumberForDate）
+ */
+export const DERIVABLE_FIELDS: Record<string, string> = {
+  week_number: 'snapshot_date',
+}
+
+/**
+ * 映射后仍缺失的必需字段（可推导字段在来源字段存在时不计入）
+ */
+export function getMissingFields(availableFields: Set<string>): string[] {
+  return REQUIRED_FIELDS.filter(
+    field =>
+      !availableFields.has(field) &&
+      !(DERIVABLE_FIELDS[field] && availableFields.has(DERIVABLE_FIELDS[field]))
+  )
+}
+
+/**
+ * 字段中文名称（与 CSV导入规范.md 保持一致）
+ */
+export const FIELD_LABELS: Record<string, string> = {
+  snapshot_date: '快照日期',
+  policy_start_year: '保单年度',
+  business_type_category: '业务类型',
+  chengdu_branch: '地域属性',
+  third_level_organization: '三级机构',
+  customer_category_3: '客户类型',
+  insurance_type: '保险类型',
+  is_new_energy_vehicle: '是否新能源',
+  coverage_type: '险别组合',
+  is_transferred_vehicle: '是否过户车',
+  renewal_status: '新续转状态',
+  vehicle_insurance_grade: '车险评级',
+  highway_risk_grade: '高速风险等级',
+  large_truck_score: '大货车评分',
+  small_truck_score: '小货车评分',
+  terminal_source: '终端来源',
+  signed_premium_yuan: '签单保费',
+  matured_premium_yuan: '满期保费',
+  policy_count: '保单件数',
+  claim_case_count: '赔案件数',
+  reported_claim_payment_yuan: '已报告赔款',
+  expense_amount_yuan: '费用金额',
+  commercial_premium_before_discount_yuan: '商业险折前保费',
+  premium_plan_yuan: '保费计划',
+  marginal_contribution_amount_yuan: '边际贡献额',
+  week_number: '周序号',
+}
+
+/**
+ * 核心系统导出中常见的表头别名（中文名称本身也作为别名）
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  snapshot_date: ['数据日期', '统计日期', '截止日期', '快照日'],
+  policy_start_year: ['保单起期年度', '起保年度', '年度'],
+  business_type_category: ['业务类型分类', '业务分类'],
+  chengdu_branch: ['成都中支', '地域', '区域'],
+  third_level_organization: ['三级机构名称', '机构', '机构名称'],
+  customer_category_3: ['客户类别', '客户三级分类', '客户分类'],
+  insurance_type: ['险种', '险类'],
+  is_new_energy_vehicle: ['新能源', '是否新能源车', '新能源标识'],
+  coverage_type: ['险别', '险别类型'],
+  is_transferred_vehicle: ['过户车', '是否过户', '过户标识'],
+  renewal_status: ['新续转', '续保状态', '新转续'],
+  vehicle_insurance_grade: ['车险分等级', '车险等级'],
+  highway_risk_grade: ['高速风险评级', '高速等级'],
+  large_truck_score: ['大货车评级', '大货车分'],
+  small_truck_score: ['小货车评级', '小货车分'],
+  terminal_source: ['终端', '出单终端', '渠道终端'],
+  signed_premium_yuan: ['签单保费(元)', '保费', '签单保费元'],
+  matured_premium_yuan: ['满期保费(元)', '已赚保费'],
+  policy_count: ['件数', '保单数', '签单件数'],
+  claim_case_count: ['案件数', '赔案数', '出险件数'],
+  reported_claim_payment_yuan: ['已报告赔款(元)', '赔款', '已决未决赔款'],
+  expense_amount_yuan: ['费用金额(元)', '费用', '手续费'],
+  commercial_premium_before_discount_yuan: ['折前保费', '商业险折前保费(元)'],
+  premium_plan_yuan: ['保费计划(元)', '计划保费', '保费目标'],
+  marginal_contribution_amount_yuan: ['边际贡献额(元)', '边际贡献', '边贡额'],
+  week_number: ['周次', '周数', '第几周'],
+}
+
+/**
+ * 列映射：标准字段 → 源文件表头
+ */
+export type ColumnMapping = Record<string, string>
+
+/**
+ * 单个字段的映射建议
+ */
+export interface ColumnMappingSuggestion {
+  field: string
+  sourceHeader: string | null
+  score: number // 0-1
+  method: 'exact' | 'alias' | 'fuzzy' | 'profile' | 'none'
+}
+
+/**
+ * 已保存的映射方案
+ */
+export interface ColumnMappingProfile {
+  id: string
+  name: string
+  mapping: ColumnMapping
+  sourceHeaders: string[] // 保存方案时的源表头，用于匹配同来源文件
+  createdAt: string
+  lastUsedAt?: string
+  useCount: number
+}
+
+/**
+ * 表头规范化：忽略大小写、空白、下划线、连字符和括号
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_\-()（）]/g, '')
+}
+
+const NORMALIZED_ALIAS_INDEX: Map<string, string> = (() => {
+  const index = new Map<string, string>()
+  Object.entries(FIELD_LABELS).forEach(([field, label]) => {
+    index.set(normalizeHeader(field), field)
+    index.set(normalizeHeader(label), field)
+  })
+  Object.entries(FIELD_ALIASES).forEach(([field, aliases]) => {
+    aliases.forEach(alias => {
+      const key = normalizeHeader(alias)
+      if (!index.has(key)) index.set(key, field)
+    })
+  })
+  return index
+})()
+
+/**
+ * 通过精确名称或别名识别表头对应的标准字段
+ */
+export function resolveHeaderField(header: string): string | null {
+  if (!header) return null
+  if (REQUIRED_FIELDS.includes(header)) return header
+  return NORMALIZED_ALIAS_INDEX.get(normalizeHeader(header)) ?? null
+}
+
+/**
+ * 表头是否缺少标准字段（需要列映射）
+ */
+export function needsColumnMapping(headers: string[]): boolean {
+  return getMissingFields(new Set(headers)).length > 0
+}
+
+/**
+ * 自动推荐列映射
+ * 依次使用精确匹配、别名匹配、模糊匹配；每个源列最多映射一个字段
+ */
+export function suggestColumnMapping(
+  headers: string[]
+): ColumnMappingSuggestion[] {
+  const assigned = new Map<string, ColumnMappingSuggestion>()
+  const usedHeaders = new Set<string>()
+
+  // 1. 精确匹配
+  REQUIRED_FIELDS.forEach(field => {
+    if (headers.includes(field)) {
+      assigned.set(field, {
+        field,
+        sourceHeader: field,
+        score: 1,
+        method: 'exact',
+      })
+      usedHeaders.add(field)
+    }
+  })
+
+  // 2. 别名匹配
+  headers.forEach(header => {
+    if (usedHeaders.has(header)) return
+    const field = resolveHeaderField(header)
+    if (field && !assigned.has(field)) {
+      assigned.set(field, {
+        field,
+        sourceHeader: header,
+        score: 0.95,
+        method: 'alias',
+      })
+      usedHeaders.add(header)
+    }
+  })
+
+  // 3. 模糊匹配：按相似度从高到低贪心分配
+  const candidates: Array<{ field: string; header: string; score: number }> = []
+  REQUIRED_FIELDS.forEach(field => {
+    if (assigned.has(field)) return
+    const names = [field, FIELD_LABELS[field], ...(FIELD_ALIASES[field] ?? [])]
+    headers.forEach(header => {
+      if (usedHeaders.has(header)) return
+      const match = fuzzyMatch(
+        normalizeHeader(header),
+        names.map(normalizeHeader)
+      )
+      if (match) {
+        candidates.push({ field, header, score: match.score })
+      }
+    })
+  })
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header, score }) => {
+      if (assigned.has(field) || usedHeaders.has(header)) return
+      assigned.set(field, {
+        field,
+        sourceHeader: header,
+        score,
+        method: 'fuzzy',
+      })
+      usedHeaders.add(header)
+    })
+
+  return REQUIRED_FIELDS.map(
+    field =>
+      assigned.get(field) ?? {
+        field,
+        sourceHeader: null,
+        score: 0,
+        method: 'none',
+      }
+  )
+}
+
+/**
+ * 将建议列表转换为列映射
+ */
+export function suggestionsToMapping(
+  suggestions: ColumnMappingSuggestion[]
+): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  suggestions.forEach(suggestion => {
+    if (suggestion.sourceHeader) {
+      mapping[suggestion.field] = suggestion.sourceHeader
+    }
+  })
+  return mapping
+}
+
+/**
+ * 映射后可用的标准字段集合
+ */
+export function getMappedFields(
+  headers: string[],
+  mapping: ColumnMapping = {}
+): Set<string> {
+  const fields = new Set(headers)
+  Object.entries(mapping).forEach(([field, source]) => {
+    if (headers.includes(source)) fields.add(field)
+  })
+  return fields
+}
+
+/**
+ * 按列映射重命名行数据的键
+ */
+export function applyColumnMapping(
+  row: Record<string, unknown>,
+  mapping: ColumnMapping = {}
+): Record<string, unknown> {
+  const entries = Object.entries(mapping)
+  if (entries.length === 0) return row
+
+  const mapped: Record<string, unknown> = { ...row }
+  entries.forEach(([field, source]) => {
+    mapped[field] = row[source]
+  })
+  return mapped
+}
+
+// ============= 映射方案持久化 =============
+
+const ColumnMappingProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mapping: z.record(z.string(), z.string()),
+  sourceHeaders: z.array(z.string()),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+  useCount: z.number().int().nonnegative(),
+})
+
+/**
+ * 映射方案持久化切片
+ * v1：为旧方案补齐使用次数
+ */
+export const mappingProfilesSlice = defineSlice<ColumnMappingProfile[]>({
+  id: 'columnMappingProfiles',
+  label: '列映射方案',
+  key: StorageKeys.COLUMN_MAPPING_PROFILES,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: {
+    1: value =>
+      (value as Array<Partial<ColumnMappingProfile>>).map(profile => ({
+        ...profile,
+        useCount: profile.useCount ?? 0,
+      })),
+  },
+  schema: z.array(ColumnMappingProfileSchema),
+  fallback: () => [],
+})
+
+/**
+ * 读取已保存的映射方案
+ */
+export function loadMappingProfiles(): ColumnMappingProfile[] {
+  return loadSlice(mappingProfilesSlice)
+}
+
+function saveMappingProfiles(profiles: ColumnMappingProfile[]): void {
+  const result = saveSlice(mappingProfilesSlice, profiles)
+  if (!result.success) {
+    console.warn(`[Column Mapping] 映射方案保存失败: ${result.error}`)
+  }
+}
+
+/**
+ * 保存映射方案（同名方案将被覆盖）
+ */
+export function saveMappingProfile(
+  name: string,
+  sourceHeaders: string[],
+  mapping: ColumnMapping
+): ColumnMappingProfile {
+  const profiles = loadMappingProfiles()
+  const existing = profiles.find(p => p.name === name)
+
+  const profile: ColumnMappingProfile = {
+    id:
+      existing?.id ??
+      `mapping_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    mapping: { ...mapping },
+    sourceHeaders: [...sourceHeaders],
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    lastUsedAt: existing?.lastUsedAt,
+    useCount: existing?.useCount ?? 0,
+  }
+
+  saveMappingProfiles([...profiles.filter(p => p.id !== profile.id), profile])
+  return profile
+}
+
+/**
+ * 删除映射方案
+ */
+export function deleteMappingProfile(id: string): void {
+  saveMappingProfiles(loadMappingProfiles().filter(p => p.id !== id))
+}
+
+/**
+ * 记录方案使用
+ */
+export function markMappingProfileUsed(id: string): void {
+  saveMappingProfiles(
+    loadMappingProfiles().map(p =>
+      p.id === id
+        ? {
+            ...p,
+            lastUsedAt: new Date().toISOString(),
+            useCount: p.useCount + 1,
+          }
+        : p
+    )
+  )
+}
+
+/**
+ * 查找可直接套用于当前表头的映射方案
+ * 要求方案映射后覆盖全部必需字段，多个方案可用时选择与保存时表头重合度最高的
+ */
+export function findMatchingProfile(
+  headers: string[]
+): ColumnMappingProfile | null {
+  const headerSet = new Set(headers)
+  let best: ColumnMappingProfile | null = null
+  let bestOverlap = -1
+
+  for (const profile of loadMappingProfiles()) {
+    const fields = getMappedFields(headers, profile.mapping)
+    if (getMissingFields(fields).length > 0) continue
+
+    const overlap =
+      profile.sourceHeaders.filter(h => headerSet.has(h)).length /
+      Math.max(profile.sourceHeaders.length, headers.length, 1)
+    if (overlap > bestOverlap) {
+      best = profile
+      bestOverlap = overlap
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,498 @@
+/**
+ * 列式文件解析器（Apache Parquet / Arrow IPC）
+ * 数仓导出的大体量数据在解析 Worker 中按行组（Parquet）或记录批（Arrow）逐批读取，
+ * 每批独立完成列映射与字段转换 → Zod 验证 → 业务规则后即交出有效记录，
+ * 只保留被拒绝行的原始值；校验管线与 CSV 完全一致
+ */
+
+import {
+  parquetMetadataAsync,
+  parquetReadObjects,
+  parquetSchema,
+  type AsyncBuffer,
+  type CompressionCodec,
+  type Compressors,
+  type FileMetaData,
+} from 'hyparquet'
+import { RecordBatchReader } from 'apache-arrow'
+import { gunzipSync } from 'fflate'
+import type { InsuranceRecord } from '@/types/insurance'
+import {
+  transformCSVRow,
+  finalizeParsedRows,
+  type CSVParseOptions,
+  type CSVParseResult,
+  type CSVPipelineOptions,
+  type DataFilePreview,
+  type ProgressCallback,
+} from './csv-parser'
+import {
+  REQUIRED_FIELDS,
+  applyColumnMapping,
+  getMappedFields,
+  getMissingFields,
+} from './column-mapping'
+import {
+  PARSE_CANCELLED_MESSAGE,
+  isCSVWorkerSupported,
+  parseCSVInWorker,
+} from './csv-worker-client'
+import {
+  collectCorrections,
+  getEnumAliasMappings,
+  type EnumCorrection,
+} from './enum-aliases'
+import { formatDateParts, normalizeDateText } from './excel-parser'
+import { loadBusinessRules } from '../validations/business-rules'
+import {
+  mergeWeekCalendarReports,
+  type WeekCalendarReport,
+} from '../validations/week-calendar'
+
+export const PARQUET_EXTENSIONS = ['.parquet']
+export const ARROW_EXTENSIONS = ['.arrow', '.feather', '.ipc']
+export const COLUMNAR_EXTENSIONS = [...PARQUET_EXTENSIONS, ...ARROW_EXTENSIONS]
+
+const DATE_FIELDS = new Set(['snapshot_date'])
+
+/**
+ * Parquet 页解压器：hyparquet 内置 UNCOMPRESSED / SNAPPY，GZIP 由 fflate 解压
+ */
+const PARQUET_COMPRESSORS: Compressors = {
+  GZIP: input => gunzipSync(input),
+}
+const SUPPORTED_PARQUET_CODECS = new Set<CompressionCodec>([
+  'UNCOMPRESSED',
+  'SNAPPY',
+  ...(Object.keys(PARQUET_COMPRESSORS) as CompressionCodec[]),
+])
+
+/**
+ * 列式解析管线选项
+ * onRecords 存在时每批的有效记录校验后立即交出，不在结果中累积（Worker 中逐批传回主线程）
+ */
+export interface ColumnarPipelineOptions extends CSVPipelineOptions {
+  onRecords?: (records: InsuranceRecord[]) => void
+}
+
+/**
+ * 一批已读取的行（Parquet 行组 / Arrow 记录批）
+ * @param rows 以源列名为键的行数据
+ * @param progress 已读取比例（0 ~ 1）
+ * @param totalRows 文件总行数（Arrow 流式读取时未知）
+ */
+type BatchCallback = (
+  rows: Record<string, unknown>[],
+  progress: number,
+  totalRows?: number
+) => void
+
+function getExtension(file: File): string {
+  return '.' + (file.name.split('.').pop()?.toLowerCase() ?? '')
+}
+
+/**
+ * 判断是否为列式数据文件
+ */
+export function isColumnarFile(file: File): boolean {
+  return COLUMNAR_EXTENSIONS.includes(getExtension(file))
+}
+
+function isParquetFile(file: File): boolean {
+  return PARQUET_EXTENSIONS.includes(getExtension(file))
+}
+
+/**
+ * 按需读取文件片段，避免整体加载大文件
+ */
+function fileToAsyncBuffer(file: File): AsyncBuffer {
+  return {
+    byteLength: file.size,
+    slice: (start, end) => file.slice(start, end).arrayBuffer(),
+  }
+}
+
+function formatUTCDate(date: Date): string {
+  return formatDateParts(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate()
+  )
+}
+
+/**
+ * 列式类型 → transformCSVRow 可处理的值
+ * - INT64 / BIGINT（bigint）转为 number
+ * - DATE / TIMESTAMP（Date 对象或 Arrow 的毫秒时间戳）按 UTC 日期转为 YYYY-MM-DD
+ * - 文本日期统一为 YYYY-MM-DD；null 原样保留（可选字段保持为空）
+ */
+function normalizeColumnarValue(value: unknown, field: string): unknown {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'bigint') return Number(value)
+
+  const isDateField = DATE_FIELDS.has(field)
+  if (value instanceof Date) {
+    return isDateField ? formatUTCDate(value) : value.toISOString()
+  }
+  if (isDateField && typeof value === 'number') {
+    return formatUTCDate(new Date(value))
+  }
+  if (isDateField && typeof value === 'string') {
+    return normalizeDateText(value.trim())
+  }
+  return value
+}
+
+/**
+ * 检查列是否齐全，并返回需要读取的源列：
+ * 标准字段列及列映射引用的列（其余列不解码）
+ */
+function resolveSourceColumns(
+  columns: string[],
+  options: CSVParseOptions,
+  format: string
+): string[] {
+  const columnMapping = options.columnMapping ?? {}
+  const missing = getMissingFields(getMappedFields(columns, columnMapping))
+  if (missing.length > 0) {
+    throw new Error(
+      `${format} 文件缺失必需字段 (${missing.length}个): ${missing.join(', ')}\n\n请通过列映射指定对应列。\n参考文档: CSV导入规范.md`
+    )
+  }
+
+  const mappedSources = new Set(Object.values(columnMapping))
+  return columns.filter(
+    column => REQUIRED_FIELDS.includes(column) || mappedSources.has(column)
+  )
+}
+
+/**
+ * 检查列块的压缩格式，避免读到一半才因无法解压的页失败
+ */
+function assertSupportedParquetCodecs(metadata: FileMetaData): void {
+  const unsupported = new Set<CompressionCodec>()
+  metadata.row_groups.forEach(rowGroup => {
+    rowGroup.columns.forEach(column => {
+      const codec = column.meta_data?.codec
+      if (codec && !SUPPORTED_PARQUET_CODECS.has(codec)) {
+        unsupported.add(codec)
+      }
+    })
+  })
+  if (unsupported.size > 0) {
+    throw new Error(
+      `Parquet 文件使用了暂不支持的压缩格式: ${Array.from(unsupported).join(', ')}\n\n请导出时改用 SNAPPY 或 GZIP 压缩，或导出为 CSV / Arrow 文件。`
+    )
+  }
+}
+
+/**
+ * 读取 Parquet 文件的列名与总行数（仅读取文件尾部元数据）
+ */
+async function readParquetSchema(file: File) {
+  const buffer = fileToAsyncBuffer(file)
+  const metadata = await parquetMetadataAsync(buffer)
+  assertSupportedParquetCodecs(metadata)
+  return {
+    buffer,
+    metadata,
+    columns: parquetSchema(metadata).children.map(child => child.element.name),
+  }
+}
+
+/**
+ * 逐个行组读取 Parquet 文件
+ */
+async function readParquetRowGroups(
+  file: File,
+  options: CSVParseOptions,
+  onBatch: BatchCallback
+): Promise<void> {
+  const { buffer, metadata, columns } = await readParquetSchema(file)
+  const sourceColumns = resolveSourceColumns(columns, options, 'Parquet')
+  const totalRows = Number(metadata.num_rows)
+  console.log(
+    `[Columnar Parser] Parquet 共 ${metadata.row_groups.length} 个行组，${totalRows} 行`
+  )
+
+  let rowStart = 0
+  for (const rowGroup of metadata.row_groups) {
+    if (options.signal?.aborted) {
+      throw new Error(PARSE_CANCELLED_MESSAGE)
+    }
+    const rowEnd = rowStart + Number(rowGroup.num_rows)
+    const rows = await parquetReadObjects({
+      file: buffer,
+      metadata,
+      columns: sourceColumns,
+      rowStart,
+      rowEnd,
+      compressors: PARQUET_COMPRESSORS,
+    })
+    rowStart = rowEnd
+    onBatch(rows, totalRows > 0 ? rowEnd / totalRows : 1, totalRows)
+  }
+}
+
+/**
+ * 逐个记录批读取 Arrow IPC 文件（流式读取，进度按已读字节估算）
+ */
+async function readArrowBatches(
+  file: File,
+  options: CSVParseOptions,
+  onBatch: BatchCallback
+): Promise<void> {
+  let bytesRead = 0
+  const stream = file.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength
+        controller.enqueue(chunk)
+      },
+    })
+  )
+
+  const reader = await RecordBatchReader.from(stream)
+  await reader.open()
+  const columns = reader.schema.fields.map(field => field.name)
+  const sourceColumns = resolveSourceColumns(columns, options, 'Arrow')
+
+  let result = await reader.next()
+  while (!result.done) {
+    if (options.signal?.aborted) {
+      await reader.cancel()
+      throw new Error(PARSE_CANCELLED_MESSAGE)
+    }
+    const batch = result.value
+    const rows: Record<string, unknown>[] = []
+    for (let i = 0; i < batch.numRows; i++) {
+      const row: Record<string, unknown> = {}
+      sourceColumns.forEach(column => {
+        row[column] = batch.getChild(column)?.get(i)
+      })
+      rows.push(row)
+    }
+    onBatch(rows, file.size > 0 ? bytesRead / file.size : 1)
+    result = await reader.next()
+  }
+}
+
+function readBatches(
+  file: File,
+  options: CSVParseOptions,
+  onBatch: BatchCallback
+): Promise<void> {
+  return isParquetFile(file)
+    ? readParquetRowGroups(file, options, onBatch)
+    : readArrowBatches(file, options, onBatch)
+}
+
+/**
+ * 预览列式文件的列名与前若干行（列映射向导使用）
+ */
+export async function previewColumnarFile(
+  file: File,
+  maxRows = 5
+): Promise<DataFilePreview> {
+  if (isParquetFile(file)) {
+    const { buffer, metadata, columns } = await readParquetSchema(file)
+    const rows = await parquetReadObjects({
+      file: buffer,
+      metadata,
+      rowStart: 0,
+      rowEnd: Math.min(maxRows, Number(metadata.num_rows)),
+      compressors: PARQUET_COMPRESSORS,
+    })
+    return { headers: columns, rows, encoding: 'Parquet' }
+  }
+
+  const reader = await RecordBatchReader.from(file.stream())
+  await reader.open()
+  const headers = reader.schema.fields.map(field => field.name)
+  const first = await reader.next()
+  await reader.cancel()
+
+  const rows: Array<Record<string, unknown>> = []
+  if (!first.done) {
+    const batch = first.value
+    for (let i = 0; i < Math.min(maxRows, batch.numRows); i++) {
+      const row: Record<string, unknown> = {}
+      headers.forEach(header => {
+        row[header] = batch.getChild(header)?.get(i)
+      })
+      rows.push(row)
+    }
+  }
+  return { headers, rows, encoding: 'Arrow' }
+}
+
+/**
+ * 解析 Parquet / Arrow 文件
+ * 支持 Worker 的环境中整条管线在解析 Worker 中执行，有效记录按行组分批传回
+ * @param file .parquet / .arrow / .feather 文件
+ * @param onProgress 进度回调函数（每处理完一个行组 / 记录批上报一次）
+ * @param options 列映射、取消信号等解析选项
+ * @returns 与 parseCSVFile 相同结构的解析结果
+ */
+export async function parseColumnarFile(
+  file: File,
+  onProgress?: ProgressCallback,
+  options: CSVParseOptions = {}
+): Promise<CSVParseResult> {
+  const pipelineOptions: CSVPipelineOptions = {
+    ...options,
+    aliases: getEnumAliasMappings(),
+    businessRules: loadBusinessRules(),
+  }
+
+  if (isCSVWorkerSupported()) {
+    return parseCSVInWorker(file, onProgress, pipelineOptions, 'columnar')
+  }
+  return runColumnarParsePipeline(file, onProgress, pipelineOptions)
+}
+
+/**
+ * 列式解析管线：逐批读取 → 字段转换 → 结构校验 → 业务规则，逐批汇总结果
+ * 主线程与解析 Worker 共用
+ */
+export async function runColumnarParsePipeline(
+  file: File,
+  onProgress: ProgressCallback | undefined,
+  options: ColumnarPipelineOptions
+): Promise<CSVParseResult> {
+  const format = isParquetFile(file) ? 'Parquet' : 'Arrow'
+  console.log(
+    `[Columnar Parser] 开始解析 ${format} 文件: ${file.name}, 大小: ${file.size} bytes`
+  )
+  const startTime = performance.now()
+  const { aliases, businessRules, onRecords } = options
+  const columnMapping = options.columnMapping ?? {}
+  const corrections = new Map<string, EnumCorrection>()
+
+  // 逐批汇总：只保留有效记录（未逐批交出时）、错误与被拒绝的行
+  const data: InsuranceRecord[] = []
+  const errors: CSVParseResult['errors'] = []
+  const rejectedRows: NonNullable<CSVParseResult['rejectedRows']> = []
+  let calendarCheck: WeekCalendarReport = {
+    checkedRows: 0,
+    derivedRows: 0,
+    mismatchedRows: 0,
+    mismatches: [],
+  }
+  let processedRows = 0
+  let validRows = 0
+  let invalidRows = 0
+  let ruleViolations = 0
+
+  const updateProgress = (
+    phase: 'parsing' | 'validating' | 'transforming',
+    percentage: number,
+    totalRows?: number
+  ) => {
+    if (!onProgress) return
+    const elapsed = performance.now() - startTime
+    const estimatedTimeRemaining =
+      percentage > 0 ? Math.max(0, elapsed / (percentage / 100) - elapsed) : 0
+
+    onProgress({
+      percentage: Math.min(percentage, 99),
+      processedRows,
+      currentPhase: phase,
+      estimatedTimeRemaining:
+        estimatedTimeRemaining > 1000 ? estimatedTimeRemaining : undefined,
+      totalRows,
+      errorCount: errors.length,
+    })
+  }
+
+  updateProgress('parsing', 5)
+
+  await readBatches(file, options, (batch, progress, totalRows) => {
+    const rowOffset = processedRows
+    const rows: Record<string, unknown>[] = []
+    const sourceRows: Record<string, unknown>[] = []
+    const transformErrors: Array<{ row: number; errors: string[] }> = []
+
+    batch.forEach(sourceRow => {
+      const mapped = applyColumnMapping(sourceRow, columnMapping)
+      Object.keys(mapped).forEach(field => {
+        mapped[field] = normalizeColumnarValue(mapped[field], field)
+      })
+      const transformed = transformCSVRow(
+        mapped,
+        rowOffset + rows.length,
+        aliases
+      )
+      collectCorrections(corrections, transformed.corrections)
+      rows.push(transformed.data as Record<string, unknown>)
+      sourceRows.push(mapped)
+
+      if (transformed.errors.length > 0) {
+        transformErrors.push({ row: rows.length, errors: transformed.errors })
+      }
+    })
+    processedRows += rows.length
+
+    // 本批的行号从 1 开始，汇总时换算为源文件行号
+    const result = finalizeParsedRows(rows, transformErrors, {
+      startTime,
+      fileSize: file.size,
+      encoding: format,
+      businessRules,
+      sourceRows,
+    })
+    validRows += result.data.length
+    invalidRows += result.stats.invalidRows
+    ruleViolations += result.stats.ruleViolations ?? 0
+    result.errors.forEach(error =>
+      errors.push({ ...error, row: error.row + rowOffset })
+    )
+    result.rejectedRows?.forEach(rejected =>
+      rejectedRows.push({ ...rejected, row: rejected.row + rowOffset })
+    )
+    if (result.calendarCheck) {
+      calendarCheck = mergeWeekCalendarReports(
+        calendarCheck,
+        result.calendarCheck,
+        rowOffset
+      )
+    }
+    if (onRecords) {
+      onRecords(result.data)
+    } else {
+      result.data.forEach(record => data.push(record))
+    }
+
+    updateProgress('parsing', 5 + progress * 90, totalRows)
+  })
+
+  if (processedRows === 0) {
+    throw new Error(`${format} 文件为空或没有有效数据`)
+  }
+
+  updateProgress('transforming', 100, processedRows)
+
+  const parseTime = performance.now() - startTime
+  console.log(
+    `[Columnar Parser] 解析完成，共 ${processedRows} 行，有效 ${validRows} 行，拒绝 ${rejectedRows.length} 行`
+  )
+
+  return {
+    success: validRows > 0,
+    data,
+    errors,
+    stats: {
+      totalRows: processedRows,
+      validRows,
+      invalidRows,
+      parseTime: Math.round(parseTime),
+      fileSize: file.size,
+      processingSpeed: Math.round((processedRows / parseTime) * 1000),
+      encoding: format,
+      ruleViolations,
+    },
+    rejectedRows,
+    corrections: Array.from(corrections.values()),
+    calendarCheck,
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * CSV 解析 Worker
+ * 在 Worker 线程中执行解析 → 字段转换 → 结构校验 → 业务规则，
+ * 进度逐条转发，有效记录分批以 Transferable 传回主线程；
+ * Parquet / Arrow 每校验完一个行组即传回该批记录，Worker 中不累积
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import { runCSVParsePipeline } from './csv-parser'
+import { runColumnarParsePipeline } from './columnar-parser'
+import {
+  CSV_WORKER_BATCH_SIZE,
+  encodeRecordBatch,
+  type CSVWorkerRequest,
+  type CSVWorkerResponse,
+} from './csv-worker-client'
+
+// tsconfig 未包含 webworker 类型，这里只声明用到的成员
+const ctx = self as unknown as {
+  postMessage(message: CSVWorkerResponse, transfer?: Transferable[]): void
+  onmessage: ((event: MessageEvent<CSVWorkerRequest>) => void) | null
+}
+
+const post = (message: CSVWorkerResponse, transfer?: Transferable[]) =>
+  ctx.postMessage(message, transfer)
+
+const postRecords = (records: InsuranceRecord[]) => {
+  for (let i = 0; i < records.length; i += CSV_WORKER_BATCH_SIZE) {
+    const buffer = encodeRecordBatch(
+      records.slice(i, i + CSV_WORKER_BATCH_SIZE)
+    )
+    post({ type: 'batch', buffer }, [buffer])
+  }
+}
+
+ctx.onmessage = async event => {
+  const { pipeline, file, options } = event.data
+  const onProgress = (
+    progress: Extract<CSVWorkerResponse, { type: 'progress' }>['progress']
+  ) => post({ type: 'progress', progress })
+  try {
+    const { data, ...result } =
+      pipeline === 'columnar'
+        ? await runColumnarParsePipeline(file, onProgress, {
+            ...options,
+            onRecords: postRecords,
+          })
+        : await runCSVParsePipeline(file, onProgress, {
+            ...options,
+            papaWorker: false,
+          })
+
+    postRecords(data)
+    post({ type: 'result', result })
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'CSV 解析失败',
+    })
+  }
+}
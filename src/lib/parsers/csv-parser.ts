@@ -11,8 +11,38 @@ import type {
   TruckScore,
 } from '@/types/insurance'
 import { validateRecords } from '../validations/insurance-schema'
+import {
+  evaluateBusinessRules,
+  loadBusinessRules,
+  type BusinessRule,
+} from '../validations/business-rules'
+import {
+  checkWeekCalendar,
+  describeWeekMismatch,
+  type WeekCalendarReport,
+} from '../validations/week-calendar'
 import { fuzzyMatch, ENUM_MAPPINGS } from './fuzzy-matcher'
+import {
+  collectCorrections,
+  getEnumAliasMappings,
+  resolveEnumAlias,
+  type EnumAliasMappings,
+  type EnumCorrection,
+} from './enum-aliases'
+import {
+  isCSVWorkerSupported,
+  parseCSVInWorker,
+  PARSE_CANCELLED_MESSAGE,
+} from './csv-worker-client'
 import { normalizeChineseText } from '@/lib/utils'
+import { getWeekNumberForDate } from '@/lib/utils/date-utils'
+import {
+  REQUIRED_FIELDS,
+  applyColumnMapping,
+  getMappedFields,
+  getMissingFields,
+  type ColumnMapping,
+} from './column-mapping'
 
 type SupportedEncoding = 'utf-8' | 'gb18030' | 'gbk' | 'gb2312'
 const FALLBACK_ENCODINGS: SupportedEncoding[] = ['gb18030', 'gbk', 'gb2312']
@@ -117,6 +147,16 @@ async function normalizeFileEncoding(file: File): Promise<{
   }
 }
 
+/**
+ * 被拒绝的数据行（写入隔离区，修正后可重新导入）
+ */
+export interface RejectedRow {
+  row: number
+  data: Record<string, unknown> // 字段转换后的行数据
+  source?: Record<string, unknown> // 原始值（已按列映射转换为标准字段名）
+  errors: Array<{ field?: string; message: string }>
+}
+
 /**
  * CSV 解析结果
  */
@@ -137,7 +177,33 @@ export interface CSVParseResult {
     fileSize: number
     processingSpeed: number // 行/秒
     encoding: string
+    sheetName?: string // Excel 工作表名称（仅工作簿导入）
+    ruleViolations?: number // 业务规则违规数
   }
+  rejectedRows?: RejectedRow[] // 未通过校验的行
+  corrections?: EnumCorrection[] // 模糊匹配自动纠正的枚举值
+  calendarCheck?: WeekCalendarReport // 周序号与快照日期的周历核对
+}
+
+// 必需字段列表由列映射模块统一维护，这里保持原有导出
+export { REQUIRED_FIELDS }
+
+/**
+ * CSV 解析选项
+ */
+export interface CSVParseOptions {
+  columnMapping?: ColumnMapping // 标准字段 → 源文件表头
+  signal?: AbortSignal // 取消解析
+}
+
+/**
+ * 解析管线选项
+ * Worker 中无法访问 localStorage，别名映射与业务规则由主线程读取后传入
+ */
+export interface CSVPipelineOptions extends CSVParseOptions {
+  aliases: EnumAliasMappings
+  businessRules: BusinessRule[]
+  papaWorker?: boolean // 是否让 Papa Parse 另起 Worker 解析（已在 Worker 中运行时关闭）
 }
 
 /**
@@ -154,28 +220,45 @@ export type ProgressCallback = (progress: {
 
 /**
  * 转换 CSV 行数据为 InsuranceRecord 格式
+ * Excel 等其他格式解析后同样经由此函数进入统一的校验管线
+ * @param aliases 枚举别名映射，批量转换时由调用方读取一次后传入
  */
-function transformCSVRow(
+export function transformCSVRow(
   row: Record<string, unknown>,
-  rowIndex: number
+  rowIndex: number,
+  aliases: EnumAliasMappings = getEnumAliasMappings()
 ): {
   data: Partial<InsuranceRecord>
   errors: string[]
+  corrections: Array<Pick<EnumCorrection, 'field' | 'from' | 'to'>> // 模糊匹配纠错
 } {
   const errors: string[] = []
+  const corrections: Array<Pick<EnumCorrection, 'field' | 'from' | 'to'>> = []
+  const enumContext = { aliases, corrections }
+  const text = (field: string) =>
+    resolveEnumAlias(
+      field,
+      normalizeChineseText(String(row[field] || '').trim()),
+      aliases
+    )
 
   try {
     console.log(`[CSV Parser] 转换第 ${rowIndex + 1} 行:`, row)
 
+    const snapshotDate = String(row.snapshot_date || '').trim()
+    const policyStartYear = parseNumber(
+      row.policy_start_year,
+      'policy_start_year',
+      errors
+    )
+
     const data: Partial<InsuranceRecord> = {
-      // 时间维度 - 添加格式验证
-      snapshot_date: String(row.snapshot_date || '').trim(),
-      policy_start_year: parseNumber(
-        row.policy_start_year,
-        'policy_start_year',
-        errors
-      ),
-      week_number: parseNumber(row.week_number, 'week_number', errors),
+      // 时间维度 - 添加格式验证；周序号缺失时按周历规则由快照日期推导
+      snapshot_date: snapshotDate,
+      policy_start_year: policyStartYear,
+      week_number: isBlankCell(row.week_number)
+        ? deriveWeekNumber(snapshotDate, policyStartYear, errors)
+        : parseNumber(row.week_number, 'week_number', errors),
 
       // 组织维度
       chengdu_branch: parseEnum(
@@ -183,30 +266,26 @@ function transformCSVRow(
         ['成都', '中支'],
         '成都'
       ) as '成都' | '中支',
-      third_level_organization: normalizeChineseText(
-        String(row.third_level_organization || '').trim()
-      ),
+      third_level_organization: text('third_level_organization'),
 
       // 客户维度
-      customer_category_3: normalizeChineseText(
-        String(row.customer_category_3 || '').trim()
-      ),
+      customer_category_3: text('customer_category_3'),
 
       // 产品维度
       insurance_type: parseEnum(
         row.insurance_type,
         ['商业险', '交强险'],
         '商业险',
-        'insurance_type'
+        'insurance_type',
+        enumContext
       ) as '商业险' | '交强险',
-      business_type_category: normalizeChineseText(
-        String(row.business_type_category || '').trim()
-      ),
+      business_type_category: text('business_type_category'),
       coverage_type: parseEnum(
         row.coverage_type,
         ['主全', '交三', '单交'],
         '主全',
-        'coverage_type'
+        'coverage_type',
+        enumContext
       ) as '主全' | '交三' | '单交',
 
       // 业务属性
@@ -214,7 +293,8 @@ function transformCSVRow(
         row.renewal_status,
         ['新保', '续保', '转保'],
         '新保',
-        'renewal_status'
+        'renewal_status',
+        enumContext
       ) as '新保' | '续保' | '转保',
       is_new_energy_vehicle: parseBoolean(
         row.is_new_energy_vehicle,
@@ -254,9 +334,7 @@ function transformCSVRow(
       ]),
 
       // 渠道维度
-      terminal_source: normalizeChineseText(
-        String(row.terminal_source || '').trim()
-      ),
+      terminal_source: text('terminal_source'),
 
       // 业务指标 - 添加范围验证
       signed_premium_yuan: parseNumber(
@@ -317,15 +395,41 @@ function transformCSVRow(
     console.log(
       `[CSV Parser] 第 ${rowIndex + 1} 行转换完成，错误数: ${errors.length}`
     )
-    return { data, errors }
+    return { data, errors, corrections }
   } catch (error) {
     const errorMsg = `行 ${rowIndex + 1}: 数据转换失败 - ${error instanceof Error ? error.message : '未知错误'}`
     console.error(`[CSV Parser] ${errorMsg}`, error)
     errors.push(errorMsg)
-    return { data: {}, errors }
+    return { data: {}, errors, corrections }
   }
 }
 
+function isBlankCell(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '')
+  )
+}
+
+/**
+ * 由快照日期推导周序号（周序号列缺失或为空时）
+ */
+function deriveWeekNumber(
+  snapshotDate: string,
+  policyStartYear: number,
+  errors: string[]
+): number {
+  const weekNumber = getWeekNumberForDate(policyStartYear, snapshotDate)
+  if (weekNumber === null) {
+    errors.push(
+      `week_number: 周序号为空，且无法由快照日期 "${snapshotDate}" 推导`
+    )
+    return 0
+  }
+  return weekNumber
+}
+
 /**
  * 解析数字 - 增强版，支持字符串数字转换
  */
@@ -374,12 +478,17 @@ function parseNumber(
 
 /**
  * 解析枚举值 - 支持值映射转换、模糊匹配和空值处理
+ * @param context 别名映射与纠错收集（模糊匹配纠正的值记入 corrections）
  */
 function parseEnum<T extends string>(
   value: unknown,
   validValues: T[],
   defaultValue: T,
-  enumKey?: string
+  enumKey?: string,
+  context?: {
+    aliases: EnumAliasMappings
+    corrections: Array<Pick<EnumCorrection, 'field' | 'from' | 'to'>>
+  }
 ): T {
   const str = String(value || '').trim()
 
@@ -394,8 +503,8 @@ function parseEnum<T extends string>(
   }
 
   // 2. 检查预定义的映射规则
-  if (enumKey) {
-    const mapping = ENUM_MAPPINGS[enumKey]
+  if (enumKey && context) {
+    const mapping = context.aliases[enumKey]
     if (mapping && mapping[str]) {
       const mapped = mapping[str]
       if (validValues.includes(mapped as T)) {
@@ -410,6 +519,13 @@ function parseEnum<T extends string>(
     console.log(
       `[智能纠错] "${str}" → "${fuzzyResult.value}" (相似度: ${(fuzzyResult.score * 100).toFixed(1)}%)`
     )
+    if (enumKey && context) {
+      context.corrections.push({
+        field: enumKey,
+        from: str,
+        to: fuzzyResult.value,
+      })
+    }
     return fuzzyResult.value
   }
 
@@ -495,16 +611,246 @@ function parseBoolean(
   return false
 }
 
+/**
+ * 拆分 "字段: 错误信息" 形式的错误
+ */
+function splitFieldError(error: string): { field?: string; message: string } {
+  const match = error.match(/^([a-z0-9_]+): (.*)$/)
+  return match ? { field: match[1], message: match[2] } : { message: error }
+}
+
+/**
+ * 解析后处理 - 所有输入格式共用
+ * 对已完成字段转换的行执行 Zod 验证并汇总为统一的解析结果
+ */
+export function finalizeParsedRows(
+  rows: Record<string, unknown>[],
+  transformErrors: Array<{ row: number; errors: string[] }>,
+  meta: {
+    startTime: number
+    fileSize: number
+    encoding: string
+    sheetName?: string
+    businessRules?: BusinessRule[] // 未指定时读取本地保存的规则
+    sourceRows?: Record<string, unknown>[] // 与 rows 一一对应的原始行，用于保留被拒绝行的原始值
+    corrections?: Map<string, EnumCorrection>
+    onProgress?: (
+      phase: 'parsing' | 'validating' | 'transforming',
+      percentage: number
+    ) => void
+  }
+): CSVParseResult {
+  const processedRows = rows.length
+
+  meta.onProgress?.('validating', 85)
+  console.log(`[CSV Parser] 开始 Zod 验证`)
+  const validationResult = validateRecords(rows)
+  console.log(
+    `[CSV Parser] Zod 验证完成，有效记录: ${validationResult.validRecords}, 无效记录: ${validationResult.invalidRecords.length}`
+  )
+
+  // 业务规则校验（仅针对结构校验通过的记录）
+  const invalidIndexes = new Set(
+    validationResult.invalidRecords.map(invalid => invalid.index)
+  )
+  const validRowNumbers: number[] = []
+  for (let i = 0; i < rows.length; i++) {
+    if (!invalidIndexes.has(i)) validRowNumbers.push(i + 1)
+  }
+  const validData = validationResult.validData as InsuranceRecord[]
+  const violations = evaluateBusinessRules(
+    validData,
+    meta.businessRules ?? loadBusinessRules(),
+    validRowNumbers
+  )
+  const ruleRejectedRows = new Set(
+    violations.filter(v => v.severity === 'error').map(v => v.row)
+  )
+  const data =
+    ruleRejectedRows.size > 0
+      ? validData.filter((_, i) => !ruleRejectedRows.has(validRowNumbers[i]))
+      : validData
+  if (violations.length > 0) {
+    console.log(
+      `[CSV Parser] 业务规则校验完成，违规: ${violations.length}，拒绝记录: ${ruleRejectedRows.size}`
+    )
+  }
+
+  // 周历核对（仅针对最终导入的记录，不符时给出警告）
+  const dataRowNumbers =
+    ruleRejectedRows.size > 0
+      ? validRowNumbers.filter(row => !ruleRejectedRows.has(row))
+      : validRowNumbers
+  const calendarCheck = checkWeekCalendar(
+    data,
+    dataRowNumbers,
+    meta.sourceRows?.filter(row => isBlankCell(row.week_number)).length ?? 0
+  )
+
+  meta.onProgress?.('transforming', 95)
+  meta.onProgress?.('transforming', 100)
+
+  const parseTime = performance.now() - meta.startTime
+  const processingSpeed = Math.round((processedRows / parseTime) * 1000)
+
+  const allErrors = [
+    ...transformErrors.map(err => ({
+      row: err.row,
+      message: err.errors.join('; '),
+      severity: 'warning' as const,
+    })),
+    ...validationResult.invalidRecords.map(invalid => ({
+      row: invalid.index + 1,
+      message: invalid.errors.join('; '),
+      severity: 'error' as const,
+    })),
+    ...violations.map(violation => ({
+      row: violation.row,
+      field: violation.field,
+      message: `[${violation.ruleName}] ${violation.message}`,
+      severity: violation.severity,
+    })),
+    ...calendarCheck.mismatches.flatMap(mismatch =>
+      mismatch.rows.map(row => ({
+        row,
+        field: 'week_number',
+        message: `周序号 ${mismatch.week_number} 与快照日期不符：${describeWeekMismatch(mismatch)}`,
+        severity: 'warning' as const,
+      }))
+    ),
+  ]
+
+  // 收集被拒绝的行及其逐字段错误（含同一行的转换警告）
+  const transformErrorsByRow = new Map(
+    transformErrors.map(err => [err.row, err.errors])
+  )
+  const rejectedRows: RejectedRow[] = [
+    ...validationResult.invalidRecords.map(invalid => ({
+      row: invalid.index + 1,
+      errors: invalid.errors,
+    })),
+    ...Array.from(ruleRejectedRows).map(row => ({
+      row,
+      errors: violations
+        .filter(v => v.row === row)
+        .map(v => `${v.field}: [${v.ruleName}] ${v.message}`),
+    })),
+  ]
+    .sort((a, b) => a.row - b.row)
+    .map(({ row, errors }) => ({
+      row,
+      data: rows[row - 1],
+      source: meta.sourceRows?.[row - 1],
+      errors: [...(transformErrorsByRow.get(row) ?? []), ...errors].map(
+        splitFieldError
+      ),
+    }))
+
+  console.log(
+    `[CSV Parser] 解析完成，成功: ${validationResult.validRecords > 0}, 总错误: ${allErrors.length}`
+  )
+
+  return {
+    success: data.length > 0,
+    data,
+    errors: allErrors,
+    stats: {
+      totalRows: processedRows,
+      validRows: data.length,
+      invalidRows:
+        validationResult.invalidRecords.length +
+        transformErrors.length +
+        ruleRejectedRows.size,
+      parseTime: Math.round(parseTime),
+      fileSize: meta.fileSize,
+      processingSpeed,
+      encoding: meta.encoding,
+      sheetName: meta.sheetName,
+      ruleViolations: violations.length,
+    },
+    rejectedRows,
+    corrections: meta.corrections
+      ? Array.from(meta.corrections.values())
+      : undefined,
+    calendarCheck,
+  }
+}
+
+/**
+ * 校验已是标准字段名的原始行（隔离区重新导入、自动修复后复核等场景）
+ * 与文件导入走同一条管线：字段转换 → 结构校验 → 业务规则
+ */
+export function validateRawRows(
+  sourceRows: Record<string, unknown>[],
+  options: { businessRules?: BusinessRule[] } = {}
+): CSVParseResult {
+  const rows: Record<string, unknown>[] = []
+  const transformErrors: Array<{ row: number; errors: string[] }> = []
+  const aliases = getEnumAliasMappings()
+  const corrections = new Map<string, EnumCorrection>()
+  sourceRows.forEach((sourceRow, index) => {
+    const transformed = transformCSVRow(sourceRow, index, aliases)
+    const { data, errors } = transformed
+    collectCorrections(corrections, transformed.corrections)
+    rows.push(data as Record<string, unknown>)
+    if (errors.length > 0) {
+      transformErrors.push({ row: index + 1, errors })
+    }
+  })
+
+  return finalizeParsedRows(rows, transformErrors, {
+    startTime: performance.now(),
+    fileSize: 0,
+    encoding: 'utf-8',
+    businessRules: options.businessRules,
+    sourceRows,
+    corrections,
+  })
+}
+
 /**
  * 解析 CSV 文件 - 优化版
+ * 支持 Worker 的环境中，解析 → 字段转换 → 校验整条管线在专用 Worker 中执行，避免阻塞 UI
  * @param file CSV 文件对象
  * @param onProgress 进度回调函数
+ * @param options 列映射等解析选项
  * @returns 解析结果
  */
 export async function parseCSVFile(
   file: File,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: CSVParseOptions = {}
+): Promise<CSVParseResult> {
+  if (options.signal?.aborted) {
+    throw new Error(PARSE_CANCELLED_MESSAGE)
+  }
+
+  const pipelineOptions: CSVPipelineOptions = {
+    ...options,
+    aliases: getEnumAliasMappings(),
+    businessRules: loadBusinessRules(),
+  }
+
+  if (isCSVWorkerSupported()) {
+    return parseCSVInWorker(file, onProgress, pipelineOptions)
+  }
+  return runCSVParsePipeline(file, onProgress, {
+    ...pipelineOptions,
+    papaWorker: true,
+  })
+}
+
+/**
+ * CSV 解析管线：编码识别 → Papa Parse 流式解析 → 字段转换 → 结构校验 → 业务规则
+ * 主线程与解析 Worker 共用
+ */
+export async function runCSVParsePipeline(
+  file: File,
+  onProgress: ProgressCallback | undefined,
+  options: CSVPipelineOptions
 ): Promise<CSVParseResult> {
+  const columnMapping = options.columnMapping ?? {}
+  const { aliases, signal } = options
   console.log(
     `[CSV Parser] 开始解析文件: ${file.name}, 大小: ${file.size} bytes`
   )
@@ -524,39 +870,11 @@ export async function parseCSVFile(
 
   return new Promise((resolve, reject) => {
     const rows: Record<string, unknown>[] = []
+    const sourceRows: Record<string, unknown>[] = []
     const transformErrors: Array<{ row: number; errors: string[] }> = []
+    const corrections = new Map<string, EnumCorrection>()
     let headersChecked = false
 
-    // 必需字段列表（26个）- 按实际CSV文件字段顺序排列
-    const REQUIRED_FIELDS = [
-      'snapshot_date',
-      'policy_start_year',
-      'business_type_category',
-      'chengdu_branch',
-      'third_level_organization',
-      'customer_category_3',
-      'insurance_type',
-      'is_new_energy_vehicle',
-      'coverage_type',
-      'is_transferred_vehicle',
-      'renewal_status',
-      'vehicle_insurance_grade',
-      'highway_risk_grade',
-      'large_truck_score',
-      'small_truck_score',
-      'terminal_source',
-      'signed_premium_yuan',
-      'matured_premium_yuan',
-      'policy_count',
-      'claim_case_count',
-      'reported_claim_payment_yuan',
-      'expense_amount_yuan',
-      'commercial_premium_before_discount_yuan',
-      'premium_plan_yuan',
-      'marginal_contribution_amount_yuan',
-      'week_number',
-    ]
-
     // 更新进度的辅助函数
     const updateProgress = (
       phase: 'parsing' | 'validating' | 'transforming',
@@ -593,11 +911,17 @@ export async function parseCSVFile(
       header: true,
       dynamicTyping: false,
       skipEmptyLines: true,
-      worker: true,
+      worker: options.papaWorker ?? false,
       // 优化大文件处理：增大块大小以提高性能
       chunkSize: sourceFile.size > 50 * 1024 * 1024 ? 1024 * 256 : 1024 * 64, // 大文件使用更大的块
       chunk: (results, parser) => {
         try {
+          if (signal?.aborted) {
+            parser.abort()
+            reject(new Error(PARSE_CANCELLED_MESSAGE))
+            return
+          }
+
           console.log(
             `[CSV Parser] 处理批次数据，行数: ${results.data?.length || 0}`
           )
@@ -622,9 +946,8 @@ export async function parseCSVFile(
               REQUIRED_FIELDS
             )
 
-            const missing = REQUIRED_FIELDS.filter(
-              f => !(present || []).includes(f)
-            )
+            const mappedFields = getMappedFields(present || [], columnMapping)
+            const missing = getMissingFields(mappedFields)
             if (missing.length > 0) {
               console.error(
                 `[CSV Parser] 缺失必需字段 (${missing.length}个):`,
@@ -633,15 +956,16 @@ export async function parseCSVFile(
               parser.abort()
               reject(
                 new Error(
-                  `CSV 表头缺失必需字段 (${missing.length}个): ${missing.join(', ')}\n\n请确保CSV文件包含所有必需字段。\n参考文档: CSV导入规范.md`
+                  `CSV 表头缺失必需字段 (${missing.length}个): ${missing.join(', ')}\n\n请确保CSV文件包含所有必需字段，或通过列映射指定对应列。\n参考文档: CSV导入规范.md`
                 )
               )
               return
             }
 
             // 检查是否有额外字段
+            const mappedSources = new Set(Object.values(columnMapping))
             const extra = (present || []).filter(
-              f => !REQUIRED_FIELDS.includes(f)
+              f => !REQUIRED_FIELDS.includes(f) && !mappedSources.has(f)
             )
             if (extra.length > 0) {
               console.warn(
@@ -677,9 +1001,17 @@ export async function parseCSVFile(
                 Object.keys(row).length > 0
               ) {
                 const globalIndex = rows.length
-                const { data, errors } = transformCSVRow(row, globalIndex)
+                const mapped = applyColumnMapping(row, columnMapping)
+                const transformed = transformCSVRow(
+                  mapped,
+                  globalIndex,
+                  aliases
+                )
+                const { data, errors } = transformed
+                collectCorrections(corrections, transformed.corrections)
 
                 rows.push(data as Record<string, unknown>)
+                sourceRows.push(mapped)
                 processedRows++
 
                 if (errors.length > 0) {
@@ -733,57 +1065,28 @@ export async function parseCSVFile(
         try {
           console.log(`[CSV Parser] Papa Parse 完成，总行数: ${rows.length}`)
 
+          if (signal?.aborted) {
+            reject(new Error(PARSE_CANCELLED_MESSAGE))
+            return
+          }
+
           if (!rows || rows.length === 0) {
             console.error('[CSV Parser] CSV 文件为空或没有有效数据')
             reject(new Error('CSV 文件为空或没有有效数据'))
             return
           }
 
-          updateProgress('validating', 85)
-          console.log(`[CSV Parser] 开始 Zod 验证`)
-          const validationResult = validateRecords(rows)
-          console.log(
-            `[CSV Parser] Zod 验证完成，有效记录: ${validationResult.validRecords}, 无效记录: ${validationResult.invalidRecords.length}`
-          )
-
-          updateProgress('transforming', 95)
-          updateProgress('transforming', 100)
-
-          const parseTime = performance.now() - startTime
-          const processingSpeed = Math.round((processedRows / parseTime) * 1000)
-
-          const allErrors = [
-            ...transformErrors.map(err => ({
-              row: err.row,
-              message: err.errors.join('; '),
-              severity: 'warning' as const,
-            })),
-            ...validationResult.invalidRecords.map(invalid => ({
-              row: invalid.index + 1,
-              message: invalid.errors.join('; '),
-              severity: 'error' as const,
-            })),
-          ]
-
-          console.log(
-            `[CSV Parser] 解析完成，成功: ${validationResult.validRecords > 0}, 总错误: ${allErrors.length}`
-          )
-
-          resolve({
-            success: validationResult.validRecords > 0,
-            data: validationResult.validData as InsuranceRecord[],
-            errors: allErrors,
-            stats: {
-              totalRows: processedRows,
-              validRows: validationResult.validRecords,
-              invalidRows:
-                validationResult.invalidRecords.length + transformErrors.length,
-              parseTime: Math.round(parseTime),
+          resolve(
+            finalizeParsedRows(rows, transformErrors, {
+              startTime,
               fileSize: sourceFile.size,
-              processingSpeed,
               encoding: encodingLabel,
-            },
-          })
+              businessRules: options.businessRules,
+              sourceRows,
+              corrections,
+              onProgress: updateProgress,
+            })
+          )
         } catch (error) {
           console.error('[CSV Parser] 数据验证失败:', error)
           reject(
@@ -801,6 +1104,39 @@ export async function parseCSVFile(
   })
 }
 
+/**
+ * 文件预览结果（列映射向导使用）
+ */
+export interface DataFilePreview {
+  headers: string[]
+  rows: Array<Record<string, unknown>>
+  encoding: string
+}
+
+/**
+ * 预览 CSV 文件的表头与前若干行（自动识别编码，不做字段转换）
+ */
+export async function previewCSVFile(
+  file: File,
+  maxRows = 5
+): Promise<DataFilePreview> {
+  const { file: sourceFile, encoding } = await normalizeFileEncoding(file)
+  // 仅读取文件开头部分，避免大文件预览时整体加载
+  const text = await sourceFile.slice(0, 512 * 1024).text()
+
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    preview: maxRows,
+  })
+
+  return {
+    headers: result.meta.fields ?? [],
+    rows: result.data,
+    encoding: encoding !== 'utf-8' ? `${encoding}→utf-8` : 'utf-8',
+  }
+}
+
 /**
  * 验证 CSV 文件格式
  */
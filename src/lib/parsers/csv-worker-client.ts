@@ -0,0 +1,134 @@
+/**
+ * CSV 解析 Worker 客户端
+ * 在专用 Worker 中运行完整的解析管线（CSV，以及按行组读取的 Parquet / Arrow），
+ * 主线程只负责转发进度和拼接结果；
+ * 有效记录按批序列化为 ArrayBuffer 以 Transferable 方式传回，避免大数组的结构化克隆
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import type {
+  CSVParseResult,
+  CSVPipelineOptions,
+  ProgressCallback,
+} from './csv-parser'
+
+/**
+ * Worker 中运行的解析管线
+ */
+export type ParsePipeline = 'csv' | 'columnar'
+
+/**
+ * 主线程 → Worker 的消息
+ */
+export interface CSVWorkerRequest {
+  type: 'parse'
+  pipeline: ParsePipeline
+  file: File
+  options: Omit<CSVPipelineOptions, 'signal' | 'papaWorker'>
+}
+
+/**
+ * Worker → 主线程的消息
+ */
+export type CSVWorkerResponse =
+  | { type: 'progress'; progress: Parameters<ProgressCallback>[0] }
+  | { type: 'batch'; buffer: ArrayBuffer } // UTF-8 编码的 InsuranceRecord[] JSON
+  | { type: 'result'; result: Omit<CSVParseResult, 'data'> }
+  | { type: 'error'; message: string }
+
+/**
+ * 取消解析时抛出的错误信息（主线程与 Worker 解析一致）
+ */
+export const PARSE_CANCELLED_MESSAGE = '导入已取消'
+
+/**
+ * 每批传回的记录数
+ */
+export const CSV_WORKER_BATCH_SIZE = 20000
+
+/**
+ * 将一批记录编码为可转移的 ArrayBuffer
+ */
+export function encodeRecordBatch(records: InsuranceRecord[]): ArrayBuffer {
+  return new TextEncoder().encode(JSON.stringify(records)).buffer as ArrayBuffer
+}
+
+function decodeRecordBatch(buffer: ArrayBuffer): InsuranceRecord[] {
+  return JSON.parse(new TextDecoder().decode(buffer)) as InsuranceRecord[]
+}
+
+/**
+ * 当前环境是否可以使用解析 Worker
+ */
+export function isCSVWorkerSupported(): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined'
+}
+
+/**
+ * 在 Worker 中解析数据文件（默认 CSV 管线）
+ * 进度回调语义与主线程解析一致；signal 触发时终止 Worker 并以取消错误结束
+ */
+export function parseCSVInWorker(
+  file: File,
+  onProgress: ProgressCallback | undefined,
+  options: CSVPipelineOptions,
+  pipeline: ParsePipeline = 'csv'
+): Promise<CSVParseResult> {
+  const { signal } = options
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./csv-parse.worker.ts', import.meta.url))
+    const data: InsuranceRecord[][] = []
+
+    const cleanup = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+
+    function handleAbort() {
+      console.log(`[CSV Worker] 已取消解析: ${file.name}`)
+      cleanup()
+      reject(new Error(PARSE_CANCELLED_MESSAGE))
+    }
+
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (event: MessageEvent<CSVWorkerResponse>) => {
+      const message = event.data
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress)
+          break
+        case 'batch':
+          data.push(decodeRecordBatch(message.buffer))
+          break
+        case 'result':
+          cleanup()
+          resolve({ ...message.result, data: data.flat() })
+          break
+        case 'error':
+          cleanup()
+          reject(new Error(message.message))
+          break
+      }
+    }
+
+    worker.onerror = event => {
+      console.error('[CSV Worker] Worker 运行错误:', event.message)
+      cleanup()
+      reject(new Error(`CSV 解析失败: ${event.message || '未知错误'}`))
+    }
+
+    const request: CSVWorkerRequest = {
+      type: 'parse',
+      pipeline,
+      file,
+      options: {
+        columnMapping: options.columnMapping,
+        aliases: options.aliases,
+        businessRules: options.businessRules,
+      },
+    }
+    worker.postMessage(request)
+  })
+}
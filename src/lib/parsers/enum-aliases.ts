@@ -0,0 +1,282 @@
+/**
+ * 枚举别名词典
+ * 在内置映射（ENUM_MAPPINGS）之上，由用户按字段维护 "别名 → 标准值"，保存在本地；
+ * 导入时先按别名转换再做模糊匹配，导入中被采纳的纠错可一键加入词典
+ */
+
+import {
+  CANONICAL_BUSINESS_TYPES,
+  CANONICAL_COVERAGE_TYPES,
+  CANONICAL_CUSTOMER_CATEGORIES,
+  CANONICAL_INSURANCE_TYPES,
+  CANONICAL_RENEWAL_STATUSES,
+  CANONICAL_TERMINAL_SOURCES,
+} from '@/constants/dimensions'
+import { z } from 'zod'
+import { ENUMS } from '@/lib/validations/insurance-schema'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import {
+  defineSlice,
+  loadSlice,
+  saveSlice,
+} from '@/lib/storage/versioned-storage'
+import { ENUM_MAPPINGS } from './fuzzy-matcher'
+
+/**
+ * 支持别名的字段
+ */
+export const ALIAS_FIELDS = [
+  'insurance_type',
+  'coverage_type',
+  'renewal_status',
+  'terminal_source',
+  'business_type_category',
+  'customer_category_3',
+  'third_level_organization',
+] as const
+
+export type EnumAliasField = (typeof ALIAS_FIELDS)[number]
+
+/**
+ * 各字段的标准值（别名只能指向标准值）
+ */
+export const ALIAS_FIELD_VALUES: Record<EnumAliasField, readonly string[]> = {
+  insurance_type: CANONICAL_INSURANCE_TYPES,
+  coverage_type: CANONICAL_COVERAGE_TYPES,
+  renewal_status: CANONICAL_RENEWAL_STATUSES,
+  terminal_source: CANONICAL_TERMINAL_SOURCES,
+  business_type_category: CANONICAL_BUSINESS_TYPES,
+  customer_category_3: CANONICAL_CUSTOMER_CATEGORIES,
+  third_level_organization: ENUMS.thirdLevelOrganizations,
+}
+
+/**
+ * 别名词典：字段 → (别名 → 标准值)
+ */
+export type EnumAliasDictionary = Partial<
+  Record<EnumAliasField, Record<string, string>>
+>
+
+/**
+ * 别名映射（内置映射与用户词典合并后的结果）
+ */
+export type EnumAliasMappings = Record<string, Record<string, string>>
+
+/**
+ * 导入过程中的纠错（原值 → 纠正值）
+ */
+export interface EnumCorrection {
+  field: string
+  from: string
+  to: string
+  count: number
+}
+
+/**
+ * 词典导出文件的格式版本
+ */
+const EXPORT_VERSION = 1
+
+function isAliasField(field: string): field is EnumAliasField {
+  return (ALIAS_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * 过滤非法条目：未知字段、空别名、目标不是标准值、别名与标准值相同
+ */
+export function sanitizeEnumAliases(input: unknown): EnumAliasDictionary {
+  const result: EnumAliasDictionary = {}
+  if (!input || typeof input !== 'object') return result
+
+  Object.entries(input as Record<string, unknown>).forEach(
+    ([field, aliases]) => {
+      if (!isAliasField(field) || !aliases || typeof aliases !== 'object') {
+        return
+      }
+      const entries = Object.entries(aliases as Record<string, unknown>)
+        .map(([alias, target]) => [alias.trim(), String(target ?? '')])
+        .filter(
+          ([alias, target]) =>
+            alias &&
+            alias !== target &&
+            ALIAS_FIELD_VALUES[field].includes(target)
+        )
+      if (entries.length > 0) {
+        result[field] = Object.fromEntries(entries)
+      }
+    }
+  )
+  return result
+}
+
+/**
+ * 别名词典持久化切片
+ * v1：过滤旧词典中的非法条目
+ */
+export const enumAliasesSlice = defineSlice<EnumAliasDictionary>({
+  id: 'enumAliases',
+  label: '枚举别名词典',
+  key: StorageKeys.ENUM_ALIASES,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: { 1: sanitizeEnumAliases },
+  schema: z.record(z.string(), z.record(z.string(), z.string())),
+  fallback: () => ({}),
+})
+
+/**
+ * 读取用户别名词典
+ */
+export function loadEnumAliases(): EnumAliasDictionary {
+  return loadSlice(enumAliasesSlice)
+}
+
+/**
+ * 保存用户别名词典
+ */
+export function saveEnumAliases(aliases: EnumAliasDictionary): {
+  success: boolean
+  error?: string
+} {
+  return saveSlice(enumAliasesSlice, sanitizeEnumAliases(aliases))
+}
+
+/**
+ * 获取导入时使用的别名映射（用户词典优先于内置映射）
+ */
+export function getEnumAliasMappings(
+  aliases: EnumAliasDictionary = loadEnumAliases()
+): EnumAliasMappings {
+  const mappings: EnumAliasMappings = {}
+  new Set([...Object.keys(ENUM_MAPPINGS), ...ALIAS_FIELDS]).forEach(field => {
+    mappings[field] = {
+      ...ENUM_MAPPINGS[field],
+      ...aliases[field as EnumAliasField],
+    }
+  })
+  return mappings
+}
+
+/**
+ * 按别名转换为标准值（无对应别名时原样返回）
+ */
+export function resolveEnumAlias(
+  field: string,
+  value: string,
+  mappings: EnumAliasMappings
+): string {
+  return mappings[field]?.[value] ?? value
+}
+
+/**
+ * 将纠错加入词典
+ * @returns 新增的别名数
+ */
+export function addEnumAliases(
+  corrections: Array<Pick<EnumCorrection, 'field' | 'from' | 'to'>>
+): { success: boolean; error?: string; added: number } {
+  const aliases = loadEnumAliases()
+  let added = 0
+  corrections.forEach(({ field, from, to }) => {
+    if (!isAliasField(field) || !from.trim() || from === to) return
+    const fieldAliases = { ...aliases[field] }
+    if (fieldAliases[from] === to) return
+    fieldAliases[from] = to
+    aliases[field] = fieldAliases
+    added++
+  })
+
+  if (added === 0) return { success: true, added }
+  const result = saveEnumAliases(aliases)
+  return { ...result, added: result.success ? added : 0 }
+}
+
+/**
+ * 筛选尚未收录的纠错（仅限支持别名的字段）
+ */
+export function getNewAliasCandidates(
+  corrections: EnumCorrection[],
+  mappings: EnumAliasMappings = getEnumAliasMappings()
+): EnumCorrection[] {
+  return corrections.filter(
+    c =>
+      isAliasField(c.field) &&
+      c.from !== c.to &&
+      ALIAS_FIELD_VALUES[c.field].includes(c.to) &&
+      mappings[c.field]?.[c.from] !== c.to
+  )
+}
+
+/**
+ * 累计纠错次数（未给出 count 时按 1 次计）
+ */
+export function collectCorrections(
+  target: Map<string, EnumCorrection>,
+  corrections: Array<
+    Pick<EnumCorrection, 'field' | 'from' | 'to'> & { count?: number }
+  >
+): void {
+  corrections.forEach(({ field, from, to, count = 1 }) => {
+    const key = `${field}|${from}|${to}`
+    const existing = target.get(key)
+    if (existing) {
+      existing.count += count
+    } else {
+      target.set(key, { field, from, to, count })
+    }
+  })
+}
+
+/**
+ * 导出词典为 JSON
+ */
+export function exportEnumAliases(
+  aliases: EnumAliasDictionary = loadEnumAliases()
+): string {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      aliases,
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * 解析导入的 JSON 词典，与现有词典合并（同名别名以导入内容为准）
+ * @returns 合并后的词典，由调用方决定是否保存
+ */
+export function importEnumAliases(
+  json: string,
+  base: EnumAliasDictionary = loadEnumAliases()
+): {
+  success: boolean
+  error?: string
+  aliases?: EnumAliasDictionary
+} {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { success: false, error: '文件不是有效的 JSON' }
+  }
+
+  const payload =
+    parsed && typeof parsed === 'object' && 'aliases' in parsed
+      ? (parsed as { aliases: unknown }).aliases
+      : parsed
+  const imported = sanitizeEnumAliases(payload)
+  if (Object.keys(imported).length === 0) {
+    return { success: false, error: '文件中没有可用的别名' }
+  }
+
+  const merged = { ...base }
+  ALIAS_FIELDS.forEach(field => {
+    if (imported[field]) {
+      merged[field] = { ...merged[field], ...imported[field] }
+    }
+  })
+  return { success: true, aliases: merged }
+}
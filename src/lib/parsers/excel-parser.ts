@@ -0,0 +1,421 @@
+/**
+ * Excel 工作簿解析器
+ * 使用 SheetJS 读取 .xlsx / .xls 文件，识别表头行并规范化日期、数值单元格，
+ * 之后复用 CSV 解析器的 transformCSVRow → Zod 验证管线，保证两种格式结果一致
+ */
+
+import * as XLSX from 'xlsx'
+import {
+  transformCSVRow,
+  finalizeParsedRows,
+  type CSVParseOptions,
+  type CSVParseResult,
+  type DataFilePreview,
+  type ProgressCallback,
+} from './csv-parser'
+import {
+  applyColumnMapping,
+  getMappedFields,
+  getMissingFields,
+  resolveHeaderField,
+} from './column-mapping'
+import {
+  collectCorrections,
+  getEnumAliasMappings,
+  type EnumCorrection,
+} from './enum-aliases'
+
+export const EXCEL_EXTENSIONS = ['.xlsx', '.xls']
+
+/**
+ * 表头识别时扫描的最大行数（分公司导出的工作簿常带标题、说明行）
+ */
+const HEADER_SCAN_ROWS = 20
+
+const DATE_FIELDS = new Set(['snapshot_date'])
+
+const NUMERIC_FIELDS = new Set([
+  'policy_start_year',
+  'week_number',
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'policy_count',
+  'claim_case_count',
+  'reported_claim_payment_yuan',
+  'expense_amount_yuan',
+  'commercial_premium_before_discount_yuan',
+  'premium_plan_yuan',
+  'marginal_contribution_amount_yuan',
+])
+
+/**
+ * 工作表概要信息（用于工作表选择）
+ */
+export interface WorkbookSheetInfo {
+  name: string
+  rowCount: number
+  headerRowIndex: number // 0 起始
+  matchedFields: number // 表头中命中必需字段（含中文名称/别名）的数量
+}
+
+/**
+ * Excel 解析选项
+ */
+export interface ExcelParseOptions extends CSVParseOptions {
+  sheetName?: string
+  headerRowIndex?: number
+}
+
+/**
+ * 判断是否为 Excel 工作簿
+ */
+export function isExcelFile(file: File): boolean {
+  const extension = '.' + file.name.split('.').pop()?.toLowerCase()
+  return EXCEL_EXTENSIONS.includes(extension)
+}
+
+export function formatDateParts(
+  year: number,
+  month: number,
+  day: number
+): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Excel 序列日期 → YYYY-MM-DD
+ */
+function excelSerialToDateString(serial: number): string | null {
+  const parsed = XLSX.SSF.parse_date_code(serial)
+  if (!parsed || !parsed.y) return null
+  return formatDateParts(parsed.y, parsed.m, parsed.d)
+}
+
+/**
+ * 文本日期（2025/10/18、2025.10.18、2025-10-18 00:00:00）→ YYYY-MM-DD
+ */
+export function normalizeDateText(text: string): string {
+  const match = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/)
+  if (!match) return text
+  return formatDateParts(Number(match[1]), Number(match[2]), Number(match[3]))
+}
+
+/**
+ * 读取单元格并按目标字段规范化
+ * - 日期字段：序列日期 / 日期单元格 / 文本日期统一为 YYYY-MM-DD
+ * - 数值字段：保留数值类型，文本数字去除千分位和空白
+ * - 布尔单元格：保持布尔值，由 transformCSVRow 处理
+ */
+function readCellValue(
+  cell: XLSX.CellObject | undefined,
+  field?: string
+): unknown {
+  if (!cell || cell.v === undefined || cell.v === null) return ''
+
+  const isDateField = field !== undefined && DATE_FIELDS.has(field)
+
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    const date = cell.v
+    return formatDateParts(
+      date.getFullYear(),
+      date.getMonth() + 1,
+      date.getDate()
+    )
+  }
+
+  if (cell.t === 'n') {
+    const numeric = cell.v as number
+    const hasDateFormat = typeof cell.z === 'string' && XLSX.SSF.is_date(cell.z)
+    // 日期字段即使没有日期格式，也按序列日期处理（约 1955 ~ 2064 年）
+    if (hasDateFormat || (isDateField && numeric > 20000 && numeric < 60000)) {
+      return excelSerialToDateString(numeric) ?? numeric
+    }
+    return numeric
+  }
+
+  if (cell.t === 'b') return cell.v
+
+  if (cell.t === 'e') return ''
+
+  const text = String(cell.v).trim()
+  if (isDateField) return normalizeDateText(text)
+  if (
+    field !== undefined &&
+    NUMERIC_FIELDS.has(field) &&
+    /^-?[\d,\s]+(\.\d+)?$/.test(text)
+  ) {
+    return text.replace(/[,\s]/g, '')
+  }
+  return text
+}
+
+function getCellText(sheet: XLSX.WorkSheet, r: number, c: number): string {
+  const cell = sheet[XLSX.utils.encode_cell({ r, c })] as
+    | XLSX.CellObject
+    | undefined
+  if (!cell || cell.v === undefined || cell.v === null) return ''
+  return String(cell.w ?? cell.v).trim()
+}
+
+/**
+ * 识别表头行：在前若干行中选出命中必需字段最多的一行
+ */
+function detectHeaderRow(sheet: XLSX.WorkSheet): {
+  index: number
+  matched: number
+} {
+  if (!sheet['!ref']) return { index: 0, matched: 0 }
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const lastRow = Math.min(range.e.r, range.s.r + HEADER_SCAN_ROWS - 1)
+
+  let best = { index: range.s.r, matched: 0 }
+  for (let r = range.s.r; r <= lastRow; r++) {
+    let matched = 0
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      if (resolveHeaderField(getCellText(sheet, r, c))) {
+        matched++
+      }
+    }
+    if (matched > best.matched) {
+      best = { index: r, matched }
+    }
+  }
+  return best
+}
+
+function countSheetRows(sheet: XLSX.WorkSheet): number {
+  const ref = (sheet['!fullref'] as string | undefined) ?? sheet['!ref']
+  if (!ref) return 0
+  const range = XLSX.utils.decode_range(ref)
+  return range.e.r - range.s.r + 1
+}
+
+/**
+ * 读取工作簿的工作表列表及表头识别结果（仅解析前若干行，速度快）
+ */
+export async function inspectWorkbook(
+  file: File
+): Promise<WorkbookSheetInfo[]> {
+  const buffer = await file.arrayBuffer()
+  const workbook = XLSX.read(buffer, {
+    type: 'array',
+    sheetRows: HEADER_SCAN_ROWS + 1,
+  })
+
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name]
+    const header = detectHeaderRow(sheet)
+    return {
+      name,
+      rowCount: countSheetRows(sheet),
+      headerRowIndex: header.index,
+      matchedFields: header.matched,
+    }
+  })
+}
+
+/**
+ * 预览工作表的表头与前若干行（列映射向导使用）
+ */
+export async function previewExcelFile(
+  file: File,
+  options: ExcelParseOptions = {},
+  maxRows = 5
+): Promise<DataFilePreview> {
+  const buffer = await file.arrayBuffer()
+  const workbook = XLSX.read(buffer, {
+    type: 'array',
+    sheetRows: HEADER_SCAN_ROWS + maxRows + 1,
+  })
+
+  const sheetName = options.sheetName ?? workbook.SheetNames[0]
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined
+  if (!sheet || !sheet['!ref']) {
+    return { headers: [], rows: [], encoding: 'Excel' }
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const headerRowIndex = options.headerRowIndex ?? detectHeaderRow(sheet).index
+
+  const headers: string[] = []
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    headers.push(getCellText(sheet, headerRowIndex, c))
+  }
+
+  const rows: Array<Record<string, unknown>> = []
+  for (
+    let r = headerRowIndex + 1;
+    r <= range.e.r && rows.length < maxRows;
+    r++
+  ) {
+    const row: Record<string, unknown> = {}
+    headers.forEach((header, offset) => {
+      if (header) row[header] = getCellText(sheet, r, range.s.c + offset)
+    })
+    rows.push(row)
+  }
+
+  return {
+    headers: headers.filter(Boolean),
+    rows,
+    encoding: file.name.toLowerCase().endsWith('.xls')
+      ? 'Excel 97-2003'
+      : 'Excel',
+  }
+}
+
+/**
+ * 解析 Excel 工作簿
+ * @param file .xlsx / .xls 文件
+ * @param onProgress 进度回调函数（阶段与 CSV 解析一致）
+ * @param options 工作表、表头行选择及列映射
+ * @returns 与 parseCSVFile 相同结构的解析结果
+ */
+export async function parseExcelFile(
+  file: File,
+  onProgress?: ProgressCallback,
+  options: ExcelParseOptions = {}
+): Promise<CSVParseResult> {
+  console.log(
+    `[Excel Parser] 开始解析工作簿: ${file.name}, 大小: ${file.size} bytes`
+  )
+  const startTime = performance.now()
+  let processedRows = 0
+  const transformErrors: Array<{ row: number; errors: string[] }> = []
+
+  const updateProgress = (
+    phase: 'parsing' | 'validating' | 'transforming',
+    percentage: number,
+    totalRows?: number
+  ) => {
+    if (!onProgress) return
+    const elapsed = performance.now() - startTime
+    const estimatedTimeRemaining =
+      percentage > 0 ? Math.max(0, elapsed / (percentage / 100) - elapsed) : 0
+
+    onProgress({
+      percentage: Math.min(percentage, 99),
+      processedRows,
+      currentPhase: phase,
+      estimatedTimeRemaining:
+        estimatedTimeRemaining > 1000 ? estimatedTimeRemaining : undefined,
+      totalRows,
+      errorCount: transformErrors.length,
+    })
+  }
+
+  updateProgress('parsing', 5)
+  const buffer = await file.arrayBuffer()
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true })
+  updateProgress('parsing', 20)
+
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('工作簿中没有工作表')
+  }
+
+  // 未指定工作表时，选择表头命中必需字段最多的工作表
+  const sheetName =
+    options.sheetName ??
+    workbook.SheetNames.map(name => ({
+      name,
+      matched: detectHeaderRow(workbook.Sheets[name]).matched,
+    })).reduce((best, current) =>
+      current.matched > best.matched ? current : best
+    ).name
+
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet || !sheet['!ref']) {
+    throw new Error(`工作表 "${sheetName}" 不存在或为空`)
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const headerRowIndex = options.headerRowIndex ?? detectHeaderRow(sheet).index
+
+  const headers: string[] = []
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    headers.push(getCellText(sheet, headerRowIndex, c))
+  }
+  console.log(
+    `[Excel Parser] 工作表 "${sheetName}" 第 ${headerRowIndex + 1} 行识别为表头:`,
+    headers
+  )
+
+  const columnMapping = options.columnMapping ?? {}
+  const mappedFields = getMappedFields(headers, columnMapping)
+  const missing = getMissingFields(mappedFields)
+  if (missing.length > 0) {
+    throw new Error(
+      `工作表 "${sheetName}" 表头缺失必需字段 (${missing.length}个): ${missing.join(', ')}\n\n请确认表头行位置，或通过列映射指定对应列。\n参考文档: CSV导入规范.md`
+    )
+  }
+
+  // 源列 → 标准字段，用于按目标字段规范化单元格
+  const headerFields = new Map<string, string>()
+  Object.entries(columnMapping).forEach(([field, source]) => {
+    headerFields.set(source, field)
+  })
+
+  const rows: Record<string, unknown>[] = []
+  const sourceRows: Record<string, unknown>[] = []
+  const aliases = getEnumAliasMappings()
+  const corrections = new Map<string, EnumCorrection>()
+  const totalDataRows = range.e.r - headerRowIndex
+
+  for (let r = headerRowIndex + 1; r <= range.e.r; r++) {
+    const row: Record<string, unknown> = {}
+    let hasValue = false
+
+    headers.forEach((header, offset) => {
+      if (!header) return
+      const cell = sheet[
+        XLSX.utils.encode_cell({ r, c: range.s.c + offset })
+      ] as XLSX.CellObject | undefined
+      const value = readCellValue(cell, headerFields.get(header) ?? header)
+      if (value !== '') hasValue = true
+      row[header] = value
+    })
+
+    // 跳过空行（与 CSV 的 skipEmptyLines 行为一致）
+    if (!hasValue) continue
+
+    const globalIndex = rows.length
+    const mapped = applyColumnMapping(row, columnMapping)
+    const transformed = transformCSVRow(mapped, globalIndex, aliases)
+    const { data, errors } = transformed
+    collectCorrections(corrections, transformed.corrections)
+    rows.push(data as Record<string, unknown>)
+    sourceRows.push(mapped)
+    processedRows++
+
+    if (errors.length > 0) {
+      transformErrors.push({ row: globalIndex + 1, errors })
+    }
+
+    if (processedRows % 1000 === 0) {
+      updateProgress(
+        'parsing',
+        20 + ((r - headerRowIndex) / totalDataRows) * 60,
+        totalDataRows
+      )
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`工作表 "${sheetName}" 为空或没有有效数据`)
+  }
+
+  updateProgress('parsing', 80, rows.length)
+
+  return finalizeParsedRows(rows, transformErrors, {
+    startTime,
+    fileSize: file.size,
+    encoding: file.name.toLowerCase().endsWith('.xls')
+      ? 'Excel 97-2003'
+      : 'Excel',
+    sheetName,
+    sourceRows,
+    corrections,
+    onProgress: (phase, percentage) =>
+      updateProgress(phase, percentage, rows.length),
+  })
+}
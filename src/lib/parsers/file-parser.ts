@@ -0,0 +1,118 @@
+/**
+ * 数据文件解析入口
+ * 按文件格式分派到对应的解析器，统一返回 CSVParseResult
+ */
+
+import {
+  parseCSVFile,
+  previewCSVFile,
+  type CSVParseResult,
+  type DataFilePreview,
+  type ProgressCallback,
+} from './csv-parser'
+import {
+  COLUMNAR_EXTENSIONS,
+  isColumnarFile,
+  parseColumnarFile,
+  previewColumnarFile,
+} from './columnar-parser'
+import { PARSE_CANCELLED_MESSAGE } from './csv-worker-client'
+import {
+  EXCEL_EXTENSIONS,
+  isExcelFile,
+  parseExcelFile,
+  previewExcelFile,
+  type ExcelParseOptions,
+} from './excel-parser'
+import {
+  JSONL_EXTENSIONS,
+  isJSONLFile,
+  parseJSONLFile,
+  previewJSONLFile,
+} from './jsonl-parser'
+import { ZIP_EXTENSIONS, isZipFile } from './zip-archive'
+
+/**
+ * 单个文件的解析选项（Excel 工作表、列映射等）
+ */
+export type FileParseOptions = ExcelParseOptions
+
+/**
+ * 可直接解析的数据文件扩展名
+ */
+export const DATA_FILE_EXTENSIONS = [
+  '.csv',
+  ...EXCEL_EXTENSIONS,
+  ...JSONL_EXTENSIONS,
+  ...COLUMNAR_EXTENSIONS,
+]
+
+/**
+ * 支持上传的文件扩展名（ZIP 压缩包上传后解压出其中的数据文件）
+ */
+export const SUPPORTED_EXTENSIONS = [...DATA_FILE_EXTENSIONS, ...ZIP_EXTENSIONS]
+
+/**
+ * 获取文件扩展名（小写，含点）
+ */
+export function getFileExtension(file: File): string {
+  return '.' + (file.name.split('.').pop()?.toLowerCase() ?? '')
+}
+
+/**
+ * 判断文件格式是否受支持
+ */
+export function isSupportedDataFile(file: File): boolean {
+  return SUPPORTED_EXTENSIONS.includes(getFileExtension(file))
+}
+
+/**
+ * 解析数据文件
+ * CSV 在解析 Worker 中执行；Excel 仍在主线程解析，仅在开始前响应取消；
+ * JSON / JSON Lines 数据集在主线程逐条校验；Parquet / Arrow 在解析 Worker 中按行组、记录批分批读取和校验
+ * @param file CSV / Excel / JSON Lines / Parquet / Arrow 文件
+ * @param onProgress 进度回调
+ * @param options 解析选项（Excel 工作表、列映射、取消信号等）
+ */
+export async function parseDataFile(
+  file: File,
+  onProgress?: ProgressCallback,
+  options: FileParseOptions = {}
+): Promise<CSVParseResult> {
+  if (options.signal?.aborted) {
+    throw new Error(PARSE_CANCELLED_MESSAGE)
+  }
+  if (isZipFile(file)) {
+    throw new Error(`${file.name} 是压缩包，请先解压后逐个解析其中的数据文件`)
+  }
+  if (isExcelFile(file)) {
+    return parseExcelFile(file, onProgress, options)
+  }
+  if (isJSONLFile(file)) {
+    return parseJSONLFile(file, onProgress, options)
+  }
+  if (isColumnarFile(file)) {
+    return parseColumnarFile(file, onProgress, options)
+  }
+  return parseCSVFile(file, onProgress, options)
+}
+
+/**
+ * 预览数据文件的表头与前若干行
+ */
+export async function previewDataFile(
+  file: File,
+  options: FileParseOptions = {},
+  maxRows = 5
+): Promise<DataFilePreview> {
+  if (isExcelFile(file)) {
+    return previewExcelFile(file, options, maxRows)
+  }
+  if (isJSONLFile(file)) {
+    return previewJSONLFile(file, maxRows)
+  }
+  if (isColumnarFile(file)) {
+    return previewColumnarFile(file, maxRows)
+  }
+  return previewCSVFile(file, maxRows)
+}
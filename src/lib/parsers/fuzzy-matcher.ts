@@ -172,7 +172,7 @@ export function fuzzyMatchAll<T = string>(
 }
 
 /**
- * 常见枚举值的映射规则
+ * 常见枚举值的映射规则（内置别名，用户别名见 ./enum-aliases.ts）
  */
 export const ENUM_MAPPINGS: Record<string, Record<string, string>> = {
   insurance_type: {
@@ -192,9 +192,14 @@ export const ENUM_MAPPINGS: Record<string, Record<string, string>> = {
     转保单: '转保',
   },
   coverage_type: {
-    全险: '全保',
-    基本险: '基本',
-    基础: '基本',
+    全险: '主全',
+    全保: '主全',
+    主险全保: '主全',
+    交强加三者: '交三',
+    交强险加三者: '交三',
+    '交强+三者': '交三',
+    单交强: '单交',
+    仅交强: '单交',
   },
 }
 
@@ -203,12 +208,14 @@ export const ENUM_MAPPINGS: Record<string, Record<string, string>> = {
  * @param value 输入值
  * @param enumKey 枚举类型（如 'insurance_type'）
  * @param validValues 有效值列表
+ * @param mappings 别名映射（默认仅内置规则）
  * @returns 纠正后的值和置信度
  */
 export function correctEnumValue(
   value: string | null | undefined,
   enumKey: string,
-  validValues: string[]
+  validValues: string[],
+  mappings: Record<string, Record<string, string>> = ENUM_MAPPINGS
 ): { corrected: string; confidence: number; suggestions: string[] } | null {
   if (!value) return null
 
@@ -224,7 +231,7 @@ export function correctEnumValue(
   }
 
   // 2. 检查预定义的映射规则
-  const mapping = ENUM_MAPPINGS[enumKey]
+  const mapping = mappings[enumKey]
   if (mapping && mapping[trimmed]) {
     return {
       corrected: mapping[trimmed],
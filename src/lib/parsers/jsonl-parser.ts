@@ -0,0 +1,269 @@
+/**
+ * JSON / JSON Lines 数据集解析器
+ * 读取 exportToJSONL 导出的数据集（首行为格式头，其后每行一条 InsuranceRecord），
+ * 值保留原始类型（布尔、null、可选评级），之后复用 transformCSVRow → Zod 验证管线
+ */
+
+import {
+  transformCSVRow,
+  finalizeParsedRows,
+  type CSVParseOptions,
+  type CSVParseResult,
+  type DataFilePreview,
+  type ProgressCallback,
+} from './csv-parser'
+import { applyColumnMapping } from './column-mapping'
+import { PARSE_CANCELLED_MESSAGE } from './csv-worker-client'
+import {
+  collectCorrections,
+  getEnumAliasMappings,
+  type EnumCorrection,
+} from './enum-aliases'
+
+export const JSONL_EXTENSIONS = ['.jsonl', '.json']
+
+/**
+ * 数据集格式标识
+ */
+export const JSONL_FORMAT = 'insurance-records'
+
+/**
+ * 当前数据集格式版本（记录字段结构变化时递增）
+ */
+export const JSONL_SCHEMA_VERSION = 1
+
+/**
+ * 数据集格式头（JSONL 首行 / JSON 文件的顶层字段）
+ */
+export interface JSONLHeader {
+  format: typeof JSONL_FORMAT
+  schemaVersion: number
+  exportedAt: string
+  recordCount: number
+  fields: string[]
+}
+
+/**
+ * 判断是否为 JSON / JSON Lines 数据集
+ */
+export function isJSONLFile(file: File): boolean {
+  const extension = '.' + file.name.split('.').pop()?.toLowerCase()
+  return JSONL_EXTENSIONS.includes(extension)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isJSONLHeader(value: unknown): value is JSONLHeader {
+  return isPlainObject(value) && value.format === JSONL_FORMAT
+}
+
+/**
+ * 校验格式头版本
+ */
+function checkHeader(header: JSONLHeader, fileName: string): void {
+  if (
+    typeof header.schemaVersion !== 'number' ||
+    header.schemaVersion > JSONL_SCHEMA_VERSION
+  ) {
+    throw new Error(
+      `${fileName} 的数据格式版本 (${header.schemaVersion}) 高于当前支持的版本 (${JSONL_SCHEMA_VERSION})，请升级后再导入`
+    )
+  }
+}
+
+/**
+ * 拆分后的数据集内容：records 中无法解析的行以 error 标记
+ */
+interface JSONLContent {
+  header: JSONLHeader | null
+  records: Array<{ value: Record<string, unknown>; error?: string }>
+}
+
+/**
+ * 解析 .json 文件：{ ...格式头, records: [...] } 或记录数组
+ */
+function readJSONDocument(text: string, fileName: string): JSONLContent {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch (error) {
+    throw new Error(
+      `${fileName} 不是有效的 JSON 文件: ${error instanceof Error ? error.message : '未知错误'}`
+    )
+  }
+
+  const header = isJSONLHeader(document) ? document : null
+  const records = header
+    ? (document as { records?: unknown }).records
+    : document
+  if (!Array.isArray(records)) {
+    throw new Error(`${fileName} 中未找到记录数组`)
+  }
+
+  return {
+    header,
+    records: records.map(value =>
+      isPlainObject(value)
+        ? { value }
+        : { value: {}, error: '记录不是 JSON 对象' }
+    ),
+  }
+}
+
+/**
+ * 解析 .jsonl 文件：可选的格式头行 + 每行一条记录（空行忽略）
+ */
+function readJSONLines(text: string): JSONLContent {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '')
+  const content: JSONLContent = { header: null, records: [] }
+
+  lines.forEach((line, index) => {
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch (error) {
+      content.records.push({
+        value: {},
+        error: `无效的 JSON 行: ${error instanceof Error ? error.message : '未知错误'}`,
+      })
+      return
+    }
+
+    if (index === 0 && isJSONLHeader(value)) {
+      content.header = value
+      return
+    }
+    content.records.push(
+      isPlainObject(value)
+        ? { value }
+        : { value: {}, error: '记录不是 JSON 对象' }
+    )
+  })
+
+  return content
+}
+
+async function readContent(file: File): Promise<JSONLContent> {
+  const text = (await file.text()).replace(/^\uFEFF/, '')
+  const content = file.name.toLowerCase().endsWith('.json')
+    ? readJSONDocument(text, file.name)
+    : readJSONLines(text)
+
+  if (content.header) {
+    checkHeader(content.header, file.name)
+  } else {
+    console.warn(`[JSONL Parser] ${file.name} 缺少格式头，按当前版本字段解析`)
+  }
+  return content
+}
+
+/**
+ * 预览数据集的字段与前若干条记录
+ */
+export async function previewJSONLFile(
+  file: File,
+  maxRows = 5
+): Promise<DataFilePreview> {
+  const { header, records } = await readContent(file)
+  const rows = records.slice(0, maxRows).map(record => record.value)
+  const headers =
+    header?.fields ?? Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+
+  return {
+    headers,
+    rows,
+    encoding: header ? `JSON v${header.schemaVersion}` : 'JSON',
+  }
+}
+
+/**
+ * 解析 JSON / JSON Lines 数据集
+ * @param file .jsonl / .json 文件
+ * @param onProgress 进度回调函数（阶段与 CSV 解析一致）
+ * @param options 列映射（记录字段名非标准时使用）
+ * @returns 与 parseCSVFile 相同结构的解析结果
+ */
+export async function parseJSONLFile(
+  file: File,
+  onProgress?: ProgressCallback,
+  options: CSVParseOptions = {}
+): Promise<CSVParseResult> {
+  console.log(
+    `[JSONL Parser] 开始解析数据集: ${file.name}, 大小: ${file.size} bytes`
+  )
+  const startTime = performance.now()
+  const transformErrors: Array<{ row: number; errors: string[] }> = []
+
+  const updateProgress = (
+    phase: 'parsing' | 'validating' | 'transforming',
+    percentage: number,
+    processedRows: number,
+    totalRows?: number
+  ) => {
+    onProgress?.({
+      percentage: Math.min(percentage, 99),
+      processedRows,
+      currentPhase: phase,
+      totalRows,
+      errorCount: transformErrors.length,
+    })
+  }
+
+  updateProgress('parsing', 5, 0)
+  const { header, records } = await readContent(file)
+  if (records.length === 0) {
+    throw new Error(`${file.name} 中没有记录`)
+  }
+  if (header && header.recordCount !== records.length) {
+    throw new Error(
+      `${file.name} 的记录数 (${records.length}) 与格式头声明的 ${header.recordCount} 条不一致，文件可能不完整`
+    )
+  }
+  updateProgress('parsing', 20, 0, records.length)
+
+  const rows: Record<string, unknown>[] = []
+  const sourceRows: Record<string, unknown>[] = []
+  const aliases = getEnumAliasMappings()
+  const corrections = new Map<string, EnumCorrection>()
+
+  records.forEach((record, index) => {
+    if (options.signal?.aborted) {
+      throw new Error(PARSE_CANCELLED_MESSAGE)
+    }
+
+    const mapped = applyColumnMapping(record.value, options.columnMapping)
+    const transformed = transformCSVRow(mapped, index, aliases)
+    const errors = record.error
+      ? [record.error, ...transformed.errors]
+      : transformed.errors
+    collectCorrections(corrections, transformed.corrections)
+    rows.push(transformed.data as Record<string, unknown>)
+    sourceRows.push(mapped)
+
+    if (errors.length > 0) {
+      transformErrors.push({ row: index + 1, errors })
+    }
+    if ((index + 1) % 1000 === 0) {
+      updateProgress(
+        'parsing',
+        20 + ((index + 1) / records.length) * 60,
+        index + 1,
+        records.length
+      )
+    }
+  })
+
+  updateProgress('parsing', 80, rows.length, rows.length)
+
+  return finalizeParsedRows(rows, transformErrors, {
+    startTime,
+    fileSize: file.size,
+    encoding: header ? `JSON v${header.schemaVersion}` : 'JSON',
+    sourceRows,
+    corrections,
+    onProgress: (phase, percentage) =>
+      updateProgress(phase, percentage, rows.length, rows.length),
+  })
+}
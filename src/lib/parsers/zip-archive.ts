@@ -0,0 +1,125 @@
+/**
+ * ZIP 压缩包解压
+ * 在浏览器中解压上传的 ZIP（fflate 异步解压，不阻塞 UI），
+ * 取出其中受支持格式的数据文件，逐个交给 parseDataFile 解析
+ */
+
+import { unzip, type Unzipped } from 'fflate'
+
+export const ZIP_EXTENSIONS = ['.zip']
+
+/**
+ * 压缩包中的一个数据文件
+ */
+export interface ArchiveEntry {
+  file: File // 以条目文件名命名的 File
+  path: string // 压缩包内的完整路径
+}
+
+/**
+ * 解压结果
+ */
+export interface ArchiveContents {
+  entries: ArchiveEntry[]
+  skipped: string[] // 未解压的条目（非数据文件、不支持的压缩方式等）
+}
+
+/**
+ * 判断是否为 ZIP 压缩包
+ */
+export function isZipFile(file: File): boolean {
+  const extension = '.' + file.name.split('.').pop()?.toLowerCase()
+  return ZIP_EXTENSIONS.includes(extension)
+}
+
+/**
+ * 还原条目名称
+ * 未设置 UTF-8 标志的条目（Windows 压缩工具常见）被按 Latin-1 解码，
+ * 这里还原为原始字节后依次尝试 UTF-8、GBK
+ */
+function decodeEntryName(name: string): string {
+  const codes = Array.from(name, char => char.charCodeAt(0))
+  if (codes.some(code => code > 0xff) || codes.every(code => code < 0x80)) {
+    return name
+  }
+
+  const bytes = Uint8Array.from(codes)
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    try {
+      return new TextDecoder('gbk', { fatal: true }).decode(bytes)
+    } catch {
+      return name
+    }
+  }
+}
+
+function isIgnoredEntry(path: string): boolean {
+  const baseName = path.split('/').pop() ?? ''
+  return (
+    path.endsWith('/') ||
+    path.startsWith('__MACOSX/') ||
+    baseName.startsWith('.')
+  )
+}
+
+/**
+ * 解压 ZIP 中受支持格式的数据文件
+ * @param supportedExtensions 可导入的文件扩展名（小写，含点）
+ */
+export async function extractArchive(
+  file: File,
+  supportedExtensions: string[]
+): Promise<ArchiveContents> {
+  console.log(`[ZIP Archive] 开始解压: ${file.name}, 大小: ${file.size} bytes`)
+  const data = new Uint8Array(await file.arrayBuffer())
+  const skipped: string[] = []
+
+  const files = await new Promise<Unzipped>((resolve, reject) => {
+    unzip(
+      data,
+      {
+        filter: info => {
+          if (isIgnoredEntry(info.name)) return false
+          const path = decodeEntryName(info.name)
+          const extension = '.' + path.split('.').pop()?.toLowerCase()
+          // fflate 仅支持存储（0）和 Deflate（8）两种压缩方式
+          if (
+            !supportedExtensions.includes(extension) ||
+            (info.compression !== 0 && info.compression !== 8)
+          ) {
+            skipped.push(path)
+            return false
+          }
+          return true
+        },
+      },
+      (error, result) => {
+        if (error) {
+          reject(new Error(`${file.name} 解压失败: ${error.message}`))
+        } else {
+          resolve(result)
+        }
+      }
+    )
+  })
+
+  const entries = Object.entries(files)
+    .map(([name, content]) => {
+      const path = decodeEntryName(name)
+      const baseName = path.split('/').pop() ?? path
+      return {
+        file: new File([content], baseName, {
+          lastModified: file.lastModified,
+        }),
+        path,
+      }
+    })
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  console.log(
+    `[ZIP Archive] ${file.name} 解压完成: ${entries.length} 个数据文件，跳过 ${skipped.length} 个条目`
+  )
+  return { entries, skipped }
+}
@@ -0,0 +1,126 @@
+/**
+ * 数据分块编解码
+ * 数据集按周次拆分为块，每块按列存储：数值列原样保存，
+ * 其余列（维度文本、布尔、评级）字典编码为「取值表 + 下标」，序列化后用 Deflate 压缩
+ */
+
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate'
+import type { InsuranceRecord } from '@/types/insurance'
+import { getWeekKey } from '@/lib/dataset/dataset-merge'
+
+const CHUNK_FORMAT_VERSION = 1
+
+/**
+ * 字典编码列：values 为去重后的取值，indexes 中 -1 表示字段缺省（undefined）
+ */
+interface DictionaryColumn {
+  type: 'dict'
+  values: unknown[]
+  indexes: number[]
+}
+
+interface NumberColumn {
+  type: 'number'
+  values: Array<number | null>
+}
+
+type EncodedColumn = DictionaryColumn | NumberColumn
+
+interface EncodedChunk {
+  version: number
+  rowCount: number
+  columns: Record<string, EncodedColumn>
+}
+
+/**
+ * 按周次键拆分记录（保持原有顺序）
+ */
+export function splitIntoChunks(
+  data: InsuranceRecord[]
+): Map<string, InsuranceRecord[]> {
+  const chunks = new Map<string, InsuranceRecord[]>()
+  data.forEach(record => {
+    const key = getWeekKey(record)
+    const chunk = chunks.get(key)
+    if (chunk) {
+      chunk.push(record)
+    } else {
+      chunks.set(key, [record])
+    }
+  })
+  return chunks
+}
+
+function encodeColumn(
+  records: InsuranceRecord[],
+  field: keyof InsuranceRecord
+): EncodedColumn {
+  const raw = records.map(record => record[field])
+  if (raw.every(value => typeof value === 'number' || value === null)) {
+    return { type: 'number', values: raw as Array<number | null> }
+  }
+
+  const dictionary = new Map<unknown, number>()
+  const indexes = raw.map(value => {
+    if (value === undefined) return -1
+    let index = dictionary.get(value)
+    if (index === undefined) {
+      index = dictionary.size
+      dictionary.set(value, index)
+    }
+    return index
+  })
+  return { type: 'dict', values: Array.from(dictionary.keys()), indexes }
+}
+
+/**
+ * 编码并压缩一块记录
+ */
+export function encodeChunk(records: InsuranceRecord[]): Uint8Array {
+  const fields = new Set<keyof InsuranceRecord>()
+  records.forEach(record => {
+    ;(Object.keys(record) as Array<keyof InsuranceRecord>).forEach(field =>
+      fields.add(field)
+    )
+  })
+
+  const chunk: EncodedChunk = {
+    version: CHUNK_FORMAT_VERSION,
+    rowCount: records.length,
+    columns: {},
+  }
+  fields.forEach(field => {
+    chunk.columns[field] = encodeColumn(records, field)
+  })
+
+  return deflateSync(strToU8(JSON.stringify(chunk)), { level: 6 })
+}
+
+/**
+ * 解压并还原一块记录
+ */
+export function decodeChunk(bytes: Uint8Array): InsuranceRecord[] {
+  const chunk = JSON.parse(strFromU8(inflateSync(bytes))) as EncodedChunk
+  if (chunk.version > CHUNK_FORMAT_VERSION) {
+    throw new Error(
+      `数据块格式版本 (${chunk.version}) 高于当前支持的版本 (${CHUNK_FORMAT_VERSION})`
+    )
+  }
+
+  const records: Array<Record<string, unknown>> = Array.from(
+    { length: chunk.rowCount },
+    () => ({})
+  )
+  Object.entries(chunk.columns).forEach(([field, column]) => {
+    if (column.type === 'number') {
+      column.values.forEach((value, row) => {
+        records[row][field] = value
+      })
+    } else {
+      column.indexes.forEach((index, row) => {
+        if (index >= 0) records[row][field] = column.values[index]
+      })
+    }
+  })
+  return records as unknown as InsuranceRecord[]
+}
@@ -0,0 +1,311 @@
+/**
+ * 本地数据加密
+ * 可选启用：由口令经 PBKDF2 派生 AES-GCM 密钥，对 IndexedDB 中的数据块、快照，
+ * 以及 localStorage 中的保费目标和筛选预设加密存储；
+ * 密钥只保存在内存中，刷新页面或自动锁定后需重新输入口令解锁；
+ * 是否加密写入以配置是否存在为准，读取时按数据自身的加密标记解密，
+ * 因此启用或关闭加密的过程中即使中断，已写入的数据仍可用口令读取
+ */
+
+import {
+  getStorageItem,
+  removeStorageItem,
+  setStorageItem,
+  StorageKeys,
+} from './local-storage'
+
+export const MIN_PASSPHRASE_LENGTH = 8
+export const DEFAULT_AUTO_LOCK_MINUTES = 15
+
+const PBKDF2_ITERATIONS = 310000
+const IV_LENGTH = 12
+// 解锁时用于核对口令的已知明文
+const VERIFIER_TEXT = 'insurance-analytics-unlock'
+
+/**
+ * 加密后的 JSON 值（localStorage 中以此结构代替明文）
+ */
+export interface EncryptedPayload {
+  __encrypted: 1
+  iv: string // Base64
+  data: string // Base64
+}
+
+/**
+ * 加密配置（明文保存，不含密钥）
+ */
+export interface EncryptionConfig {
+  version: 1
+  salt: string // Base64
+  iterations: number
+  verifier: EncryptedPayload
+  autoLockMinutes: number // 0 表示不自动锁定
+}
+
+// 当前会话的密钥，仅存在于内存
+let sessionKey: CryptoKey | null = null
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0))
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * 加密：输出为 IV（12 字节）+ 密文
+ */
+async function encryptWithKey(
+  key: CryptoKey,
+  bytes: Uint8Array
+): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const cipher = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    bytes as BufferSource
+  )
+  const result = new Uint8Array(IV_LENGTH + cipher.byteLength)
+  result.set(iv)
+  result.set(new Uint8Array(cipher), IV_LENGTH)
+  return result
+}
+
+async function decryptWithKey(
+  key: CryptoKey,
+  bytes: Uint8Array
+): Promise<Uint8Array> {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) as BufferSource },
+    key,
+    bytes.subarray(IV_LENGTH) as BufferSource
+  )
+  return new Uint8Array(plain)
+}
+
+async function encryptText(
+  key: CryptoKey,
+  text: string
+): Promise<EncryptedPayload> {
+  const sealed = await encryptWithKey(key, new TextEncoder().encode(text))
+  return {
+    __encrypted: 1,
+    iv: toBase64(sealed.subarray(0, IV_LENGTH)),
+    data: toBase64(sealed.subarray(IV_LENGTH)),
+  }
+}
+
+async function decryptText(
+  key: CryptoKey,
+  payload: EncryptedPayload
+): Promise<string> {
+  const iv = fromBase64(payload.iv)
+  const data = fromBase64(payload.data)
+  const bytes = new Uint8Array(iv.length + data.length)
+  bytes.set(iv)
+  bytes.set(data, iv.length)
+  return new TextDecoder().decode(await decryptWithKey(key, bytes))
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as EncryptedPayload).__encrypted === 1
+  )
+}
+
+// ============= 配置与会话 =============
+
+export function getEncryptionConfig(): EncryptionConfig | null {
+  return getStorageItem<EncryptionConfig>(StorageKeys.ENCRYPTION_CONFIG)
+}
+
+export function isEncryptionEnabled(): boolean {
+  return getEncryptionConfig() !== null
+}
+
+export function isEncryptionUnlocked(): boolean {
+  return sessionKey !== null
+}
+
+/**
+ * 用口令解锁：派生密钥并核对校验值
+ */
+export async function unlockEncryption(
+  passphrase: string
+): Promise<{ success: boolean; error?: string }> {
+  const config = getEncryptionConfig()
+  if (!config) return { success: false, error: '未启用数据加密' }
+
+  try {
+    const key = await deriveKey(
+      passphrase,
+      fromBase64(config.salt),
+      config.iterations
+    )
+    const text = await decryptText(key, config.verifier)
+    if (text !== VERIFIER_TEXT) throw new Error('verifier mismatch')
+    sessionKey = key
+    console.log('[Encryption] 已解锁')
+    return { success: true }
+  } catch {
+    return { success: false, error: '口令错误' }
+  }
+}
+
+/**
+ * 锁定：丢弃内存中的密钥
+ */
+export function lockEncryption(): void {
+  sessionKey = null
+  console.log('[Encryption] 已锁定')
+}
+
+/**
+ * 为新口令生成配置并设为当前会话密钥
+ * 保存配置后写入的数据即以新密钥加密
+ */
+export async function createEncryptionConfig(
+  passphrase: string,
+  autoLockMinutes: number
+): Promise<EncryptionConfig> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`)
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  sessionKey = key
+  return {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptText(key, VERIFIER_TEXT),
+    autoLockMinutes,
+  }
+}
+
+export function saveEncryptionConfig(config: EncryptionConfig): {
+  success: boolean
+  error?: string
+} {
+  return setStorageItem(StorageKeys.ENCRYPTION_CONFIG, config)
+}
+
+/**
+ * 删除配置（之后写入的数据均为明文；密钥仍保留在内存中，用于读取尚未转换的密文）
+ */
+export function removeEncryptionConfig(): void {
+  removeStorageItem(StorageKeys.ENCRYPTION_CONFIG)
+}
+
+/**
+ * 写入时使用的密钥：未启用加密返回 null；已启用却处于锁定状态时拒绝写入，避免以明文落盘
+ */
+function getWriteKey(): CryptoKey | null {
+  if (!isEncryptionEnabled()) return null
+  if (!sessionKey) throw new Error('数据已锁定，请先解锁')
+  return sessionKey
+}
+
+// ============= 数据读写 =============
+
+/**
+ * 按当前会话加密二进制数据（未启用加密时原样返回）
+ */
+export async function sealBytes(
+  bytes: Uint8Array
+): Promise<{ data: Uint8Array; encrypted: boolean }> {
+  const key = getWriteKey()
+  if (!key) return { data: bytes, encrypted: false }
+  return { data: await encryptWithKey(key, bytes), encrypted: true }
+}
+
+/**
+ * 还原 sealBytes 的输出
+ */
+export async function openBytes(
+  data: Uint8Array,
+  encrypted: boolean | undefined
+): Promise<Uint8Array> {
+  if (!encrypted) return data
+  if (!sessionKey) throw new Error('数据已锁定，请先解锁')
+  return decryptWithKey(sessionKey, data)
+}
+
+/**
+ * 写入 localStorage（启用加密时以密文保存）
+ */
+export async function writeSecureItem(
+  key: string,
+  value: unknown
+): Promise<void> {
+  const writeKey = getWriteKey()
+  const text = JSON.stringify(value)
+  if (!writeKey) {
+    localStorage.setItem(key, text)
+    return
+  }
+  localStorage.setItem(key, JSON.stringify(await encryptText(writeKey, text)))
+}
+
+/**
+ * 读取 writeSecureItem 写入的值；密文在锁定状态下返回 null
+ */
+export async function readSecureItem<T>(key: string): Promise<T | null> {
+  const stored = localStorage.getItem(key)
+  if (!stored) return null
+
+  const parsed = JSON.parse(stored) as unknown
+  if (!isEncryptedPayload(parsed)) return parsed as T
+  if (!sessionKey) return null
+  return JSON.parse(await decryptText(sessionKey, parsed)) as T
+}
+
+/**
+ * 解密 localStorage 中读出的密文（锁定状态下返回 null）
+ */
+export async function openSecurePayload(
+  payload: EncryptedPayload
+): Promise<unknown> {
+  if (!sessionKey) return null
+  return JSON.parse(await decryptText(sessionKey, payload)) as unknown
+}
+
+/**
+ * localStorage 中的值是否为密文
+ */
+export function isSecureItemEncrypted(key: string): boolean {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? isEncryptedPayload(JSON.parse(stored)) : false
+  } catch {
+    return false
+  }
+}
@@ -1,19 +1,168 @@
 /**
  * IndexedDB 存储封装
- * 用于持久化大体量原始数据，避免每次刷新都需重新上传
+ * 用于持久化大体量原始数据，避免每次刷新都需重新上传；
+ * 可并存多个命名数据集（元数据与数据块分开存储，数据按周次分块、字典编码并压缩）；
+ * 覆盖或删除数据前保存的快照同样按周次压缩存储；
+ * 导入时未通过校验的行保存在隔离区（与数据块一样在启用加密时以密文保存），修正后可重新导入
  */
 
+import { strFromU8, strToU8 } from 'fflate'
 import type { InsuranceRecord } from '@/types/insurance'
+import type { QuarantinedRow } from '@/lib/dataset/quarantine'
+import {
+  buildDatasetMeta,
+  createDatasetId,
+  type DatasetMeta,
+} from '@/lib/dataset/workspace'
+import type { SnapshotMeta } from '@/lib/dataset/snapshots'
+import { decodeChunk, encodeChunk, splitIntoChunks } from './chunk-codec'
+import { openBytes, sealBytes } from './encryption'
 
 const DB_NAME = 'insurance_analytics_db'
-const DB_VERSION = 1
-const RAW_STORE = 'raw_data_store'
-const RAW_KEY = 'raw_data'
+const DB_VERSION = 5
+// v2 及以前仅保存一份原始数据，升级时迁移为默认数据集
+const LEGACY_RAW_STORE = 'raw_data_store'
+const LEGACY_RAW_KEY = 'raw_data'
+// v3 按数据集整体保存记录数组，升级时改写为数据块
+const LEGACY_RECORDS_STORE = 'dataset_records_store'
+const DATASET_META_STORE = 'dataset_meta_store'
+const DATASET_CHUNK_STORE = 'dataset_chunk_store'
+const QUARANTINE_STORE = 'quarantine_store'
+const SNAPSHOT_META_STORE = 'snapshot_meta_store'
+const SNAPSHOT_DATA_STORE = 'snapshot_data_store' // 快照 id → 压缩数据块数组
+
+/**
+ * 数据块：一个数据集中一个周次的记录
+ */
+interface DatasetChunk {
+  datasetId: string
+  key: string // 周次键
+  rowCount: number
+  data: Uint8Array // encodeChunk 的输出（启用加密时为其密文）
+  encrypted?: boolean
+}
+
+/**
+ * 隔离区中保存的行：除 id 外整行序列化后保存（启用加密时为其密文）
+ * 旧版本直接保存 QuarantinedRow 明文对象，读取时兼容
+ */
+interface StoredQuarantinedRow {
+  id: string
+  payload: Uint8Array
+  encrypted?: boolean
+}
+
+function isSealedQuarantinedRow(
+  value: StoredQuarantinedRow | QuarantinedRow
+): value is StoredQuarantinedRow {
+  return 'payload' in value && value.payload instanceof Uint8Array
+}
+
+/**
+ * 分块读写进度回调
+ * @param done 已处理的数据块数
+ * @param total 数据块总数
+ */
+export type ChunkProgressCallback = (done: number, total: number) => void
 
 export function isIndexedDBAvailable(): boolean {
   return typeof window !== 'undefined' && !!window.indexedDB
 }
 
+/**
+ * 数据集全部数据块的键范围
+ */
+function chunkRange(datasetId: string): IDBKeyRange {
+  return IDBKeyRange.bound([datasetId, ''], [datasetId, '\uffff'])
+}
+
+/**
+ * 编码整个数据集（升级迁移时同步执行）
+ */
+function encodeDataset(datasetId: string, data: InsuranceRecord[]) {
+  const chunks: DatasetChunk[] = []
+  splitIntoChunks(data).forEach((records, key) => {
+    chunks.push({
+      datasetId,
+      key,
+      rowCount: records.length,
+      data: encodeChunk(records),
+    })
+  })
+  return chunks
+}
+
+/**
+ * 数据块键按保单年度、周序号排序（键本身按字符串排序，W10 会排在 W2 之前）
+ */
+function compareChunkKeys(a: IDBValidKey, b: IDBValidKey): number {
+  const order = (key: IDBValidKey) => {
+    const [year, week] = (key as [string, string])[1].split('-W').map(Number)
+    return year * 1000 + week
+  }
+  return order(a) - order(b)
+}
+
+function getStoredBytes(chunks: DatasetChunk[]): number {
+  return chunks.reduce((sum, chunk) => sum + chunk.data.byteLength, 0)
+}
+
+/**
+ * 将旧版单一原始数据迁移为一个命名数据集，并删除旧存储
+ */
+function migrateLegacyRawData(db: IDBDatabase, tx: IDBTransaction): void {
+  const req = tx.objectStore(LEGACY_RAW_STORE).get(LEGACY_RAW_KEY)
+  req.onsuccess = () => {
+    const data = req.result as InsuranceRecord[] | undefined
+    if (data && data.length > 0) {
+      const id = createDatasetId()
+      const chunks = encodeDataset(id, data)
+      const meta = buildDatasetMeta(data, {
+        id,
+        storedBytes: getStoredBytes(chunks),
+      })
+      tx.objectStore(DATASET_META_STORE).put(meta)
+      chunks.forEach(chunk => tx.objectStore(DATASET_CHUNK_STORE).put(chunk))
+      console.log(
+        `[IndexedDB] 已将 ${data.length} 条原始数据迁移为数据集「${meta.name}」`
+      )
+    }
+    db.deleteObjectStore(LEGACY_RAW_STORE)
+  }
+}
+
+/**
+ * 将 v3 整体保存的数据集记录改写为数据块，并删除旧存储
+ */
+function migrateDatasetRecords(db: IDBDatabase, tx: IDBTransaction): void {
+  const metaStore = tx.objectStore(DATASET_META_STORE)
+  const req = tx.objectStore(LEGACY_RECORDS_STORE).openCursor()
+  req.onsuccess = () => {
+    const cursor = req.result
+    if (!cursor) {
+      db.deleteObjectStore(LEGACY_RECORDS_STORE)
+      return
+    }
+
+    const id = cursor.key as string
+    const data = (cursor.value as InsuranceRecord[]) || []
+    const chunks = encodeDataset(id, data)
+    chunks.forEach(chunk => tx.objectStore(DATASET_CHUNK_STORE).put(chunk))
+    const metaReq = metaStore.get(id)
+    metaReq.onsuccess = () => {
+      if (metaReq.result) {
+        metaStore.put({
+          ...metaReq.result,
+          chunkCount: chunks.length,
+          storedBytes: getStoredBytes(chunks),
+        })
+      }
+    }
+    console.log(`[IndexedDB] 数据集 ${id} 已改写为 ${chunks.length} 个数据块`)
+    cursor.continue()
+  }
+}
+
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     try {
@@ -21,8 +170,29 @@ function openDB(): Promise<IDBDatabase> {
 
       request.onupgradeneeded = () => {
         const db = request.result
-        if (!db.objectStoreNames.contains(RAW_STORE)) {
-          db.createObjectStore(RAW_STORE)
+        const tx = request.transaction
+        if (!db.objectStoreNames.contains(DATASET_META_STORE)) {
+          db.createObjectStore(DATASET_META_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(DATASET_CHUNK_STORE)) {
+          db.createObjectStore(DATASET_CHUNK_STORE, {
+            keyPath: ['datasetId', 'key'],
+          })
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_META_STORE)) {
+          db.createObjectStore(SNAPSHOT_META_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) {
+          db.createObjectStore(SNAPSHOT_DATA_STORE)
+        }
+        if (tx && db.objectStoreNames.contains(LEGACY_RAW_STORE)) {
+          migrateLegacyRawData(db, tx)
+        }
+        if (tx && db.objectStoreNames.contains(LEGACY_RECORDS_STORE)) {
+          migrateDatasetRecords(db, tx)
         }
       }
 
@@ -34,8 +204,157 @@ function openDB(): Promise<IDBDatabase> {
   })
 }
 
-export async function saveRawData(
-  data: InsuranceRecord[]
+/**
+ * 让出主线程，使进度条得以刷新
+ */
+function yieldToMain(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+// ============= 命名数据集 =============
+
+/**
+ * 列出全部数据集（按更新时间倒序）
+ */
+export async function listDatasets(): Promise<DatasetMeta[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  try {
+    const db = await openDB()
+    const result = await new Promise<DatasetMeta[]>((resolve, reject) => {
+      const tx = db.transaction(DATASET_META_STORE, 'readonly')
+      const store = tx.objectStore(DATASET_META_STORE)
+      const req = store.getAll()
+
+      req.onsuccess = () => resolve((req.result as DatasetMeta[]) || [])
+      req.onerror = () => reject(req.error)
+    })
+    db.close()
+    return result.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 读取数据集列表失败:', msg)
+    return []
+  }
+}
+
+/**
+ * 逐块读取数据集的全部记录
+ * 每块单独读取、解码后上报进度，大数据集载入时界面保持响应
+ */
+export async function loadDatasetRecords(
+  id: string,
+  onProgress?: ChunkProgressCallback
+): Promise<InsuranceRecord[] | null> {
+  if (!isIndexedDBAvailable()) return null
+
+  try {
+    const db = await openDB()
+    const keys = await new Promise<IDBValidKey[]>((resolve, reject) => {
+      const tx = db.transaction(DATASET_CHUNK_STORE, 'readonly')
+      const req = tx.objectStore(DATASET_CHUNK_STORE).getAllKeys(chunkRange(id))
+
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    if (keys.length === 0) {
+      db.close()
+      return null
+    }
+    keys.sort(compareChunkKeys)
+
+    let records: InsuranceRecord[] = []
+    onProgress?.(0, keys.length)
+    for (let i = 0; i < keys.length; i++) {
+      const chunk = await new Promise<DatasetChunk | undefined>(
+        (resolve, reject) => {
+          const tx = db.transaction(DATASET_CHUNK_STORE, 'readonly')
+          const req = tx.objectStore(DATASET_CHUNK_STORE).get(keys[i])
+
+          req.onsuccess = () => resolve(req.result as DatasetChunk | undefined)
+          req.onerror = () => reject(req.error)
+        }
+      )
+      if (chunk) {
+        const bytes = await openBytes(chunk.data, chunk.encrypted)
+        records = records.concat(decodeChunk(bytes))
+      }
+      onProgress?.(i + 1, keys.length)
+      await yieldToMain()
+    }
+    db.close()
+    return records
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 读取数据集失败:', msg)
+    return null
+  }
+}
+
+/**
+ * 保存数据集
+ * 先逐块编码压缩（上报进度），再在同一事务中替换全部数据块并写入元数据
+ * @returns 成功时返回写入的元数据（含压缩后的存储字节数）
+ */
+export async function saveDataset(
+  meta: DatasetMeta,
+  data: InsuranceRecord[],
+  onProgress?: ChunkProgressCallback
+): Promise<{ success: boolean; meta?: DatasetMeta; error?: string }> {
+  if (!isIndexedDBAvailable())
+    return { success: false, error: 'IndexedDB 不可用' }
+
+  try {
+    const groups = Array.from(splitIntoChunks(data).entries())
+    const chunks: DatasetChunk[] = []
+    onProgress?.(0, groups.length)
+    for (let i = 0; i < groups.length; i++) {
+      const [key, records] = groups[i]
+      const sealed = await sealBytes(encodeChunk(records))
+      chunks.push({
+        datasetId: meta.id,
+        key,
+        rowCount: records.length,
+        data: sealed.data,
+        encrypted: sealed.encrypted,
+      })
+      onProgress?.(i + 1, groups.length)
+      await yieldToMain()
+    }
+    const savedMeta: DatasetMeta = {
+      ...meta,
+      chunkCount: chunks.length,
+      storedBytes: getStoredBytes(chunks),
+    }
+
+    const db = await openDB()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(
+        [DATASET_META_STORE, DATASET_CHUNK_STORE],
+        'readwrite'
+      )
+      const chunkStore = tx.objectStore(DATASET_CHUNK_STORE)
+      chunkStore.delete(chunkRange(meta.id))
+      chunks.forEach(chunk => chunkStore.put(chunk))
+      tx.objectStore(DATASET_META_STORE).put(savedMeta)
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    db.close()
+    return { success: true, meta: savedMeta }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 保存数据集失败:', msg)
+    return { success: false, error: msg }
+  }
+}
+
+/**
+ * 仅更新数据集元数据（重命名等）
+ */
+export async function updateDatasetMeta(
+  meta: DatasetMeta
 ): Promise<{ success: boolean; error?: string }> {
   if (!isIndexedDBAvailable())
     return { success: false, error: 'IndexedDB 不可用' }
@@ -43,9 +362,8 @@ export async function saveRawData(
   try {
     const db = await openDB()
     await new Promise<void>((resolve, reject) => {
-      const tx = db.transaction(RAW_STORE, 'readwrite')
-      const store = tx.objectStore(RAW_STORE)
-      const req = store.put(data, RAW_KEY)
+      const tx = db.transaction(DATASET_META_STORE, 'readwrite')
+      const req = tx.objectStore(DATASET_META_STORE).put(meta)
 
       req.onsuccess = () => resolve()
       req.onerror = () => reject(req.error)
@@ -54,49 +372,310 @@ export async function saveRawData(
     return { success: true }
   } catch (error) {
     const msg = error instanceof Error ? error.message : '未知错误'
-    console.warn('[IndexedDB] 保存原始数据失败:', msg)
+    console.warn('[IndexedDB] 更新数据集信息失败:', msg)
+    return { success: false, error: msg }
+  }
+}
+
+/**
+ * 删除数据集（元数据及全部数据块）
+ */
+export async function deleteDataset(id: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+  try {
+    const db = await openDB()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(
+        [DATASET_META_STORE, DATASET_CHUNK_STORE],
+        'readwrite'
+      )
+      tx.objectStore(DATASET_META_STORE).delete(id)
+      tx.objectStore(DATASET_CHUNK_STORE).delete(chunkRange(id))
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    db.close()
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 删除数据集失败:', msg)
+  }
+}
+
+/**
+ * 浏览器为本站点统计的实际存储用量与配额（字节）
+ */
+export async function getStorageEstimate(): Promise<{
+  usage: number
+  quota: number
+} | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null
+  }
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 读取存储用量失败:', msg)
+    return null
+  }
+}
+
+// ============= 快照 =============
+
+/**
+ * 列出全部快照（按创建时间倒序）
+ */
+export async function listSnapshots(): Promise<SnapshotMeta[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  try {
+    const db = await openDB()
+    const result = await new Promise<SnapshotMeta[]>((resolve, reject) => {
+      const tx = db.transaction(SNAPSHOT_META_STORE, 'readonly')
+      const req = tx.objectStore(SNAPSHOT_META_STORE).getAll()
+
+      req.onsuccess = () => resolve((req.result as SnapshotMeta[]) || [])
+      req.onerror = () => reject(req.error)
+    })
+    db.close()
+    return result.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 读取快照列表失败:', msg)
+    return []
+  }
+}
+
+/**
+ * 保存快照：数据按周次逐块编码压缩后与元数据一并写入
+ * @returns 成功时返回写入的元数据（含压缩后的存储字节数）
+ */
+export async function saveSnapshot(
+  meta: SnapshotMeta,
+  data: InsuranceRecord[]
+): Promise<{ success: boolean; meta?: SnapshotMeta; error?: string }> {
+  if (!isIndexedDBAvailable())
+    return { success: false, error: 'IndexedDB 不可用' }
+
+  try {
+    const chunks: Uint8Array[] = []
+    let encrypted = false
+    for (const records of Array.from(splitIntoChunks(data).values())) {
+      const sealed = await sealBytes(encodeChunk(records))
+      chunks.push(sealed.data)
+      encrypted = sealed.encrypted
+      await yieldToMain()
+    }
+    const savedMeta: SnapshotMeta = {
+      ...meta,
+      storedBytes: chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0),
+      encrypted,
+    }
+
+    const db = await openDB()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(
+        [SNAPSHOT_META_STORE, SNAPSHOT_DATA_STORE],
+        'readwrite'
+      )
+      tx.objectStore(SNAPSHOT_DATA_STORE).put(chunks, meta.id)
+      tx.objectStore(SNAPSHOT_META_STORE).put(savedMeta)
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    db.close()
+    return { success: true, meta: savedMeta }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 保存快照失败:', msg)
     return { success: false, error: msg }
   }
 }
 
-export async function loadRawData(): Promise<InsuranceRecord[] | null> {
+/**
+ * 读取快照中的全部记录
+ */
+export async function loadSnapshotRecords(
+  meta: SnapshotMeta,
+  onProgress?: ChunkProgressCallback
+): Promise<InsuranceRecord[] | null> {
   if (!isIndexedDBAvailable()) return null
 
   try {
     const db = await openDB()
-    const result = await new Promise<InsuranceRecord[] | null>(
+    const chunks = await new Promise<Uint8Array[] | undefined>(
       (resolve, reject) => {
-        const tx = db.transaction(RAW_STORE, 'readonly')
-        const store = tx.objectStore(RAW_STORE)
-        const req = store.get(RAW_KEY)
+        const tx = db.transaction(SNAPSHOT_DATA_STORE, 'readonly')
+        const req = tx.objectStore(SNAPSHOT_DATA_STORE).get(meta.id)
 
-        req.onsuccess = () => resolve((req.result as InsuranceRecord[]) || null)
+        req.onsuccess = () => resolve(req.result as Uint8Array[] | undefined)
         req.onerror = () => reject(req.error)
       }
     )
     db.close()
-    return result
+    if (!chunks) return null
+
+    let records: InsuranceRecord[] = []
+    onProgress?.(0, chunks.length)
+    for (let i = 0; i < chunks.length; i++) {
+      const bytes = await openBytes(chunks[i], meta.encrypted)
+      records = records.concat(decodeChunk(bytes))
+      onProgress?.(i + 1, chunks.length)
+      await yieldToMain()
+    }
+    return records
   } catch (error) {
     const msg = error instanceof Error ? error.message : '未知错误'
-    console.warn('[IndexedDB] 读取原始数据失败:', msg)
+    console.warn('[IndexedDB] 读取快照失败:', msg)
     return null
   }
 }
 
-export async function clearRawData(): Promise<void> {
+/**
+ * 删除指定快照
+ */
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  if (!isIndexedDBAvailable() || ids.length === 0) return
+  try {
+    const db = await openDB()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(
+        [SNAPSHOT_META_STORE, SNAPSHOT_DATA_STORE],
+        'readwrite'
+      )
+      ids.forEach(id => {
+        tx.objectStore(SNAPSHOT_META_STORE).delete(id)
+        tx.objectStore(SNAPSHOT_DATA_STORE).delete(id)
+      })
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    db.close()
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 删除快照失败:', msg)
+  }
+}
+
+// ============= 隔离区 =============
+
+/**
+ * 写入（或更新）隔离区中的行
+ */
+export async function saveQuarantinedRows(
+  rows: QuarantinedRow[]
+): Promise<{ success: boolean; error?: string }> {
+  if (!isIndexedDBAvailable())
+    return { success: false, error: 'IndexedDB 不可用' }
+  if (rows.length === 0) return { success: true }
+
+  try {
+    // 拒绝行含有与数据集相同的保费、赔款数据，与数据块一样加密保存
+    const sealedRows: StoredQuarantinedRow[] = []
+    for (const row of rows) {
+      const sealed = await sealBytes(strToU8(JSON.stringify(row)))
+      sealedRows.push({
+        id: row.id,
+        payload: sealed.data,
+        encrypted: sealed.encrypted,
+      })
+    }
+
+    const db = await openDB()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(QUARANTINE_STORE, 'readwrite')
+      const store = tx.objectStore(QUARANTINE_STORE)
+      sealedRows.forEach(row => store.put(row))
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    db.close()
+    return { success: true }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 保存隔离区数据失败:', msg)
+    return { success: false, error: msg }
+  }
+}
+
+/**
+ * 读取隔离区全部行
+ */
+export async function loadQuarantinedRows(): Promise<QuarantinedRow[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  try {
+    const db = await openDB()
+    const stored = await new Promise<
+      Array<StoredQuarantinedRow | QuarantinedRow>
+    >((resolve, reject) => {
+      const tx = db.transaction(QUARANTINE_STORE, 'readonly')
+      const store = tx.objectStore(QUARANTINE_STORE)
+      const req = store.getAll()
+
+      req.onsuccess = () => resolve(req.result || [])
+      req.onerror = () => reject(req.error)
+    })
+    db.close()
+
+    const rows: QuarantinedRow[] = []
+    for (const entry of stored) {
+      if (!isSealedQuarantinedRow(entry)) {
+        rows.push(entry)
+        continue
+      }
+      const bytes = await openBytes(entry.payload, entry.encrypted)
+      rows.push(JSON.parse(strFromU8(bytes)) as QuarantinedRow)
+    }
+    return rows
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 读取隔离区数据失败:', msg)
+    return []
+  }
+}
+
+/**
+ * 从隔离区删除指定行
+ */
+export async function deleteQuarantinedRows(ids: string[]): Promise<void> {
+  if (!isIndexedDBAvailable() || ids.length === 0) return
+  try {
+    const db = await openDB()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(QUARANTINE_STORE, 'readwrite')
+      const store = tx.objectStore(QUARANTINE_STORE)
+      ids.forEach(id => store.delete(id))
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+    db.close()
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    console.warn('[IndexedDB] 删除隔离区数据失败:', msg)
+  }
+}
+
+/**
+ * 清空隔离区
+ */
+export async function clearQuarantine(): Promise<void> {
   if (!isIndexedDBAvailable()) return
   try {
     const db = await openDB()
     await new Promise<void>((resolve, reject) => {
-      const tx = db.transaction(RAW_STORE, 'readwrite')
-      const store = tx.objectStore(RAW_STORE)
-      const req = store.delete(RAW_KEY)
+      const tx = db.transaction(QUARANTINE_STORE, 'readwrite')
+      const store = tx.objectStore(QUARANTINE_STORE)
+      const req = store.clear()
       req.onsuccess = () => resolve()
       req.onerror = () => reject(req.error)
     })
     db.close()
   } catch (error) {
     const msg = error instanceof Error ? error.message : '未知错误'
-    console.warn('[IndexedDB] 清除原始数据失败:', msg)
+    console.warn('[IndexedDB] 清空隔离区失败:', msg)
   }
 }
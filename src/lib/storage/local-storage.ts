@@ -6,10 +6,11 @@
 const STORAGE_PREFIX = 'insurance_analytics_'
 const MAX_STORAGE_SIZE = 500 * 1024 * 1024 // 提升到500MB支持大数据量存储
 
-interface StorageItem<T> {
+export interface StorageItem<T> {
   value: T
   timestamp: number
   expiry?: number // 过期时间(毫秒)
+  schemaVersion?: number // 数据结构版本（由 versioned-storage 写入）
 }
 
 /**
@@ -20,6 +21,16 @@ export const StorageKeys = {
   FILTERS: `${STORAGE_PREFIX}filters`,
   USER_PREFERENCES: `${STORAGE_PREFIX}user_preferences`,
   LAST_UPLOAD_TIME: `${STORAGE_PREFIX}last_upload_time`,
+  COLUMN_MAPPING_PROFILES: `${STORAGE_PREFIX}column_mapping_profiles`,
+  BUSINESS_RULES: `${STORAGE_PREFIX}business_rules`,
+  ENUM_ALIASES: `${STORAGE_PREFIX}enum_aliases`,
+  ACTIVE_DATASET_ID: `${STORAGE_PREFIX}active_dataset_id`,
+  SNAPSHOT_SETTINGS: `${STORAGE_PREFIX}snapshot_settings`,
+  PREDICTION_DRAFT: `${STORAGE_PREFIX}prediction_draft`,
+  PREDICTION_SCENARIOS: `${STORAGE_PREFIX}prediction_scenarios`,
+  PERSISTENCE_LOG: `${STORAGE_PREFIX}persistence_log`,
+  PERSISTENCE_BACKUPS: `${STORAGE_PREFIX}persistence_backups`,
+  ENCRYPTION_CONFIG: `${STORAGE_PREFIX}encryption_config`,
 } as const
 
 /**
@@ -89,7 +100,8 @@ function clearExpiredData(): void {
 export function setStorageItem<T>(
   key: string,
   value: T,
-  expiryMs?: number
+  expiryMs?: number,
+  schemaVersion?: number
 ): { success: boolean; error?: string } {
   if (!isLocalStorageAvailable()) {
     return { success: false, error: 'LocalStorage 不可用' }
@@ -103,6 +115,7 @@ export function setStorageItem<T>(
       value,
       timestamp: Date.now(),
       expiry: expiryMs,
+      schemaVersion,
     }
 
     const serialized = JSON.stringify(item)
@@ -211,70 +224,6 @@ export function getStorageStats() {
   }
 }
 
-/**
- * 压缩大数据
- * 对于大型数组,可以考虑只存储摘要或采样数据
- */
-/**
- * 智能数据压缩函数 - 支持大数据量优化
- * 根据数据量自动选择压缩策略
- */
-export function compressLargeData<T>(data: T[], maxItems: number = 50000): T[] {
-  if (data.length <= maxItems) {
-    return data
-  }
-
-  // 对于超大数据集，使用分层采样策略
-  if (data.length > 100000) {
-    // 保留前10%、中间10%、后10%的数据，其余均匀采样
-    const tenPercent = Math.floor(data.length * 0.1)
-    const frontPart = data.slice(0, tenPercent)
-    const middleStart = Math.floor(data.length * 0.45)
-    const middlePart = data.slice(middleStart, middleStart + tenPercent)
-    const backPart = data.slice(-tenPercent)
-
-    // 剩余空间用于均匀采样
-    const remainingSlots =
-      maxItems - frontPart.length - middlePart.length - backPart.length
-    const samplingData = data
-      .slice(tenPercent, middleStart)
-      .concat(data.slice(middleStart + tenPercent, -tenPercent))
-
-    const step = Math.ceil(samplingData.length / remainingSlots)
-    const sampledData: T[] = []
-    for (
-      let i = 0;
-      i < samplingData.length && sampledData.length < remainingSlots;
-      i += step
-    ) {
-      sampledData.push(samplingData[i])
-    }
-
-    const compressed = [
-      ...frontPart,
-      ...sampledData,
-      ...middlePart,
-      ...backPart,
-    ]
-    console.warn(
-      `[Storage] 大数据集分层压缩: ${data.length} → ${compressed.length} (保留关键数据段)`
-    )
-    return compressed
-  }
-
-  // 标准均匀采样
-  const step = Math.ceil(data.length / maxItems)
-  const compressed: T[] = []
-  for (let i = 0; i < data.length; i += step) {
-    compressed.push(data[i])
-  }
-
-  console.warn(
-    `[Storage] 数据已压缩: ${data.length} → ${compressed.length} (采样率: ${step})`
-  )
-  return compressed
-}
-
 /**
  * 数据持久化 Hook 辅助
  * 在 Zustand store 中使用
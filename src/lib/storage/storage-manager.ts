@@ -0,0 +1,114 @@
+/**
+ * 存储管理
+ * 按类别汇总 IndexedDB 与 localStorage 中的占用，结合浏览器配额给出预警；
+ * 空间不足时由用户选择清理哪些内容，不再自动截断或采样数据
+ */
+
+import { StorageKeys } from './local-storage'
+
+export type StorageCategory =
+  | 'datasets'
+  | 'snapshots'
+  | 'quarantine'
+  | 'targets'
+  | 'presets'
+  | 'caches'
+  | 'settings'
+
+export const STORAGE_CATEGORY_LABELS: Record<StorageCategory, string> = {
+  datasets: '数据集',
+  snapshots: '历史快照',
+  quarantine: '隔离区',
+  targets: '保费目标',
+  presets: '筛选预设',
+  caches: '缓存',
+  settings: '设置',
+}
+
+/**
+ * 可整体清除的类别；数据集与快照逐项选择清理，
+ * 设置（含加密配置、映射方案等）清除后可能导致数据无法读取或导入行为改变，不提供清理
+ */
+export type BulkPurgeCategory = 'quarantine' | 'targets' | 'presets' | 'caches'
+
+export const BULK_PURGE_CATEGORIES: BulkPurgeCategory[] = [
+  'quarantine',
+  'targets',
+  'presets',
+  'caches',
+]
+
+/**
+ * 可随时清除、下次使用时自动重建的 localStorage 项
+ */
+export const CACHE_STORAGE_KEYS = [
+  StorageKeys.RAW_DATA,
+  StorageKeys.FILTERS,
+  StorageKeys.LAST_UPLOAD_TIME,
+]
+
+// 浏览器通常为每个站点的 localStorage 提供约 5MB
+export const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024
+
+// 占用达到配额的该比例时预警
+export const QUOTA_WARNING_RATIO = 0.8
+
+export interface StorageCategoryUsage {
+  category: StorageCategory
+  location: 'indexeddb' | 'localstorage'
+  bytes: number
+  itemCount: number
+}
+
+export interface StorageUsageReport {
+  categories: StorageCategoryUsage[]
+  localStorageBytes: number // 本应用 localStorage 项合计
+  estimate: { usage: number; quota: number } | null // 浏览器统计的站点总用量与配额
+  checkedAt: string
+}
+
+/**
+ * 统计 localStorage 中指定键的占用（UTF-16 每字符 2 字节）
+ */
+export function measureLocalStorageKeys(keys: string[]): {
+  bytes: number
+  itemCount: number
+} {
+  let bytes = 0
+  let itemCount = 0
+  if (typeof localStorage === 'undefined') return { bytes, itemCount }
+
+  keys.forEach(key => {
+    const value = localStorage.getItem(key)
+    if (value === null) return
+    bytes += (key.length + value.length) * 2
+    itemCount++
+  })
+  return { bytes, itemCount }
+}
+
+/**
+ * 根据用量报告生成配额预警
+ */
+export function getQuotaWarnings(report: StorageUsageReport): string[] {
+  const warnings: string[] = []
+  const { estimate, localStorageBytes } = report
+
+  if (estimate && estimate.quota > 0) {
+    const ratio = estimate.usage / estimate.quota
+    if (ratio >= QUOTA_WARNING_RATIO) {
+      warnings.push(
+        `浏览器存储已使用 ${Math.round(ratio * 100)}%，继续保存数据集或快照可能失败`
+      )
+    }
+  }
+
+  const localRatio = localStorageBytes / LOCAL_STORAGE_QUOTA
+  if (localRatio >= QUOTA_WARNING_RATIO) {
+    warnings.push(
+      `localStorage 已使用约 ${Math.round(localRatio * 100)}%，保费目标、预设和设置可能无法保存`
+    )
+  }
+
+  return warnings
+}
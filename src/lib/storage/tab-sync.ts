@@ -0,0 +1,101 @@
+/**
+ * 跨标签页同步
+ * 同一浏览器中打开多个看板标签页时保持状态一致：
+ * IndexedDB 中数据集的变化通过 BroadcastChannel 通知，
+ * localStorage 中的保费目标、筛选预设和设置借助浏览器原生的 storage 事件感知；
+ * 各项状态均以最后一次写入为准
+ */
+
+const TAB_SYNC_CHANNEL = 'insurance_analytics_sync'
+
+/**
+ * 数据集变化通知
+ */
+export interface DatasetChangeMessage {
+  type: 'dataset-changed'
+  change: 'saved' | 'renamed' | 'deleted'
+  datasetId: string
+  datasetName: string
+}
+
+let channel: BroadcastChannel | null = null
+
+/**
+ * 本标签页共用的频道实例（BroadcastChannel 不会把消息投递回发送它的实例，
+ * 因此本页发出的通知不会被本页收到）
+ */
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || !('BroadcastChannel' in window)) {
+    return null
+  }
+  if (!channel) channel = new BroadcastChannel(TAB_SYNC_CHANNEL)
+  return channel
+}
+
+/**
+ * 通知其他标签页：数据集已保存、重命名或删除
+ */
+export function broadcastDatasetChange(
+  change: DatasetChangeMessage['change'],
+  dataset: { id: string; name: string }
+): void {
+  const message: DatasetChangeMessage = {
+    type: 'dataset-changed',
+    change,
+    datasetId: dataset.id,
+    datasetName: dataset.name,
+  }
+  try {
+    getChannel()?.postMessage(message)
+  } catch (error) {
+    console.warn('[Tab Sync] 发送同步消息失败:', error)
+  }
+}
+
+/**
+ * 订阅其他标签页的数据集变化
+ * @returns 取消订阅函数
+ */
+export function subscribeDatasetChanges(
+  handler: (message: DatasetChangeMessage) => void
+): () => void {
+  const target = getChannel()
+  if (!target) return () => undefined
+
+  const listener = (event: MessageEvent<DatasetChangeMessage>) => {
+    if (event.data?.type === 'dataset-changed') handler(event.data)
+  }
+  target.addEventListener('message', listener)
+  return () => target.removeEventListener('message', listener)
+}
+
+/**
+ * 订阅其他标签页对指定 localStorage 键的写入
+ * @returns 取消订阅函数
+ */
+export function subscribeStorageChanges(
+  keys: string[],
+  handler: (key: string) => void
+): () => void {
+  if (typeof window === 'undefined') return () => undefined
+
+  const listener = (event: StorageEvent) => {
+    // key 为 null 表示其他标签页清空了 localStorage，视为全部键都已变化
+    if (event.key === null) {
+      keys.forEach(handler)
+    } else if (keys.includes(event.key)) {
+      handler(event.key)
+    }
+  }
+  window.addEventListener('storage', listener)
+  return () => window.removeEventListener('storage', listener)
+}
+
+/**
+ * 在本标签页内派发 storage 事件（浏览器只向其他标签页派发），
+ * 让本页订阅者感知在 Hook 之外对 localStorage 的修改
+ */
+export function notifyLocalStorageChange(key: string): void {
+  if (typeof window === 'undefined') return
+  window.dispatchEvent(new StorageEvent('storage', { key }))
+}
@@ -0,0 +1,444 @@
+/**
+ * 版本化持久化
+ * 每个保存在 localStorage 中的状态切片声明结构版本、按版本排列的迁移函数和校验 Schema：
+ * 读取时从存储的版本逐级迁移到当前版本并校验，迁移后立即写回；
+ * 无法解析、版本过新或校验失败的数据先备份原文再回退默认值，所有迁移与回退都记录在诊断日志中
+ */
+
+import type { z } from 'zod'
+import {
+  getStorageItem,
+  setStorageItem,
+  StorageKeys,
+  type StorageItem,
+} from './local-storage'
+import {
+  isEncryptedPayload,
+  isEncryptionEnabled,
+  openSecurePayload,
+  writeSecureItem,
+} from './encryption'
+
+/**
+ * 迁移函数：把上一版本的数据升级为本版本
+ */
+export type SliceMigration = (value: unknown) => unknown
+
+/**
+ * 持久化切片定义
+ */
+export interface PersistedSlice<T> {
+  id: string
+  label: string // 诊断界面显示的名称
+  key: string // localStorage 键
+  version: number // 当前结构版本（从 1 开始）
+  /**
+   * 引入版本号之前（版本 0）的存储格式：
+   * raw 为直接保存的 JSON，wrapped 为 setStorageItem 的 { value, timestamp } 包装
+   */
+  legacyFormat: 'raw' | 'wrapped'
+  /**
+   * 迁移函数，键为目标版本：migrations[1] 把版本 0 升级到 1，依此类推
+   */
+  migrations: Record<number, SliceMigration>
+  schema: z.ZodType
+  fallback: () => T
+  secure?: boolean // 启用加密时以密文保存
+  expiryMs?: number
+}
+
+/**
+ * 诊断日志条目
+ */
+export interface PersistenceLogEntry {
+  sliceId: string
+  label: string
+  fromVersion: number
+  toVersion: number
+  outcome: 'migrated' | 'reset' // reset: 数据不可用，已备份并回退默认值
+  reason?: string
+  at: string
+}
+
+/**
+ * 不可用数据的备份（每个切片保留最近一份）
+ */
+export interface PersistenceBackup {
+  sliceId: string
+  label: string
+  raw: string // 存储中的原文
+  reason: string
+  backedUpAt: string
+}
+
+const MAX_LOG_ENTRIES = 50
+
+/**
+ * 定义切片并检查迁移函数是否覆盖每个版本
+ */
+export function defineSlice<T>(slice: PersistedSlice<T>): PersistedSlice<T> {
+  for (let version = 1; version <= slice.version; version++) {
+    if (!slice.migrations[version]) {
+      throw new Error(`切片「${slice.id}」缺少升级到 v${version} 的迁移函数`)
+    }
+  }
+  return slice
+}
+
+function isVersionedItem(value: unknown): value is StorageItem<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'value' in value &&
+    typeof (value as StorageItem<unknown>).schemaVersion === 'number'
+  )
+}
+
+// ============= 诊断日志与备份 =============
+
+export function loadPersistenceLog(): PersistenceLogEntry[] {
+  return (
+    getStorageItem<PersistenceLogEntry[]>(StorageKeys.PERSISTENCE_LOG) ?? []
+  )
+}
+
+function appendPersistenceLog(entry: PersistenceLogEntry): void {
+  const log = [entry, ...loadPersistenceLog()].slice(0, MAX_LOG_ENTRIES)
+  setStorageItem(StorageKeys.PERSISTENCE_LOG, log)
+}
+
+export function clearPersistenceLog(): void {
+  setStorageItem(StorageKeys.PERSISTENCE_LOG, [])
+}
+
+export function loadPersistenceBackups(): Record<string, PersistenceBackup> {
+  return (
+    getStorageItem<Record<string, PersistenceBackup>>(
+      StorageKeys.PERSISTENCE_BACKUPS
+    ) ?? {}
+  )
+}
+
+export function deletePersistenceBackup(sliceId: string): void {
+  const backups = loadPersistenceBackups()
+  delete backups[sliceId]
+  setStorageItem(StorageKeys.PERSISTENCE_BACKUPS, backups)
+}
+
+/**
+ * 备份不可用的原文、删除存储项并记录日志
+ */
+function quarantineStoredValue<T>(
+  slice: PersistedSlice<T>,
+  raw: string,
+  fromVersion: number,
+  reason: string
+): void {
+  const backups = loadPersistenceBackups()
+  backups[slice.id] = {
+    sliceId: slice.id,
+    label: slice.label,
+    raw,
+    reason,
+    backedUpAt: new Date().toISOString(),
+  }
+  const saved = setStorageItem(StorageKeys.PERSISTENCE_BACKUPS, backups)
+  if (!saved.success) {
+    console.warn(`[Persistence] 「${slice.label}」备份失败: ${saved.error}`)
+  }
+  localStorage.removeItem(slice.key)
+  appendPersistenceLog({
+    sliceId: slice.id,
+    label: slice.label,
+    fromVersion,
+    toVersion: slice.version,
+    outcome: 'reset',
+    reason,
+    at: new Date().toISOString(),
+  })
+  console.warn(
+    `[Persistence] 「${slice.label}」无法读取，已备份并回退默认值:`,
+    reason
+  )
+}
+
+// ============= 解码与迁移 =============
+
+type DecodeResult<T> =
+  | { status: 'ok'; value: T; fromVersion: number }
+  | { status: 'expired' }
+  | { status: 'invalid'; fromVersion: number; reason: string }
+
+/**
+ * 识别存储格式与版本，逐级迁移并校验
+ */
+function decodeStoredValue<T>(
+  slice: PersistedSlice<T>,
+  parsed: unknown
+): DecodeResult<T> {
+  let fromVersion = 0
+  let value: unknown = parsed
+  let item: StorageItem<unknown> | null = null
+
+  if (isVersionedItem(parsed)) {
+    item = parsed
+    fromVersion = parsed.schemaVersion ?? 0
+    value = parsed.value
+  } else if (slice.legacyFormat === 'wrapped') {
+    if (typeof parsed !== 'object' || parsed === null || !('value' in parsed)) {
+      return { status: 'invalid', fromVersion, reason: '存储格式无法识别' }
+    }
+    item = parsed as StorageItem<unknown>
+    value = item.value
+  }
+
+  if (item?.expiry && Date.now() > item.timestamp + item.expiry) {
+    return { status: 'expired' }
+  }
+  if (fromVersion > slice.version) {
+    return {
+      status: 'invalid',
+      fromVersion,
+      reason: `数据版本 v${fromVersion} 高于当前支持的 v${slice.version}`,
+    }
+  }
+
+  try {
+    for (let version = fromVersion + 1; version <= slice.version; version++) {
+      value = slice.migrations[version](value)
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : '未知错误'
+    return { status: 'invalid', fromVersion, reason: `迁移失败: ${msg}` }
+  }
+
+  const result = slice.schema.safeParse(value)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue?.path.join('.') || '(根)'
+    return {
+      status: 'invalid',
+      fromVersion,
+      reason: `校验失败: ${path} ${issue?.message ?? ''}`.trim(),
+    }
+  }
+  return { status: 'ok', value: result.data as T, fromVersion }
+}
+
+/**
+ * 处理解码结果：不可用时备份并回退，迁移过的数据记录日志
+ * @returns 读取到的值，以及是否需要按当前版本写回
+ */
+function settleDecoded<T>(
+  slice: PersistedSlice<T>,
+  raw: string,
+  decoded: DecodeResult<T>
+): { value: T; migrated: boolean } {
+  if (decoded.status === 'expired') {
+    localStorage.removeItem(slice.key)
+    return { value: slice.fallback(), migrated: false }
+  }
+  if (decoded.status === 'invalid') {
+    quarantineStoredValue(slice, raw, decoded.fromVersion, decoded.reason)
+    return { value: slice.fallback(), migrated: false }
+  }
+  if (decoded.fromVersion === slice.version) {
+    return { value: decoded.value, migrated: false }
+  }
+
+  appendPersistenceLog({
+    sliceId: slice.id,
+    label: slice.label,
+    fromVersion: decoded.fromVersion,
+    toVersion: slice.version,
+    outcome: 'migrated',
+    at: new Date().toISOString(),
+  })
+  console.log(
+    `[Persistence] 「${slice.label}」已从 v${decoded.fromVersion} 迁移到 v${slice.version}`
+  )
+  return { value: decoded.value, migrated: true }
+}
+
+function parseStored(
+  raw: string
+): { ok: true; parsed: unknown } | { ok: false } {
+  try {
+    return { ok: true, parsed: JSON.parse(raw) as unknown }
+  } catch {
+    return { ok: false }
+  }
+}
+
+// ============= 读写 =============
+
+/**
+ * 同步读取切片（密文无法同步解密，返回默认值，需解锁后用 loadSecureSlice 读取）
+ */
+export function loadSlice<T>(slice: PersistedSlice<T>): T {
+  if (typeof localStorage === 'undefined') return slice.fallback()
+
+  const raw = localStorage.getItem(slice.key)
+  if (raw === null) return slice.fallback()
+
+  const stored = parseStored(raw)
+  if (!stored.ok) {
+    quarantineStoredValue(slice, raw, 0, 'JSON 解析失败')
+    return slice.fallback()
+  }
+  if (isEncryptedPayload(stored.parsed)) return slice.fallback()
+
+  const { value, migrated } = settleDecoded(
+    slice,
+    raw,
+    decodeStoredValue(slice, stored.parsed)
+  )
+  // 启用加密时 secure 切片不能同步写回明文，留待 loadSecureSlice 加密写回
+  if (migrated && !(slice.secure && isEncryptionEnabled())) {
+    saveSlice(slice, value)
+  }
+  return value
+}
+
+/**
+ * 读取切片，已加密的数据在解锁后解密（锁定时返回默认值）
+ */
+export async function loadSecureSlice<T>(slice: PersistedSlice<T>): Promise<T> {
+  if (typeof localStorage === 'undefined') return slice.fallback()
+
+  const raw = localStorage.getItem(slice.key)
+  if (raw === null) return slice.fallback()
+
+  const stored = parseStored(raw)
+  if (!stored.ok) {
+    quarantineStoredValue(slice, raw, 0, 'JSON 解析失败')
+    return slice.fallback()
+  }
+
+  let parsed = stored.parsed
+  if (isEncryptedPayload(parsed)) {
+    try {
+      parsed = await openSecurePayload(parsed)
+    } catch {
+      quarantineStoredValue(slice, raw, 0, '解密失败')
+      return slice.fallback()
+    }
+    if (parsed === null) return slice.fallback()
+  }
+
+  const { value, migrated } = settleDecoded(
+    slice,
+    raw,
+    decodeStoredValue(slice, parsed)
+  )
+  if (migrated) await saveSecureSlice(slice, value)
+  return value
+}
+
+/**
+ * 校验后写入明文切片
+ */
+export function saveSlice<T>(
+  slice: PersistedSlice<T>,
+  value: T
+): { success: boolean; error?: string } {
+  const result = slice.schema.safeParse(value)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return {
+      success: false,
+      error: `「${slice.label}」校验失败: ${issue?.path.join('.') ?? ''} ${issue?.message ?? ''}`,
+    }
+  }
+  return setStorageItem(slice.key, value, slice.expiryMs, slice.version)
+}
+
+/**
+ * 写入切片；secure 切片在启用加密时以密文保存
+ */
+export async function saveSecureSlice<T>(
+  slice: PersistedSlice<T>,
+  value: T
+): Promise<{ success: boolean; error?: string }> {
+  if (!slice.secure || !isEncryptionEnabled()) return saveSlice(slice, value)
+
+  const result = slice.schema.safeParse(value)
+  if (!result.success) {
+    return { success: false, error: `「${slice.label}」校验失败` }
+  }
+  try {
+    const item: StorageItem<T> = {
+      value,
+      timestamp: Date.now(),
+      expiry: slice.expiryMs,
+      schemaVersion: slice.version,
+    }
+    await writeSecureItem(slice.key, item)
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '保存失败',
+    }
+  }
+}
+
+/**
+ * 存储中是否已有该切片的数据
+ */
+export function hasStoredSlice<T>(slice: PersistedSlice<T>): boolean {
+  return (
+    typeof localStorage !== 'undefined' &&
+    localStorage.getItem(slice.key) !== null
+  )
+}
+
+// ============= 诊断 =============
+
+/**
+ * 切片当前状态
+ */
+export interface SliceDiagnostics {
+  sliceId: string
+  label: string
+  key: string
+  currentVersion: number
+  storedVersion: number | 'encrypted' | 'unreadable' | null // null 表示未保存
+  hasBackup: boolean
+}
+
+/**
+ * 读取各切片存储中的版本（不触发迁移）
+ */
+export function getSliceDiagnostics(
+  slices: PersistedSlice<unknown>[]
+): SliceDiagnostics[] {
+  const backups = loadPersistenceBackups()
+  return slices.map(slice => {
+    let storedVersion: SliceDiagnostics['storedVersion'] = null
+    const raw =
+      typeof localStorage !== 'undefined'
+        ? localStorage.getItem(slice.key)
+        : null
+    if (raw !== null) {
+      const stored = parseStored(raw)
+      if (!stored.ok) {
+        storedVersion = 'unreadable'
+      } else if (isEncryptedPayload(stored.parsed)) {
+        storedVersion = 'encrypted'
+      } else {
+        storedVersion = isVersionedItem(stored.parsed)
+          ? (stored.parsed.schemaVersion ?? 0)
+          : 0
+      }
+    }
+    return {
+      sliceId: slice.id,
+      label: slice.label,
+      key: slice.key,
+      currentVersion: slice.version,
+      storedVersion,
+      hasBackup: Boolean(backups[slice.id]),
+    }
+  })
+}
@@ -41,6 +41,41 @@ export function getWeekEndDate(year: number, weekNumber: number): Date {
   return weekEnd
 }
 
+/**
+ * 根据快照日期推算周序号（getWeekEndDate 的逆运算）
+ * 规则：快照取数于周六（含）之后，归属于截至快照日期最近一个已结束的周，
+ * 即 getWeekEndDate(year, N) <= 快照日期 < getWeekEndDate(year, N + 1)
+ *
+ * @param year 周序号的起算年份（保单年度）
+ * @param date 快照日期（YYYY-MM-DD 或 Date）
+ * @returns 周序号；日期无效或早于第1周结束日时返回 null
+ *
+ * @example
+ * getWeekNumberForDate(2025, '2025-10-18') => 42（周六）
+ * getWeekNumberForDate(2025, '2025-10-20') => 42（周一）
+ * getWeekNumberForDate(2024, '2025-07-13') => 80
+ */
+export function getWeekNumberForDate(
+  year: number,
+  date: string | Date
+): number | null {
+  let time: number
+  if (typeof date === 'string') {
+    const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (!match) return null
+    time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  } else {
+    time = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())
+  }
+  if (!Number.isFinite(time) || !Number.isInteger(year)) return null
+
+  const week1End = getWeekEndDate(year, 1).getTime()
+  const diffDays = Math.round((time - week1End) / (1000 * 60 * 60 * 24))
+  if (diffDays < 0) return null
+
+  return Math.floor(diffDays / 7) + 1
+}
+
 /**
  * 计算从年初到指定日期的天数
  * @param date 目标日期
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { makeRecord } from '@/test/fixtures'
+import {
+  applyCumulativeRepair,
+  checkCumulativeConsistency,
+} from '../cumulative-consistency'
+
+const week27 = makeRecord({ week_number: 27, signed_premium_yuan: 1000 })
+const week28 = makeRecord({ week_number: 28, signed_premium_yuan: 800 })
+const week29 = makeRecord({ week_number: 29, signed_premium_yuan: 1500 })
+
+describe('checkCumulativeConsistency', () => {
+  it('报告同一维度组合下相邻周次的累计值回退', () => {
+    const report = checkCumulativeConsistency([week27, week28, week29])
+
+    expect(report.checkedPairs).toBe(2)
+    expect(report.affectedRecords).toBe(1)
+    expect(report.regressions).toHaveLength(1)
+    expect(report.regressions[0]).toMatchObject({
+      week_number: 28,
+      previous_week_number: 27,
+      metric: 'signed_premium_yuan',
+      delta: -200,
+    })
+    expect(report.byOrganization).toEqual([
+      { label: '乐山', count: 1, premiumDelta: -200 },
+    ])
+  })
+
+  it('不同维度组合之间不做比较', () => {
+    const other = { ...week28, third_level_organization: '天府' }
+
+    expect(checkCumulativeConsistency([week27, other]).regressions).toEqual([])
+  })
+})
+
+describe('applyCumulativeRepair', () => {
+  it('exclude 模式剔除回退的周次记录', () => {
+    const { data, changedRecords } = applyCumulativeRepair(
+      [week27, week28, week29],
+      'exclude'
+    )
+
+    expect(data).toEqual([week27, week29])
+    expect(changedRecords).toBe(1)
+  })
+
+  it('clamp 模式将回退指标截断为前一周的累计值', () => {
+    const { data } = applyCumulativeRepair([week27, week28, week29], 'clamp')
+
+    expect(data.map(r => r.signed_premium_yuan)).toEqual([1000, 1000, 1500])
+    expect(checkCumulativeConsistency(data).regressions).toEqual([])
+  })
+})
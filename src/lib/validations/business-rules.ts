@@ -0,0 +1,352 @@
+/**
+ * 业务规则校验引擎
+ * 规则以数据形式声明（字段表达式、严重程度、提示信息），可在设置界面编辑并保存在本地；
+ * 导入时在 Zod 结构校验之后执行，error 级别的违规记录不进入数据集，warning/info 仅提示
+ */
+
+import { z } from 'zod'
+import type { InsuranceRecord } from '@/types/insurance'
+import { StorageKeys } from '@/lib/storage/local-storage'
+import {
+  defineSlice,
+  loadSlice,
+  saveSlice,
+} from '@/lib/storage/versioned-storage'
+
+/**
+ * 比较运算符
+ */
+export type RuleOperator =
+  | '<='
+  | '<'
+  | '>='
+  | '>'
+  | '=='
+  | '!='
+  | 'in'
+  | 'not_in'
+
+/**
+ * 比较对象：另一个字段（可乘系数）、常量或取值列表
+ */
+export type RuleOperand =
+  | { type: 'field'; field: string; multiplier?: number }
+  | { type: 'value'; value: string | number | boolean }
+  | { type: 'values'; values: Array<string | number | boolean> }
+
+/**
+ * 字段表达式：field operator operand
+ */
+export interface RuleExpression {
+  field: string
+  operator: RuleOperator
+  operand: RuleOperand
+}
+
+/**
+ * 业务规则
+ */
+export interface BusinessRule {
+  id: string
+  name: string
+  enabled: boolean
+  severity: 'error' | 'warning' | 'info'
+  message: string
+  when?: RuleExpression[] // 适用条件（全部满足时才校验）
+  check: RuleExpression // 必须成立的表达式
+  builtIn?: boolean // 内置规则（不可删除，可停用）
+}
+
+/**
+ * 规则违规
+ */
+export interface RuleViolation {
+  row: number // 1 起始，与文件数据行对应
+  ruleId: string
+  ruleName: string
+  field: string
+  severity: BusinessRule['severity']
+  message: string
+}
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  '<=': '≤',
+  '<': '<',
+  '>=': '≥',
+  '>': '>',
+  '==': '=',
+  '!=': '≠',
+  in: '属于',
+  not_in: '不属于',
+}
+
+/**
+ * 默认规则（原 Schema 中的硬编码规则与已放宽的规则均迁移至此）
+ */
+export const DEFAULT_BUSINESS_RULES: BusinessRule[] = [
+  {
+    id: 'matured_le_signed',
+    name: '满期保费不超过签单保费',
+    enabled: true,
+    severity: 'error',
+    message: '满期保费不能超过签单保费',
+    check: {
+      field: 'matured_premium_yuan',
+      operator: '<=',
+      operand: { type: 'field', field: 'signed_premium_yuan' },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'claims_le_policies_x3',
+    name: '赔案件数不超过保单件数的 3 倍',
+    enabled: true,
+    severity: 'warning',
+    message: '赔案件数超过保单件数的 3 倍',
+    check: {
+      field: 'claim_case_count',
+      operator: '<=',
+      operand: { type: 'field', field: 'policy_count', multiplier: 3 },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'compulsory_coverage',
+    name: '交强险险别组合',
+    enabled: true,
+    severity: 'warning',
+    message: '交强险记录的险别组合应为"单交"或"交三"',
+    when: [
+      {
+        field: 'insurance_type',
+        operator: '==',
+        operand: { type: 'value', value: '交强险' },
+      },
+    ],
+    check: {
+      field: 'coverage_type',
+      operator: 'in',
+      operand: { type: 'values', values: ['单交', '交三'] },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'commercial_before_discount_ge_signed',
+    name: '商业险折前保费不低于签单保费',
+    enabled: false,
+    severity: 'warning',
+    message: '商业险折前保费低于签单保费',
+    when: [
+      {
+        field: 'insurance_type',
+        operator: '==',
+        operand: { type: 'value', value: '商业险' },
+      },
+    ],
+    check: {
+      field: 'commercial_premium_before_discount_yuan',
+      operator: '>=',
+      operand: { type: 'field', field: 'signed_premium_yuan' },
+    },
+    builtIn: true,
+  },
+]
+
+function resolveOperand(
+  record: Record<string, unknown>,
+  operand: RuleOperand
+): unknown {
+  switch (operand.type) {
+    case 'field': {
+      const value = record[operand.field]
+      if (operand.multiplier === undefined) return value
+      return (Number(value) || 0) * operand.multiplier
+    }
+    case 'value':
+      return operand.value
+    case 'values':
+      return operand.values
+  }
+}
+
+function compare(
+  left: unknown,
+  operator: RuleOperator,
+  right: unknown
+): boolean {
+  switch (operator) {
+    case 'in':
+      return Array.isArray(right) && right.some(v => String(v) === String(left))
+    case 'not_in':
+      return (
+        Array.isArray(right) && !right.some(v => String(v) === String(left))
+      )
+    case '==':
+      return String(left) === String(right)
+    case '!=':
+      return String(left) !== String(right)
+  }
+
+  const l = Number(left)
+  const r = Number(right)
+  // 非数值不参与大小比较
+  if (!Number.isFinite(l) || !Number.isFinite(r)) return true
+  switch (operator) {
+    case '<=':
+      return l <= r
+    case '<':
+      return l < r
+    case '>=':
+      return l >= r
+    case '>':
+      return l > r
+  }
+}
+
+/**
+ * 计算表达式
+ */
+export function evaluateExpression(
+  record: Record<string, unknown>,
+  expression: RuleExpression
+): boolean {
+  return compare(
+    record[expression.field],
+    expression.operator,
+    resolveOperand(record, expression.operand)
+  )
+}
+
+/**
+ * 表达式的可读描述
+ */
+export function describeExpression(expression: RuleExpression): string {
+  const { operand } = expression
+  const right =
+    operand.type === 'field'
+      ? `${operand.field}${operand.multiplier !== undefined ? ` × ${operand.multiplier}` : ''}`
+      : operand.type === 'value'
+        ? String(operand.value)
+        : `[${operand.values.join(', ')}]`
+  return `${expression.field} ${RULE_OPERATOR_LABELS[expression.operator]} ${right}`
+}
+
+/**
+ * 对记录执行业务规则
+ * @param records 已通过结构校验的记录
+ * @param rowNumbers 每条记录对应的文件行号（默认按下标 + 1）
+ */
+export function evaluateBusinessRules(
+  records: InsuranceRecord[],
+  rules: BusinessRule[],
+  rowNumbers?: number[]
+): RuleViolation[] {
+  const activeRules = rules.filter(rule => rule.enabled)
+  if (activeRules.length === 0) return []
+
+  const violations: RuleViolation[] = []
+  records.forEach((record, index) => {
+    const row = record as unknown as Record<string, unknown>
+    activeRules.forEach(rule => {
+      if (
+        rule.when &&
+        !rule.when.every(cond => evaluateExpression(row, cond))
+      ) {
+        return
+      }
+      if (evaluateExpression(row, rule.check)) return
+
+      const actual = row[rule.check.field]
+      const expected = resolveOperand(row, rule.check.operand)
+      violations.push({
+        row: rowNumbers?.[index] ?? index + 1,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        field: rule.check.field,
+        severity: rule.severity,
+        message: `${rule.message}（${rule.check.field}=${String(actual)}，期望 ${RULE_OPERATOR_LABELS[rule.check.operator]} ${Array.isArray(expected) ? expected.join('/') : String(expected)}）`,
+      })
+    })
+  })
+
+  return violations
+}
+
+// ============= 规则持久化 =============
+
+const RuleScalarSchema = z.union([z.string(), z.number(), z.boolean()])
+
+const RuleExpressionSchema = z.object({
+  field: z.string(),
+  operator: z.enum(['<=', '<', '>=', '>', '==', '!=', 'in', 'not_in']),
+  operand: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('field'),
+      field: z.string(),
+      multiplier: z.number().optional(),
+    }),
+    z.object({ type: z.literal('value'), value: RuleScalarSchema }),
+    z.object({ type: z.literal('values'), values: z.array(RuleScalarSchema) }),
+  ]),
+})
+
+const BusinessRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  enabled: z.boolean(),
+  severity: z.enum(['error', 'warning', 'info']),
+  message: z.string(),
+  when: z.array(RuleExpressionSchema).optional(),
+  check: RuleExpressionSchema,
+  builtIn: z.boolean().optional(),
+})
+
+/**
+ * 业务规则持久化切片
+ * v1：引入版本号，结构不变
+ */
+export const businessRulesSlice = defineSlice<BusinessRule[] | null>({
+  id: 'businessRules',
+  label: '业务规则',
+  key: StorageKeys.BUSINESS_RULES,
+  version: 1,
+  legacyFormat: 'wrapped',
+  migrations: { 1: value => value },
+  schema: z.array(BusinessRuleSchema),
+  fallback: () => null,
+})
+
+/**
+ * 读取规则配置（未保存过时使用默认规则；新增的内置规则自动补充）
+ */
+export function loadBusinessRules(): BusinessRule[] {
+  const saved = loadSlice(businessRulesSlice)
+  if (!saved) {
+    return DEFAULT_BUSINESS_RULES.map(rule => ({ ...rule }))
+  }
+
+  const savedIds = new Set(saved.map(rule => rule.id))
+  return [
+    ...saved,
+    ...DEFAULT_BUSINESS_RULES.filter(rule => !savedIds.has(rule.id)),
+  ]
+}
+
+/**
+ * 保存规则配置
+ */
+export function saveBusinessRules(rules: BusinessRule[]): {
+  success: boolean
+  error?: string
+} {
+  return saveSlice(businessRulesSlice, rules)
+}
+
+/**
+ * 恢复默认规则
+ */
+export function resetBusinessRules(): BusinessRule[] {
+  const defaults = DEFAULT_BUSINESS_RULES.map(rule => ({ ...rule }))
+  saveBusinessRules(defaults)
+  return defaults
+}
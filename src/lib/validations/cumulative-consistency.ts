@@ -0,0 +1,264 @@
+/**
+ * 跨周累计一致性校验
+ * 源数据为「当周值」累计口径：同一维度组合下，签单保费、件数、赔款等指标
+ * 从第 N 周到下一周不应下降，否则周增量会出现负值
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import { getDimensionKey } from '@/lib/dataset/dataset-merge'
+
+/**
+ * 参与校验的累计指标（边际贡献额可为负、保费计划非累计，不参与）
+ */
+export const CUMULATIVE_METRICS = [
+  'signed_premium_yuan',
+  'matured_premium_yuan',
+  'policy_count',
+  'claim_case_count',
+  'reported_claim_payment_yuan',
+  'expense_amount_yuan',
+  'commercial_premium_before_discount_yuan',
+] as const
+
+export type CumulativeMetric = (typeof CUMULATIVE_METRICS)[number]
+
+export const CUMULATIVE_METRIC_LABELS: Record<CumulativeMetric, string> = {
+  signed_premium_yuan: '签单保费',
+  matured_premium_yuan: '满期保费',
+  policy_count: '保单件数',
+  claim_case_count: '赔案件数',
+  reported_claim_payment_yuan: '已报告赔款',
+  expense_amount_yuan: '费用金额',
+  commercial_premium_before_discount_yuan: '商业险折前保费',
+}
+
+/**
+ * 累计值回退（负增量）
+ */
+export interface CumulativeRegression {
+  dimensionKey: string
+  policy_start_year: number
+  week_number: number // 出现回退的周次
+  previous_week_number: number
+  third_level_organization: string
+  business_type_category: string
+  metric: CumulativeMetric
+  previousValue: number
+  currentValue: number
+  delta: number // 负数
+}
+
+/**
+ * 分组汇总
+ */
+export interface RegressionGroup {
+  label: string
+  count: number
+  premiumDelta: number // 签单保费回退合计（元，负数）
+}
+
+/**
+ * 校验报告
+ */
+export interface CumulativeConsistencyReport {
+  regressions: CumulativeRegression[]
+  checkedPairs: number // 比较过的相邻周次对数
+  affectedRecords: number // 出现回退的 (维度组合, 周次) 数
+  byOrganization: RegressionGroup[]
+  byBusinessType: RegressionGroup[]
+  byWeek: RegressionGroup[]
+}
+
+/**
+ * 回退处理方式
+ * - exclude: 剔除出现回退的周次记录
+ * - clamp: 将回退指标截断为前一周的累计值（周增量为 0）
+ */
+export type CumulativeRepairMode = 'exclude' | 'clamp'
+
+// 浮点误差容忍度
+const TOLERANCE = 0.01
+
+interface TupleWeek {
+  policy_start_year: number
+  week_number: number
+  indexes: number[]
+  totals: Record<CumulativeMetric, number>
+}
+
+/**
+ * 按 (保单年度, 维度组合) 分组，并按周次汇总累计指标
+ */
+function groupTupleWeeks(records: InsuranceRecord[]): Map<string, TupleWeek[]> {
+  const groups = new Map<string, Map<number, TupleWeek>>()
+
+  records.forEach((record, index) => {
+    const key = `${record.policy_start_year}|${getDimensionKey(record)}`
+    let weeks = groups.get(key)
+    if (!weeks) {
+      weeks = new Map()
+      groups.set(key, weeks)
+    }
+
+    let week = weeks.get(record.week_number)
+    if (!week) {
+      week = {
+        policy_start_year: record.policy_start_year,
+        week_number: record.week_number,
+        indexes: [],
+        totals: Object.fromEntries(
+          CUMULATIVE_METRICS.map(metric => [metric, 0])
+        ) as Record<CumulativeMetric, number>,
+      }
+      weeks.set(record.week_number, week)
+    }
+
+    week.indexes.push(index)
+    CUMULATIVE_METRICS.forEach(metric => {
+      week!.totals[metric] += Number(record[metric]) || 0
+    })
+  })
+
+  const sorted = new Map<string, TupleWeek[]>()
+  groups.forEach((weeks, key) => {
+    sorted.set(
+      key,
+      Array.from(weeks.values()).sort((a, b) => a.week_number - b.week_number)
+    )
+  })
+  return sorted
+}
+
+function summarize(
+  regressions: CumulativeRegression[],
+  getLabel: (r: CumulativeRegression) => string
+): RegressionGroup[] {
+  const groups = new Map<string, RegressionGroup>()
+  regressions.forEach(regression => {
+    const label = getLabel(regression)
+    const group = groups.get(label) ?? { label, count: 0, premiumDelta: 0 }
+    group.count++
+    if (regression.metric === 'signed_premium_yuan') {
+      group.premiumDelta += regression.delta
+    }
+    groups.set(label, group)
+  })
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count)
+}
+
+/**
+ * 校验跨周累计一致性
+ * 同一保单年度、同一维度组合下，逐对比较相邻的已上传周次
+ */
+export function checkCumulativeConsistency(
+  records: InsuranceRecord[]
+): CumulativeConsistencyReport {
+  const regressions: CumulativeRegression[] = []
+  const affected = new Set<string>()
+  let checkedPairs = 0
+
+  groupTupleWeeks(records).forEach((weeks, key) => {
+    for (let i = 1; i < weeks.length; i++) {
+      const previous = weeks[i - 1]
+      const current = weeks[i]
+      checkedPairs++
+
+      CUMULATIVE_METRICS.forEach(metric => {
+        const delta = current.totals[metric] - previous.totals[metric]
+        if (delta >= -TOLERANCE) return
+
+        const sample = records[current.indexes[0]]
+        regressions.push({
+          dimensionKey: key,
+          policy_start_year: current.policy_start_year,
+          week_number: current.week_number,
+          previous_week_number: previous.week_number,
+          third_level_organization: sample.third_level_organization,
+          business_type_category: sample.business_type_category,
+          metric,
+          previousValue: previous.totals[metric],
+          currentValue: current.totals[metric],
+          delta,
+        })
+        affected.add(`${key}|${current.week_number}`)
+      })
+    }
+  })
+
+  if (regressions.length > 0) {
+    console.warn(
+      `[Cumulative Check] 发现 ${regressions.length} 处累计值回退，涉及 ${affected.size} 个维度组合周次`
+    )
+  }
+
+  return {
+    regressions,
+    checkedPairs,
+    affectedRecords: affected.size,
+    byOrganization: summarize(regressions, r => r.third_level_organization),
+    byBusinessType: summarize(regressions, r => r.business_type_category),
+    byWeek: summarize(
+      regressions,
+      r => `${r.policy_start_year}年第${r.week_number}周`
+    ),
+  }
+}
+
+/**
+ * 处理累计值回退
+ * @returns 处理后的数据及被修改/剔除的记录数
+ */
+export function applyCumulativeRepair(
+  records: InsuranceRecord[],
+  mode: CumulativeRepairMode
+): { data: InsuranceRecord[]; changedRecords: number } {
+  const excluded = new Set<number>()
+  const adjusted = new Map<number, InsuranceRecord>()
+
+  groupTupleWeeks(records).forEach(weeks => {
+    // 截断模式下使用逐周的累计最大值，避免后续周次与已截断的值比较时再次回退
+    const running = { ...weeks[0].totals }
+
+    for (let i = 1; i < weeks.length; i++) {
+      const week = weeks[i]
+      const regressed = CUMULATIVE_METRICS.filter(
+        metric => week.totals[metric] - running[metric] < -TOLERANCE
+      )
+
+      if (regressed.length === 0) {
+        CUMULATIVE_METRICS.forEach(metric => {
+          running[metric] = week.totals[metric]
+        })
+        continue
+      }
+
+      if (mode === 'exclude') {
+        week.indexes.forEach(index => excluded.add(index))
+        continue
+      }
+
+      // 差额补在该周第一条记录上，使该维度组合的周合计等于前一周
+      const firstIndex = week.indexes[0]
+      const record = { ...(adjusted.get(firstIndex) ?? records[firstIndex]) }
+      CUMULATIVE_METRICS.forEach(metric => {
+        if (regressed.includes(metric)) {
+          record[metric] =
+            (Number(record[metric]) || 0) +
+            (running[metric] - week.totals[metric])
+        } else {
+          running[metric] = week.totals[metric]
+        }
+      })
+      adjusted.set(firstIndex, record)
+    }
+  })
+
+  const data = records
+    .map((record, index) => adjusted.get(index) ?? record)
+    .filter((_, index) => !excluded.has(index))
+
+  return {
+    data,
+    changedRecords: mode === 'exclude' ? excluded.size : adjusted.size,
+  }
+}
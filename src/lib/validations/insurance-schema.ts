@@ -186,14 +186,8 @@ export const InsuranceRecordSchema = z
 
     marginal_contribution_amount_yuan: z.number(), // 可为负数
   })
-  .refine(data => data.matured_premium_yuan <= data.signed_premium_yuan, {
-    message: '满期保费不能超过签单保费',
-    path: ['matured_premium_yuan'],
-  })
-// 取消以下规则以放宽上传校验：
-// - 赔案件数 ≤ 保单件数（业务场景下可能不成立）
-// - 商业险折前保费 ≥ 签单保费（现已不强制）
-// - 非营业个人客车评级不能为 X（现允许为 X）
+// 跨字段业务规则（满期保费 ≤ 签单保费、赔案件数与保单件数关系、交强险险别等）
+// 已迁移至可配置的业务规则引擎，见 ./business-rules.ts
 
 /**
  * 批量验证结果类型
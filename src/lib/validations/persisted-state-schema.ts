@@ -0,0 +1,74 @@
+/**
+ * 持久化状态验证 Schema
+ * 从 localStorage 读取筛选条件、保费目标等状态时校验结构，
+ * 不合格的数据由版本化持久化层备份后回退默认值
+ */
+
+import { z } from 'zod'
+
+/**
+ * 筛选条件 Schema
+ */
+export const FilterStateSchema = z.object({
+  viewMode: z.enum(['single', 'trend']),
+  dataViewType: z.enum(['current', 'increment']),
+  years: z.array(z.number()),
+  weeks: z.array(z.number()),
+  singleModeWeek: z.number().nullable(),
+  trendModeWeeks: z.array(z.number()),
+  organizations: z.array(z.string()),
+  insuranceTypes: z.array(z.string()),
+  businessTypes: z.array(z.string()),
+  coverageTypes: z.array(z.string()),
+  customerCategories: z.array(z.string()),
+  vehicleGrades: z.array(z.string()),
+  terminalSources: z.array(z.string()),
+  isNewEnergy: z.boolean().nullable(),
+  renewalStatuses: z.array(z.string()),
+})
+
+/**
+ * 筛选预设 Schema
+ */
+export const FilterPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  filters: FilterStateSchema,
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+  useCount: z.number().int().nonnegative(),
+})
+
+const TargetEntriesSchema = z.record(z.string(), z.number().nonnegative())
+
+const TargetVersionSnapshotSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  createdAt: z.string(),
+  overall: z.number().nonnegative(),
+  entries: TargetEntriesSchema,
+  note: z.string().optional(),
+})
+
+const DimensionTargetStateSchema = z.object({
+  entries: TargetEntriesSchema,
+  updatedAt: z.string().nullable(),
+  versions: z.array(TargetVersionSnapshotSchema),
+})
+
+/**
+ * 保费目标 Schema
+ */
+export const PremiumTargetsSchema = z.object({
+  year: z.number().int(),
+  overall: z.number().nonnegative(),
+  byBusinessType: TargetEntriesSchema,
+  dimensions: z.object({
+    businessType: DimensionTargetStateSchema,
+    thirdLevelOrganization: DimensionTargetStateSchema,
+    customerCategory: DimensionTargetStateSchema,
+    insuranceType: DimensionTargetStateSchema,
+  }),
+  updatedAt: z.string().nullable(),
+})
@@ -0,0 +1,136 @@
+/**
+ * 周历核对
+ * 按 getWeekEndDate 定义的周历规则，由快照日期推算周序号并与记录中的周序号比对，
+ * 标记周次标注错误的记录，避免数据落入错误的趋势周
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+import { getWeekNumberForDate } from '@/lib/utils/date-utils'
+
+/**
+ * 周序号与快照日期不符的记录分组（同一快照日期、保单年度、周序号）
+ */
+export interface WeekCalendarMismatch {
+  snapshot_date: string
+  policy_start_year: number
+  week_number: number
+  expectedWeek: number | null // 按周历推算的周序号，无法推算时为 null
+  count: number
+  rows: number[] // 源文件行号
+}
+
+/**
+ * 单个文件的周历核对结果
+ */
+export interface WeekCalendarReport {
+  checkedRows: number
+  derivedRows: number // 周序号缺失、由快照日期推导的行数
+  mismatchedRows: number
+  mismatches: WeekCalendarMismatch[]
+}
+
+/**
+ * 核对记录的周序号与快照日期
+ * @param rowNumbers 与 records 一一对应的源文件行号
+ * @param derivedRows 导入时由快照日期推导周序号的行数
+ */
+export function checkWeekCalendar(
+  records: InsuranceRecord[],
+  rowNumbers: number[],
+  derivedRows = 0
+): WeekCalendarReport {
+  const groups = new Map<string, WeekCalendarMismatch>()
+  let mismatchedRows = 0
+
+  records.forEach((record, index) => {
+    const expectedWeek = getWeekNumberForDate(
+      record.policy_start_year,
+      record.snapshot_date
+    )
+    if (expectedWeek === record.week_number) return
+
+    mismatchedRows++
+    const key = `${record.snapshot_date}|${record.policy_start_year}|${record.week_number}`
+    const group = groups.get(key)
+    if (group) {
+      group.count++
+      group.rows.push(rowNumbers[index])
+    } else {
+      groups.set(key, {
+        snapshot_date: record.snapshot_date,
+        policy_start_year: record.policy_start_year,
+        week_number: record.week_number,
+        expectedWeek,
+        count: 1,
+        rows: [rowNumbers[index]],
+      })
+    }
+  })
+
+  if (mismatchedRows > 0) {
+    console.warn(
+      `[Week Calendar] ${mismatchedRows} 行周序号与快照日期不符，涉及 ${groups.size} 组`
+    )
+  }
+
+  return {
+    checkedRows: records.length,
+    derivedRows,
+    mismatchedRows,
+    mismatches: Array.from(groups.values()).sort(
+      (a, b) =>
+        a.snapshot_date.localeCompare(b.snapshot_date) ||
+        a.week_number - b.week_number
+    ),
+  }
+}
+
+/**
+ * 合并分批核对的结果（列式文件按行组逐批校验）
+ * @param rowOffset 本批第一行之前已处理的行数，用于换算为源文件行号
+ */
+export function mergeWeekCalendarReports(
+  total: WeekCalendarReport,
+  batch: WeekCalendarReport,
+  rowOffset: number
+): WeekCalendarReport {
+  const groups = new Map(
+    total.mismatches.map(mismatch => [
+      `${mismatch.snapshot_date}|${mismatch.policy_start_year}|${mismatch.week_number}`,
+      mismatch,
+    ])
+  )
+  batch.mismatches.forEach(mismatch => {
+    const key = `${mismatch.snapshot_date}|${mismatch.policy_start_year}|${mismatch.week_number}`
+    const rows = mismatch.rows.map(row => row + rowOffset)
+    const group = groups.get(key)
+    if (group) {
+      group.count += mismatch.count
+      group.rows.push(...rows)
+    } else {
+      groups.set(key, { ...mismatch, rows })
+    }
+  })
+
+  return {
+    checkedRows: total.checkedRows + batch.checkedRows,
+    derivedRows: total.derivedRows + batch.derivedRows,
+    mismatchedRows: total.mismatchedRows + batch.mismatchedRows,
+    mismatches: Array.from(groups.values()).sort(
+      (a, b) =>
+        a.snapshot_date.localeCompare(b.snapshot_date) ||
+        a.week_number - b.week_number
+    ),
+  }
+}
+
+/**
+ * 周序号不符的提示信息
+ */
+export function describeWeekMismatch(
+  mismatch: Pick<WeekCalendarMismatch, 'snapshot_date' | 'expectedWeek'>
+): string {
+  return mismatch.expectedWeek === null
+    ? `快照日期 ${mismatch.snapshot_date} 早于保单年度第 1 周结束日，无法核对周序号`
+    : `按周历规则，快照日期 ${mismatch.snapshot_date} 对应第 ${mismatch.expectedWeek} 周`
+}
@@ -17,8 +17,17 @@ import type {
 } from '@/types/insurance'
 import { TARGET_DIMENSIONS } from '@/types/insurance'
 import { normalizeChineseText } from '@/lib/utils'
-
-const PREMIUM_TARGET_STORAGE_KEY = 'insurDashPremiumTargets'
+import type { DatasetMeta } from '@/lib/dataset/workspace'
+import { isEncryptionEnabled } from '@/lib/storage/encryption'
+import {
+  defineSlice,
+  loadSecureSlice,
+  loadSlice,
+  saveSecureSlice,
+} from '@/lib/storage/versioned-storage'
+import { PremiumTargetsSchema } from '@/lib/validations/persisted-state-schema'
+
+export const PREMIUM_TARGET_STORAGE_KEY = 'insurDashPremiumTargets'
 
 function createEmptyDimensionTargets(): DimensionTargetMap {
   return TARGET_DIMENSIONS.reduce((acc, key) => {
@@ -126,22 +135,61 @@ function upgradePremiumTargets(raw?: Partial<PremiumTargets>): PremiumTargets {
   }
 }
 
+/**
+ * 保费目标持久化切片
+ * v1：统一为多维度目标结构（旧版仅有 byBusinessType）
+ */
+export const premiumTargetsSlice = defineSlice<PremiumTargets>({
+  id: 'premiumTargets',
+  label: '保费目标',
+  key: PREMIUM_TARGET_STORAGE_KEY,
+  version: 1,
+  legacyFormat: 'raw',
+  migrations: {
+    1: value => upgradePremiumTargets(value as Partial<PremiumTargets>),
+  },
+  schema: PremiumTargetsSchema,
+  fallback: () => defaultPremiumTargets,
+  secure: true,
+})
+
+/**
+ * 同步读取保费目标（已加密的目标需解锁后经 loadPremiumTargets 异步读取）
+ */
 function loadPremiumTargetsFromStorage(): PremiumTargets {
   if (typeof window === 'undefined') {
     return defaultPremiumTargets
   }
+  return loadSlice(premiumTargetsSlice)
+}
 
-  try {
-    const stored = window.localStorage.getItem(PREMIUM_TARGET_STORAGE_KEY)
-    if (!stored) {
-      return defaultPremiumTargets
-    }
-    const parsed = JSON.parse(stored) as Partial<PremiumTargets>
-    return upgradePremiumTargets(parsed)
-  } catch (error) {
-    console.warn('[useAppStore] 读取保费目标数据失败，已回退默认值', error)
-    return defaultPremiumTargets
-  }
+/**
+ * 临时数据集（粘贴导入等）：替换当前视图但不持久化，退出后恢复原数据集
+ */
+export interface ScratchDataset {
+  label: string
+  loadedAt: string
+  previousData: InsuranceRecord[] // 载入临时数据前的数据集
+}
+
+/**
+ * 已提交（会持久化）的数据：处于临时数据集时为载入临时数据前的数据集
+ * 上传、合并等写入操作以此为基础，避免结果合并进临时数据、退出时被一并丢弃
+ */
+export function selectCommittedData(
+  state: Pick<AppState, 'rawData' | 'scratchDataset'>
+): InsuranceRecord[] {
+  return state.scratchDataset?.previousData ?? state.rawData
+}
+
+/**
+ * 数据集分块读写进度
+ */
+export interface PersistProgress {
+  phase: 'loading' | 'saving'
+  datasetName: string
+  done: number // 已处理的数据块数
+  total: number
 }
 
 /**
@@ -153,6 +201,16 @@ interface AppState {
   isLoading: boolean
   error: Error | null
   uploadProgress: number
+  scratchDataset: ScratchDataset | null
+
+  // ============= 命名数据集 =============
+  datasets: DatasetMeta[] // IndexedDB 中的数据集（按更新时间倒序）
+  activeDatasetId: string | null // 当前数据所属数据集，尚未保存时为 null
+  datasetSourceFiles: string[] // 当前数据集的来源文件
+  persistProgress: PersistProgress | null
+  encryptionLocked: boolean // 已启用加密且尚未解锁
+  storageWarning: string | null // 数据集保存失败提示
+  quotaWarning: string | null // 存储空间接近配额的预警（每次检查配额时更新）
 
   // ============= 筛选状态 =============
   filters: FilterState // 向后兼容的扁平筛选状态
@@ -174,6 +232,16 @@ interface AppState {
   // 数据操作
   setRawData: (data: InsuranceRecord[]) => void
   clearData: () => void
+  loadScratchData: (data: InsuranceRecord[], label: string) => void
+  exitScratchData: () => void
+  setDatasets: (datasets: DatasetMeta[]) => void
+  setActiveDatasetId: (id: string | null) => void
+  loadDataset: (meta: DatasetMeta, data: InsuranceRecord[]) => void
+  addDatasetSourceFiles: (files: string[]) => void
+  setPersistProgress: (progress: PersistProgress | null) => void
+  setEncryptionLocked: (locked: boolean) => void
+  setStorageWarning: (warning: string | null) => void
+  setQuotaWarning: (warning: string | null) => void
   setLoading: (loading: boolean) => void
   setError: (error: Error | null) => void
   setUploadProgress: (progress: number) => void
@@ -211,7 +279,7 @@ interface AppState {
 /**
  * 默认筛选器状态
  */
-const defaultFilters: FilterState = {
+export const defaultFilters: FilterState = {
   viewMode: 'single',
   dataViewType: 'current',
   years: [],
@@ -229,6 +297,19 @@ const defaultFilters: FilterState = {
   renewalStatuses: [],
 }
 
+/**
+ * 进入 Store 前做一遍中文文本规范化，避免后续对比出现乱码
+ */
+function normalizeRecords(data: InsuranceRecord[]): InsuranceRecord[] {
+  return data.map(r => ({
+    ...r,
+    customer_category_3: normalizeChineseText(r.customer_category_3),
+    business_type_category: normalizeChineseText(r.business_type_category),
+    third_level_organization: normalizeChineseText(r.third_level_organization),
+    terminal_source: normalizeChineseText(r.terminal_source),
+  }))
+}
+
 /**
  * 创建应用状态 Store
  */
@@ -240,6 +321,14 @@ export const useAppStore = create<AppState>()(
       isLoading: false,
       error: null,
       uploadProgress: 0,
+      scratchDataset: null,
+      datasets: [],
+      activeDatasetId: null,
+      datasetSourceFiles: [],
+      persistProgress: null,
+      encryptionLocked: isEncryptionEnabled(),
+      storageWarning: null,
+      quotaWarning: null,
       filters: defaultFilters,
       computedKPIs: new Map(),
       viewMode: 'single',
@@ -248,22 +337,13 @@ export const useAppStore = create<AppState>()(
       premiumTargets: loadPremiumTargetsFromStorage(),
 
       // ============= 数据操作 =============
+      // 写入的是要保存的数据，同时退出临时数据集，恢复自动保存
       setRawData: data =>
         set(
           () => ({
-            // 进入 Store 前做一遍中文文本规范化，避免后续对比出现乱码
-            rawData: data.map(r => ({
-              ...r,
-              customer_category_3: normalizeChineseText(r.customer_category_3),
-              business_type_category: normalizeChineseText(
-                r.business_type_category
-              ),
-              third_level_organization: normalizeChineseText(
-                r.third_level_organization
-              ),
-              terminal_source: normalizeChineseText(r.terminal_source),
-            })),
+            rawData: normalizeRecords(data),
             error: null,
+            scratchDataset: null,
           }),
           false,
           'setRawData'
@@ -275,11 +355,102 @@ export const useAppStore = create<AppState>()(
             rawData: [],
             computedKPIs: new Map(),
             error: null,
+            scratchDataset: null,
+            activeDatasetId: null,
+            datasetSourceFiles: [],
           },
           false,
           'clearData'
         ),
 
+      loadScratchData: (data, label) =>
+        set(
+          state => ({
+            rawData: normalizeRecords(data),
+            computedKPIs: new Map(),
+            error: null,
+            scratchDataset: {
+              label,
+              loadedAt: new Date().toISOString(),
+              // 已在临时数据集中时保留最初的数据集，退出时恢复
+              previousData: state.scratchDataset?.previousData ?? state.rawData,
+            },
+          }),
+          false,
+          'loadScratchData'
+        ),
+
+      exitScratchData: () =>
+        set(
+          state =>
+            state.scratchDataset
+              ? {
+                  rawData: state.scratchDataset.previousData,
+                  computedKPIs: new Map(),
+                  scratchDataset: null,
+                }
+              : {},
+          false,
+          'exitScratchData'
+        ),
+
+      setDatasets: datasets => set({ datasets }, false, 'setDatasets'),
+
+      setActiveDatasetId: id =>
+        set({ activeDatasetId: id }, false, 'setActiveDatasetId'),
+
+      loadDataset: (meta, data) =>
+        set(
+          {
+            rawData: normalizeRecords(data),
+            computedKPIs: new Map(),
+            error: null,
+            scratchDataset: null,
+            activeDatasetId: meta.id,
+            datasetSourceFiles: meta.sourceFiles,
+          },
+          false,
+          'loadDataset'
+        ),
+
+      addDatasetSourceFiles: files =>
+        set(
+          state => ({
+            datasetSourceFiles: Array.from(
+              new Set([...state.datasetSourceFiles, ...files])
+            ),
+          }),
+          false,
+          'addDatasetSourceFiles'
+        ),
+
+      setPersistProgress: progress =>
+        set({ persistProgress: progress }, false, 'setPersistProgress'),
+
+      setStorageWarning: warning =>
+        set({ storageWarning: warning }, false, 'setStorageWarning'),
+
+      setQuotaWarning: warning =>
+        set({ quotaWarning: warning }, false, 'setQuotaWarning'),
+
+      // 锁定时同时清空内存中的业务数据，解锁后重新从本地存储解密载入
+      setEncryptionLocked: locked =>
+        set(
+          locked
+            ? {
+                encryptionLocked: true,
+                rawData: [],
+                computedKPIs: new Map(),
+                scratchDataset: null,
+                activeDatasetId: null,
+                datasetSourceFiles: [],
+                premiumTargets: defaultPremiumTargets,
+              }
+            : { encryptionLocked: false },
+          false,
+          'setEncryptionLocked'
+        ),
+
       setLoading: loading =>
         set(
           {
@@ -441,10 +612,11 @@ export const useAppStore = create<AppState>()(
             }
 
             if (typeof window !== 'undefined') {
-              window.localStorage.setItem(
-                PREMIUM_TARGET_STORAGE_KEY,
-                JSON.stringify(nextTargets)
-              )
+              saveSecureSlice(premiumTargetsSlice, nextTargets).then(result => {
+                if (!result.success) {
+                  console.warn('[useAppStore] 保存保费目标失败', result.error)
+                }
+              })
             }
 
             return {
@@ -455,14 +627,14 @@ export const useAppStore = create<AppState>()(
           'setPremiumTargets'
         ),
 
-      loadPremiumTargets: () =>
-        set(
-          () => ({
-            premiumTargets: loadPremiumTargetsFromStorage(),
-          }),
-          false,
-          'loadPremiumTargets'
-        ),
+      loadPremiumTargets: () => {
+        if (typeof window === 'undefined') return
+        loadSecureSlice(premiumTargetsSlice)
+          .then(premiumTargets =>
+            set({ premiumTargets }, false, 'loadPremiumTargets')
+          )
+          .catch(error => console.warn('[useAppStore] 读取保费目标失败', error))
+      },
 
       // ============= 缓存操作 =============
       setKPICache: (key, result) =>
@@ -0,0 +1,38 @@
+/**
+ * 测试数据构造
+ */
+
+import type { InsuranceRecord } from '@/types/insurance'
+
+/**
+ * 构造一条保险记录，未指定的字段使用固定默认值
+ */
+export function makeRecord(
+  overrides: Partial<InsuranceRecord> = {}
+): InsuranceRecord {
+  return {
+    snapshot_date: '2025-07-13',
+    policy_start_year: 2025,
+    week_number: 28,
+    chengdu_branch: '中支',
+    third_level_organization: '乐山',
+    customer_category_3: '非营业个人客车',
+    insurance_type: '商业险',
+    business_type_category: '非营业客车新车',
+    coverage_type: '主全',
+    renewal_status: '新保',
+    is_new_energy_vehicle: false,
+    is_transferred_vehicle: false,
+    terminal_source: '0101柜面',
+    signed_premium_yuan: 1000,
+    matured_premium_yuan: 500,
+    policy_count: 2,
+    claim_case_count: 1,
+    reported_claim_payment_yuan: 200,
+    expense_amount_yuan: 100,
+    commercial_premium_before_discount_yuan: 1100,
+    premium_plan_yuan: null,
+    marginal_contribution_amount_yuan: 50,
+    ...overrides,
+  }
+}